@@ -10,8 +10,11 @@ import { SUMMARY_VIEW_TYPE } from "../views/summary-view";
 import { URL_SUMMARY_VIEW_TYPE } from "../views/url-summary-view";
 import { RAG_VIEW_TYPE } from "../views/rag-view";
 import { MCP_SEARCH_VIEW_TYPE } from "../views/mcp-search-view";
+import { USAGE_VIEW_TYPE } from "../views/usage-view";
+import { JOBS_VIEW_TYPE } from "../views/jobs-view";
+import { RELATED_NOTES_VIEW_TYPE } from "../views/related-notes-view";
 import { showError, showSuccess, showInfo } from "../utils/error-handler";
-import { MCPService } from "../services/mcp-service";
+import { createMCPService } from "../services/mcp-connection";
 
 export function registerCommands(plugin: KnowledgeConnectPlugin) {
 	// チャットViewを開く
@@ -220,8 +223,7 @@ export function registerCommands(plugin: KnowledgeConnectPlugin) {
 		id: "mcp-check-health",
 		name: "MCPサーバーの状態を確認",
 		callback: async () => {
-			const baseUrl = plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-			const mcpService = new MCPService(baseUrl);
+			const mcpService = createMCPService(plugin.app, plugin.settings, plugin.getRequestManager());
 			try {
 				const health = await mcpService.checkHealth();
 				if (health.healthy) {
@@ -231,13 +233,13 @@ export function registerCommands(plugin: KnowledgeConnectPlugin) {
 					);
 				} else {
 					showError(
-						`MCPサーバーに接続できません: ${health.status}`,
+						health.error || `MCPサーバーに接続できません: ${health.status}`,
 						plugin.settings.notificationSettings
 					);
 				}
 			} catch (error) {
 				showError(
-					error instanceof Error ? error.message : "MCPサーバーに接続できません",
+					error instanceof Error ? error : "MCPサーバーに接続できません",
 					plugin.settings.notificationSettings
 				);
 			}
@@ -249,8 +251,7 @@ export function registerCommands(plugin: KnowledgeConnectPlugin) {
 		id: "mcp-hello-world",
 		name: "MCPサーバー Hello World",
 		callback: async () => {
-			const baseUrl = plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-			const mcpService = new MCPService(baseUrl);
+			const mcpService = createMCPService(plugin.app, plugin.settings, plugin.getRequestManager());
 			try {
 				const result = await mcpService.getHelloWorld();
 				const message = `${result.message} (v${result.version}) - ${result.status}`;
@@ -258,7 +259,7 @@ export function registerCommands(plugin: KnowledgeConnectPlugin) {
 				console.log("[MCP] Hello World response:", result);
 			} catch (error) {
 				showError(
-					error instanceof Error ? error.message : "MCPサーバーへのリクエストが失敗しました",
+					error instanceof Error ? error : "MCPサーバーへのリクエストが失敗しました",
 					plugin.settings.notificationSettings
 				);
 			}
@@ -270,8 +271,7 @@ export function registerCommands(plugin: KnowledgeConnectPlugin) {
 		id: "mcp-create-index",
 		name: "MCP: インデックスを作成",
 		callback: async () => {
-			const baseUrl = plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-			const mcpService = new MCPService(baseUrl);
+			const mcpService = createMCPService(plugin.app, plugin.settings, plugin.getRequestManager());
 			try {
 				// バルトのパスを取得
 				const vaultPath = plugin.app.vault.adapter.basePath;
@@ -288,11 +288,14 @@ export function registerCommands(plugin: KnowledgeConnectPlugin) {
 				);
 				console.log("[MCP] Index creation started:", result);
 
-				// 進捗を監視（非同期、バックグラウンドで実行）
-				monitorJobProgress(plugin, mcpService, result.job_id);
+				// 進捗を監視（Viewを閉じた後やプラグインの再読み込み後も継続）
+				const jobMonitor = plugin.getJobMonitor();
+				if (jobMonitor) {
+					jobMonitor.watch(result.job_id);
+				}
 			} catch (error) {
 				showError(
-					error instanceof Error ? error.message : "インデックス作成に失敗しました",
+					error instanceof Error ? error : "インデックス作成に失敗しました",
 					plugin.settings.notificationSettings
 				);
 			}
@@ -319,6 +322,39 @@ export function registerCommands(plugin: KnowledgeConnectPlugin) {
 		},
 	});
 
+	// AI使用量ダッシュボードを開く
+	plugin.addCommand({
+		id: "open-usage-view",
+		name: "AI使用量ダッシュボードを開く",
+		callback: () => {
+			const existing = plugin.app.workspace.getLeavesOfType(USAGE_VIEW_TYPE);
+			if (existing.length > 0) {
+				plugin.app.workspace.revealLeaf(existing[0]);
+			} else {
+				// 表が横長になるためメインエリアのタブで開く
+				const leaf = plugin.app.workspace.getLeaf(true);
+				leaf.setViewState({
+					type: USAGE_VIEW_TYPE,
+					active: true,
+				});
+			}
+		},
+	});
+
+	// 実行中のリクエストをすべてキャンセル
+	plugin.addCommand({
+		id: "cancel-all-requests",
+		name: "実行中のAI・MCPリクエストをすべてキャンセル",
+		callback: () => {
+			const count = plugin.getRequestManager().cancelAll();
+			if (count > 0) {
+				showInfo(`${count}件のリクエストをキャンセルしました`, plugin.settings.notificationSettings);
+			} else {
+				showInfo("実行中のリクエストはありません", plugin.settings.notificationSettings);
+			}
+		},
+	});
+
 	// 全文検索（Viewを開いてから検索）
 	plugin.addCommand({
 		id: "mcp-search-documents",
@@ -349,8 +385,7 @@ export function registerCommands(plugin: KnowledgeConnectPlugin) {
 		id: "mcp-get-stats",
 		name: "MCP: 検索統計情報を表示",
 		callback: async () => {
-			const baseUrl = plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-			const mcpService = new MCPService(baseUrl);
+			const mcpService = createMCPService(plugin.app, plugin.settings, plugin.getRequestManager());
 			try {
 				const stats = await mcpService.getSearchStats();
 				const message = `インデックス済みドキュメント: ${stats.total_documents}件`;
@@ -358,94 +393,48 @@ export function registerCommands(plugin: KnowledgeConnectPlugin) {
 				console.log("[MCP] Search stats:", stats);
 			} catch (error) {
 				showError(
-					error instanceof Error ? error.message : "統計情報の取得に失敗しました",
+					error instanceof Error ? error : "統計情報の取得に失敗しました",
 					plugin.settings.notificationSettings
 				);
 			}
 		},
 	});
 
-	// ジョブ一覧を表示
+	// ジョブ一覧Viewを開く
 	plugin.addCommand({
 		id: "mcp-list-jobs",
 		name: "MCP: ジョブ一覧を表示",
-		callback: async () => {
-			const baseUrl = plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-			const mcpService = new MCPService(baseUrl);
-			try {
-				const jobs = await mcpService.getJobs(undefined, 20);
-				console.log("[MCP] Jobs:", jobs);
-
-				if (jobs.length === 0) {
-					showInfo("実行中のジョブはありません", plugin.settings.notificationSettings);
-					return;
-				}
-
-				// ジョブ情報をコンソールに出力（将来的にはモーダルで表示可能）
-				const jobInfo = jobs
-					.map(
-						(job) =>
-							`ジョブID: ${job.id}, タイプ: ${job.job_type}, ステータス: ${job.status}, 進捗: ${job.progress.current}/${job.progress.total}`
-					)
-					.join("\n");
-				console.log("[MCP] Job list:\n" + jobInfo);
-
-				showSuccess(
-					`${jobs.length}件のジョブが見つかりました（詳細はコンソールを確認）`,
-					plugin.settings.notificationSettings
-				);
-			} catch (error) {
-				showError(
-					error instanceof Error ? error.message : "ジョブ一覧の取得に失敗しました",
-					plugin.settings.notificationSettings
-				);
+		callback: () => {
+			const existing = plugin.app.workspace.getLeavesOfType(JOBS_VIEW_TYPE);
+			if (existing.length > 0) {
+				plugin.app.workspace.revealLeaf(existing[0]);
+			} else {
+				const leaf = plugin.app.workspace.getLeaf(true);
+				leaf.setViewState({
+					type: JOBS_VIEW_TYPE,
+					active: true,
+				});
 			}
 		},
 	});
-}
-
-/**
- * ジョブの進捗を監視（非同期、バックグラウンドで実行）
- */
-async function monitorJobProgress(
-	plugin: any,
-	mcpService: MCPService,
-	jobId: number
-): Promise<void> {
-	const checkInterval = setInterval(async () => {
-		try {
-			const job = await mcpService.getJobStatus(jobId);
-			const progress = job.progress;
 
-			if (job.status === "completed") {
-				clearInterval(checkInterval);
-				showSuccess(
-					`インデックス作成が完了しました（${progress.total}ファイル）`,
-					plugin.settings.notificationSettings
-				);
-			} else if (job.status === "failed") {
-				clearInterval(checkInterval);
-				showError(
-					`インデックス作成が失敗しました: ${job.error_message || "不明なエラー"}`,
-					plugin.settings.notificationSettings
-				);
-			} else if (job.status === "cancelled") {
-				clearInterval(checkInterval);
-				showInfo("インデックス作成がキャンセルされました", plugin.settings.notificationSettings);
-			} else if (job.status === "processing") {
-				console.log(
-					`[MCP] Job ${jobId} progress: ${progress.current}/${progress.total} (${progress.percentage}%) - ${progress.message}`
-				);
+	// 関連ノートViewを開く
+	plugin.addCommand({
+		id: "open-related-notes-view",
+		name: "関連ノートを表示",
+		callback: () => {
+			const existing = plugin.app.workspace.getLeavesOfType(RELATED_NOTES_VIEW_TYPE);
+			if (existing.length > 0) {
+				plugin.app.workspace.revealLeaf(existing[0]);
+			} else {
+				const leaf = plugin.app.workspace.getRightLeaf(false);
+				if (leaf) {
+					leaf.setViewState({
+						type: RELATED_NOTES_VIEW_TYPE,
+						active: true,
+					});
+				}
 			}
-		} catch (error) {
-			console.error("[MCP] Job progress check error:", error);
-			// エラーが発生しても監視を続行（サーバーが一時的に応答しない可能性があるため）
-		}
-	}, 2000); // 2秒ごとに確認
-
-	// 10分後にタイムアウト（監視を停止）
-	setTimeout(() => {
-		clearInterval(checkInterval);
-	}, 600000);
+		},
+	});
 }
-
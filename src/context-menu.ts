@@ -139,6 +139,7 @@ async function handleContextQuery(
 		// AIに問い合わせ
 		const prompt = `${promptPrefix}\n\n${selectedText}`;
 		const response = await aiService.chatCompletion({
+			feature: "context-menu",
 			messages: [
 				{
 					role: "system",
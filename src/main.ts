@@ -14,13 +14,31 @@ import { SummaryView, SUMMARY_VIEW_TYPE } from "./views/summary-view";
 import { UrlSummaryView, URL_SUMMARY_VIEW_TYPE } from "./views/url-summary-view";
 import { RAGView, RAG_VIEW_TYPE } from "./views/rag-view";
 import { MCPSearchView, MCP_SEARCH_VIEW_TYPE } from "./views/mcp-search-view";
+import { UsageView, USAGE_VIEW_TYPE } from "./views/usage-view";
+import { JobsView, JOBS_VIEW_TYPE } from "./views/jobs-view";
+import { RelatedNotesView, RELATED_NOTES_VIEW_TYPE } from "./views/related-notes-view";
 import { registerCommands } from "./commands";
 import { registerContextMenu } from "./context-menu";
 import { registerEditorSummarizeButton } from "./utils/editor-summarize-button";
 import { registerEditorTagButton } from "./utils/editor-tag-button";
 import { AutoTagService } from "./services/auto-tag-service";
 import { FileWatcher } from "./services/file-watcher";
-import { MCPService } from "./services/mcp-service";
+import { createMCPService, migrateLegacyMCPAuthHeaders } from "./services/mcp-connection";
+import { UsageLedgerService } from "./services/usage-ledger-service";
+import { UsageTrackingAIService } from "./services/usage-tracking-ai-service";
+import { FeatureRoutingAIService } from "./services/feature-routing-ai-service";
+import { ResponseCacheService } from "./services/response-cache-service";
+import { CachingAIService } from "./services/caching-ai-service";
+import { RequestManager } from "./services/request-manager";
+import { RequestTrackingAIService } from "./services/request-tracking-ai-service";
+import { RequestStatusBar } from "./utils/request-status-bar";
+import { LocalMCPServer, setLocalMCPServer } from "./services/local-mcp-server";
+import { MCPClientManager } from "./services/mcp-client-manager";
+import { VaultMCPServer } from "./services/vault-mcp-server";
+import { IndexSyncService } from "./services/index-sync-service";
+import { JobMonitorService } from "./services/job-monitor-service";
+import { LocalSearchService } from "./services/local-search-service";
+import { LocalVectorStore } from "./services/local-vector-store";
 import { TFile } from "obsidian";
 
 export default class KnowledgeConnectPlugin extends Plugin {
@@ -28,17 +46,54 @@ export default class KnowledgeConnectPlugin extends Plugin {
 	private aiService: AIService | null = null;
 	private autoTagService: AutoTagService | null = null;
 	private fileWatcher: FileWatcher | null = null;
+	private usageLedger: UsageLedgerService | null = null;
+	private responseCache: ResponseCacheService | null = null;
+	private mcpClientManager: MCPClientManager | null = null;
+	private vaultMCPServer: VaultMCPServer | null = null;
+	private indexSyncService: IndexSyncService | null = null;
+	private jobMonitor: JobMonitorService | null = null;
+	private localSearch: LocalSearchService | null = null;
+	private requestManager: RequestManager = new RequestManager();
+	private requestStatusBar: RequestStatusBar | null = null;
 
 	async onload() {
 		try {
 			await this.loadSettings();
 
+			// 使用量の記録を読み込み
+			this.usageLedger = new UsageLedgerService(this, this.settings);
+			await this.usageLedger.load();
+
+			// 応答キャッシュを読み込み
+			this.responseCache = new ResponseCacheService(this, this.settings);
+			await this.responseCache.load();
+
+			// 前回から実行中のMCPジョブの監視を再開
+			this.jobMonitor = new JobMonitorService(this, this.settings);
+			await this.jobMonitor.load();
+
+			// MCPサーバーに接続できない場合に使用するローカルインデックス（全文検索・ベクトル）を読み込み
+			const vectorStore = new LocalVectorStore(this, this.settings, this.usageLedger);
+			await vectorStore.load();
+			this.localSearch = new LocalSearchService(this, this.settings, vectorStore);
+			await this.localSearch.load();
+
+			// 外部MCPサーバーへの接続を管理（接続はツールの使用時に行う）
+			this.mcpClientManager = new MCPClientManager(this.app, this.settings);
+
 			// 設定タブを追加
 			this.addSettingTab(new KnowledgeConnectSettingTab(this.app, this));
 
+			// 実行中のリクエストをステータスバーに表示
+			this.requestStatusBar = new RequestStatusBar(this.addStatusBarItem(), this.requestManager);
+			this.requestStatusBar.start();
+
 			// AIサービスを初期化（エラーが発生してもプラグインは起動を続行）
 			this.initializeAIService();
 
+			// 開発用のローカルMCPサーバーを準備（MCPサーバーURLに local://mcp を指定した場合に使用）
+			setLocalMCPServer(new LocalMCPServer(this.app, () => this.aiService));
+
 			// Viewを登録
 			this.registerView(
 				CHAT_VIEW_TYPE,
@@ -60,6 +115,18 @@ export default class KnowledgeConnectPlugin extends Plugin {
 				MCP_SEARCH_VIEW_TYPE,
 				(leaf) => new MCPSearchView(leaf, this)
 			);
+			this.registerView(
+				USAGE_VIEW_TYPE,
+				(leaf) => new UsageView(leaf, this)
+			);
+			this.registerView(
+				JOBS_VIEW_TYPE,
+				(leaf) => new JobsView(leaf, this)
+			);
+			this.registerView(
+				RELATED_NOTES_VIEW_TYPE,
+				(leaf) => new RelatedNotesView(leaf, this)
+			);
 
 			// コマンドを登録
 			registerCommands(this);
@@ -73,9 +140,26 @@ export default class KnowledgeConnectPlugin extends Plugin {
 			// 自動タグ生成サービスを初期化
 			this.initializeAutoTagService();
 
+			// ファイルの変更をインデックスに反映するサービスを初期化
+			this.initializeIndexSyncService();
+
+			// 変更されたノートをローカルのベクトルインデックスにバックグラウンドで反映
+			this.initializeLocalVectorSync();
+
 			// エディタにタグ生成ボタンを追加
 			registerEditorTagButton(this);
 
+			// VaultをMCPサーバーとして公開（設定で有効な場合のみ、エラーが発生してもプラグインは起動を続行）
+			this.vaultMCPServer = new VaultMCPServer(
+				this.app,
+				this.settings,
+				() => this.autoTagService,
+				this.requestManager
+			);
+			this.vaultMCPServer.start().catch((error) => {
+				console.error("[Knowledge Connect] Vault MCPサーバーの起動に失敗しました:", error);
+			});
+
 			// MCPサーバーへの接続確認（非同期、エラーが発生してもプラグインは起動を続行）
 			this.checkMCPServerConnection();
 
@@ -88,7 +172,34 @@ export default class KnowledgeConnectPlugin extends Plugin {
 	}
 
 	onunload() {
+		// 実行中のリクエストを中断
+		this.requestManager.cancelAll();
+		if (this.requestStatusBar) {
+			this.requestStatusBar.stop();
+			this.requestStatusBar = null;
+		}
 		this.aiService = null;
+		setLocalMCPServer(null);
+		if (this.mcpClientManager) {
+			void this.mcpClientManager.closeAll();
+			this.mcpClientManager = null;
+		}
+		if (this.vaultMCPServer) {
+			void this.vaultMCPServer.stop();
+			this.vaultMCPServer = null;
+		}
+		if (this.jobMonitor) {
+			this.jobMonitor.stop();
+			this.jobMonitor = null;
+		}
+		if (this.indexSyncService) {
+			this.indexSyncService.stop();
+			this.indexSyncService = null;
+		}
+		const vectorStore = this.localSearch ? this.localSearch.getVectorStore() : null;
+		if (vectorStore) {
+			vectorStore.stop();
+		}
 		if (this.fileWatcher) {
 			this.fileWatcher.stop();
 			this.fileWatcher = null;
@@ -99,6 +210,10 @@ export default class KnowledgeConnectPlugin extends Plugin {
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// 以前のバージョンで設定に平文で保存していたAuthorizationヘッダーを、認証情報の保存先に移す
+		if (migrateLegacyMCPAuthHeaders(this.app, this.settings)) {
+			await this.saveData(this.settings);
+		}
 		// 設定読み込み後にAIサービスを再初期化
 		this.initializeAIService();
 		// 自動タグサービスの設定も更新
@@ -117,6 +232,22 @@ export default class KnowledgeConnectPlugin extends Plugin {
 			this.autoTagService.updateSettings(this.settings);
 			this.autoTagService.updateAIService(this.aiService);
 		}
+		// ジョブ監視の設定も更新（MCPサーバーURLの変更を反映）
+		if (this.jobMonitor) {
+			this.jobMonitor.updateSettings(this.settings);
+		}
+		// インデックス同期の設定も更新
+		if (this.indexSyncService) {
+			this.indexSyncService.updateSettings(this.settings);
+		}
+		// ローカルインデックスの設定も更新
+		if (this.localSearch) {
+			this.localSearch.updateSettings(this.settings);
+		}
+		// Vault MCPサーバーの設定も更新（有効・無効やポートの変更時は起動し直す）
+		if (this.vaultMCPServer) {
+			this.vaultMCPServer.updateSettings(this.settings);
+		}
 	}
 
 	/**
@@ -124,9 +255,32 @@ export default class KnowledgeConnectPlugin extends Plugin {
 	 * エラーが発生してもプラグインは正常に動作する（AIサービスはnullのまま）
 	 */
 	private initializeAIService(): void {
+		if (this.usageLedger) {
+			this.usageLedger.updateSettings(this.settings);
+		}
+		if (this.responseCache) {
+			this.responseCache.updateSettings(this.settings);
+		}
+		if (this.mcpClientManager) {
+			this.mcpClientManager.updateSettings(this.settings);
+		}
 		try {
 			if (AIServiceFactory.isServiceAvailable(this.settings)) {
-				this.aiService = AIServiceFactory.createService(this.settings);
+				// 機能ごとの割り当てに従って振り分けるラッパーを適用
+				const routedService = new FeatureRoutingAIService(
+					this.settings,
+					AIServiceFactory.createService(this.settings)
+				);
+				// 応答キャッシュを使用するラッパーを適用（キャッシュから返した応答は使用量に記録しない）
+				const service = this.responseCache
+					? new CachingAIService(routedService, this.responseCache, this.settings)
+					: routedService;
+				// 使用量の記録と予算チェックを行うラッパーを適用
+				const trackedService = this.usageLedger
+					? new UsageTrackingAIService(service, this.usageLedger, this.settings)
+					: service;
+				// 実行中のリクエストをキャンセルできるようにするラッパーを適用
+				this.aiService = new RequestTrackingAIService(trackedService, this.requestManager);
 				console.log(`[Knowledge Connect] AI Service initialized: ${this.aiService.getServiceName()}`);
 			} else {
 				this.aiService = null;
@@ -174,6 +328,30 @@ export default class KnowledgeConnectPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * インデックス同期サービスを初期化
+	 * ファイル変更監視はinitializeAutoTagServiceで開始したものを共有する
+	 */
+	private initializeIndexSyncService(): void {
+		if (!this.fileWatcher) {
+			return;
+		}
+		this.indexSyncService = new IndexSyncService(this.app, this.settings, this.requestManager);
+		this.fileWatcher.on(this.indexSyncService.handleFileChange);
+	}
+
+	/**
+	 * ローカルのベクトルインデックスのバックグラウンド更新を初期化
+	 * 検索時にはベクトル化しないため、ノートの変更後にまとめて反映する
+	 */
+	private initializeLocalVectorSync(): void {
+		const vectorStore = this.localSearch ? this.localSearch.getVectorStore() : null;
+		if (!this.fileWatcher || !vectorStore) {
+			return;
+		}
+		this.fileWatcher.on(vectorStore.handleFileChange);
+	}
+
 	/**
 	 * AIサービスインスタンスを取得
 	 */
@@ -189,11 +367,59 @@ export default class KnowledgeConnectPlugin extends Plugin {
 	}
 
 	/**
-	 * 検索サービスを取得
-	 * 注意: 現在は未実装のため、常にnullを返します
+	 * 検索サービス（MCPサーバーに接続できない場合に使用するローカルインデックス）を取得
+	 */
+	getSearchService(): LocalSearchService | null {
+		return this.localSearch;
+	}
+
+	/**
+	 * 使用量の記録サービスを取得
+	 */
+	getUsageLedger(): UsageLedgerService | null {
+		return this.usageLedger;
+	}
+
+	/**
+	 * 応答キャッシュサービスを取得
+	 */
+	getResponseCache(): ResponseCacheService | null {
+		return this.responseCache;
+	}
+
+	/**
+	 * 外部MCPサーバーの接続管理を取得
+	 */
+	getMCPClientManager(): MCPClientManager | null {
+		return this.mcpClientManager;
+	}
+
+	/**
+	 * リクエストマネージャーを取得
+	 */
+	getRequestManager(): RequestManager {
+		return this.requestManager;
+	}
+
+	/**
+	 * MCPジョブの監視サービスを取得
+	 */
+	getJobMonitor(): JobMonitorService | null {
+		return this.jobMonitor;
+	}
+
+	/**
+	 * インデックス同期サービスを取得
+	 */
+	getIndexSyncService(): IndexSyncService | null {
+		return this.indexSyncService;
+	}
+
+	/**
+	 * Vault MCPサーバーを取得
 	 */
-	getSearchService(): any {
-		return null;
+	getVaultMCPServer(): VaultMCPServer | null {
+		return this.vaultMCPServer;
 	}
 
 	/**
@@ -209,8 +435,7 @@ export default class KnowledgeConnectPlugin extends Plugin {
 	 */
 	private async checkMCPServerConnection(): Promise<void> {
 		try {
-			const baseUrl = this.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-			const mcpService = new MCPService(baseUrl);
+			const mcpService = createMCPService(this.app, this.settings, this.requestManager);
 			const health = await mcpService.checkHealth();
 			if (health.healthy) {
 				console.log(`[Knowledge Connect] MCPサーバーに接続しました: ${health.status}`);
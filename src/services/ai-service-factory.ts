@@ -4,22 +4,68 @@
  */
 
 import { AIService } from "./ai-service-interface";
-import { OpenRouterService } from "./openrouter-service";
-import { LiteLLMService } from "./litellm-service";
-import { KnowledgeConnectSettings } from "../types";
+import { OpenRouterService, OPENROUTER_DEFAULT_MODEL } from "./openrouter-service";
+import { LiteLLMService, LITELLM_DEFAULT_MODEL } from "./litellm-service";
+import { OpenAICompatibleService } from "./openai-compatible-service";
+import { OllamaService } from "./ollama-service";
+import { FallbackAIService } from "./fallback-ai-service";
+import { MockAIService } from "./mock-ai-service";
+import { AIService as AIServiceType, KnowledgeConnectSettings } from "../types";
 
 export class AIServiceFactory {
 	/**
 	 * 設定に基づいて適切なAIサービスインスタンスを作成
+	 * フォールバックチェーンが設定されている場合は、チェーン全体をまとめたサービスを返す
 	 */
 	static createService(settings: KnowledgeConnectSettings): AIService {
-		switch (settings.aiService) {
+		if (settings.aiFallbackChain && settings.aiFallbackChain.length > 0) {
+			// メイン以外のサービスには、メインのサービスのモデル（aiModel）ではなくそのサービスの既定モデルを使用させる
+			return new FallbackAIService(settings, (entry) =>
+				this.createProviderService(
+					{ ...settings, aiModel: this.getDefaultModel(settings, entry.service) },
+					entry.service
+				)
+			);
+		}
+		return this.createProviderService(settings, settings.aiService);
+	}
+
+	/**
+	 * 指定したプロバイダーのAIサービスインスタンスを作成
+	 */
+	static createProviderService(settings: KnowledgeConnectSettings, service: AIServiceType): AIService {
+		switch (service) {
 			case "openrouter":
 				return new OpenRouterService(settings);
 			case "litellm":
 				return new LiteLLMService(settings);
+			case "openai-compatible":
+				return new OpenAICompatibleService(settings);
+			case "ollama":
+				return new OllamaService(settings);
+			case "mock":
+				return new MockAIService(settings);
 			default:
-				throw new Error(`不明なAIサービス: ${settings.aiService}`);
+				throw new Error(`不明なAIサービス: ${service}`);
+		}
+	}
+
+	/**
+	 * サービスの既定モデルを取得
+	 * デフォルトAIモデル（aiModel）はメインのAIサービスのモデルのため、別のサービスにはサービスごとの既定値を返す
+	 * 既定値を持たないサービス（OpenAI互換・Ollama）は空文字を返す（モデルの指定が必要）
+	 */
+	static getDefaultModel(settings: KnowledgeConnectSettings, service: AIServiceType): string {
+		if (service === settings.aiService) {
+			return settings.aiModel;
+		}
+		switch (service) {
+			case "openrouter":
+				return OPENROUTER_DEFAULT_MODEL;
+			case "litellm":
+				return LITELLM_DEFAULT_MODEL;
+			default:
+				return "";
 		}
 	}
 
@@ -35,4 +81,3 @@ export class AIServiceFactory {
 		}
 	}
 }
-
@@ -3,9 +3,68 @@
  * AIサービスプロバイダーの共通インターフェース
  */
 
+import type { AIFeature } from "../types";
+
+/**
+ * メッセージの構成要素（テキストまたは画像）
+ */
+export type ChatContentPart =
+	| { type: "text"; text: string }
+	| { type: "image"; mimeType: string; data: string }; // dataはBase64（data:プレフィックスなし）
+
 export interface ChatMessage {
-	role: "system" | "user" | "assistant";
-	content: string;
+	role: "system" | "user" | "assistant" | "tool";
+	content: string | ChatContentPart[]; // 画像を含む場合は構成要素の配列
+	toolCalls?: ToolCall[]; // assistantがツールの呼び出しを要求した場合
+	toolCallId?: string; // toolメッセージが応答するツール呼び出しのID
+	name?: string; // toolメッセージのツール名
+}
+
+/**
+ * メッセージのテキスト部分のみを取得
+ */
+export function getMessageText(content: ChatMessage["content"]): string {
+	if (typeof content === "string") {
+		return content;
+	}
+	return content
+		.map((part) => (part.type === "text" ? part.text : ""))
+		.filter((text) => text !== "")
+		.join("\n");
+}
+
+/**
+ * メッセージに含まれる画像を取得
+ */
+export function getMessageImages(content: ChatMessage["content"]): Array<{ mimeType: string; data: string }> {
+	if (typeof content === "string") {
+		return [];
+	}
+	const images: Array<{ mimeType: string; data: string }> = [];
+	for (const part of content) {
+		if (part.type === "image") {
+			images.push({ mimeType: part.mimeType, data: part.data });
+		}
+	}
+	return images;
+}
+
+/**
+ * モデルが要求したツール呼び出し
+ */
+export interface ToolCall {
+	id: string;
+	name: string;
+	arguments: string; // JSON文字列
+}
+
+/**
+ * モデルに提供するツールの定義
+ */
+export interface ToolDefinition {
+	name: string;
+	description: string;
+	parameters: JSONSchema;
 }
 
 export interface ChatCompletionOptions {
@@ -13,11 +72,48 @@ export interface ChatCompletionOptions {
 	maxTokens?: number;
 	temperature?: number;
 	model?: string;
+	signal?: AbortSignal; // 呼び出し元からリクエストを中断するためのシグナル
+	feature?: AIFeature; // 呼び出し元の機能（使用量の集計に使用）
+	responseFormat?: ChatResponseFormat; // 応答をJSONで受け取る場合の形式
+	tools?: ToolDefinition[]; // モデルが呼び出せるツール
+	cache?: ResponseCacheMode; // 応答キャッシュの使用方法（未指定の場合はキャッシュしない）
 }
 
+/**
+ * 応答キャッシュの使用方法
+ * use: キャッシュがあれば使用し、なければ応答を保存する
+ * refresh: キャッシュを使用せずに再生成し、応答を保存し直す
+ */
+export type ResponseCacheMode = "use" | "refresh";
+
+/**
+ * 構造化出力で使用するJSON Schema（使用するキーワードのみ定義）
+ */
+export interface JSONSchema {
+	type?: "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+	description?: string;
+	properties?: Record<string, JSONSchema>;
+	required?: string[];
+	additionalProperties?: boolean;
+	items?: JSONSchema;
+	maxItems?: number;
+	maxLength?: number;
+	enum?: Array<string | number>;
+}
+
+/**
+ * 応答形式の指定
+ * json_objectは任意のJSON、json_schemaはスキーマに従ったJSONを要求する
+ */
+export type ChatResponseFormat =
+	| { type: "json_object" }
+	| { type: "json_schema"; name: string; schema: JSONSchema; strict?: boolean };
+
 export interface ChatCompletionResponse {
 	content: string;
 	model: string;
+	toolCalls?: ToolCall[]; // モデルがツールの呼び出しを要求した場合のみ設定
+	cached?: boolean; // 応答キャッシュから取得した場合true
 	usage?: {
 		promptTokens: number;
 		completionTokens: number;
@@ -25,12 +121,26 @@ export interface ChatCompletionResponse {
 	};
 }
 
+/**
+ * ストリーミング中に受信した差分テキストを受け取るコールバック
+ */
+export type ChatCompletionDeltaHandler = (delta: string) => void;
+
 export interface AIService {
 	/**
 	 * チャット補完を実行
 	 */
 	chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse>;
 
+	/**
+	 * チャット補完をストリーミングで実行
+	 * 受信した差分はonDeltaに逐次渡され、完了時に全文を含むレスポンスを返す
+	 */
+	chatCompletionStream(
+		options: ChatCompletionOptions,
+		onDelta: ChatCompletionDeltaHandler
+	): Promise<ChatCompletionResponse>;
+
 	/**
 	 * サービス名を取得
 	 */
@@ -40,5 +150,9 @@ export interface AIService {
 	 * APIキーが設定されているか確認
 	 */
 	isApiKeySet(): boolean;
-}
 
+	/**
+	 * 利用可能なモデルリストを取得（動的に取得できるサービスのみ実装）
+	 */
+	getModels?(): Promise<string[]>;
+}
@@ -7,6 +7,15 @@ import { TFile, App } from "obsidian";
 import type { KnowledgeConnectSettings } from "../types";
 import type { AIService } from "./ai-service-interface";
 import { showError, showInfo } from "../utils/error-handler";
+import { requestStructuredOutputWithCacheInfo, TAGS_FORMAT, type TagsResult } from "../utils/structured-output";
+
+/**
+ * タグ生成の結果
+ */
+export interface AutoTagResult {
+	tags: string[];
+	cached: boolean; // 応答キャッシュから取得した場合true
+}
 
 export class AutoTagService {
 	private app: App;
@@ -37,21 +46,27 @@ export class AutoTagService {
 	/**
 	 * ファイル変更時に自動タグを生成
 	 * @param force 既存タグがあっても強制的に生成するか（デフォルト: false）
+	 * @param refreshCache 応答キャッシュを使用せずに再生成するか（デフォルト: false）
+	 * @returns 生成したタグ（生成しなかった場合はnull）
 	 */
-	async handleFileModify(file: TFile, force: boolean = false): Promise<void> {
+	async handleFileModify(
+		file: TFile,
+		force: boolean = false,
+		refreshCache = false
+	): Promise<AutoTagResult | null> {
 		// Markdownファイルのみ処理
 		if (!file.path.endsWith(".md")) {
-			return;
+			return null;
 		}
 
 		// 既に処理中の場合はスキップ
 		if (this.processingFiles.has(file.path)) {
-			return;
+			return null;
 		}
 
 		// AIサービスが利用可能か確認
 		if (!this.aiService || !this.aiService.isApiKeySet()) {
-			return;
+			return null;
 		}
 
 		try {
@@ -66,7 +81,7 @@ export class AutoTagService {
 				if (existingTags && existingTags.length > 0) {
 					// 既にタグが存在する場合はスキップ
 					console.log(`[AutoTagService] 既存のタグが見つかりました。スキップ: ${file.path}`);
-					return;
+					return null;
 				}
 			}
 
@@ -75,22 +90,24 @@ export class AutoTagService {
 
 			// 本文が空の場合はスキップ
 			if (!bodyContent || bodyContent.trim().length === 0) {
-				return;
+				return null;
 			}
 
 			// タグ生成用のテキストを取得
 			const textForTagging = this.getTextForTagging(bodyContent);
 
 			// AIでタグを生成
-			const tags = await this.generateTags(textForTagging);
+			const result = await this.generateTags(textForTagging, refreshCache);
 
-			if (tags && tags.length > 0) {
+			if (result) {
 				// frontmatterを更新
-				await this.updateFrontmatter(file, content, tags);
+				await this.updateFrontmatter(file, content, result.tags);
 			}
+			return result;
 		} catch (error) {
 			console.error(`[AutoTagService] エラー: ${file.path}`, error);
 			// エラーは通知しない（自動処理のため）
+			return null;
 		} finally {
 			this.processingFiles.delete(file.path);
 		}
@@ -159,7 +176,7 @@ export class AutoTagService {
 	/**
 	 * AIでタグを生成
 	 */
-	private async generateTags(text: string): Promise<string[] | null> {
+	private async generateTags(text: string, refreshCache: boolean): Promise<AutoTagResult | null> {
 		if (!this.aiService) {
 			return null;
 		}
@@ -171,37 +188,34 @@ export class AutoTagService {
 				? this.settings.aiModel
 				: undefined; // 空の場合はundefinedにして、AIサービス側のデフォルト値にフォールバック
 
-			const response = await this.aiService.chatCompletion({
-				messages: [
-					{
-						role: "system",
-						content: "あなたはタグ生成アシスタントです。与えられた記事の内容を分析して、適切なタグを生成してください。タグは3-10個（最大10個）で、記事の主要なトピックやキーワードを表すものにしてください。タグはカンマ区切りで出力してください。説明や補足は不要です。",
-					},
-					{
-						role: "user",
-						content: `以下の記事の内容から適切なタグを生成してください（最大10個まで）：\n\n${text}`,
-					},
-				],
-				maxTokens: 200,
-				model: modelToUse, // Obsidianの設定で登録されたモデルを明示的に使用
-			});
-
-			// レスポンスからタグを抽出
-			const tagsText = response.content.trim();
-
-			// カンマや改行で分割
-			let tags = tagsText
-				.split(/[,、\n]/)
+			const result = await requestStructuredOutputWithCacheInfo<TagsResult>(
+				this.aiService,
+				{
+					feature: "auto-tag",
+					messages: [
+						{
+							role: "system",
+							content: "あなたはタグ生成アシスタントです。与えられた記事の内容を分析して、適切なタグを生成してください。タグは3-10個（最大10個）で、記事の主要なトピックやキーワードを表すものにしてください。",
+						},
+						{
+							role: "user",
+							content: `以下の記事の内容から適切なタグを生成してください（最大10個まで）：\n\n${text}`,
+						},
+					],
+					maxTokens: 200,
+					model: modelToUse, // Obsidianの設定で登録されたモデルを明示的に使用
+					cache: refreshCache ? "refresh" : "use", // 内容が変わっていなければ前回のタグを再利用
+				},
+				TAGS_FORMAT
+			);
+
+			const tags = result.data.tags
 				.map((tag) => tag.trim())
-				.filter((tag) => tag.length > 0 && !tag.match(/^(タグ|tags|tag):/i)) // 「タグ:」などのプレフィックスを除去
-				.filter((tag, index, self) => self.indexOf(tag) === index); // 重複を除去
-
-			// 最大10個までに制限
-			if (tags.length > 10) {
-				tags = tags.slice(0, 10);
-			}
+				.filter((tag) => tag.length > 0)
+				.filter((tag, index, self) => self.indexOf(tag) === index) // 重複を除去
+				.slice(0, 10); // 最大10個までに制限
 
-			return tags.length > 0 ? tags : null;
+			return tags.length > 0 ? { tags, cached: result.cached } : null;
 		} catch (error) {
 			console.error("[AutoTagService] タグ生成エラー:", error);
 			return null;
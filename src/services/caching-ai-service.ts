@@ -0,0 +1,105 @@
+/**
+ * Caching AI Service
+ * AIサービスをラップし、キャッシュを指定された呼び出しの応答を保存・再利用する
+ */
+
+import {
+	AIService,
+	ChatCompletionOptions,
+	ChatCompletionDeltaHandler,
+	ChatCompletionResponse,
+} from "./ai-service-interface";
+import { ResponseCacheService } from "./response-cache-service";
+import { resolveFeatureRequest } from "./feature-routing-ai-service";
+import { AIServiceFactory } from "./ai-service-factory";
+import { KnowledgeConnectSettings } from "../types";
+
+export class CachingAIService implements AIService {
+	private service: AIService;
+	private cache: ResponseCacheService;
+	private settings: KnowledgeConnectSettings;
+
+	/**
+	 * ラップ対象のサービスがモデルリストを取得できる場合のみ設定される
+	 */
+	getModels?: () => Promise<string[]>;
+
+	constructor(service: AIService, cache: ResponseCacheService, settings: KnowledgeConnectSettings) {
+		this.service = service;
+		this.cache = cache;
+		this.settings = settings;
+
+		const getServiceModels = service.getModels;
+		if (getServiceModels) {
+			this.getModels = () => getServiceModels.call(service);
+		}
+	}
+
+	getServiceName(): string {
+		return this.service.getServiceName();
+	}
+
+	isApiKeySet(): boolean {
+		return this.service.isApiKeySet();
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		const key = await this.getCacheKey(options);
+		if (!key) {
+			return this.service.chatCompletion(options);
+		}
+
+		const cached = options.cache === "use" ? this.cache.get(key) : null;
+		if (cached) {
+			return cached;
+		}
+		const response = await this.service.chatCompletion(options);
+		await this.store(key, response);
+		return response;
+	}
+
+	async chatCompletionStream(
+		options: ChatCompletionOptions,
+		onDelta: ChatCompletionDeltaHandler
+	): Promise<ChatCompletionResponse> {
+		const key = await this.getCacheKey(options);
+		if (!key) {
+			return this.service.chatCompletionStream(options, onDelta);
+		}
+
+		const cached = options.cache === "use" ? this.cache.get(key) : null;
+		if (cached) {
+			// キャッシュした全文を1回の差分として渡す
+			onDelta(cached.content);
+			return cached;
+		}
+		const response = await this.service.chatCompletionStream(options, onDelta);
+		await this.store(key, response);
+		return response;
+	}
+
+	/**
+	 * キャッシュのキーを取得（キャッシュの対象外の場合はnull）
+	 * キーは機能の割り当てを反映したプロバイダー・モデル・メッセージ・temperatureから作成する
+	 */
+	private async getCacheKey(options: ChatCompletionOptions): Promise<string | null> {
+		if (!options.cache || !this.settings.enableResponseCache || options.tools) {
+			return null;
+		}
+		const resolved = resolveFeatureRequest(this.settings, options);
+		return this.cache.createKey({
+			provider: resolved.serviceType,
+			model: resolved.options.model || AIServiceFactory.getDefaultModel(this.settings, resolved.serviceType),
+			messages: [resolved.options.messages, resolved.options.responseFormat ?? null],
+			temperature: resolved.options.temperature,
+		});
+	}
+
+	private async store(key: string, response: ChatCompletionResponse): Promise<void> {
+		// 空の応答やツール呼び出しは再利用しない
+		if (!response.content.trim() || response.toolCalls) {
+			return;
+		}
+		await this.cache.set(key, response);
+	}
+}
@@ -1,9 +1,19 @@
 /**
  * Embedding Service
- * OpenRouter APIを使用したベクトル化（Embedding）サービス
+ * ベクトル化（Embedding）サービス
+ * OpenRouter・LiteLLM（OpenAI互換の/v1/embeddings）・Ollama（/api/embed）に対応し、複数のテキストをまとめてベクトル化できる
  */
 
-import { KnowledgeConnectSettings } from '../types';
+import { KnowledgeConnectSettings, LocalEmbeddingProvider } from '../types';
+import {
+	NetworkError,
+	TimeoutError,
+	ValidationError,
+	createHttpError,
+	parseRetryAfter,
+	toErrorDetails,
+} from '../utils/errors';
+import type { UsageLedgerService } from './usage-ledger-service';
 
 /**
  * サポートされているベクトル化モデル
@@ -26,6 +36,20 @@ export const EMBEDDING_MODELS = {
 
 export type EmbeddingModel = keyof typeof EMBEDDING_MODELS;
 
+/**
+ * プロバイダーごとのデフォルトのモデル
+ */
+export const DEFAULT_EMBEDDING_MODELS: Record<LocalEmbeddingProvider, string> = {
+	openrouter: 'openai/text-embedding-ada-002',
+	litellm: 'text-embedding-3-small',
+	ollama: 'nomic-embed-text',
+};
+
+/**
+ * 1回のリクエストでベクトル化するテキストの最大数
+ */
+const EMBEDDING_BATCH_SIZE = 32;
+
 /**
  * Embedding APIのレスポンス
  */
@@ -48,114 +72,250 @@ export interface EmbeddingResponse {
  */
 export class EmbeddingService {
 	private settings: KnowledgeConnectSettings;
+	private ledger: UsageLedgerService | null;
+	private provider: LocalEmbeddingProvider;
 	private apiKey: string;
 	private readonly OPENROUTER_EMBEDDING_URL = 'https://openrouter.ai/api/v1/embeddings';
 
-	constructor(settings: KnowledgeConnectSettings) {
+	/**
+	 * @param ledger 指定した場合はリクエストごとの使用量を記録し、月間予算を確認する
+	 */
+	constructor(settings: KnowledgeConnectSettings, ledger?: UsageLedgerService | null) {
 		this.settings = settings;
-		this.apiKey = settings.openrouterApiKey || settings.apiKey || '';
+		this.ledger = ledger || null;
+		this.provider = settings.localEmbeddingProvider || 'openrouter';
+		switch (this.provider) {
+			case 'litellm':
+				this.apiKey = settings.litellmApiKey || settings.apiKey || '';
+				break;
+			case 'ollama':
+				this.apiKey = settings.ollamaApiKey || '';
+				break;
+			default:
+				this.apiKey = settings.openrouterApiKey || settings.apiKey || '';
+		}
 	}
 
 	/**
 	 * APIキーが設定されているか確認
+	 * LiteLLM・Ollamaはローカルで認証なしに使用できるため、常に設定済みとして扱う
 	 */
 	isApiKeySet(): boolean {
+		if (this.provider !== 'openrouter') {
+			return true;
+		}
 		return !!this.apiKey && this.apiKey.trim().length > 0;
 	}
 
+	/**
+	 * 使用するモデル（設定で未指定の場合はプロバイダーのデフォルト）
+	 */
+	getModel(): string {
+		return this.settings.localEmbeddingModel || DEFAULT_EMBEDDING_MODELS[this.provider];
+	}
+
 	/**
 	 * テキストをベクトル化
 	 */
-	async embed(
-		text: string,
-		model: EmbeddingModel = 'openai/text-embedding-ada-002'
-	): Promise<EmbeddingResponse> {
+	async embed(text: string, model?: string): Promise<EmbeddingResponse> {
+		const [result] = await this.embedBatch([text], model);
+		return result;
+	}
+
+	/**
+	 * 複数のテキストをまとめてベクトル化（入力と同じ順序で返す）
+	 */
+	async embedBatch(texts: string[], model?: string): Promise<EmbeddingResponse[]> {
 		if (!this.isApiKeySet()) {
 			throw new Error('APIキーが設定されていません。設定画面でAPIキーを設定してください。');
 		}
 
 		// テキストが空の場合はエラー
-		if (!text || text.trim().length === 0) {
+		if (texts.some((text) => !text || text.trim().length === 0)) {
 			throw new Error('ベクトル化するテキストが空です。');
 		}
 
+		this.checkBudget();
+
+		const results: EmbeddingResponse[] = [];
+		for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+			const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+			results.push(...(await this.requestEmbeddings(batch, model || this.getModel())));
+		}
+		return results;
+	}
+
+	/**
+	 * Embedding APIにリクエストを送信
+	 */
+	private async requestEmbeddings(inputs: string[], model: string): Promise<EmbeddingResponse[]> {
+		const url = this.getEndpointUrl();
+		const label = this.getProviderLabel();
+		const controller = new AbortController();
+		const timeoutId = setTimeout(
+			() => controller.abort(),
+			this.settings.timeoutSeconds * 1000
+		);
+
 		try {
-			const controller = new AbortController();
-			const timeoutId = setTimeout(
-				() => controller.abort(),
-				this.settings.timeoutSeconds * 1000
-			);
-
-			// OpenRouterのEmbedding APIを呼び出し
-			// 注意: OpenRouterがembeddingエンドポイントを提供しているか確認が必要
-			// 提供されていない場合は、chat/completionsエンドポイントを使用する必要がある
-			const response = await fetch(this.OPENROUTER_EMBEDDING_URL, {
+			const response = await fetch(url, {
 				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					Authorization: `Bearer ${this.apiKey}`,
-					'HTTP-Referer': 'https://obsidian.md',
-					'X-Title': 'Knowledge Connect Plugin',
-				},
+				headers: this.getHeaders(),
 				body: JSON.stringify({
 					model: model,
-					input: text,
+					input: inputs,
 				}),
 				signal: controller.signal,
 			});
 
-			clearTimeout(timeoutId);
-
 			if (!response.ok) {
 				// Embeddingエンドポイントが存在しない場合は、chat/completionsエンドポイントを試す
-				if (response.status === 404) {
-					return await this.embedViaChatCompletions(text, model);
+				if (this.provider === 'openrouter' && response.status === 404) {
+					return [await this.embedViaChatCompletions(inputs[0], model)];
 				}
 
 				const errorData = await response.json().catch(() => ({}));
-				throw new Error(
-					`OpenRouter Embedding API エラー: ${response.status} ${response.statusText}. ${
-						errorData.error?.message || ''
-					}`
+				throw createHttpError(
+					response.status,
+					`${label} Embedding API エラー: ${response.status} ${response.statusText}. ${
+						errorData.error?.message || (typeof errorData.error === 'string' ? errorData.error : '')
+					}`,
+					{
+						endpoint: url,
+						retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+						details: toErrorDetails(errorData),
+					}
 				);
 			}
 
 			const data = await response.json();
-
-			// レスポンス形式の確認
-			if (!data.data || !Array.isArray(data.data) || data.data.length === 0) {
-				throw new Error('OpenRouter Embedding APIからの応答形式が不正です。');
+			const embeddings = this.provider === 'ollama'
+				? this.parseOllamaResponse(data, model, inputs.length)
+				: this.parseOpenAIResponse(data, model, inputs.length);
+			this.recordUsage(data.model || model, data.usage?.prompt_tokens ?? data.prompt_eval_count ?? 0);
+			return embeddings;
+		} catch (error: unknown) {
+			if (error instanceof Error) {
+				if (error.name === 'AbortError') {
+					throw new TimeoutError(`リクエストがタイムアウトしました（${this.settings.timeoutSeconds}秒）。`, {
+						endpoint: url,
+						hint: 'タイムアウト時間を増やすか、後でもう一度お試しください。',
+					});
+				}
+				if (error.message.includes('Failed to fetch') || error.message.includes('NetworkError')) {
+					throw new NetworkError(`${label}に接続できません。`, { endpoint: url, cause: error });
+				}
+				throw error;
 			}
+			throw new Error('予期しないエラーが発生しました。');
+		} finally {
+			clearTimeout(timeoutId);
+		}
+	}
+
+	/**
+	 * OpenAI形式（{ data: [{ embedding, index }] }）のレスポンスを解析
+	 */
+	private parseOpenAIResponse(data: any, model: string, count: number): EmbeddingResponse[] {
+		// レスポンス形式の確認
+		if (!data.data || !Array.isArray(data.data) || data.data.length !== count) {
+			throw new ValidationError(`${this.getProviderLabel()} Embedding APIからの応答形式が不正です。`);
+		}
 
-			const embedding = data.data[0];
+		const embeddings = (data.data as Array<{ embedding: number[]; index?: number }>)
+			.slice()
+			.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+		return embeddings.map((embedding) => {
 			if (!embedding.embedding || !Array.isArray(embedding.embedding)) {
-				throw new Error('Embeddingデータが不正です。');
+				throw new ValidationError('Embeddingデータが不正です。');
 			}
-
 			// 実際の次元数はAPIレスポンスから取得
-			const dimensions = embedding.embedding.length;
-
 			return {
 				vector: embedding.embedding,
 				model: data.model || model,
-				dimensions,
-				usage: data.usage
+				dimensions: embedding.embedding.length,
+				// 使用トークン数はリクエスト単位のため、1件の場合のみ設定する
+				usage: data.usage && count === 1
 					? {
 							promptTokens: data.usage.prompt_tokens || 0,
 							totalTokens: data.usage.total_tokens || 0,
 					  }
 					: undefined,
 			};
-		} catch (error: unknown) {
-			if (error instanceof Error) {
-				if (error.name === 'AbortError') {
-					throw new Error(
-						`リクエストがタイムアウトしました（${this.settings.timeoutSeconds}秒）。タイムアウト時間を増やすか、後でもう一度お試しください。`
-					);
-				}
-				throw error;
-			}
-			throw new Error('予期しないエラーが発生しました。');
+		});
+	}
+
+	/**
+	 * Ollama形式（{ embeddings: [[...]] }）のレスポンスを解析
+	 */
+	private parseOllamaResponse(data: any, model: string, count: number): EmbeddingResponse[] {
+		if (!data.embeddings || !Array.isArray(data.embeddings) || data.embeddings.length !== count) {
+			throw new ValidationError('Ollama Embedding APIからの応答形式が不正です。');
+		}
+		return (data.embeddings as number[][]).map((vector) => ({
+			vector,
+			model: data.model || model,
+			dimensions: vector.length,
+		}));
+	}
+
+	/**
+	 * 予算超過時にブロックする設定の場合は、ベクトル化の前にエラーを投げる
+	 */
+	private checkBudget(): void {
+		if (!this.ledger || this.settings.usageBudgetAction !== 'block' || !this.ledger.getBudgetStatus().exceeded) {
+			return;
+		}
+		throw new Error('今月のAI利用額が月間予算に達しているため、ベクトル化を停止しています。設定画面で予算を変更してください。');
+	}
+
+	/**
+	 * リクエスト単位の使用量を記録（記録に失敗してもベクトル化の結果には影響させない）
+	 */
+	private recordUsage(model: string, promptTokens: number): void {
+		if (!this.ledger) {
+			return;
+		}
+		this.ledger
+			.record('embedding', model, { promptTokens, completionTokens: 0, totalTokens: promptTokens })
+			.catch((error) => {
+				console.error('[Usage Ledger] 使用量の記録に失敗しました:', error);
+			});
+	}
+
+	private getEndpointUrl(): string {
+		switch (this.provider) {
+			case 'litellm':
+				return `${(this.settings.litellmEndpointUrl || 'http://localhost:4000').replace(/\/$/, '')}/v1/embeddings`;
+			case 'ollama':
+				return `${(this.settings.ollamaEndpointUrl || 'http://localhost:11434').replace(/\/$/, '')}/api/embed`;
+			default:
+				return this.OPENROUTER_EMBEDDING_URL;
+		}
+	}
+
+	private getHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+		};
+		if (this.apiKey.trim()) {
+			headers.Authorization = `Bearer ${this.apiKey}`;
+		}
+		if (this.provider === 'openrouter') {
+			headers['HTTP-Referer'] = 'https://obsidian.md';
+			headers['X-Title'] = 'Knowledge Connect Plugin';
+		}
+		return headers;
+	}
+
+	private getProviderLabel(): string {
+		switch (this.provider) {
+			case 'litellm':
+				return 'LiteLLM';
+			case 'ollama':
+				return 'Ollama';
+			default:
+				return 'OpenRouter';
 		}
 	}
 
@@ -165,7 +325,7 @@ export class EmbeddingService {
 	 */
 	private async embedViaChatCompletions(
 		text: string,
-		model: EmbeddingModel
+		model: string
 	): Promise<EmbeddingResponse> {
 		// 注意: この方法は実際には動作しない可能性が高い
 		// Embeddingモデルは通常、専用のエンドポイントが必要
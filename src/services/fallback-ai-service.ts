@@ -0,0 +1,170 @@
+/**
+ * Fallback AI Service
+ * 複数のAIサービスを順に試し、失敗時に次のサービスへ自動的に切り替える
+ */
+
+import {
+	AIService,
+	ChatCompletionOptions,
+	ChatCompletionDeltaHandler,
+	ChatCompletionResponse,
+} from "./ai-service-interface";
+import { AIFallbackEntry, KnowledgeConnectSettings } from "../types";
+import { retryApiCall } from "../utils/api-utils";
+import { AppError, isTransientError } from "../utils/errors";
+
+/**
+ * フォールバックチェーン内の1サービス
+ */
+interface FallbackProvider {
+	service: AIService;
+	model?: string; // 空の場合、メインと同じサービスは呼び出し元が指定したモデル、別のサービスはそのサービスの既定モデルを使用
+	isPrimaryService: boolean; // メインのAIサービスと同じ種類か
+}
+
+/**
+ * リトライ間隔の基準値（ミリ秒）。試行回数に応じて延長される
+ */
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * リトライで回復が見込めるエラーか判定（429・5xx・タイムアウト・接続エラー）
+ * 種類の分からないエラーはメッセージから判定する
+ */
+export function isRetryableAIError(error: unknown): boolean {
+	if (error instanceof AppError) {
+		return isTransientError(error);
+	}
+	if (!(error instanceof Error)) {
+		return false;
+	}
+	const message = error.message;
+	return (
+		/エラー: (429|5\d\d)\b/.test(message) ||
+		message.includes("タイムアウト") ||
+		message.includes("接続できません")
+	);
+}
+
+export class FallbackAIService implements AIService {
+	private settings: KnowledgeConnectSettings;
+	private providers: FallbackProvider[];
+
+	/**
+	 * 先頭のサービスがモデルリストを取得できる場合のみ設定される
+	 */
+	getModels?: () => Promise<string[]>;
+
+	/**
+	 * @param createProvider 指定したサービス種別のAIサービスを生成する関数
+	 */
+	constructor(
+		settings: KnowledgeConnectSettings,
+		createProvider: (entry: AIFallbackEntry) => AIService
+	) {
+		this.settings = settings;
+		const entries: AIFallbackEntry[] = [
+			{ service: settings.aiService },
+			...(settings.aiFallbackChain || []),
+		];
+		this.providers = entries.map((entry) => ({
+			service: createProvider(entry),
+			model: entry.model && entry.model.trim() !== "" ? entry.model : undefined,
+			isPrimaryService: entry.service === settings.aiService,
+		}));
+
+		const primary = this.providers[0].service;
+		const getPrimaryModels = primary.getModels;
+		if (getPrimaryModels) {
+			this.getModels = () => getPrimaryModels.call(primary);
+		}
+	}
+
+	getServiceName(): string {
+		return this.providers.map((provider) => provider.service.getServiceName()).join(" → ");
+	}
+
+	/**
+	 * いずれかのサービスが利用可能であれば利用可能とみなす
+	 */
+	isApiKeySet(): boolean {
+		return this.providers.some((provider) => provider.service.isApiKeySet());
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		return this.runWithFallback(options, (provider, providerOptions) =>
+			provider.service.chatCompletion(providerOptions)
+		);
+	}
+
+	async chatCompletionStream(
+		options: ChatCompletionOptions,
+		onDelta: ChatCompletionDeltaHandler
+	): Promise<ChatCompletionResponse> {
+		// 一度でも差分を受信した後は、途中から別サービスに切り替えると応答が重複するためフォールバックしない
+		let received = false;
+		return this.runWithFallback(
+			options,
+			(provider, providerOptions) =>
+				provider.service.chatCompletionStream(providerOptions, (delta) => {
+					received = true;
+					onDelta(delta);
+				}),
+			() => received
+		);
+	}
+
+	/**
+	 * チェーンの先頭から順にリクエストを実行し、応答したサービス名をモデル名に記録する
+	 */
+	private async runWithFallback(
+		options: ChatCompletionOptions,
+		execute: (provider: FallbackProvider, options: ChatCompletionOptions) => Promise<ChatCompletionResponse>,
+		hasPartialResponse: () => boolean = () => false
+	): Promise<ChatCompletionResponse> {
+		const maxRetries = Math.max(1, (this.settings.aiFallbackMaxRetries ?? 2) + 1);
+		const isCancelled = () => !!options.signal?.aborted;
+		let lastError: unknown = new Error("利用可能なAIサービスがありません。設定画面でAPIキーを設定してください。");
+
+		for (let i = 0; i < this.providers.length; i++) {
+			const provider = this.providers[i];
+			const serviceName = provider.service.getServiceName();
+
+			if (!provider.service.isApiKeySet()) {
+				console.warn(`[Fallback] ${serviceName} は未設定のためスキップします`);
+				continue;
+			}
+
+			// 呼び出し元のモデルはメインのサービスのモデルのため、別のサービスには渡さない
+			const providerOptions: ChatCompletionOptions = {
+				...options,
+				model: provider.model || (provider.isPrimaryService ? options.model : undefined),
+			};
+
+			try {
+				const response = await retryApiCall(
+					() => execute(provider, providerOptions),
+					maxRetries,
+					RETRY_DELAY_MS,
+					(error) => !isCancelled() && !hasPartialResponse() && isRetryableAIError(error)
+				);
+				if (i > 0) {
+					console.log(`[Fallback] ${serviceName} が応答しました`);
+				}
+				return {
+					...response,
+					model: `${response.model} (${serviceName})`,
+				};
+			} catch (error) {
+				// キャンセルされた場合や応答の途中で失敗した場合は次のサービスを試さない
+				if (isCancelled() || hasPartialResponse()) {
+					throw error;
+				}
+				console.warn(`[Fallback] ${serviceName} でエラーが発生しました:`, error);
+				lastError = error;
+			}
+		}
+
+		throw lastError;
+	}
+}
@@ -0,0 +1,166 @@
+/**
+ * Feature Routing AI Service
+ * 機能ごとに設定されたAIサービス・モデル・パラメータへリクエストを振り分ける
+ */
+
+import {
+	AIService,
+	ChatCompletionOptions,
+	ChatCompletionDeltaHandler,
+	ChatCompletionResponse,
+} from "./ai-service-interface";
+import { AIServiceFactory } from "./ai-service-factory";
+import { AIFeature, AIFeatureRoute, AIService as AIServiceType, KnowledgeConnectSettings } from "../types";
+
+/**
+ * 設定画面で割り当てを変更できる機能
+ */
+export const ROUTABLE_FEATURES: AIFeature[] = [
+	"chat",
+	"auto-tag",
+	"title",
+	"context-menu",
+	"url-summary",
+	"similar-words",
+	"rag",
+];
+
+/**
+ * 画面上でユーザーがモデルを選択する機能
+ * これらの機能では呼び出し元で指定されたモデルを優先し、割り当てのモデルは初期値として扱う
+ */
+const USER_SELECTABLE_MODEL_FEATURES: AIFeature[] = ["chat", "url-summary"];
+
+/**
+ * 機能の割り当てを取得（未設定の項目は空のまま）
+ */
+export function getFeatureRoute(settings: KnowledgeConnectSettings, feature: AIFeature): AIFeatureRoute {
+	const route = settings.aiFeatureRoutes?.[feature];
+	return {
+		service: route?.service,
+		model: route?.model && route.model.trim() !== "" ? route.model.trim() : undefined,
+		temperature: route?.temperature,
+		maxTokens: route?.maxTokens,
+	};
+}
+
+/**
+ * 機能の割り当てを反映した設定を取得
+ * aiServiceとaiModelを割り当てに置き換えるため、モデルリストの取得などにそのまま使用できる
+ * モデルが空の場合は、割り当てたサービスの既定モデルを使用する（メインのサービスのモデルは別のサービスで使えないため）
+ */
+export function getFeatureSettings(
+	settings: KnowledgeConnectSettings,
+	feature: AIFeature
+): KnowledgeConnectSettings {
+	const route = getFeatureRoute(settings, feature);
+	if (!route.service && !route.model) {
+		return settings;
+	}
+	const service = route.service || settings.aiService;
+	return {
+		...settings,
+		aiService: service,
+		aiModel: route.model || AIServiceFactory.getDefaultModel(settings, service),
+	};
+}
+
+/**
+ * 機能の割り当てを反映したサービスの種類とオプションを取得
+ */
+export function resolveFeatureRequest(
+	settings: KnowledgeConnectSettings,
+	options: ChatCompletionOptions
+): { serviceType: AIServiceType; options: ChatCompletionOptions } {
+	if (!options.feature) {
+		return { serviceType: settings.aiService, options };
+	}
+
+	const route = getFeatureRoute(settings, options.feature);
+	const serviceType = route.service || settings.aiService;
+
+	// 別のサービスに振り分けた場合、呼び出し元の既定モデルはそのサービスで使えない可能性があるため使用しない
+	const callerModel = serviceType === settings.aiService ? options.model : undefined;
+	const model = USER_SELECTABLE_MODEL_FEATURES.includes(options.feature)
+		? options.model || route.model
+		: route.model || callerModel;
+
+	return {
+		serviceType,
+		options: {
+			...options,
+			model,
+			temperature: route.temperature ?? options.temperature,
+			maxTokens: route.maxTokens ?? options.maxTokens,
+		},
+	};
+}
+
+export class FeatureRoutingAIService implements AIService {
+	private settings: KnowledgeConnectSettings;
+	private defaultService: AIService;
+	private routedServices: Map<AIServiceType, AIService> = new Map();
+
+	/**
+	 * ラップ対象のサービスがモデルリストを取得できる場合のみ設定される
+	 */
+	getModels?: () => Promise<string[]>;
+
+	constructor(settings: KnowledgeConnectSettings, defaultService: AIService) {
+		this.settings = settings;
+		this.defaultService = defaultService;
+
+		const getServiceModels = defaultService.getModels;
+		if (getServiceModels) {
+			this.getModels = () => getServiceModels.call(defaultService);
+		}
+	}
+
+	getServiceName(): string {
+		return this.defaultService.getServiceName();
+	}
+
+	isApiKeySet(): boolean {
+		return this.defaultService.isApiKeySet();
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		const routed = this.route(options);
+		return routed.service.chatCompletion(routed.options);
+	}
+
+	async chatCompletionStream(
+		options: ChatCompletionOptions,
+		onDelta: ChatCompletionDeltaHandler
+	): Promise<ChatCompletionResponse> {
+		const routed = this.route(options);
+		return routed.service.chatCompletionStream(routed.options, onDelta);
+	}
+
+	/**
+	 * 機能の割り当てに従って使用するサービスとオプションを決定
+	 */
+	private route(options: ChatCompletionOptions): { service: AIService; options: ChatCompletionOptions } {
+		const resolved = resolveFeatureRequest(this.settings, options);
+		const service = resolved.serviceType !== this.settings.aiService
+			? this.getRoutedService(resolved.serviceType)
+			: this.defaultService;
+		return { service, options: resolved.options };
+	}
+
+	/**
+	 * メイン以外のAIサービスを取得（フォールバックチェーンも適用される）
+	 */
+	private getRoutedService(serviceType: AIServiceType): AIService {
+		let service = this.routedServices.get(serviceType);
+		if (!service) {
+			service = AIServiceFactory.createService({
+				...this.settings,
+				aiService: serviceType,
+				aiModel: AIServiceFactory.getDefaultModel(this.settings, serviceType),
+			});
+			this.routedServices.set(serviceType, service);
+		}
+		return service;
+	}
+}
@@ -0,0 +1,293 @@
+/**
+ * Index Sync Service
+ * FileWatcherのファイル変更を検索バックエンドのインデックスにファイル単位で反映する
+ * 変更はまとめて送信し、内容が変わっていないファイルと除外対象のファイルは送信しない
+ */
+
+import { App, TFile } from "obsidian";
+import type { KnowledgeConnectSettings } from "../types";
+import type { FileChangeEvent } from "./file-watcher";
+import type { IndexSyncOperation } from "./mcp-service";
+import { createMCPService } from "./mcp-connection";
+import type { RequestManager } from "./request-manager";
+import { Debouncer } from "../utils/debounce";
+import { CacheManager } from "../utils/cache-manager";
+import { isExcluded } from "../utils/exclusion-list";
+import { formatErrorMessage, showInfo } from "../utils/error-handler";
+import { AppError } from "../utils/errors";
+import { toServerPath } from "../utils/vault-paths";
+
+/**
+ * 変更をまとめるデバウンスのキー（すべてのファイルで共通）
+ */
+const SYNC_DEBOUNCE_KEY = "index-sync";
+
+/**
+ * 差分同期（POST /search/sync）に対応していないサーバーが返すHTTPステータス
+ */
+const UNSUPPORTED_STATUSES = [404, 405];
+
+/**
+ * 同期の状態
+ */
+export interface IndexSyncStatus {
+	pending: number; // 送信待ちのファイル数
+	syncing: boolean;
+	lastSyncAt: number | null;
+	lastError: string | null;
+	unsupported: boolean; // サーバーが差分同期に対応していないため停止中
+}
+
+/**
+ * 送信待ちの変更（パスごとに最新の操作のみ保持）
+ */
+type PendingChange =
+	| { op: "upsert"; file: TFile }
+	| { op: "delete" }
+	| { op: "rename"; file: TFile; oldPath: string; modified: boolean };
+
+export class IndexSyncService {
+	private app: App;
+	private settings: KnowledgeConnectSettings;
+	private requestManager?: RequestManager;
+	private debouncer: Debouncer = new Debouncer();
+	private cacheManager: CacheManager = new CacheManager();
+	private pending: Map<string, PendingChange> = new Map();
+	private syncing = false;
+	private lastSyncAt: number | null = null;
+	private lastError: string | null = null;
+	private unsupportedServerUrl: string | null = null; // 差分同期に対応していないと判断したサーバーのURL
+
+	constructor(app: App, settings: KnowledgeConnectSettings, requestManager?: RequestManager) {
+		this.app = app;
+		this.settings = settings;
+		this.requestManager = requestManager;
+	}
+
+	/**
+	 * 設定を更新
+	 */
+	updateSettings(settings: KnowledgeConnectSettings): void {
+		this.settings = settings;
+		if (!settings.enableIndexSync) {
+			this.stop();
+		}
+		// 接続先のサーバーが変わった場合は、差分同期への対応を確認し直す
+		if (this.unsupportedServerUrl !== null && this.unsupportedServerUrl !== this.getServerUrl()) {
+			this.unsupportedServerUrl = null;
+			this.lastError = null;
+		}
+	}
+
+	/**
+	 * 送信待ちの変更を破棄して停止
+	 */
+	stop(): void {
+		this.debouncer.cancelAll();
+		this.pending.clear();
+	}
+
+	/**
+	 * 同期の状態を取得
+	 */
+	getStatus(): IndexSyncStatus {
+		return {
+			pending: this.pending.size,
+			syncing: this.syncing,
+			lastSyncAt: this.lastSyncAt,
+			lastError: this.lastError,
+			unsupported: this.isUnsupported(),
+		};
+	}
+
+	/**
+	 * ファイル変更イベントを処理（FileWatcherに登録する）
+	 */
+	handleFileChange = (event: FileChangeEvent): void => {
+		if (!this.settings.enableIndexSync || this.isUnsupported() || !event.file || event.file.extension !== "md") {
+			return;
+		}
+		const file = event.file;
+
+		switch (event.type) {
+			case "create":
+			case "modify":
+				if (isExcluded(file.path) || !this.cacheManager.isFileChanged(file)) {
+					return;
+				}
+				this.handleModify(file);
+				break;
+			case "delete":
+				this.cacheManager.removeCache(file.path);
+				if (isExcluded(file.path)) {
+					return;
+				}
+				this.pending.set(file.path, { op: "delete" });
+				break;
+			case "rename":
+				this.handleRename(file, event.oldPath || "");
+				break;
+		}
+		this.scheduleSync();
+	};
+
+	/**
+	 * 送信待ちの変更を直ちに送信
+	 * 差分同期に対応していないと判断して停止している場合は、自動同期を再開する
+	 */
+	async syncNow(): Promise<void> {
+		if (this.isUnsupported()) {
+			this.unsupportedServerUrl = null;
+			this.lastError = null;
+		}
+		this.debouncer.cancel(SYNC_DEBOUNCE_KEY);
+		await this.flush();
+	}
+
+	private getServerUrl(): string {
+		return this.settings.mcpServerUrl || "";
+	}
+
+	private isUnsupported(): boolean {
+		return this.unsupportedServerUrl !== null && this.unsupportedServerUrl === this.getServerUrl();
+	}
+
+	private handleModify(file: TFile): void {
+		// 名前変更の直後に変更された場合は名前変更として送信し、内容も更新する
+		const existing = this.pending.get(file.path);
+		if (existing && existing.op === "rename") {
+			existing.modified = true;
+		} else {
+			this.pending.set(file.path, { op: "upsert", file });
+		}
+	}
+
+	private handleRename(file: TFile, oldPath: string): void {
+		const wasExcluded = !oldPath || isExcluded(oldPath);
+		const isNowExcluded = isExcluded(file.path);
+		const previous = oldPath ? this.pending.get(oldPath) : undefined;
+		if (oldPath) {
+			this.pending.delete(oldPath);
+			this.cacheManager.removeCache(oldPath);
+		}
+
+		if (isNowExcluded) {
+			// 除外対象のフォルダへ移動した場合はインデックスから削除
+			if (!wasExcluded) {
+				this.pending.set(previous && previous.op === "rename" ? previous.oldPath : oldPath, { op: "delete" });
+			}
+			return;
+		}
+		if (wasExcluded) {
+			// インデックスにないファイルは新規として送信
+			this.pending.set(file.path, { op: "upsert", file });
+			return;
+		}
+		// 未送信の変更がある場合は名前変更の後に内容も更新する
+		this.pending.set(file.path, {
+			op: "rename",
+			file,
+			oldPath: previous && previous.op === "rename" ? previous.oldPath : oldPath,
+			modified: previous !== undefined && (previous.op === "upsert" || (previous.op === "rename" && previous.modified)),
+		});
+	}
+
+	private scheduleSync(): void {
+		const delay = (this.settings.indexSyncDebounceSeconds ?? 5) * 1000;
+		this.debouncer.debounce(SYNC_DEBOUNCE_KEY, () => this.flush(), { delay });
+	}
+
+	/**
+	 * 送信待ちの変更をまとめてバックエンドに送信
+	 * 失敗した場合は変更を戻し、次の同期で再送する
+	 */
+	private async flush(): Promise<void> {
+		if (this.syncing || this.pending.size === 0) {
+			return;
+		}
+		this.syncing = true;
+		const changes = new Map(this.pending);
+		this.pending.clear();
+
+		try {
+			const operations: IndexSyncOperation[] = [];
+			const upserted: TFile[] = [];
+			for (const [path, change] of changes) {
+				if (change.op === "delete") {
+					operations.push({ op: "delete", file_path: toServerPath(this.app, path) });
+					continue;
+				}
+				if (change.op === "rename") {
+					operations.push({
+						op: "rename",
+						old_path: toServerPath(this.app, change.oldPath),
+						file_path: toServerPath(this.app, path),
+					});
+					if (!change.modified) {
+						this.cacheManager.updateCache(change.file);
+						continue;
+					}
+				}
+				// 送信までに削除された場合は読み込まない
+				if (!(this.app.vault.getAbstractFileByPath(path) instanceof TFile)) {
+					continue;
+				}
+				operations.push({
+					op: "upsert",
+					file_path: toServerPath(this.app, path),
+					content: await this.app.vault.cachedRead(change.file),
+				});
+				upserted.push(change.file);
+			}
+
+			if (operations.length > 0) {
+				const mcpService = createMCPService(this.app, this.settings, this.requestManager);
+				const vectorize = this.settings.indexSyncVectorize === true;
+				const result = await mcpService.syncDocuments({
+					operations,
+					vectorize,
+					provider: vectorize ? this.settings.mcpVectorizeProvider || undefined : undefined,
+					model: vectorize ? this.settings.mcpVectorizeModel || undefined : undefined,
+					api_base: vectorize ? this.settings.mcpVectorizeApiBase || undefined : undefined,
+					chunk_size: vectorize ? this.settings.mcpChunkSize || 512 : undefined,
+					chunk_overlap: vectorize ? this.settings.mcpChunkOverlap || 50 : undefined,
+				});
+				upserted.forEach((file) => this.cacheManager.updateCache(file));
+				console.log(
+					`[IndexSync] 同期しました（更新: ${result.upserted}、削除: ${result.deleted}、名前変更: ${result.renamed}）`
+				);
+			}
+			this.lastSyncAt = Date.now();
+			this.lastError = null;
+		} catch (error) {
+			if (error instanceof AppError && error.status !== undefined && UNSUPPORTED_STATUSES.includes(error.status)) {
+				// 対応していないサーバーには再送しない（変更のたびに失敗するリクエストを送らない）
+				this.unsupportedServerUrl = this.getServerUrl();
+				this.pending.clear();
+				this.debouncer.cancelAll();
+				this.lastError = "MCPサーバーが差分同期（POST /search/sync）に対応していないため、自動同期を停止しました。";
+				console.warn(`[IndexSync] ${this.lastError}`, error);
+				showInfo(
+					`${this.lastError}検索インデックスは手動で再作成してください。`,
+					this.settings.notificationSettings
+				);
+				return;
+			}
+			this.lastError = formatErrorMessage(error);
+			console.error("[IndexSync] インデックスの同期に失敗しました:", error);
+			// 送信中に発生した新しい変更を優先して、失敗した変更を戻す
+			changes.forEach((change, path) => {
+				if (!this.pending.has(path)) {
+					this.pending.set(path, change);
+				}
+			});
+		} finally {
+			this.syncing = false;
+		}
+
+		// 送信中に発生した変更は次の同期で送信する（失敗時は次の変更まで待つ）
+		if (this.pending.size > 0 && this.lastError === null) {
+			this.scheduleSync();
+		}
+	}
+}
@@ -0,0 +1,458 @@
+/**
+ * Job Monitor Service
+ * MCPサーバーのインデックス作成・ベクトル化ジョブの進捗を監視する
+ * サーバーがジョブのイベント（SSE）を配信する場合はその通知で、対応していない・切断された場合は間隔を調整しながらのポーリングで状態を取得する
+ * 監視中のジョブと最後に取得した状態はプラグインフォルダに保存し、Viewを閉じた後やプラグインの再読み込み後も監視を続ける
+ */
+
+import type { Plugin } from "obsidian";
+import type { KnowledgeConnectSettings } from "../types";
+import { Job, JobEventSubscription, JobNotFoundError, MCPService } from "./mcp-service";
+import { createMCPService, DEFAULT_CREDENTIAL_ID, getDefaultBackend, getMCPCredential } from "./mcp-connection";
+import { showError, showInfo, showSuccess } from "../utils/error-handler";
+import { readPluginJson, writePluginJson } from "../utils/plugin-storage";
+
+/**
+ * 監視中のジョブの保存ファイル名（プラグインフォルダ内）
+ */
+const WATCHED_JOBS_FILE_NAME = "jobs.json";
+
+/**
+ * ポーリングの間隔（ミリ秒）
+ * 状態が変化しない間は最大値まで延ばし、変化したら最小値に戻す
+ */
+const MIN_POLL_INTERVAL_MS = 1000;
+const MAX_POLL_INTERVAL_MS = 30000;
+
+/**
+ * 取得に失敗し続けた場合のポーリングの最大間隔（ミリ秒）
+ */
+const MAX_ERROR_POLL_INTERVAL_MS = 60000;
+
+/**
+ * イベントの接続が切れた場合の再接続の間隔（ミリ秒）
+ */
+const MIN_RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+/**
+ * ジョブの種類の表示名
+ */
+export const JOB_TYPE_LABELS: Record<string, string> = {
+	index: "インデックス作成",
+	vectorize: "ベクトル化",
+};
+
+/**
+ * 実行中（待機中を含む）のジョブか
+ */
+export function isActiveJob(job: Job): boolean {
+	return job.status === "pending" || job.status === "processing";
+}
+
+/**
+ * 監視中のジョブ（保存する情報）
+ */
+interface WatchedJob {
+	id: number;
+	notify: boolean; // 終了時に通知するか
+	lastKnown?: Job; // 最後に取得した状態（サーバーに接続できない間も表示に使用）
+}
+
+/**
+ * 状態の取得方法
+ */
+export type JobMonitorConnection = "idle" | "stream" | "polling";
+
+export class JobMonitorService {
+	private plugin: Plugin;
+	private settings: KnowledgeConnectSettings;
+	private connectionKey: string; // 接続中のサーバーと認証情報（設定の変更の検出に使用）
+	private watched: Map<number, WatchedJob> = new Map();
+	private jobs: Map<number, Job> = new Map(); // 最後に取得したジョブの状態
+	private waiters: Map<number, Array<{ resolve: (job: Job) => void; reject: (error: Error) => void }>> = new Map();
+	private listeners: Array<(job: Job) => void> = [];
+	private subscription: JobEventSubscription | null = null;
+	private streamConnected = false;
+	private streamUnsupported = false; // サーバーがイベントの配信に対応していない
+	private reconnectTimer: number | null = null;
+	private reconnectDelay = MIN_RECONNECT_DELAY_MS;
+	private pollTimer: number | null = null;
+	private pollDelay = MIN_POLL_INTERVAL_MS;
+	private polling = false;
+	private saveQueue: Promise<void> = Promise.resolve();
+
+	constructor(plugin: Plugin, settings: KnowledgeConnectSettings) {
+		this.plugin = plugin;
+		this.settings = settings;
+		this.connectionKey = this.getConnectionKey(settings);
+	}
+
+	/**
+	 * 設定を更新
+	 * サーバー・認証情報が変わった場合は接続し直す
+	 */
+	updateSettings(settings: KnowledgeConnectSettings): void {
+		this.settings = settings;
+		const connectionKey = this.getConnectionKey(settings);
+		if (connectionKey !== this.connectionKey) {
+			this.connectionKey = connectionKey;
+			this.stop();
+			this.streamUnsupported = false;
+			this.pollDelay = MIN_POLL_INTERVAL_MS;
+			this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+			this.ensureMonitoring();
+		}
+	}
+
+	/**
+	 * 前回監視していたジョブを読み込んで監視を再開
+	 */
+	async load(): Promise<void> {
+		const watched = await readPluginJson<WatchedJob[]>(this.plugin, WATCHED_JOBS_FILE_NAME, []);
+		if (Array.isArray(watched)) {
+			for (const job of watched) {
+				this.watched.set(job.id, job);
+				if (job.lastKnown) {
+					this.jobs.set(job.id, job.lastKnown);
+				}
+			}
+		}
+		this.ensureMonitoring();
+	}
+
+	/**
+	 * 監視を停止（監視中のジョブは保存済みのため、次回の起動時に再開する）
+	 */
+	stop(): void {
+		if (this.subscription) {
+			this.subscription.close();
+			this.subscription = null;
+		}
+		this.streamConnected = false;
+		if (this.reconnectTimer !== null) {
+			window.clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
+		if (this.pollTimer !== null) {
+			window.clearTimeout(this.pollTimer);
+			this.pollTimer = null;
+		}
+	}
+
+	/**
+	 * 現在の状態の取得方法
+	 */
+	getConnection(): JobMonitorConnection {
+		if (this.watched.size === 0) {
+			return "idle";
+		}
+		return this.streamConnected ? "stream" : "polling";
+	}
+
+	/**
+	 * ジョブの監視を開始
+	 * @param notify 終了時に通知するか
+	 */
+	watch(jobId: number, notify = true): void {
+		const existing = this.watched.get(jobId);
+		if (existing) {
+			existing.notify = existing.notify || notify;
+		} else {
+			this.watched.set(jobId, { id: jobId, notify });
+		}
+		this.save();
+		this.pollDelay = MIN_POLL_INTERVAL_MS;
+		this.ensureMonitoring();
+		// イベントは状態が変化するまで届かないため、現在の状態を取得しておく
+		if (this.streamConnected) {
+			void this.poll();
+		}
+	}
+
+	/**
+	 * ジョブを監視し、終了（完了・失敗・キャンセル）した時点の状態を返す
+	 */
+	waitForJob(jobId: number, notify = false): Promise<Job> {
+		return new Promise((resolve, reject) => {
+			const waiters = this.waiters.get(jobId) || [];
+			waiters.push({ resolve, reject });
+			this.waiters.set(jobId, waiters);
+			this.watch(jobId, notify);
+		});
+	}
+
+	/**
+	 * 監視中のジョブか
+	 */
+	isWatching(jobId: number): boolean {
+		return this.watched.has(jobId);
+	}
+
+	/**
+	 * 最後に取得したジョブの状態を取得
+	 */
+	getJob(jobId: number): Job | undefined {
+		return this.jobs.get(jobId);
+	}
+
+	/**
+	 * 監視中のジョブの最後に取得した状態を取得（新しい順）
+	 */
+	getWatchedJobs(): Job[] {
+		const jobs: Job[] = [];
+		this.watched.forEach((watched) => {
+			const job = this.jobs.get(watched.id);
+			if (job) {
+				jobs.push(job);
+			}
+		});
+		return jobs.sort((a, b) => b.id - a.id);
+	}
+
+	/**
+	 * ジョブの状態が更新されたときに呼ばれるリスナーを登録（解除する関数を返す）
+	 */
+	onChange(listener: (job: Job) => void): () => void {
+		this.listeners.push(listener);
+		return () => {
+			this.listeners = this.listeners.filter((l) => l !== listener);
+		};
+	}
+
+	/**
+	 * ジョブをキャンセル
+	 */
+	async cancel(jobId: number): Promise<void> {
+		await this.createService().cancelJob(jobId);
+		this.watch(jobId, false);
+	}
+
+	/**
+	 * ジョブと同じパラメータで新しいジョブを開始し、そのIDを返す
+	 */
+	async rerun(job: Job): Promise<number> {
+		const parameters = job.parameters || {};
+		const mcpService = this.createService();
+		let jobId: number;
+		if (job.job_type === "index") {
+			const result = await mcpService.createIndex(parameters.directory_path, parameters.clear_existing === true);
+			jobId = result.job_id;
+		} else if (job.job_type === "vectorize") {
+			const result = await mcpService.vectorizeDirectory(
+				parameters.directory_path,
+				parameters.provider,
+				parameters.model,
+				parameters.api_base,
+				parameters.chunk_size || this.settings.mcpChunkSize || 512,
+				parameters.chunk_overlap || this.settings.mcpChunkOverlap || 50
+			);
+			jobId = result.job_id;
+		} else {
+			throw new Error(`この種類のジョブは再実行できません: ${job.job_type}`);
+		}
+		this.watch(jobId);
+		return jobId;
+	}
+
+	/**
+	 * 現在の設定のMCPサーバーに接続するサービスを作成
+	 */
+	createService(): MCPService {
+		return createMCPService(this.plugin.app, this.settings);
+	}
+
+	/**
+	 * 接続先と認証情報を比較用の文字列に変換
+	 */
+	private getConnectionKey(settings: KnowledgeConnectSettings): string {
+		return JSON.stringify([getDefaultBackend(settings), getMCPCredential(this.plugin.app, DEFAULT_CREDENTIAL_ID)]);
+	}
+
+	/**
+	 * 監視中のジョブがあればイベントに接続し、接続できていない間はポーリングする
+	 */
+	private ensureMonitoring(): void {
+		if (this.watched.size === 0) {
+			this.stop();
+			return;
+		}
+		if (!this.subscription && !this.streamUnsupported && this.reconnectTimer === null) {
+			this.connect();
+		}
+		if (!this.streamConnected && this.pollTimer === null) {
+			this.pollTimer = window.setTimeout(() => {
+				this.pollTimer = null;
+				void this.poll();
+			}, this.pollDelay);
+		}
+	}
+
+	/**
+	 * ジョブのイベントに接続
+	 */
+	private connect(): void {
+		const subscription: JobEventSubscription = this.createService().subscribeJobEvents({
+			onOpen: () => {
+				if (this.subscription !== subscription) {
+					return;
+				}
+				console.log("[Job Monitor] ジョブのイベントに接続しました");
+				this.streamConnected = true;
+				this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+				if (this.pollTimer !== null) {
+					window.clearTimeout(this.pollTimer);
+					this.pollTimer = null;
+				}
+				// 接続するまでの間の変化を取得
+				void this.poll();
+			},
+			onJob: (job) => {
+				if (this.subscription === subscription) {
+					this.handleJob(job);
+				}
+			},
+			onError: (error) => {
+				if (this.subscription !== subscription) {
+					return;
+				}
+				console.warn(`[Job Monitor] ジョブのイベントの接続が切れました。${this.reconnectDelay / 1000}秒後に再接続します:`, error);
+				this.subscription = null;
+				this.streamConnected = false;
+				this.reconnectTimer = window.setTimeout(() => {
+					this.reconnectTimer = null;
+					this.ensureMonitoring();
+				}, this.reconnectDelay);
+				this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+				this.ensureMonitoring();
+			},
+			onUnsupported: () => {
+				if (this.subscription !== subscription) {
+					return;
+				}
+				console.log("[Job Monitor] サーバーがジョブのイベントに対応していないため、ポーリングで監視します");
+				this.subscription = null;
+				this.streamUnsupported = true;
+				this.ensureMonitoring();
+			},
+		});
+		this.subscription = subscription;
+	}
+
+	/**
+	 * 監視中のジョブの状態を取得
+	 * 定期的な確認でステータスバーが埋まらないよう、リクエストマネージャーには登録しない
+	 * 状態が変化しない間や取得に失敗した間は、次の取得までの間隔を延ばす
+	 */
+	private async poll(): Promise<void> {
+		if (this.polling) {
+			return;
+		}
+		this.polling = true;
+		const mcpService = this.createService();
+		let changed = false;
+		let failed = false;
+		try {
+			for (const watched of Array.from(this.watched.values())) {
+				try {
+					const job = await mcpService.getJobStatus(watched.id);
+					changed = this.handleJob(job) || changed;
+				} catch (error) {
+					if (error instanceof JobNotFoundError) {
+						// サーバーからジョブが消えた場合は監視を終了する
+						console.warn(`[Job Monitor] ジョブ ${watched.id} がサーバーに存在しないため監視を終了します`);
+						this.unwatch(watched.id);
+						const waiters = this.waiters.get(watched.id) || [];
+						this.waiters.delete(watched.id);
+						waiters.forEach((waiter) => waiter.reject(error));
+					} else {
+						failed = true;
+					}
+				}
+			}
+		} finally {
+			this.polling = false;
+		}
+
+		if (failed) {
+			this.pollDelay = Math.min(this.pollDelay * 2, MAX_ERROR_POLL_INTERVAL_MS);
+		} else if (changed) {
+			this.pollDelay = MIN_POLL_INTERVAL_MS;
+		} else {
+			this.pollDelay = Math.min(Math.round(this.pollDelay * 1.5), MAX_POLL_INTERVAL_MS);
+		}
+		this.ensureMonitoring();
+	}
+
+	/**
+	 * 取得したジョブの状態を反映し、変化があったかを返す
+	 */
+	private handleJob(job: Job): boolean {
+		const previous = this.jobs.get(job.id);
+		const changed = !previous
+			|| previous.status !== job.status
+			|| previous.updated_at !== job.updated_at
+			|| previous.progress.current !== job.progress.current;
+		this.jobs.set(job.id, job);
+		if (changed) {
+			this.listeners.forEach((listener) => listener(job));
+		}
+
+		const watched = this.watched.get(job.id);
+		if (!watched) {
+			return changed;
+		}
+		if (!isActiveJob(job)) {
+			this.finish(watched, job);
+		} else if (!watched.lastKnown || watched.lastKnown.status !== job.status) {
+			// 進捗のたびに書き込まないよう、保存はステータスが変わったときのみ
+			watched.lastKnown = job;
+			this.save();
+		}
+		return changed;
+	}
+
+	/**
+	 * 終了したジョブの監視をやめ、通知と待機中の呼び出し元への応答を行う
+	 */
+	private finish(watched: WatchedJob, job: Job): void {
+		this.unwatch(job.id);
+
+		const waiters = this.waiters.get(job.id) || [];
+		this.waiters.delete(job.id);
+		waiters.forEach((waiter) => waiter.resolve(job));
+
+		if (!watched.notify) {
+			return;
+		}
+		const label = JOB_TYPE_LABELS[job.job_type] || job.job_type;
+		const notificationSettings = this.settings.notificationSettings;
+		if (job.status === "completed") {
+			showSuccess(`${label}が完了しました（${job.progress.total}ファイル）`, notificationSettings);
+		} else if (job.status === "failed") {
+			showError(`${label}が失敗しました: ${job.error_message || "不明なエラー"}`, notificationSettings);
+		} else if (job.status === "cancelled") {
+			showInfo(`${label}がキャンセルされました`, notificationSettings);
+		}
+	}
+
+	private unwatch(jobId: number): void {
+		this.watched.delete(jobId);
+		this.save();
+		if (this.watched.size === 0) {
+			this.stop();
+		}
+	}
+
+	/**
+	 * 保存処理を直列化して書き込みの競合を防ぐ
+	 */
+	private save(): Promise<void> {
+		this.saveQueue = this.saveQueue
+			.then(() => writePluginJson(this.plugin, WATCHED_JOBS_FILE_NAME, Array.from(this.watched.values())))
+			.catch((error) => {
+				console.error("[Job Monitor] 監視中のジョブの保存に失敗しました:", error);
+			});
+		return this.saveQueue;
+	}
+}
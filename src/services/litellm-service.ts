@@ -6,10 +6,32 @@
 import {
 	AIService,
 	ChatCompletionOptions,
+	ChatCompletionDeltaHandler,
 	ChatCompletionResponse,
 	ChatMessage,
 } from "./ai-service-interface";
 import { KnowledgeConnectSettings } from "../types";
+import {
+	CancelledError,
+	NetworkError,
+	TimeoutError,
+	createHttpError,
+	parseRetryAfter,
+	toErrorDetails,
+} from "../utils/errors";
+import {
+	linkAbortSignal,
+	readChatCompletionStream,
+	toOpenAIResponseFormat,
+	toOpenAIMessages,
+	toOpenAITools,
+	parseOpenAIToolCalls,
+} from "../utils/api-utils";
+
+/**
+ * モデルが設定されていない場合に使用するモデル
+ */
+export const LITELLM_DEFAULT_MODEL = "gpt-3.5-turbo";
 
 export class LiteLLMService implements AIService {
 	private settings: KnowledgeConnectSettings;
@@ -123,38 +145,50 @@ export class LiteLLMService implements AIService {
 		}
 	}
 
-	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
-		if (!this.isApiKeySet()) {
-			throw new Error("APIキーが設定されていません。設定画面でAPIキーを設定してください。");
-		}
-
-		const endpointUrl = this.getEndpointUrl();
-
+	/**
+	 * リクエストボディを構築
+	 */
+	private buildRequestBody(options: ChatCompletionOptions, stream: boolean) {
 		// モデルを決定: options.modelが明示的に指定されている場合はそれを使用
 		// それ以外の場合は、this.settings.aiModelを使用（空の場合はデフォルト値）
 		const model = options.model !== undefined
 			? options.model
 			: (this.settings.aiModel && this.settings.aiModel.trim() !== ""
 				? this.settings.aiModel
-				: "gpt-3.5-turbo");
+				: LITELLM_DEFAULT_MODEL);
 
-		const requestBody = {
+		return {
 			model: model, // 確実に設定されたモデルまたはデフォルト値を使用
-			messages: options.messages.map((msg) => ({
-				role: msg.role,
-				content: msg.content,
-			})),
+			messages: toOpenAIMessages(options.messages),
 			max_tokens: options.maxTokens || this.settings.maxTokens,
-			temperature: options.temperature || 0.7,
+			temperature: options.temperature ?? 0.7,
+			// ストリーミング時は最終チャンクでトークン使用量を受け取る
+			...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+			...(options.responseFormat
+				? { response_format: toOpenAIResponseFormat(options.responseFormat) }
+				: {}),
+			...(options.tools && options.tools.length > 0 ? { tools: toOpenAITools(options.tools) } : {}),
 		};
+	}
 
-		try {
-			const controller = new AbortController();
-			const timeoutId = setTimeout(
-				() => controller.abort(),
-				this.settings.timeoutSeconds * 1000
-			);
+	/**
+	 * LiteLLM APIにリクエストを送信
+	 * 呼び出し元のシグナルとタイムアウトの両方で中断できるようにする
+	 */
+	private async sendRequest(
+		requestBody: ReturnType<LiteLLMService["buildRequestBody"]>,
+		signal: AbortSignal | undefined,
+		handleResponse: (response: Response, controller: AbortController) => Promise<ChatCompletionResponse>
+	): Promise<ChatCompletionResponse> {
+		const endpointUrl = this.getEndpointUrl();
+		const controller = new AbortController();
+		const unlinkSignal = linkAbortSignal(controller, signal);
+		const timeoutId = setTimeout(
+			() => controller.abort(),
+			this.settings.timeoutSeconds * 1000
+		);
 
+		try {
 			const response = await fetch(endpointUrl, {
 				method: "POST",
 				headers: {
@@ -166,17 +200,61 @@ export class LiteLLMService implements AIService {
 				signal: controller.signal,
 			});
 
+			// ストリーミングは応答開始後に長時間続くため、ヘッダー受信時点でタイムアウトを解除
+			// （以降は受信が途切れた場合のみ、readChatCompletionStreamの無通信タイムアウトで中断する）
 			clearTimeout(timeoutId);
 
 			if (!response.ok) {
 				const errorData = await response.json().catch(() => ({}));
-				throw new Error(
+				throw createHttpError(
+					response.status,
 					`LiteLLM API エラー: ${response.status} ${response.statusText}. ${
 						errorData.error?.message || ""
-					}`
+					}`,
+					{
+						endpoint: endpointUrl,
+						retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+						details: toErrorDetails(errorData),
+					}
 				);
 			}
 
+			return await handleResponse(response, controller);
+		} catch (error: unknown) {
+			if (error instanceof Error) {
+				if (error.name === "AbortError") {
+					if (signal?.aborted) {
+						throw new CancelledError("リクエストがキャンセルされました。", { endpoint: endpointUrl });
+					}
+					throw new TimeoutError(`リクエストがタイムアウトしました（${this.settings.timeoutSeconds}秒）。`, {
+						endpoint: endpointUrl,
+						hint: "タイムアウト時間を増やすか、後でもう一度お試しください。",
+					});
+				}
+				if (error.message.includes("Failed to fetch") || error.message.includes("NetworkError")) {
+					throw new NetworkError("LiteLLMサーバーに接続できません。", {
+						endpoint: endpointUrl,
+						hint: `エンドポイントURL（${endpointUrl}）が正しいか確認してください。`,
+						cause: error,
+					});
+				}
+				throw error;
+			}
+			throw new Error("予期しないエラーが発生しました。");
+		} finally {
+			clearTimeout(timeoutId);
+			unlinkSignal();
+		}
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		if (!this.isApiKeySet()) {
+			throw new Error("APIキーが設定されていません。設定画面でAPIキーを設定してください。");
+		}
+
+		const requestBody = this.buildRequestBody(options, false);
+
+		return this.sendRequest(requestBody, options.signal, async (response) => {
 			const data = await response.json();
 
 			if (!data.choices || !data.choices[0] || !data.choices[0].message) {
@@ -185,6 +263,7 @@ export class LiteLLMService implements AIService {
 
 			return {
 				content: data.choices[0].message.content || "",
+				toolCalls: parseOpenAIToolCalls(data.choices[0].message),
 				model: data.model || requestBody.model,
 				usage: data.usage
 					? {
@@ -194,22 +273,30 @@ export class LiteLLMService implements AIService {
 					  }
 					: undefined,
 			};
-		} catch (error: unknown) {
-			if (error instanceof Error) {
-				if (error.name === "AbortError") {
-					throw new Error(
-						`リクエストがタイムアウトしました（${this.settings.timeoutSeconds}秒）。タイムアウト時間を増やすか、後でもう一度お試しください。`
-					);
-				}
-				if (error.message.includes("Failed to fetch") || error.message.includes("NetworkError")) {
-					throw new Error(
-						`LiteLLMサーバーに接続できません。エンドポイントURL（${endpointUrl}）が正しいか確認してください。`
-					);
-				}
-				throw error;
-			}
-			throw new Error("予期しないエラーが発生しました。");
+		});
+	}
+
+	async chatCompletionStream(
+		options: ChatCompletionOptions,
+		onDelta: ChatCompletionDeltaHandler
+	): Promise<ChatCompletionResponse> {
+		if (!this.isApiKeySet()) {
+			throw new Error("APIキーが設定されていません。設定画面でAPIキーを設定してください。");
 		}
+
+		const requestBody = this.buildRequestBody(options, true);
+
+		return this.sendRequest(requestBody, options.signal, async (response, controller) => {
+			const streamed = await readChatCompletionStream(response, onDelta, {
+				controller,
+				timeoutMs: this.settings.timeoutSeconds * 1000,
+			});
+			return {
+				content: streamed.content,
+				toolCalls: streamed.toolCalls,
+				model: streamed.model || requestBody.model,
+				usage: streamed.usage,
+			};
+		});
 	}
 }
-
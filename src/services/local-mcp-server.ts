@@ -0,0 +1,638 @@
+/**
+ * Local MCP Server
+ * 外部のMCPサーバーなしで検索機能を開発・確認するための、プラグイン内で動作する簡易サーバー
+ * MCPServiceのベースURLに LOCAL_MCP_SERVER_URL を指定すると、fetchの代わりにこのサーバーが応答する
+ * データはメモリ上にのみ保持し、ベクトル検索は文字バイグラムの類似度で代用する
+ */
+
+import { App, TFile } from "obsidian";
+import type { AIService } from "./ai-service-interface";
+import type { IndexSyncOperation, Job, SearchFilters, SearchResult } from "./mcp-service";
+import { reciprocalRankFusion, SearchResult as RankedResult } from "../utils/rrf-algorithm";
+import { isHiddenFileOrFolder } from "../utils/exclusion-list";
+import { chunkMarkdown, removeFrontMatter } from "../utils/text-processor";
+import { hasSearchFilters, matchesSearchFilters } from "../utils/search-filters";
+import { toVaultPath } from "../utils/vault-paths";
+
+/**
+ * ローカルサーバーを使用する場合のMCPサーバーURL
+ */
+export const LOCAL_MCP_SERVER_URL = "local://mcp";
+
+/**
+ * ジョブで一度に処理するファイル数（処理の合間に進捗の更新とキャンセルを受け付ける）
+ */
+const JOB_BATCH_SIZE = 20;
+
+/**
+ * スニペットに含める前後の行数
+ */
+const SNIPPET_CONTEXT_LINES = 1;
+
+interface LocalDocument {
+	path: string;
+	lines: string[]; // ノートの行（フロントマターを含み、行番号をチャンクと揃える）
+	bodyStart: number; // 本文の開始行（0始まり、フロントマターの行は検索しない）
+}
+
+/**
+ * ノートの内容から検索用のドキュメントを作成
+ */
+function toLocalDocument(path: string, content: string): LocalDocument {
+	const lines = content.split("\n");
+	return { path, lines, bodyStart: lines.length - removeFrontMatter(content).split("\n").length };
+}
+
+interface LocalChunk {
+	path: string;
+	headings: string[];
+	startLine: number;
+	endLine: number;
+	text: string;
+	vector: Map<string, number>;
+}
+
+/**
+ * ハンドラーが返す応答
+ */
+interface LocalResponse {
+	status: number;
+	data: unknown;
+}
+
+let activeServer: LocalMCPServer | null = null;
+
+/**
+ * URLがローカルサーバーを指しているか判定
+ */
+export function isLocalMCPServerUrl(url: string): boolean {
+	return url.startsWith(LOCAL_MCP_SERVER_URL);
+}
+
+/**
+ * MCPServiceから使用するローカルサーバーを設定（プラグインの終了時はnull）
+ */
+export function setLocalMCPServer(server: LocalMCPServer | null): void {
+	if (activeServer && activeServer !== server) {
+		activeServer.stop();
+	}
+	activeServer = server;
+}
+
+/**
+ * ローカルサーバーを取得
+ */
+export function getLocalMCPServer(): LocalMCPServer {
+	if (!activeServer) {
+		throw new Error("ローカルMCPサーバーが起動していません。");
+	}
+	return activeServer;
+}
+
+/**
+ * 文字バイグラムの出現回数を数える（空白を除いて小文字化）
+ */
+function toBigramVector(text: string): Map<string, number> {
+	const normalized = text.toLowerCase().replace(/\s+/g, "");
+	const vector = new Map<string, number>();
+	for (let i = 0; i < normalized.length - 1; i++) {
+		const bigram = normalized.slice(i, i + 2);
+		vector.set(bigram, (vector.get(bigram) || 0) + 1);
+	}
+	return vector;
+}
+
+/**
+ * 2つのベクトルのコサイン類似度
+ */
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	a.forEach((value, key) => {
+		normA += value * value;
+		const other = b.get(key);
+		if (other) {
+			dot += value * other;
+		}
+	});
+	b.forEach((value) => {
+		normB += value * value;
+	});
+	return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+export class LocalMCPServer {
+	private app: App;
+	private getAIService: () => AIService | null;
+	private documents: Map<string, LocalDocument> = new Map();
+	private chunks: Map<string, LocalChunk[]> = new Map();
+	private jobs: Job[] = [];
+	private jobListeners: Array<(job: Job) => void> = [];
+	private nextJobId = 1;
+	private stopped = false;
+
+	constructor(app: App, getAIService: () => AIService | null) {
+		this.app = app;
+		this.getAIService = getAIService;
+	}
+
+	/**
+	 * 実行中のジョブをすべて停止
+	 */
+	stop(): void {
+		this.stopped = true;
+		for (const job of this.jobs) {
+			if (job.status === "pending" || job.status === "processing") {
+				this.updateJob(job, { status: "cancelled" });
+			}
+		}
+	}
+
+	/**
+	 * ジョブの状態の変化を購読（外部サーバーのジョブのイベント配信の代わり、解除する関数を返す）
+	 */
+	subscribeJobs(listener: (job: Job) => void): () => void {
+		this.jobListeners.push(listener);
+		return () => {
+			this.jobListeners = this.jobListeners.filter((l) => l !== listener);
+		};
+	}
+
+	/**
+	 * fetchと同じ形式でリクエストを処理
+	 */
+	async fetch(endpoint: string, init: RequestInit): Promise<Response> {
+		if (init.signal?.aborted) {
+			throw new DOMException("The operation was aborted.", "AbortError");
+		}
+
+		const url = new URL(endpoint, "http://localhost");
+		const method = (init.method || "GET").toUpperCase();
+		const params: Record<string, string> = {};
+		url.searchParams.forEach((value, key) => {
+			params[key] = value;
+		});
+
+		let body: Record<string, unknown> = {};
+		if (typeof init.body === "string" && init.body) {
+			try {
+				body = JSON.parse(init.body);
+			} catch {
+				return this.toResponse({ status: 400, data: { detail: "リクエストの本文をJSONとして解析できませんでした。" } });
+			}
+		}
+
+		let result: LocalResponse;
+		try {
+			result = await this.route(method, url.pathname, method === "GET" ? params : body);
+		} catch (error) {
+			console.error(`[Local MCP Server] ${method} ${url.pathname} の処理に失敗しました:`, error);
+			result = {
+				status: 500,
+				data: { detail: error instanceof Error ? error.message : String(error) },
+			};
+		}
+
+		return this.toResponse(result);
+	}
+
+	/**
+	 * ハンドラーの応答をfetchの応答に変換
+	 */
+	private toResponse(result: LocalResponse): Response {
+		return new Response(JSON.stringify(result.data), {
+			status: result.status,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	/**
+	 * エンドポイントごとの処理に振り分け
+	 */
+	private async route(method: string, path: string, input: Record<string, any>): Promise<LocalResponse> {
+		const ok = (data: unknown): LocalResponse => ({ status: 200, data });
+
+		if (path === "/" && method === "GET") {
+			return ok({ message: "Local MCP Server", version: "local", status: "running" });
+		}
+		if (path === "/health" && method === "GET") {
+			return ok({ status: "healthy" });
+		}
+		if (path === "/search/index" && method === "POST") {
+			return ok(this.startIndexJob(String(input.directory_path || ""), input.clear_existing === true));
+		}
+		if (path === "/search/sync" && method === "POST") {
+			return ok(this.syncDocuments(input));
+		}
+		if (path === "/search/query") {
+			const query = String(input.query || "");
+			const results = this.keywordSearch(query, Number(input.limit) || 50, this.parseFilters(input));
+			return ok({ query, results, total: results.length });
+		}
+		if (path === "/search/stats" && method === "GET") {
+			return ok({ total_documents: this.documents.size, database_path: LOCAL_MCP_SERVER_URL });
+		}
+		if (path === "/search/hybrid") {
+			const query = String(input.query || "");
+			const results = this.hybridSearch(query, input);
+			return ok({ query, results, total: results.length });
+		}
+		if (path === "/search/rag") {
+			return ok(await this.rag(input));
+		}
+		if (path === "/search/vectorize" && method === "POST") {
+			return ok(this.startVectorizeJob(String(input.directory_path || ""), input));
+		}
+		if (path === "/search/vectorize/stats" && method === "GET") {
+			let totalChunks = 0;
+			this.chunks.forEach((chunks) => {
+				totalChunks += chunks.length;
+			});
+			return ok({
+				collection_name: "local",
+				total_chunks: totalChunks,
+				persist_directory: LOCAL_MCP_SERVER_URL,
+			});
+		}
+		if (path === "/search/llm/models" && method === "GET") {
+			return ok(await this.listModels(String(input.api_base || "")));
+		}
+		if (path === "/search/jobs" && method === "GET") {
+			const limit = Number(input.limit) || 100;
+			const jobs = this.jobs
+				.filter((job) => !input.status || job.status === input.status)
+				.slice(-limit)
+				.reverse();
+			return ok({ jobs });
+		}
+
+		const jobMatch = path.match(/^\/search\/jobs\/(\d+)(\/cancel)?$/);
+		if (jobMatch) {
+			const job = this.jobs.find((j) => j.id === Number(jobMatch[1]));
+			if (!job) {
+				return { status: 404, data: { detail: "Job not found" } };
+			}
+			if (jobMatch[2] && method === "POST") {
+				if (job.status === "pending" || job.status === "processing") {
+					this.updateJob(job, { status: "cancelled" });
+				}
+				return ok({ message: `ジョブ ${job.id} をキャンセルしました`, job_id: job.id });
+			}
+			return ok(job);
+		}
+
+		return { status: 404, data: { detail: "Not Found" } };
+	}
+
+	/**
+	 * サーバーに渡されたディレクトリ・ファイルのパスをVault内のパスに変換（Vault外の場合はnull）
+	 */
+	private toVaultFolder(directoryPath: string): string | null {
+		const path = toVaultPath(this.app, directoryPath);
+		return path === null ? null : path.replace(/^\/+|\/+$/g, "");
+	}
+
+	/**
+	 * 対象フォルダ内のMarkdownファイルを取得
+	 */
+	private getTargetFiles(directoryPath: string): TFile[] {
+		const folder = this.toVaultFolder(directoryPath);
+		if (folder === null) {
+			return [];
+		}
+		return this.app.vault.getMarkdownFiles().filter((file) => {
+			if (isHiddenFileOrFolder(file.path)) {
+				return false;
+			}
+			return !folder || file.path.startsWith(`${folder}/`);
+		});
+	}
+
+	private createJob(jobType: string, parameters: unknown, total: number): Job {
+		const now = new Date().toISOString();
+		const job: Job = {
+			id: this.nextJobId++,
+			job_type: jobType,
+			status: "pending",
+			parameters,
+			progress: { current: 0, total, percentage: 0, message: "待機中" },
+			created_at: now,
+			updated_at: now,
+		};
+		this.jobs.push(job);
+		this.notifyJob(job);
+		return job;
+	}
+
+	private updateJob(job: Job, changes: Partial<Job>): void {
+		Object.assign(job, changes, { updated_at: new Date().toISOString() });
+		this.notifyJob(job);
+	}
+
+	/**
+	 * 購読中のリスナーにジョブの状態を通知（以降の更新の影響を受けないようコピーを渡す）
+	 */
+	private notifyJob(job: Job): void {
+		const snapshot: Job = { ...job, progress: { ...job.progress } };
+		this.jobListeners.forEach((listener) => listener(snapshot));
+	}
+
+	/**
+	 * ファイルを順に処理するジョブを実行
+	 */
+	private async runJob(job: Job, files: TFile[], processFile: (file: TFile) => Promise<void>): Promise<void> {
+		this.updateJob(job, { status: "processing", started_at: new Date().toISOString() });
+		try {
+			for (let i = 0; i < files.length; i++) {
+				if (job.status === "cancelled" || this.stopped) {
+					return;
+				}
+				await processFile(files[i]);
+				const current = i + 1;
+				this.updateJob(job, {
+					progress: {
+						current,
+						total: files.length,
+						percentage: Math.round((current / files.length) * 100),
+						message: `${current}/${files.length} ファイルを処理しました`,
+					},
+				});
+				// 一定数ごとに処理を譲り、進捗の取得やキャンセルを受け付ける
+				if (current % JOB_BATCH_SIZE === 0) {
+					await new Promise((resolve) => setTimeout(resolve, 0));
+				}
+			}
+			if (job.status === "processing") {
+				this.updateJob(job, {
+					status: "completed",
+					progress: { ...job.progress, percentage: 100, message: "完了しました" },
+					result: { processed_files: files.length },
+				});
+			}
+		} catch (error) {
+			this.updateJob(job, {
+				status: "failed",
+				error_message: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	private startIndexJob(directoryPath: string, clearExisting: boolean) {
+		const files = this.getTargetFiles(directoryPath);
+		const job = this.createJob("index", { directory_path: directoryPath, clear_existing: clearExisting }, files.length);
+		if (clearExisting) {
+			this.documents.clear();
+		}
+		this.runJob(job, files, async (file) => {
+			this.documents.set(file.path, toLocalDocument(file.path, await this.app.vault.cachedRead(file)));
+		});
+		return { message: "インデックス作成ジョブを開始しました", job_id: job.id, directory_path: directoryPath };
+	}
+
+	private startVectorizeJob(directoryPath: string, input: Record<string, any>) {
+		const files = this.getTargetFiles(directoryPath);
+		const chunkSize = Number(input.chunk_size) || 512;
+		const chunkOverlap = Math.min(Number(input.chunk_overlap) || 0, chunkSize - 1);
+		const job = this.createJob("vectorize", { ...input, directory_path: directoryPath }, files.length);
+		this.runJob(job, files, async (file) => {
+			const content = await this.app.vault.cachedRead(file);
+			this.chunks.set(file.path, this.createChunks(file.path, content, chunkSize, chunkOverlap));
+		});
+		return { message: "ベクトル化ジョブを開始しました", job_id: job.id, directory_path: directoryPath };
+	}
+
+	/**
+	 * ファイル単位の変更をインデックス（とベクトル）に反映
+	 */
+	private syncDocuments(input: Record<string, any>) {
+		const operations: IndexSyncOperation[] = Array.isArray(input.operations) ? input.operations : [];
+		const chunkSize = Number(input.chunk_size) || 512;
+		const chunkOverlap = Math.min(Number(input.chunk_overlap) || 0, chunkSize - 1);
+		let upserted = 0;
+		let deleted = 0;
+		let renamed = 0;
+
+		for (const operation of operations) {
+			const path = this.toVaultFolder(operation.file_path);
+			if (path === null) {
+				continue;
+			}
+			if (operation.op === "upsert") {
+				this.documents.set(path, toLocalDocument(path, operation.content));
+				if (input.vectorize) {
+					this.chunks.set(path, this.createChunks(path, operation.content, chunkSize, chunkOverlap));
+				}
+				upserted++;
+			} else if (operation.op === "delete") {
+				this.documents.delete(path);
+				this.chunks.delete(path);
+				deleted++;
+			} else if (operation.op === "rename") {
+				const oldPath = this.toVaultFolder(operation.old_path) ?? operation.old_path;
+				const document = this.documents.get(oldPath);
+				if (document) {
+					this.documents.delete(oldPath);
+					this.documents.set(path, { ...document, path });
+				}
+				const chunks = this.chunks.get(oldPath);
+				if (chunks) {
+					this.chunks.delete(oldPath);
+					this.chunks.set(path, chunks.map((chunk) => ({ ...chunk, path })));
+				}
+				renamed++;
+			}
+		}
+		return { message: "インデックスを同期しました", upserted, deleted, renamed };
+	}
+
+	/**
+	 * 見出しの構造に沿ってチャンクに分割（chunkSize・chunkOverlapはトークン数）
+	 */
+	private createChunks(path: string, content: string, chunkSize: number, chunkOverlap: number): LocalChunk[] {
+		return chunkMarkdown(content, { chunkSize, chunkOverlap }).map((chunk) => ({
+			path,
+			headings: chunk.headings,
+			startLine: chunk.startLine,
+			endLine: chunk.endLine,
+			text: chunk.text,
+			vector: toBigramVector(chunk.text),
+		}));
+	}
+
+	/**
+	 * 絞り込み条件を取得（GETリクエストではJSON文字列で受け取る）
+	 */
+	private parseFilters(input: Record<string, any>): SearchFilters | undefined {
+		let filters = input.filters;
+		if (typeof filters === "string") {
+			try {
+				filters = JSON.parse(filters);
+			} catch {
+				return undefined;
+			}
+		}
+		if (!hasSearchFilters(filters)) {
+			return undefined;
+		}
+		// path_prefixはサーバー上のパス（Vaultの絶対パス）で受け取るため、Vault内のパスに戻す
+		return filters.path_prefix
+			? { ...filters, path_prefix: filters.path_prefix.map((prefix) => toVaultPath(this.app, prefix) ?? prefix) }
+			: filters;
+	}
+
+	/**
+	 * 全文検索（空白区切りのすべての語を含む行を検索）
+	 */
+	private keywordSearch(query: string, limit: number, filters?: SearchFilters): SearchResult[] {
+		const terms = query.toLowerCase().split(/\s+/).filter((term) => term.length > 0);
+		if (terms.length === 0) {
+			return [];
+		}
+
+		const results: SearchResult[] = [];
+		this.documents.forEach((document) => {
+			if (filters && !matchesSearchFilters(this.app, document.path, filters)) {
+				return;
+			}
+			for (let i = document.bodyStart; i < document.lines.length && results.length < limit; i++) {
+				const line = document.lines[i].toLowerCase();
+				if (terms.every((term) => line.includes(term))) {
+					const from = Math.max(document.bodyStart, i - SNIPPET_CONTEXT_LINES);
+					const to = Math.min(document.lines.length, i + SNIPPET_CONTEXT_LINES + 1);
+					results.push({
+						file_path: document.path,
+						file_type: "md",
+						location_info: `行 ${i + 1}`,
+						snippet: document.lines.slice(from, to).join("\n").trim(),
+						start_line: i + 1,
+						end_line: i + 1,
+					});
+				}
+			}
+		});
+		return results.slice(0, limit);
+	}
+
+	/**
+	 * ベクトル検索の代用（文字バイグラムのコサイン類似度）
+	 */
+	private vectorSearch(query: string, limit: number, filters?: SearchFilters): SearchResult[] {
+		const queryVector = toBigramVector(query);
+		const scored: Array<{ chunk: LocalChunk; score: number }> = [];
+		this.chunks.forEach((chunks, path) => {
+			if (filters && !matchesSearchFilters(this.app, path, filters)) {
+				return;
+			}
+			for (const chunk of chunks) {
+				const score = cosineSimilarity(queryVector, chunk.vector);
+				if (score > 0) {
+					scored.push({ chunk, score });
+				}
+			}
+		});
+		return scored
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit)
+			.map(({ chunk }) => ({
+				file_path: chunk.path,
+				file_type: "md",
+				location_info: `行 ${chunk.startLine}-${chunk.endLine}`,
+				snippet: chunk.text.trim(),
+				heading_path: chunk.headings,
+				start_line: chunk.startLine,
+				end_line: chunk.endLine,
+			}));
+	}
+
+	/**
+	 * 結果を統合する単位のID（結果の行を含むチャンク）を取得
+	 * 全文検索の結果（1行）とベクトル検索の結果（チャンク）が同じ箇所を指す場合に同じIDにする
+	 */
+	private getFusionId(result: SearchResult): string {
+		const line = result.start_line;
+		const chunk = line === undefined
+			? undefined
+			: (this.chunks.get(result.file_path) || []).find((c) => c.startLine <= line && line <= c.endLine);
+		return chunk ? `${chunk.path}#${chunk.startLine}-${chunk.endLine}` : `${result.file_path}#${result.location_info}`;
+	}
+
+	/**
+	 * 全文検索とベクトル検索の結果をRRFで統合
+	 * 同じチャンク内の全文検索の結果は、最も順位の高い1件のみを統合の対象にする
+	 */
+	private hybridSearch(query: string, input: Record<string, any>): SearchResult[] {
+		const limit = Number(input.limit) || 20;
+		const hybridWeight = input.hybrid_weight !== undefined ? Number(input.hybrid_weight) : 0.5;
+		const filters = this.parseFilters(input);
+		const toRanked = (results: SearchResult[]): RankedResult[] => {
+			const ranked: RankedResult[] = [];
+			const seen = new Set<string>();
+			for (const result of results) {
+				const id = this.getFusionId(result);
+				if (!seen.has(id)) {
+					seen.add(id);
+					ranked.push({ id, score: 0, rank: ranked.length + 1, document: result });
+				}
+			}
+			return ranked;
+		};
+
+		const fused = reciprocalRankFusion(
+			[
+				toRanked(this.keywordSearch(query, Number(input.keyword_limit) || 10, filters)),
+				toRanked(this.vectorSearch(query, Number(input.vector_limit) || 20, filters)),
+			],
+			60,
+			[1 - hybridWeight, hybridWeight]
+		);
+		return fused.slice(0, limit).map((result) => result.document as SearchResult);
+	}
+
+	/**
+	 * 検索結果を根拠に回答を生成
+	 * AIサービスが利用できない場合は検索結果の抜粋を回答として返す
+	 */
+	private async rag(input: Record<string, any>) {
+		const query = String(input.query || "");
+		const sources = this.hybridSearch(query, input);
+		const aiService = this.getAIService();
+
+		if (!aiService || sources.length === 0) {
+			const answer = sources.length === 0
+				? "関連する資料が見つかりませんでした。"
+				: sources.map((source, index) => `[${index + 1}] ${source.file_path}: ${source.snippet}`).join("\n");
+			return { query, answer, sources, model_used: "", provider_used: "local" };
+		}
+
+		const context = sources
+			.map((source, index) => `[${index + 1}] ${source.file_path}（${source.location_info}）\n${source.snippet}`)
+			.join("\n\n");
+		const response = await aiService.chatCompletion({
+			messages: [
+				{
+					role: "system",
+					content: "以下の資料に基づいて質問に回答してください。資料にない内容は推測せず、その旨を伝えてください。",
+				},
+				{ role: "user", content: `資料:\n${context}\n\n質問: ${query}` },
+			],
+			model: input.model || undefined,
+			temperature: input.temperature !== undefined ? Number(input.temperature) : undefined,
+			maxTokens: input.max_tokens ? Number(input.max_tokens) : undefined,
+		});
+		return {
+			query,
+			answer: response.content,
+			sources,
+			model_used: response.model,
+			provider_used: aiService.getServiceName(),
+		};
+	}
+
+	private async listModels(apiBase: string) {
+		const aiService = this.getAIService();
+		const modelIds = aiService && aiService.getModels ? await aiService.getModels() : [];
+		const models = modelIds.map((id) => ({ id, name: id, object: "model" }));
+		return { api_base: apiBase, models, total: models.length };
+	}
+}
@@ -0,0 +1,447 @@
+/**
+ * Local Search Service
+ * プラグイン内で作成する全文検索インデックス（BM25）
+ * MCPサーバーに接続できない場合の検索バックエンドとして使用し、インデックスはプラグインフォルダに保存する
+ * 検索のたびに変更されたノートだけを読み込み直すため、ファイル変更の監視は不要
+ * ベクトルインデックス（LocalVectorStore）が有効な場合は、全文検索とベクトル検索の順位をRRFで統合する
+ */
+
+import { Plugin, TFile } from "obsidian";
+import type { KnowledgeConnectSettings } from "../types";
+import type { SearchFilters, SearchResult } from "./mcp-service";
+import type { LocalVectorStore } from "./local-vector-store";
+import { CacheManager } from "../utils/cache-manager";
+import { isExcluded } from "../utils/exclusion-list";
+import { readPluginJson, writePluginJson } from "../utils/plugin-storage";
+import { extractTextFromMarkdown, getHeadingPath, tokenizeText } from "../utils/text-processor";
+import { reciprocalRankFusion } from "../utils/rrf-algorithm";
+import { hasSearchFilters, matchesSearchFilters } from "../utils/search-filters";
+
+/**
+ * インデックスの保存ファイル名（プラグインフォルダ内）
+ */
+const INDEX_FILE_NAME = "local-search-index.json";
+
+/**
+ * インデックスの形式のバージョン（トークン化の方法を変えた場合に上げ、作り直す）
+ */
+const INDEX_VERSION = 1;
+
+/**
+ * BM25のパラメータ
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * スニペットとして一致した行の前後に含める行数
+ */
+const SNIPPET_CONTEXT_LINES = 2;
+
+/**
+ * 検索結果に表示するバックエンド名
+ */
+export const LOCAL_SEARCH_BACKEND_NAME = "ローカルインデックス";
+
+/**
+ * インデックスに登録したノート
+ */
+interface LocalIndexDocument {
+	path: string;
+	mtime: number;
+	hash: string; // 変更検知用（CacheManagerのハッシュ）
+	length: number; // トークン数
+	terms: Record<string, number>; // トークンごとの出現回数
+}
+
+interface LocalIndexData {
+	version: number;
+	documents: LocalIndexDocument[];
+}
+
+/**
+ * インデックスの状態
+ */
+export interface LocalSearchStatus {
+	documents: number;
+	updating: boolean;
+	lastUpdatedAt: number | null;
+}
+
+/**
+ * テキストを検索用のトークンに変換（小文字化し、記号だけのトークンを除く）
+ */
+function toTerms(text: string): string[] {
+	return tokenizeText(text)
+		.map((token) => token.toLowerCase())
+		.filter((token) => !/^[\s!-/:-@[-`{-~\u3000-\u303F\uFF01-\uFF0F]+$/.test(token));
+}
+
+export class LocalSearchService {
+	private plugin: Plugin;
+	private settings: KnowledgeConnectSettings;
+	private vectorStore: LocalVectorStore | null;
+	private documents: Map<string, LocalIndexDocument> = new Map();
+	private postings: Map<string, Map<string, number>> = new Map(); // トークン → パス → 出現回数
+	private totalLength = 0;
+	private cacheManager: CacheManager = new CacheManager();
+	private updating: Promise<number> | null = null;
+	private lastUpdatedAt: number | null = null;
+	private saveQueue: Promise<void> = Promise.resolve();
+
+	constructor(plugin: Plugin, settings: KnowledgeConnectSettings, vectorStore?: LocalVectorStore | null) {
+		this.plugin = plugin;
+		this.settings = settings;
+		this.vectorStore = vectorStore || null;
+	}
+
+	/**
+	 * 設定を更新
+	 */
+	updateSettings(settings: KnowledgeConnectSettings): void {
+		this.settings = settings;
+		if (this.vectorStore) {
+			this.vectorStore.updateSettings(settings);
+		}
+	}
+
+	/**
+	 * MCPサーバーに接続できない場合にローカルインデックスで検索するか
+	 */
+	isEnabled(): boolean {
+		return this.settings.enableLocalSearch !== false;
+	}
+
+	/**
+	 * ベクトルインデックスを取得
+	 */
+	getVectorStore(): LocalVectorStore | null {
+		return this.vectorStore;
+	}
+
+	/**
+	 * 保存済みのインデックスを読み込む
+	 */
+	async load(): Promise<void> {
+		const data = await readPluginJson<LocalIndexData | null>(this.plugin, INDEX_FILE_NAME, null);
+		this.clearIndex();
+		if (!data || data.version !== INDEX_VERSION || !Array.isArray(data.documents)) {
+			return;
+		}
+		for (const document of data.documents) {
+			this.addDocument(document);
+			this.cacheManager.restoreCache({ filePath: document.path, mtime: document.mtime, hash: document.hash });
+		}
+	}
+
+	/**
+	 * インデックスの状態を取得
+	 */
+	getStatus(): LocalSearchStatus {
+		return {
+			documents: this.documents.size,
+			updating: this.updating !== null,
+			lastUpdatedAt: this.lastUpdatedAt,
+		};
+	}
+
+	/**
+	 * 変更されたノートをインデックスに反映
+	 * 実行中の場合は同じ処理の完了を待つ
+	 * @param onProgress 進捗の通知（処理済みのファイル数・全体のファイル数）
+	 * @returns 反映したノートの数（追加・更新・削除）
+	 */
+	update(onProgress?: (current: number, total: number) => void): Promise<number> {
+		if (!this.updating) {
+			const done = () => {
+				this.updating = null;
+			};
+			this.updating = this.runUpdate(onProgress);
+			this.updating.then(done, done);
+		}
+		return this.updating;
+	}
+
+	/**
+	 * インデックスを作り直す
+	 */
+	async rebuild(onProgress?: (current: number, total: number) => void): Promise<number> {
+		if (this.updating) {
+			await this.updating;
+		}
+		this.clearIndex();
+		return this.update(onProgress);
+	}
+
+	/**
+	 * 検索（ベクトルインデックスが利用できる場合は全文検索とベクトル検索のハイブリッド検索）
+	 * ベクトル検索に失敗した場合は全文検索の結果のみを返す。結果のファイルパスはVault内のパス
+	 * @param filters 絞り込み条件（一致するノートのみを検索する）
+	 */
+	async search(query: string, limit: number, filters?: SearchFilters): Promise<SearchResult[]> {
+		const isTarget = this.createFilter(filters);
+		const keywordResults = await this.keywordSearch(query, limit, isTarget);
+		if (!this.vectorStore || !this.vectorStore.isReady()) {
+			return keywordResults;
+		}
+
+		let vectorResults: SearchResult[];
+		try {
+			vectorResults = await this.vectorSearch(query, limit, isTarget);
+		} catch (error) {
+			console.warn("[Local Search] ベクトル検索に失敗したため、全文検索の結果のみを使用します:", error);
+			return keywordResults;
+		}
+
+		// ノート単位で統合（同じノートは全文検索の結果のスニペットを優先）
+		const hybridWeight = this.settings.mcpHybridWeight ?? 0.5;
+		const toRanked = (results: SearchResult[]) =>
+			results.map((result, index) => ({
+				id: result.file_path,
+				score: 0,
+				rank: index + 1,
+				document: result,
+			}));
+		return reciprocalRankFusion(
+			[toRanked(keywordResults), toRanked(vectorResults)],
+			60,
+			[1 - hybridWeight, hybridWeight]
+		)
+			.slice(0, limit)
+			.map((result) => ({ ...(result.document as SearchResult), score: result.rrfScore }));
+	}
+
+	/**
+	 * ベクトル検索（ノートごとに最も近いチャンクを結果にする）
+	 */
+	private async vectorSearch(query: string, limit: number, isTarget: (path: string) => boolean): Promise<SearchResult[]> {
+		if (!this.vectorStore) {
+			return [];
+		}
+		// 同じノートのチャンクが上位を占める場合に備えて多めに取得する
+		const chunks = await this.vectorStore.search(query, limit * 3, isTarget);
+		const results: SearchResult[] = [];
+		const seen = new Set<string>();
+		for (const chunk of chunks) {
+			if (seen.has(chunk.path) || results.length >= limit) {
+				continue;
+			}
+			seen.add(chunk.path);
+			results.push({
+				file_path: chunk.path,
+				file_type: "md",
+				location_info: `行 ${chunk.startLine}-${chunk.endLine}`,
+				snippet: chunk.text,
+				heading_path: chunk.headings,
+				start_line: chunk.startLine,
+				end_line: chunk.endLine,
+				score: chunk.score,
+			});
+		}
+		return results;
+	}
+
+	/**
+	 * BM25で検索（検索前に変更されたノートをインデックスに反映する）
+	 */
+	private async keywordSearch(query: string, limit: number, isTarget: (path: string) => boolean): Promise<SearchResult[]> {
+		await this.update();
+
+		const queryTerms = Array.from(new Set(toTerms(query)));
+		const documentCount = this.documents.size;
+		if (queryTerms.length === 0 || documentCount === 0) {
+			return [];
+		}
+		const averageLength = this.totalLength / documentCount;
+
+		const scores: Map<string, number> = new Map();
+		for (const term of queryTerms) {
+			const postings = this.postings.get(term);
+			if (!postings) {
+				continue;
+			}
+			const idf = Math.log(1 + (documentCount - postings.size + 0.5) / (postings.size + 0.5));
+			postings.forEach((frequency, path) => {
+				if (!isTarget(path)) {
+					return;
+				}
+				const document = this.documents.get(path);
+				const length = document ? document.length : averageLength;
+				const score = idf * (frequency * (BM25_K1 + 1))
+					/ (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (length / averageLength)));
+				scores.set(path, (scores.get(path) || 0) + score);
+			});
+		}
+
+		const ranked = Array.from(scores.entries())
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, limit);
+		const results: SearchResult[] = [];
+		for (const [path, score] of ranked) {
+			const file = this.plugin.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				results.push({ ...(await this.createResult(file, queryTerms)), score });
+			}
+		}
+		return results;
+	}
+
+	/**
+	 * 絞り込み条件に一致するノートか判定する関数を作成（判定結果はノートごとに記憶する）
+	 */
+	private createFilter(filters?: SearchFilters): (path: string) => boolean {
+		if (!hasSearchFilters(filters)) {
+			return () => true;
+		}
+		const matched: Map<string, boolean> = new Map();
+		return (path: string) => {
+			let result = matched.get(path);
+			if (result === undefined) {
+				result = matchesSearchFilters(this.plugin.app, path, filters);
+				matched.set(path, result);
+			}
+			return result;
+		};
+	}
+
+	private async runUpdate(onProgress?: (current: number, total: number) => void): Promise<number> {
+		const files = this.plugin.app.vault.getMarkdownFiles().filter((file) => !isExcluded(file.path));
+		const existing = new Set(files.map((file) => file.path));
+		let changed = 0;
+
+		// 削除・除外されたノートをインデックスから削除
+		Array.from(this.documents.keys()).forEach((path) => {
+			if (!existing.has(path)) {
+				this.removeDocument(path);
+				this.cacheManager.removeCache(path);
+				changed++;
+			}
+		});
+
+		for (let i = 0; i < files.length; i++) {
+			const file = files[i];
+			if (this.cacheManager.isFileChanged(file)) {
+				try {
+					const content = await this.plugin.app.vault.cachedRead(file);
+					this.indexFile(file, content);
+					changed++;
+				} catch (error) {
+					console.error(`[Local Search] ${file.path} の読み込みに失敗しました:`, error);
+				}
+			}
+			if (onProgress) {
+				onProgress(i + 1, files.length);
+			}
+		}
+
+		this.lastUpdatedAt = Date.now();
+		if (changed > 0) {
+			console.log(`[Local Search] インデックスを更新しました（${changed}件、合計: ${this.documents.size}件）`);
+			await this.save();
+		}
+		return changed;
+	}
+
+	private indexFile(file: TFile, content: string): void {
+		const terms: Record<string, number> = {};
+		// ファイル名も検索対象に含める
+		const tokens = toTerms(`${file.basename}\n${extractTextFromMarkdown(content)}`);
+		for (const token of tokens) {
+			terms[token] = (terms[token] || 0) + 1;
+		}
+		this.removeDocument(file.path);
+		this.cacheManager.updateCache(file);
+		const cache = this.cacheManager.getCache(file.path);
+		this.addDocument({
+			path: file.path,
+			mtime: file.stat.mtime,
+			hash: cache ? cache.hash : "",
+			length: tokens.length,
+			terms,
+		});
+	}
+
+	private addDocument(document: LocalIndexDocument): void {
+		this.documents.set(document.path, document);
+		this.totalLength += document.length;
+		Object.keys(document.terms).forEach((term) => {
+			let postings = this.postings.get(term);
+			if (!postings) {
+				postings = new Map();
+				this.postings.set(term, postings);
+			}
+			postings.set(document.path, document.terms[term]);
+		});
+	}
+
+	private removeDocument(path: string): void {
+		const document = this.documents.get(path);
+		if (!document) {
+			return;
+		}
+		this.documents.delete(path);
+		this.totalLength -= document.length;
+		Object.keys(document.terms).forEach((term) => {
+			const postings = this.postings.get(term);
+			if (postings) {
+				postings.delete(path);
+				if (postings.size === 0) {
+					this.postings.delete(term);
+				}
+			}
+		});
+	}
+
+	private clearIndex(): void {
+		this.documents.clear();
+		this.postings.clear();
+		this.totalLength = 0;
+		this.cacheManager.clearCache();
+	}
+
+	/**
+	 * 検索結果を作成（検索語を含む最初の行の前後をスニペットにし、その行の見出しの階層を付ける）
+	 */
+	private async createResult(file: TFile, queryTerms: string[]): Promise<SearchResult> {
+		const lines = (await this.plugin.app.vault.cachedRead(file)).split("\n");
+		const index = lines.findIndex((line) => {
+			const lower = line.toLowerCase();
+			return queryTerms.some((term) => lower.includes(term));
+		});
+		if (index < 0) {
+			return {
+				file_path: file.path,
+				file_type: file.extension,
+				location_info: "",
+				snippet: extractTextFromMarkdown(lines.join("\n")).substring(0, 200),
+			};
+		}
+		const from = Math.max(0, index - SNIPPET_CONTEXT_LINES);
+		const to = Math.min(lines.length, index + SNIPPET_CONTEXT_LINES + 1);
+		return {
+			file_path: file.path,
+			file_type: file.extension,
+			location_info: `行 ${index + 1}`,
+			snippet: lines.slice(from, to).join("\n").trim(),
+			heading_path: getHeadingPath(lines, index),
+			start_line: index + 1,
+			end_line: index + 1,
+		};
+	}
+
+	/**
+	 * 保存処理を直列化して書き込みの競合を防ぐ
+	 */
+	private save(): Promise<void> {
+		const data: LocalIndexData = {
+			version: INDEX_VERSION,
+			documents: Array.from(this.documents.values()),
+		};
+		this.saveQueue = this.saveQueue
+			.then(() => writePluginJson(this.plugin, INDEX_FILE_NAME, data))
+			.catch((error) => {
+				console.error("[Local Search] インデックスの保存に失敗しました:", error);
+			});
+		return this.saveQueue;
+	}
+}
@@ -0,0 +1,449 @@
+/**
+ * Local Vector Store
+ * ノートを見出しの構造に沿ってチャンクに分割してEmbeddingServiceでベクトル化し、プラグインフォルダに保存するベクトルインデックス
+ * ベクトルは正規化したFloat32配列をBase64で保存し、検索はコサイン類似度（内積）で行う
+ * ベクトル化はAPIの呼び出しが発生するため、検索時には行わず、ノートの変更後にまとめてバックグラウンドで反映する
+ */
+
+import { Plugin, TFile } from "obsidian";
+import type { KnowledgeConnectSettings } from "../types";
+import { EmbeddingService } from "./embedding-service";
+import type { FileChangeEvent } from "./file-watcher";
+import type { UsageLedgerService } from "./usage-ledger-service";
+import { CacheManager } from "../utils/cache-manager";
+import { Debouncer } from "../utils/debounce";
+import { isExcluded } from "../utils/exclusion-list";
+import { readPluginJson, writePluginJson } from "../utils/plugin-storage";
+import { chunkMarkdown, type MarkdownChunk } from "../utils/text-processor";
+
+/**
+ * インデックスの保存ファイル名（プラグインフォルダ内）
+ */
+const VECTOR_INDEX_FILE_NAME = "local-vector-index.json";
+
+/**
+ * インデックスの形式のバージョン
+ */
+const VECTOR_INDEX_VERSION = 2;
+
+/**
+ * 1チャンクとしてベクトル化する最大文字数（改行のない長い段落などは切り詰める）
+ */
+const MAX_EMBED_TEXT_LENGTH = 8000;
+
+/**
+ * 作成中のインデックスを途中で保存する間隔（ファイル数）
+ */
+const SAVE_INTERVAL_FILES = 20;
+
+/**
+ * 最後のノートの変更からインデックスに反映するまでの待ち時間（ミリ秒）
+ */
+const BACKGROUND_UPDATE_DELAY_MS = 30 * 1000;
+
+/**
+ * バックグラウンドの反映をまとめるデバウンスのキー
+ */
+const BACKGROUND_UPDATE_KEY = "local-vector-update";
+
+interface VectorChunk {
+	text: string;
+	headings: string[]; // 見出しの階層
+	startLine: number;
+	endLine: number;
+	vector: Float32Array; // 正規化済み
+}
+
+interface VectorDocument {
+	path: string;
+	mtime: number;
+	hash: string; // 変更検知用（CacheManagerのハッシュ）
+	chunks: VectorChunk[];
+}
+
+/**
+ * 保存形式（ベクトルはFloat32配列のBase64）
+ */
+interface StoredVectorIndex {
+	version: number;
+	model: string; // プロバイダーとモデル（変更された場合はインデックスを作り直す）
+	dimensions: number;
+	documents: Array<{
+		path: string;
+		mtime: number;
+		hash: string;
+		chunks: Array<{ text: string; headings: string[]; startLine: number; endLine: number; vector: string }>;
+	}>;
+}
+
+/**
+ * ベクトル検索の結果（チャンク単位）
+ */
+export interface VectorSearchResult {
+	path: string;
+	chunkIndex: number;
+	text: string;
+	headings: string[];
+	startLine: number;
+	endLine: number;
+	score: number; // コサイン類似度
+}
+
+/**
+ * インデックスの状態
+ */
+export interface LocalVectorStatus {
+	documents: number;
+	chunks: number;
+	updating: boolean;
+	model: string;
+}
+
+/**
+ * ベクトルを長さ1に正規化
+ */
+function normalize(vector: number[]): Float32Array {
+	let norm = 0;
+	for (const value of vector) {
+		norm += value * value;
+	}
+	norm = Math.sqrt(norm) || 1;
+	const normalized = new Float32Array(vector.length);
+	for (let i = 0; i < vector.length; i++) {
+		normalized[i] = vector[i] / norm;
+	}
+	return normalized;
+}
+
+function encodeVector(vector: Float32Array): string {
+	const bytes = new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength);
+	let binary = "";
+	for (let i = 0; i < bytes.length; i++) {
+		binary += String.fromCharCode(bytes[i]);
+	}
+	return btoa(binary);
+}
+
+function decodeVector(value: string): Float32Array {
+	const binary = atob(value);
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return new Float32Array(bytes.buffer);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+	let sum = 0;
+	for (let i = 0; i < a.length; i++) {
+		sum += a[i] * b[i];
+	}
+	return sum;
+}
+
+export class LocalVectorStore {
+	private plugin: Plugin;
+	private settings: KnowledgeConnectSettings;
+	private ledger: UsageLedgerService | null;
+	private documents: Map<string, VectorDocument> = new Map();
+	private model = ""; // インデックスを作成したプロバイダーとモデル
+	private dimensions = 0;
+	private cacheManager: CacheManager = new CacheManager();
+	private updating: Promise<number> | null = null;
+	private saveQueue: Promise<void> = Promise.resolve();
+	private debouncer: Debouncer = new Debouncer();
+
+	/**
+	 * @param ledger ベクトル化の使用量を記録する（省略時は記録しない）
+	 */
+	constructor(plugin: Plugin, settings: KnowledgeConnectSettings, ledger?: UsageLedgerService | null) {
+		this.plugin = plugin;
+		this.settings = settings;
+		this.ledger = ledger || null;
+	}
+
+	/**
+	 * 設定を更新
+	 */
+	updateSettings(settings: KnowledgeConnectSettings): void {
+		this.settings = settings;
+		if (!this.isEnabled()) {
+			this.stop();
+		}
+	}
+
+	/**
+	 * 予定しているバックグラウンドの反映を取り消す
+	 */
+	stop(): void {
+		this.debouncer.cancelAll();
+	}
+
+	/**
+	 * ファイル変更イベントを処理（FileWatcherに登録する）
+	 * 作成済みのインデックスがある場合のみ、変更が落ち着いてから変更されたノートをまとめて反映する
+	 * （インデックスの作成は設定画面から明示的に行う）
+	 */
+	handleFileChange = (event: FileChangeEvent): void => {
+		if (!event.file || event.file.extension !== "md" || !this.isReady()) {
+			return;
+		}
+		this.debouncer.debounce(BACKGROUND_UPDATE_KEY, async () => {
+			if (!this.isReady()) {
+				return;
+			}
+			try {
+				await this.update();
+			} catch (error) {
+				console.warn("[Local Vector] インデックスのバックグラウンド更新に失敗しました:", error);
+			}
+		}, { delay: BACKGROUND_UPDATE_DELAY_MS });
+	};
+
+	/**
+	 * ベクトル検索を使用するか
+	 */
+	isEnabled(): boolean {
+		return this.settings.enableLocalVectorSearch === true;
+	}
+
+	/**
+	 * 現在の設定のモデルで作成したインデックスがあり、検索できるか
+	 */
+	isReady(): boolean {
+		return this.isEnabled() && this.documents.size > 0 && this.model === this.getModelKey();
+	}
+
+	/**
+	 * 保存済みのインデックスを読み込む
+	 */
+	async load(): Promise<void> {
+		const data = await readPluginJson<StoredVectorIndex | null>(this.plugin, VECTOR_INDEX_FILE_NAME, null);
+		this.clearIndex();
+		if (!data || data.version !== VECTOR_INDEX_VERSION || !Array.isArray(data.documents)) {
+			return;
+		}
+		this.model = data.model;
+		this.dimensions = data.dimensions;
+		for (const document of data.documents) {
+			this.documents.set(document.path, {
+				path: document.path,
+				mtime: document.mtime,
+				hash: document.hash,
+				chunks: document.chunks.map((chunk) => ({ ...chunk, vector: decodeVector(chunk.vector) })),
+			});
+			this.cacheManager.restoreCache({ filePath: document.path, mtime: document.mtime, hash: document.hash });
+		}
+	}
+
+	/**
+	 * インデックスの状態を取得
+	 */
+	getStatus(): LocalVectorStatus {
+		let chunks = 0;
+		this.documents.forEach((document) => {
+			chunks += document.chunks.length;
+		});
+		return {
+			documents: this.documents.size,
+			chunks,
+			updating: this.updating !== null,
+			model: this.model,
+		};
+	}
+
+	/**
+	 * 変更されたノートをベクトル化してインデックスに反映
+	 * 設定のモデルが変更された場合は作り直す。実行中の場合は同じ処理の完了を待つ
+	 * @param onProgress 進捗の通知（処理済みのファイル数・全体のファイル数）
+	 * @returns 反映したノートの数（追加・更新・削除）
+	 */
+	update(onProgress?: (current: number, total: number) => void): Promise<number> {
+		if (!this.updating) {
+			const done = () => {
+				this.updating = null;
+			};
+			this.updating = this.runUpdate(onProgress);
+			this.updating.then(done, done);
+		}
+		return this.updating;
+	}
+
+	/**
+	 * インデックスを作り直す
+	 */
+	async rebuild(onProgress?: (current: number, total: number) => void): Promise<number> {
+		if (this.updating) {
+			await this.updating.catch(() => 0);
+		}
+		this.clearIndex();
+		return this.update(onProgress);
+	}
+
+	/**
+	 * クエリに近いチャンクを検索
+	 * 検索時にはインデックスを更新しない（変更されたノートはバックグラウンドで反映する）
+	 * @param isTarget 検索対象のノートか判定する関数（省略時はすべてのノート）
+	 */
+	async search(query: string, limit: number, isTarget?: (path: string) => boolean): Promise<VectorSearchResult[]> {
+		if (!this.isReady()) {
+			return [];
+		}
+
+		const embedding = await new EmbeddingService(this.settings, this.ledger).embed(query);
+		const queryVector = normalize(embedding.vector);
+		if (queryVector.length !== this.dimensions) {
+			console.warn("[Local Vector] クエリとインデックスのベクトルの次元数が一致しません");
+			return [];
+		}
+
+		const results: VectorSearchResult[] = [];
+		this.documents.forEach((document) => {
+			if (isTarget && !isTarget(document.path)) {
+				return;
+			}
+			document.chunks.forEach((chunk, chunkIndex) => {
+				results.push({
+					path: document.path,
+					chunkIndex,
+					text: chunk.text,
+					headings: chunk.headings,
+					startLine: chunk.startLine,
+					endLine: chunk.endLine,
+					score: dot(queryVector, chunk.vector),
+				});
+			});
+		});
+		return results.sort((a, b) => b.score - a.score).slice(0, limit);
+	}
+
+	/**
+	 * プロバイダーとモデルを識別する文字列
+	 */
+	private getModelKey(): string {
+		const embeddingService = new EmbeddingService(this.settings);
+		return `${this.settings.localEmbeddingProvider || "openrouter"}:${embeddingService.getModel()}`;
+	}
+
+	private async runUpdate(onProgress?: (current: number, total: number) => void): Promise<number> {
+		const modelKey = this.getModelKey();
+		if (this.model !== modelKey) {
+			this.clearIndex();
+			this.model = modelKey;
+		}
+
+		const embeddingService = new EmbeddingService(this.settings, this.ledger);
+		const files = this.plugin.app.vault.getMarkdownFiles().filter((file) => !isExcluded(file.path));
+		const existing = new Set(files.map((file) => file.path));
+		let changed = 0;
+
+		// 削除・除外されたノートをインデックスから削除
+		Array.from(this.documents.keys()).forEach((path) => {
+			if (!existing.has(path)) {
+				this.documents.delete(path);
+				this.cacheManager.removeCache(path);
+				changed++;
+			}
+		});
+
+		try {
+			for (let i = 0; i < files.length; i++) {
+				const file = files[i];
+				if (this.cacheManager.isFileChanged(file)) {
+					await this.indexFile(file, embeddingService);
+					changed++;
+					// 中断された場合に備えて途中の結果も保存する
+					if (changed % SAVE_INTERVAL_FILES === 0) {
+						await this.save();
+					}
+				}
+				if (onProgress) {
+					onProgress(i + 1, files.length);
+				}
+			}
+		} finally {
+			if (changed > 0) {
+				console.log(`[Local Vector] インデックスを更新しました（${changed}件、合計: ${this.documents.size}件）`);
+				await this.save();
+			}
+		}
+		return changed;
+	}
+
+	/**
+	 * ノートをチャンクに分割してベクトル化
+	 * チャンクのサイズ・重なりはMCPサーバーのベクトル化と同じ設定（トークン数）を使用する
+	 * ベクトル化に失敗した場合はエラーを投げ、以降のノートの処理を中止する
+	 */
+	private async indexFile(file: TFile, embeddingService: EmbeddingService): Promise<void> {
+		const content = await this.plugin.app.vault.cachedRead(file);
+		const markdownChunks: MarkdownChunk[] = chunkMarkdown(content, {
+			chunkSize: this.settings.mcpChunkSize || 512,
+			chunkOverlap: this.settings.mcpChunkOverlap ?? 50,
+		});
+		// 見出しの階層もベクトル化の対象に含め、セクションの文脈を反映する
+		const texts = markdownChunks.map((chunk) =>
+			[file.basename, ...chunk.headings].join(" > ") + "\n" + chunk.text.substring(0, MAX_EMBED_TEXT_LENGTH)
+		);
+
+		const chunks: VectorChunk[] = [];
+		if (texts.length > 0) {
+			const embeddings = await embeddingService.embedBatch(texts);
+			embeddings.forEach((embedding, index) => {
+				if (this.dimensions === 0) {
+					this.dimensions = embedding.dimensions;
+				}
+				if (embedding.dimensions !== this.dimensions) {
+					throw new Error(`ベクトルの次元数が一致しません（${embedding.dimensions} / ${this.dimensions}）。インデックスを再作成してください。`);
+				}
+				const chunk = markdownChunks[index];
+				chunks.push({
+					text: chunk.text,
+					headings: chunk.headings,
+					startLine: chunk.startLine,
+					endLine: chunk.endLine,
+					vector: normalize(embedding.vector),
+				});
+			});
+		}
+
+		this.cacheManager.updateCache(file);
+		const cache = this.cacheManager.getCache(file.path);
+		this.documents.set(file.path, {
+			path: file.path,
+			mtime: file.stat.mtime,
+			hash: cache ? cache.hash : "",
+			chunks,
+		});
+	}
+
+	private clearIndex(): void {
+		this.documents.clear();
+		this.cacheManager.clearCache();
+		this.model = "";
+		this.dimensions = 0;
+	}
+
+	/**
+	 * 保存処理を直列化して書き込みの競合を防ぐ
+	 */
+	private save(): Promise<void> {
+		const data: StoredVectorIndex = {
+			version: VECTOR_INDEX_VERSION,
+			model: this.model,
+			dimensions: this.dimensions,
+			documents: Array.from(this.documents.values()).map((document) => ({
+				path: document.path,
+				mtime: document.mtime,
+				hash: document.hash,
+				chunks: document.chunks.map((chunk) => ({ ...chunk, vector: encodeVector(chunk.vector) })),
+			})),
+		};
+		this.saveQueue = this.saveQueue
+			.then(() => writePluginJson(this.plugin, VECTOR_INDEX_FILE_NAME, data))
+			.catch((error) => {
+				console.error("[Local Vector] インデックスの保存に失敗しました:", error);
+			});
+		return this.saveQueue;
+	}
+}
@@ -0,0 +1,277 @@
+/**
+ * MCP Backend Router
+ * 設定された複数の検索バックエンド（MCPサーバー）に検索を振り分け、結果をRRFで統合する
+ * バックエンドごとに検索対象のフォルダを設定でき、絞り込み条件のフォルダと重ならないバックエンドには問い合わせず、対象外のフォルダの結果は除外する
+ * 共有サーバーなど別の場所でVaultをインデックスしたバックエンドの結果は、サーバー上のVaultのパス（serverRoot）をこの端末のVaultのパスに置き換える
+ * すべてのバックエンドに接続できない場合は、プラグイン内のローカルインデックスで検索する
+ */
+
+import type { App } from "obsidian";
+import type { KnowledgeConnectSettings, MCPBackendConfig } from "../types";
+import type { MCPService, SearchFilters, SearchResult, SearchStats } from "./mcp-service";
+import type { RequestManager } from "./request-manager";
+import { createBackendMCPService, getDefaultBackend } from "./mcp-connection";
+import { LOCAL_SEARCH_BACKEND_NAME, type LocalSearchService } from "./local-search-service";
+import { reciprocalRankFusion } from "../utils/rrf-algorithm";
+import { NetworkError, TimeoutError } from "../utils/errors";
+import { hasSearchFilters, matchesSearchFilters } from "../utils/search-filters";
+import { toServerPath, toVaultPath } from "../utils/vault-paths";
+
+/**
+ * バックエンドの検索結果（取得元のバックエンド名を付加）
+ */
+export interface BackendSearchResult extends SearchResult {
+	backend: string;
+}
+
+/**
+ * 検索に使用するバックエンドを取得
+ * バックエンドが登録されていない場合はmcpServerUrlのサーバーのみを使用する
+ */
+export function getSearchBackends(settings: KnowledgeConnectSettings): MCPBackendConfig[] {
+	const backends = (settings.mcpBackends || []).filter((backend) => backend.enabled && backend.url);
+	if (backends.length > 0) {
+		return backends;
+	}
+	return [getDefaultBackend(settings)];
+}
+
+/**
+ * フォルダのパスを比較用に正規化（区切り文字は/、前後の/なし）
+ */
+function normalizeFolder(folder: string): string {
+	return folder.trim().replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * バックエンドの検索対象のフォルダが、絞り込み条件のフォルダ（path_prefix）のいずれかと重なるか
+ * 重ならないバックエンドの結果はすべて除外されるため、問い合わせる必要がない
+ * path_prefixは大文字・小文字を区別しないため、比較も区別せずに行う
+ */
+export function canMatchPathFilter(backend: MCPBackendConfig, filters?: SearchFilters): boolean {
+	const folders = (backend.folders || []).map((folder) => normalizeFolder(folder).toLowerCase()).filter((folder) => folder !== "");
+	const prefixes = (filters?.path_prefix || []).map((prefix) => normalizeFolder(prefix).toLowerCase());
+	if (folders.length === 0 || prefixes.length === 0) {
+		return true;
+	}
+	return prefixes.some((prefix) =>
+		folders.some((folder) =>
+			!prefix || folder === prefix || folder.startsWith(`${prefix}/`) || prefix.startsWith(`${folder}/`)
+		)
+	);
+}
+
+export class MCPBackendRouter {
+	private app: App;
+	private settings: KnowledgeConnectSettings;
+	private requestManager?: RequestManager;
+	private localSearch: LocalSearchService | null;
+	private activeServices: MCPService[] = []; // 直前の検索で使用したサービス（キャンセル用）
+	private usedLocal = false; // 直前の検索でローカルインデックスを使用した
+
+	constructor(
+		app: App,
+		settings: KnowledgeConnectSettings,
+		requestManager?: RequestManager,
+		localSearch?: LocalSearchService | null
+	) {
+		this.app = app;
+		this.settings = settings;
+		this.requestManager = requestManager;
+		this.localSearch = localSearch || null;
+	}
+
+	/**
+	 * 検索に使用するバックエンドを取得
+	 */
+	getBackends(): MCPBackendConfig[] {
+		return getSearchBackends(this.settings);
+	}
+
+	/**
+	 * 複数のバックエンドを使用しているか
+	 */
+	hasMultipleBackends(): boolean {
+		return this.getBackends().length > 1;
+	}
+
+	/**
+	 * いずれかのバックエンドに接続できるか
+	 */
+	async isAvailable(): Promise<boolean> {
+		const results = await Promise.all(
+			this.getBackends().map((backend) => this.createService(backend).isServerAvailable().catch(() => false))
+		);
+		return results.some((available) => available);
+	}
+
+	/**
+	 * いずれかのバックエンドに接続できることを確認し、すべて接続できない場合は最初のバックエンドのエラーを投げる
+	 */
+	async ensureAvailable(): Promise<void> {
+		const errors = await Promise.all(
+			this.getBackends().map((backend) => this.createService(backend).ensureAvailable().then(() => null, (error) => error))
+		);
+		if (errors.every((error) => error !== null)) {
+			throw errors[0];
+		}
+	}
+
+	/**
+	 * 直前の検索でローカルインデックスを使用したか
+	 */
+	usedLocalIndex(): boolean {
+		return this.usedLocal;
+	}
+
+	/**
+	 * 検索対象のバックエンドで検索し、結果をRRFで統合して返す
+	 * filtersのpath_prefixと検索対象のフォルダが重ならないバックエンドには問い合わせない
+	 * 一部のバックエンドが失敗した場合は残りの結果を返し、すべて失敗した場合はエラーを投げる
+	 * queryを指定した場合、すべてのバックエンドに接続できなければローカルインデックスで検索する
+	 * filtersを指定した場合、絞り込みに対応していないサーバーに備えて結果もプラグイン側で絞り込む
+	 * @param search バックエンドごとの検索処理
+	 * @param limit 統合後の最大件数
+	 * @param query ローカルインデックスで検索する場合の検索クエリ
+	 * @param filters 絞り込み条件
+	 */
+	async search(
+		search: (service: MCPService) => Promise<SearchResult[]>,
+		limit: number,
+		query?: string,
+		filters?: SearchFilters
+	): Promise<BackendSearchResult[]> {
+		const backends = this.getBackends().filter((backend) => canMatchPathFilter(backend, filters));
+		const services = backends.map((backend) => this.createService(backend));
+		this.activeServices = services;
+		this.usedLocal = false;
+		if (backends.length === 0) {
+			return [];
+		}
+
+		const settled = await Promise.all(
+			services.map((service) =>
+				search(service).then(
+					(results) => ({ results, error: null }),
+					(error) => ({ results: [] as SearchResult[], error })
+				)
+			)
+		);
+
+		const lists: BackendSearchResult[][] = [];
+		let firstError: unknown = null;
+		settled.forEach((outcome, i) => {
+			const backend = backends[i];
+			if (outcome.error) {
+				console.warn(`[MCP Backend] ${backend.name} での検索に失敗しました:`, outcome.error);
+				firstError = firstError || outcome.error;
+				return;
+			}
+			const list: BackendSearchResult[] = [];
+			for (const result of outcome.results) {
+				const vaultPath = toVaultPath(this.app, result.file_path, backend.serverRoot);
+				if (!this.isInScope(backend, vaultPath)) {
+					continue;
+				}
+				if (hasSearchFilters(filters) && !matchesSearchFilters(this.app, vaultPath ?? result.file_path, filters)) {
+					continue;
+				}
+				list.push({
+					...result,
+					// サーバー上のVaultのパスで返された結果を、この端末のVaultのパスとして扱えるようにする
+					file_path: vaultPath !== null && backend.serverRoot ? toServerPath(this.app, vaultPath) : result.file_path,
+					backend: backend.name,
+				});
+			}
+			lists.push(list);
+		});
+		if (lists.length === 0) {
+			if (query !== undefined && this.canUseLocalIndex(firstError)) {
+				return this.searchLocal(query, limit, filters);
+			}
+			throw firstError;
+		}
+		if (lists.length === 1) {
+			return lists[0].slice(0, limit);
+		}
+
+		const merged = reciprocalRankFusion(
+			lists.map((list) =>
+				list.map((result, rank) => ({
+					id: `${this.toVaultPath(result.file_path) ?? result.file_path}#${result.location_info}`,
+					score: 0,
+					rank: rank + 1,
+					document: result,
+				}))
+			)
+		);
+		return merged.slice(0, limit).map((result) => result.document as BackendSearchResult);
+	}
+
+	/**
+	 * バックエンドごとの統計情報を取得（取得に失敗したバックエンドはnull）
+	 */
+	async getStats(): Promise<Array<{ backend: string; stats: SearchStats | null }>> {
+		const backends = this.getBackends();
+		return Promise.all(
+			backends.map(async (backend) => ({
+				backend: backend.name,
+				stats: await this.createService(backend).getSearchStats().catch(() => null),
+			}))
+		);
+	}
+
+	/**
+	 * 実行中の検索をキャンセル
+	 */
+	cancelPending(): number {
+		return this.activeServices.reduce((count, service) => count + service.cancelPending(), 0);
+	}
+
+	/**
+	 * バックエンドに接続できない（応答がない）場合のみローカルインデックスを使用する
+	 * 認証などの設定の誤りはエラーとして呼び出し元に返す
+	 */
+	private canUseLocalIndex(error: unknown): boolean {
+		return this.localSearch !== null
+			&& this.localSearch.isEnabled()
+			&& (error instanceof NetworkError || error instanceof TimeoutError);
+	}
+
+	private async searchLocal(query: string, limit: number, filters?: SearchFilters): Promise<BackendSearchResult[]> {
+		if (!this.localSearch) {
+			return [];
+		}
+		console.warn("[MCP Backend] 検索バックエンドに接続できないため、ローカルインデックスで検索します");
+		const results = await this.localSearch.search(query, limit, filters);
+		this.usedLocal = true;
+		return results.map((result) => ({ ...result, backend: LOCAL_SEARCH_BACKEND_NAME }));
+	}
+
+	private createService(backend: MCPBackendConfig): MCPService {
+		return createBackendMCPService(this.app, backend, this.requestManager);
+	}
+
+	/**
+	 * 結果がバックエンドの検索対象のフォルダ内か
+	 * 検索対象のフォルダを設定したバックエンドでは、Vault内のパスに変換できない結果（サーバー上のVault外のパス）は除外する
+	 * @param vaultPath 結果のVault内のパス（変換できなかった場合はnull）
+	 */
+	private isInScope(backend: MCPBackendConfig, vaultPath: string | null): boolean {
+		const folders = (backend.folders || []).map(normalizeFolder).filter((folder) => folder !== "");
+		if (folders.length === 0) {
+			return true;
+		}
+		if (vaultPath === null) {
+			return false;
+		}
+		return folders.some((folder) => vaultPath === folder || vaultPath.startsWith(`${folder}/`));
+	}
+
+	/**
+	 * サーバーが返すパス（絶対パス）をVault内のパスに変換（Vault外の絶対パスの場合はnull）
+	 */
+	toVaultPath(filePath: string): string | null {
+		return toVaultPath(this.app, filePath);
+	}
+}
@@ -0,0 +1,305 @@
+/**
+ * MCP Client Manager
+ * 設定された外部MCPサーバーへの接続を管理し、そのツールをチャットのツールとして提供する
+ */
+
+import type { App } from "obsidian";
+import type { KnowledgeConnectSettings, MCPClientServerConfig } from "../types";
+import type { ToolCall, ToolDefinition } from "./ai-service-interface";
+import { MCPClient, MCPContent, MCPResourceContents, MCPServerInfo, MCPTool, createMCPTransport } from "./mcp-client";
+import { parseToolArguments } from "../utils/api-utils";
+import { confirmToolCall } from "../utils/tool-confirm-dialog";
+
+/**
+ * ツールの結果としてモデルに返す本文の最大文字数
+ */
+const MAX_RESULT_LENGTH = 8000;
+
+/**
+ * ツール名の最大文字数（OpenAI互換APIの制限）
+ */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * モデルに提供するツール名と、実行先のサーバー・ツールの対応
+ * toolNameがnullの場合はリソースの一覧・読み込みを行う組み込みのツール
+ */
+interface MCPToolRoute {
+	serverId: string;
+	toolName: string | null;
+	resourceAction?: "list" | "read";
+}
+
+/**
+ * 接続テストの結果
+ */
+export interface MCPConnectionTestResult {
+	serverInfo: MCPServerInfo;
+	tools: MCPTool[];
+}
+
+/**
+ * ツール名に使用できない文字を置き換える
+ */
+function sanitizeName(name: string): string {
+	return name.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * ツールの実行結果・リソースの内容をモデルに返す文字列に変換
+ */
+function contentToText(content: MCPContent[]): string {
+	return content
+		.map((part) => {
+			switch (part.type) {
+				case "text":
+					return part.text;
+				case "image":
+				case "audio":
+					return `[${part.type}: ${part.mimeType}]`;
+				case "resource":
+					return resourceToText(part.resource);
+				default:
+					return "";
+			}
+		})
+		.filter((text) => text !== "")
+		.join("\n");
+}
+
+function resourceToText(resource: MCPResourceContents): string {
+	if (resource.text !== undefined) {
+		return resource.text;
+	}
+	return `[バイナリ: ${resource.uri}${resource.mimeType ? ` (${resource.mimeType})` : ""}]`;
+}
+
+export class MCPClientManager {
+	private app: App;
+	private settings: KnowledgeConnectSettings;
+	private clients: Map<string, Promise<MCPClient>> = new Map();
+	private routes: Map<string, MCPToolRoute> = new Map();
+	private serversSnapshot: string; // 接続中のサーバー設定（変更の検出に使用）
+
+	constructor(app: App, settings: KnowledgeConnectSettings) {
+		this.app = app;
+		this.settings = settings;
+		this.serversSnapshot = JSON.stringify(settings.mcpClientServers || []);
+	}
+
+	/**
+	 * 設定を更新
+	 * サーバーの設定が変わった場合は接続し直す
+	 */
+	updateSettings(settings: KnowledgeConnectSettings): void {
+		const snapshot = JSON.stringify(settings.mcpClientServers || []);
+		this.settings = settings;
+		if (snapshot !== this.serversSnapshot) {
+			this.serversSnapshot = snapshot;
+			void this.closeAll();
+		}
+	}
+
+	/**
+	 * 有効な外部MCPサーバーがあるか
+	 */
+	hasServers(): boolean {
+		return this.getEnabledServers().length > 0;
+	}
+
+	/**
+	 * モデルに提供するツールの定義を取得
+	 * 接続できないサーバーはログに記録して除外する
+	 */
+	async getToolDefinitions(signal?: AbortSignal): Promise<ToolDefinition[]> {
+		const definitions: ToolDefinition[] = [];
+		this.routes.clear();
+
+		for (const server of this.getEnabledServers()) {
+			try {
+				const client = await this.getClient(server);
+				const serverInfo = client.getServerInfo();
+				const prefix = `mcp_${sanitizeName(server.name || server.id)}_`;
+
+				if (serverInfo?.capabilities.tools) {
+					for (const tool of await client.listTools()) {
+						const name = this.registerRoute(prefix + sanitizeName(tool.name), {
+							serverId: server.id,
+							toolName: tool.name,
+						});
+						definitions.push({
+							name,
+							description: `[${server.name}] ${tool.description || tool.name}`,
+							parameters: tool.inputSchema && tool.inputSchema.type ? tool.inputSchema : { type: "object", properties: {} },
+						});
+					}
+				}
+
+				if (serverInfo?.capabilities.resources) {
+					definitions.push({
+						name: this.registerRoute(`${prefix}list_resources`, { serverId: server.id, toolName: null, resourceAction: "list" }),
+						description: `[${server.name}] MCPサーバーが提供するリソースの一覧（URI・名前）を返します。`,
+						parameters: { type: "object", properties: {} },
+					});
+					definitions.push({
+						name: this.registerRoute(`${prefix}read_resource`, { serverId: server.id, toolName: null, resourceAction: "read" }),
+						description: `[${server.name}] MCPサーバーのリソースをURIで指定して読み込みます。`,
+						parameters: {
+							type: "object",
+							properties: {
+								uri: { type: "string", description: "読み込むリソースのURI" },
+							},
+							required: ["uri"],
+						},
+					});
+				}
+			} catch (error) {
+				if (signal?.aborted) {
+					throw error;
+				}
+				console.error(`[MCP Client] ${server.name} のツールを取得できませんでした:`, error);
+			}
+		}
+		return definitions;
+	}
+
+	/**
+	 * 外部MCPサーバーのツールか
+	 */
+	isMCPTool(name: string): boolean {
+		return this.routes.has(name);
+	}
+
+	/**
+	 * ツールを実行し、モデルに返す結果を文字列で返す
+	 * 失敗した場合もエラー内容を結果として返し、モデルが会話を続けられるようにする
+	 */
+	async execute(toolCall: ToolCall, signal?: AbortSignal): Promise<string> {
+		const route = this.routes.get(toolCall.name);
+		const server = route ? this.getEnabledServers().find((s) => s.id === route.serverId) : undefined;
+		if (!route || !server) {
+			return `エラー: 不明なツールです: ${toolCall.name}`;
+		}
+
+		const args = parseToolArguments(toolCall.arguments);
+		try {
+			if (route.resourceAction !== "list" && server.requireConfirmation !== false) {
+				const approved = await confirmToolCall(
+					this.app,
+					"外部ツールの実行",
+					`AIが「${server.name}」のツール「${route.toolName || "read_resource"}」を実行しようとしています。`,
+					JSON.stringify(args, null, 2)
+				);
+				if (!approved) {
+					return "ユーザーがツールの実行を拒否しました。";
+				}
+			}
+
+			const client = await this.getClient(server);
+			let result: string;
+			if (route.resourceAction === "list") {
+				const resources = await client.listResources();
+				result = resources.length > 0
+					? JSON.stringify(resources.map((r) => ({ uri: r.uri, name: r.name, description: r.description })))
+					: "リソースはありません。";
+			} else if (route.resourceAction === "read") {
+				const contents = await client.readResource(String(args.uri || ""), signal);
+				result = contents.map((content) => resourceToText(content)).join("\n");
+			} else {
+				const toolResult = await client.callTool(route.toolName || "", args, signal);
+				const text = contentToText(toolResult.content);
+				result = toolResult.isError ? `エラー: ${text}` : text;
+			}
+			return this.truncate(result || "（結果は空です）");
+		} catch (error) {
+			console.error(`[MCP Client] ${toolCall.name} の実行に失敗しました:`, error);
+			return `エラー: ${error instanceof Error ? error.message : String(error)}`;
+		}
+	}
+
+	/**
+	 * 設定の内容で接続し、サーバー情報とツールの一覧を取得（設定画面の接続テスト用）
+	 */
+	async testConnection(server: MCPClientServerConfig): Promise<MCPConnectionTestResult> {
+		const client = new MCPClient(createMCPTransport(server), this.getTimeoutMs());
+		try {
+			const serverInfo = await client.connect();
+			const tools = serverInfo.capabilities.tools ? await client.listTools() : [];
+			return { serverInfo, tools };
+		} finally {
+			await client.close();
+		}
+	}
+
+	/**
+	 * すべての接続を終了
+	 */
+	async closeAll(): Promise<void> {
+		const clients = Array.from(this.clients.values());
+		this.clients.clear();
+		this.routes.clear();
+		await Promise.all(
+			clients.map((client) => client.then((c) => c.close()).catch(() => undefined))
+		);
+	}
+
+	private getEnabledServers(): MCPClientServerConfig[] {
+		return (this.settings.mcpClientServers || []).filter((server) => server.enabled);
+	}
+
+	private getTimeoutMs(): number {
+		return (this.settings.timeoutSeconds || 60) * 1000;
+	}
+
+	/**
+	 * 接続済みのクライアントを取得（未接続・切断済みの場合は接続する）
+	 */
+	private async getClient(server: MCPClientServerConfig): Promise<MCPClient> {
+		const existing = this.clients.get(server.id);
+		if (existing) {
+			const client = await existing.catch(() => null);
+			if (client && client.isConnected()) {
+				return client;
+			}
+			this.clients.delete(server.id);
+		}
+
+		const connecting = (async () => {
+			const client = new MCPClient(createMCPTransport(server), this.getTimeoutMs());
+			try {
+				await client.connect();
+			} catch (error) {
+				await client.close();
+				throw error;
+			}
+			console.log(`[MCP Client] ${server.name} に接続しました`);
+			return client;
+		})();
+		this.clients.set(server.id, connecting);
+		connecting.catch(() => {
+			if (this.clients.get(server.id) === connecting) {
+				this.clients.delete(server.id);
+			}
+		});
+		return connecting;
+	}
+
+	/**
+	 * ツール名を登録（重複する場合は連番を付ける）
+	 */
+	private registerRoute(baseName: string, route: MCPToolRoute): string {
+		let name = baseName.substring(0, MAX_TOOL_NAME_LENGTH);
+		for (let i = 2; this.routes.has(name); i++) {
+			const suffix = `_${i}`;
+			name = baseName.substring(0, MAX_TOOL_NAME_LENGTH - suffix.length) + suffix;
+		}
+		this.routes.set(name, route);
+		return name;
+	}
+
+	private truncate(text: string): string {
+		return text.length > MAX_RESULT_LENGTH
+			? `${text.substring(0, MAX_RESULT_LENGTH)}\n\n...（${text.length}文字中、先頭${MAX_RESULT_LENGTH}文字のみ）`
+			: text;
+	}
+}
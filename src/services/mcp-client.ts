@@ -0,0 +1,542 @@
+/**
+ * MCP Client
+ * Model Context Protocol（JSON-RPC 2.0）のクライアント
+ * stdio（ローカルのプロセス）とStreamable HTTP（JSONまたはSSEで応答）のトランスポートに対応する
+ */
+
+import { Platform } from "obsidian";
+import type { ChildProcess } from "child_process";
+import type { MCPClientServerConfig } from "../types";
+import type { JSONSchema } from "./ai-service-interface";
+import { requireNodeModule } from "../utils/node-modules";
+
+/**
+ * クライアントが要求するプロトコルのバージョン
+ */
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+
+const CLIENT_INFO = { name: "knowledge-connect", version: "1.0.0" };
+
+export interface JSONRPCRequest {
+	jsonrpc: "2.0";
+	id: number | string;
+	method: string;
+	params?: Record<string, unknown>;
+}
+
+export interface JSONRPCNotification {
+	jsonrpc: "2.0";
+	method: string;
+	params?: Record<string, unknown>;
+}
+
+export interface JSONRPCResponse {
+	jsonrpc: "2.0";
+	id: number | string;
+	result?: unknown;
+	error?: { code: number; message: string; data?: unknown };
+}
+
+export type JSONRPCMessage = JSONRPCRequest | JSONRPCNotification | JSONRPCResponse;
+
+/**
+ * MCPサーバーが提供するツール
+ */
+export interface MCPTool {
+	name: string;
+	description?: string;
+	inputSchema: JSONSchema;
+}
+
+/**
+ * MCPサーバーが提供するリソース
+ */
+export interface MCPResource {
+	uri: string;
+	name: string;
+	description?: string;
+	mimeType?: string;
+}
+
+/**
+ * ツールの実行結果・リソースの内容の構成要素
+ */
+export type MCPContent =
+	| { type: "text"; text: string }
+	| { type: "image"; data: string; mimeType: string }
+	| { type: "audio"; data: string; mimeType: string }
+	| { type: "resource"; resource: MCPResourceContents };
+
+export interface MCPResourceContents {
+	uri: string;
+	mimeType?: string;
+	text?: string;
+	blob?: string; // Base64
+}
+
+export interface MCPToolResult {
+	content: MCPContent[];
+	isError?: boolean;
+}
+
+/**
+ * initializeで受け取るサーバーの情報
+ */
+export interface MCPServerInfo {
+	protocolVersion: string;
+	capabilities: {
+		tools?: Record<string, unknown>;
+		resources?: Record<string, unknown>;
+		prompts?: Record<string, unknown>;
+	};
+	serverInfo?: { name: string; version?: string };
+	instructions?: string;
+}
+
+/**
+ * メッセージの送受信を行うトランスポート
+ */
+export interface MCPTransport {
+	onMessage: (message: JSONRPCMessage) => void;
+	onClose: (error?: Error) => void;
+	start(): Promise<void>;
+	send(message: JSONRPCMessage, signal?: AbortSignal): Promise<void>;
+	close(): Promise<void>;
+}
+
+/**
+ * 設定に応じたトランスポートを作成
+ */
+export function createMCPTransport(config: MCPClientServerConfig): MCPTransport {
+	if (config.transport === "stdio") {
+		return new StdioTransport(config.command || "", config.args || [], config.env || {});
+	}
+	return new StreamableHttpTransport(config.url || "", config.headers || {});
+}
+
+/**
+ * ローカルのプロセスを起動し、標準入出力で改行区切りのJSONをやり取りするトランスポート
+ * デスクトップ版でのみ使用できる
+ */
+export class StdioTransport implements MCPTransport {
+	onMessage: (message: JSONRPCMessage) => void = () => {};
+	onClose: (error?: Error) => void = () => {};
+	private command: string;
+	private args: string[];
+	private env: Record<string, string>;
+	private process: ChildProcess | null = null;
+	private buffer = "";
+
+	constructor(command: string, args: string[], env: Record<string, string>) {
+		this.command = command;
+		this.args = args;
+		this.env = env;
+	}
+
+	async start(): Promise<void> {
+		if (!Platform.isDesktopApp) {
+			throw new Error("stdioのMCPサーバーはデスクトップ版でのみ使用できます。");
+		}
+		if (!this.command.trim()) {
+			throw new Error("MCPサーバーの起動コマンドが設定されていません。");
+		}
+
+		const { spawn } = requireNodeModule("child_process");
+		const child = spawn(this.command, this.args, {
+			env: { ...process.env, ...this.env },
+			stdio: ["pipe", "pipe", "pipe"],
+		});
+		this.process = child;
+
+		await new Promise<void>((resolve, reject) => {
+			child.once("spawn", () => resolve());
+			child.once("error", (error) => reject(new Error(`MCPサーバーを起動できません（${this.command}）: ${error.message}`)));
+		});
+
+		child.stdout?.setEncoding("utf8");
+		child.stdout?.on("data", (data: string) => this.handleData(data));
+		child.stderr?.on("data", (data: Buffer) => {
+			console.log(`[MCP Client] ${this.command}: ${data.toString().trim()}`);
+		});
+		child.on("error", (error) => this.onClose(error));
+		child.on("exit", (code) => {
+			this.process = null;
+			this.onClose(code ? new Error(`MCPサーバーが終了しました（終了コード: ${code}）`) : undefined);
+		});
+	}
+
+	async send(message: JSONRPCMessage): Promise<void> {
+		if (!this.process || !this.process.stdin) {
+			throw new Error("MCPサーバーに接続されていません。");
+		}
+		this.process.stdin.write(`${JSON.stringify(message)}\n`);
+	}
+
+	async close(): Promise<void> {
+		if (this.process) {
+			this.process.stdin?.end();
+			this.process.kill();
+			this.process = null;
+		}
+	}
+
+	/**
+	 * 受信したデータを行単位に分割してメッセージとして扱う
+	 */
+	private handleData(data: string): void {
+		this.buffer += data;
+		const lines = this.buffer.split("\n");
+		this.buffer = lines.pop() || "";
+		for (const line of lines) {
+			if (!line.trim()) {
+				continue;
+			}
+			try {
+				this.onMessage(JSON.parse(line));
+			} catch {
+				console.warn("[MCP Client] 解析できないメッセージを無視しました:", line);
+			}
+		}
+	}
+}
+
+/**
+ * Streamable HTTPトランスポート
+ * メッセージをPOSTで送信し、応答はJSONまたはServer-Sent Eventsで受け取る
+ */
+export class StreamableHttpTransport implements MCPTransport {
+	onMessage: (message: JSONRPCMessage) => void = () => {};
+	onClose: (error?: Error) => void = () => {};
+	private url: string;
+	private headers: Record<string, string>;
+	private sessionId: string | null = null;
+
+	constructor(url: string, headers: Record<string, string>) {
+		this.url = url;
+		this.headers = headers;
+	}
+
+	async start(): Promise<void> {
+		try {
+			new URL(this.url);
+		} catch {
+			throw new Error(`MCPサーバーのURLが正しくありません: ${this.url}`);
+		}
+	}
+
+	async send(message: JSONRPCMessage, signal?: AbortSignal): Promise<void> {
+		const headers: Record<string, string> = {
+			...this.headers,
+			"Content-Type": "application/json",
+			Accept: "application/json, text/event-stream",
+		};
+		if (this.sessionId) {
+			headers["Mcp-Session-Id"] = this.sessionId;
+		}
+
+		let response: Response;
+		try {
+			response = await fetch(this.url, {
+				method: "POST",
+				headers,
+				body: JSON.stringify(message),
+				signal,
+			});
+		} catch (error) {
+			if (signal?.aborted) {
+				throw new Error("リクエストがキャンセルされました。");
+			}
+			throw new Error(`MCPサーバーに接続できません（${this.url}）: ${error instanceof Error ? error.message : String(error)}`);
+		}
+
+		const sessionId = response.headers.get("Mcp-Session-Id");
+		if (sessionId) {
+			this.sessionId = sessionId;
+		}
+
+		if (!response.ok) {
+			const body = await response.text().catch(() => "");
+			throw new Error(`MCPサーバー エラー: ${response.status} ${response.statusText}. ${body}`.trim());
+		}
+
+		// 通知・応答の送信は202（本文なし）で受理される
+		if (response.status === 202 || !response.body) {
+			return;
+		}
+
+		const contentType = response.headers.get("Content-Type") || "";
+		if (contentType.includes("text/event-stream")) {
+			await this.readEventStream(response.body);
+			return;
+		}
+
+		const text = await response.text();
+		if (!text.trim()) {
+			return;
+		}
+		const data = JSON.parse(text);
+		(Array.isArray(data) ? data : [data]).forEach((item: JSONRPCMessage) => this.onMessage(item));
+	}
+
+	async close(): Promise<void> {
+		// セッションを終了（対応していないサーバーもあるため失敗は無視）
+		if (this.sessionId) {
+			const sessionId = this.sessionId;
+			this.sessionId = null;
+			await fetch(this.url, {
+				method: "DELETE",
+				headers: { ...this.headers, "Mcp-Session-Id": sessionId },
+			}).catch(() => undefined);
+		}
+	}
+
+	/**
+	 * Server-Sent Eventsのdataをメッセージとして読み込む
+	 */
+	private async readEventStream(body: ReadableStream<Uint8Array>): Promise<void> {
+		const reader = body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = "";
+		let dataLines: string[] = [];
+
+		const dispatch = () => {
+			if (dataLines.length === 0) {
+				return;
+			}
+			const data = dataLines.join("\n");
+			dataLines = [];
+			try {
+				this.onMessage(JSON.parse(data));
+			} catch {
+				console.warn("[MCP Client] 解析できないイベントを無視しました:", data);
+			}
+		};
+
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) {
+				break;
+			}
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split(/\r?\n/);
+			buffer = lines.pop() || "";
+			for (const line of lines) {
+				if (line === "") {
+					dispatch();
+				} else if (line.startsWith("data:")) {
+					dataLines.push(line.slice(5).replace(/^ /, ""));
+				}
+			}
+		}
+		if (buffer.startsWith("data:")) {
+			dataLines.push(buffer.slice(5).replace(/^ /, ""));
+		}
+		dispatch();
+	}
+}
+
+interface PendingRequest {
+	resolve: (result: unknown) => void;
+	reject: (error: Error) => void;
+}
+
+export class MCPClient {
+	private transport: MCPTransport;
+	private timeoutMs: number;
+	private pending: Map<number, PendingRequest> = new Map();
+	private nextId = 1;
+	private serverInfo: MCPServerInfo | null = null;
+	private closed = false;
+
+	constructor(transport: MCPTransport, timeoutMs: number) {
+		this.transport = transport;
+		this.timeoutMs = timeoutMs;
+		this.transport.onMessage = (message) => this.handleMessage(message);
+		this.transport.onClose = (error) => this.handleClose(error);
+	}
+
+	/**
+	 * 接続してinitializeを実行
+	 */
+	async connect(): Promise<MCPServerInfo> {
+		await this.transport.start();
+		const result = await this.request<MCPServerInfo>("initialize", {
+			protocolVersion: MCP_PROTOCOL_VERSION,
+			capabilities: {},
+			clientInfo: CLIENT_INFO,
+		});
+		this.serverInfo = result;
+		await this.transport.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+		return this.serverInfo;
+	}
+
+	/**
+	 * initializeで受け取ったサーバーの情報を取得
+	 */
+	getServerInfo(): MCPServerInfo | null {
+		return this.serverInfo;
+	}
+
+	isConnected(): boolean {
+		return this.serverInfo !== null && !this.closed;
+	}
+
+	/**
+	 * ツールの一覧を取得（ページングされている場合はすべて取得）
+	 */
+	async listTools(): Promise<MCPTool[]> {
+		const tools: MCPTool[] = [];
+		let cursor: string | undefined;
+		do {
+			const result = await this.request<{ tools?: MCPTool[]; nextCursor?: string }>("tools/list", cursor ? { cursor } : {});
+			tools.push(...(result.tools || []));
+			cursor = result.nextCursor;
+		} while (cursor);
+		return tools;
+	}
+
+	/**
+	 * ツールを実行
+	 */
+	async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<MCPToolResult> {
+		const result = await this.request<{ content?: MCPContent[]; isError?: boolean }>(
+			"tools/call",
+			{ name, arguments: args },
+			signal
+		);
+		return { content: result.content || [], isError: result.isError === true };
+	}
+
+	/**
+	 * リソースの一覧を取得（ページングされている場合はすべて取得）
+	 */
+	async listResources(): Promise<MCPResource[]> {
+		const resources: MCPResource[] = [];
+		let cursor: string | undefined;
+		do {
+			const result = await this.request<{ resources?: MCPResource[]; nextCursor?: string }>(
+				"resources/list",
+				cursor ? { cursor } : {}
+			);
+			resources.push(...(result.resources || []));
+			cursor = result.nextCursor;
+		} while (cursor);
+		return resources;
+	}
+
+	/**
+	 * リソースの内容を読み込む
+	 */
+	async readResource(uri: string, signal?: AbortSignal): Promise<MCPResourceContents[]> {
+		const result = await this.request<{ contents?: MCPResourceContents[] }>("resources/read", { uri }, signal);
+		return result.contents || [];
+	}
+
+	/**
+	 * 接続を終了
+	 */
+	async close(): Promise<void> {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		this.rejectAll(new Error("MCPサーバーとの接続を終了しました。"));
+		await this.transport.close();
+	}
+
+	/**
+	 * リクエストを送信して応答を待つ
+	 * 応答のresultはTとして扱う（内容は検証しないため、呼び出し元で省略可能な項目として扱う）
+	 */
+	private request<T>(method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+		if (this.closed) {
+			return Promise.reject(new Error("MCPサーバーとの接続は終了しています。"));
+		}
+		if (signal?.aborted) {
+			return Promise.reject(new Error("リクエストがキャンセルされました。"));
+		}
+
+		const id = this.nextId++;
+		return new Promise<T>((resolve, reject) => {
+			const cleanup = () => {
+				clearTimeout(timeoutId);
+				signal?.removeEventListener("abort", onAbort);
+				this.pending.delete(id);
+			};
+			const cancel = (reason: string) => {
+				// サーバー側の処理も中断するよう通知（失敗しても無視）
+				this.transport
+					.send({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: id, reason } })
+					.catch(() => undefined);
+			};
+			const onAbort = () => {
+				cleanup();
+				cancel("cancelled by user");
+				reject(new Error("リクエストがキャンセルされました。"));
+			};
+			const timeoutId = setTimeout(() => {
+				cleanup();
+				cancel("timeout");
+				reject(new Error(`MCPサーバーの応答がタイムアウトしました（${method}）。`));
+			}, this.timeoutMs);
+
+			signal?.addEventListener("abort", onAbort, { once: true });
+			this.pending.set(id, {
+				resolve: (result) => {
+					cleanup();
+					resolve(result as T);
+				},
+				reject: (error) => {
+					cleanup();
+					reject(error);
+				},
+			});
+
+			this.transport.send({ jsonrpc: "2.0", id, method, params }, signal).catch((error) => {
+				const pending = this.pending.get(id);
+				if (pending) {
+					pending.reject(error instanceof Error ? error : new Error(String(error)));
+				}
+			});
+		});
+	}
+
+	private handleMessage(message: JSONRPCMessage): void {
+		// 応答
+		if ("id" in message && !("method" in message)) {
+			const pending = this.pending.get(Number(message.id));
+			if (!pending) {
+				return;
+			}
+			if (message.error) {
+				pending.reject(new Error(`MCPサーバー エラー: ${message.error.code} ${message.error.message}`));
+			} else {
+				pending.resolve(message.result ?? {});
+			}
+			return;
+		}
+
+		// サーバーからのリクエスト（pingのみ応答し、それ以外は未対応として返す）
+		if ("id" in message && "method" in message) {
+			const response: JSONRPCResponse = message.method === "ping"
+				? { jsonrpc: "2.0", id: message.id, result: {} }
+				: { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+			this.transport.send(response).catch(() => undefined);
+		}
+		// 通知（進捗・ログなど）は使用しない
+	}
+
+	private handleClose(error?: Error): void {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		this.rejectAll(error || new Error("MCPサーバーとの接続が切断されました。"));
+	}
+
+	private rejectAll(error: Error): void {
+		const pending = Array.from(this.pending.values());
+		this.pending.clear();
+		pending.forEach((request) => request.reject(error));
+	}
+}
@@ -0,0 +1,181 @@
+/**
+ * MCP Connection
+ * 検索用MCPサーバーへの接続（認証・CA証明書）の設定からMCPServiceを作成する
+ * トークン・APIキー・パスワードは設定（data.json）には保存せず、この端末のVaultごとのlocalStorageに保存する
+ */
+
+import type { App } from "obsidian";
+import type { KnowledgeConnectSettings, MCPAuthConfig, MCPBackendConfig } from "../types";
+import { MCPService } from "./mcp-service";
+import type { RequestManager } from "./request-manager";
+import { toServerPath } from "../utils/vault-paths";
+
+/**
+ * 認証情報を保存するlocalStorageのキー
+ */
+const CREDENTIALS_STORAGE_KEY = "knowledge-connect-mcp-credentials";
+
+/**
+ * MCPサーバーURL（mcpServerUrl）のサーバーの認証情報のID（検索バックエンドは各バックエンドのIDを使用）
+ */
+export const DEFAULT_CREDENTIAL_ID = "default";
+
+/**
+ * APIキーを送るヘッダー名のデフォルト
+ */
+export const DEFAULT_API_KEY_HEADER = "X-API-Key";
+
+function loadCredentials(app: App): Record<string, string> {
+	const credentials = app.loadLocalStorage(CREDENTIALS_STORAGE_KEY);
+	return credentials && typeof credentials === "object" ? credentials : {};
+}
+
+/**
+ * 保存されている秘密情報（トークン・APIキー・パスワード）を取得
+ */
+export function getMCPCredential(app: App, id: string): string {
+	return loadCredentials(app)[id] || "";
+}
+
+/**
+ * 秘密情報を保存（空の場合は削除）
+ */
+export function setMCPCredential(app: App, id: string, value: string): void {
+	const credentials = loadCredentials(app);
+	if (value) {
+		credentials[id] = value;
+	} else {
+		delete credentials[id];
+	}
+	app.saveLocalStorage(CREDENTIALS_STORAGE_KEY, Object.keys(credentials).length > 0 ? credentials : null);
+}
+
+/**
+ * 以前のバージョンの検索バックエンドの設定（Authorizationヘッダーの値を設定に平文で保存していた）
+ */
+type LegacyMCPBackendConfig = MCPBackendConfig & { authHeader?: string };
+
+/**
+ * Basic認証のヘッダーの値からユーザー名とパスワードを取得（解釈できない場合はnull）
+ */
+function decodeBasicAuth(value: string): { username: string; password: string } | null {
+	try {
+		const binary = atob(value.trim());
+		const bytes = new Uint8Array(binary.length);
+		for (let i = 0; i < binary.length; i++) {
+			bytes[i] = binary.charCodeAt(i);
+		}
+		const decoded = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+		const separator = decoded.indexOf(":");
+		return separator < 0 ? null : { username: decoded.substring(0, separator), password: decoded.substring(separator + 1) };
+	} catch (error) {
+		return null;
+	}
+}
+
+/**
+ * 検索バックエンドの設定に残っているAuthorizationヘッダー（authHeader）を認証設定と秘密情報の保存先に移す
+ * Bearer・Basicは対応する認証方式に、それ以外はAuthorizationヘッダーで送るAPIキーとして移行する
+ * @returns 設定を変更した場合はtrue（呼び出し元で設定を保存する）
+ */
+export function migrateLegacyMCPAuthHeaders(app: App, settings: KnowledgeConnectSettings): boolean {
+	let migrated = false;
+	for (const backend of (settings.mcpBackends || []) as LegacyMCPBackendConfig[]) {
+		if (!("authHeader" in backend)) {
+			continue;
+		}
+		const authHeader = (backend.authHeader || "").trim();
+		delete backend.authHeader;
+		migrated = true;
+		// 認証設定が既にある場合は、そちらを優先する
+		if (!authHeader || (backend.auth && backend.auth.type !== "none")) {
+			continue;
+		}
+
+		const bearer = authHeader.match(/^Bearer\s+(.+)$/i);
+		const basic = authHeader.match(/^Basic\s+(.+)$/i);
+		const credentials = basic ? decodeBasicAuth(basic[1]) : null;
+		if (bearer) {
+			backend.auth = { type: "bearer" };
+			setMCPCredential(app, backend.id, bearer[1].trim());
+		} else if (credentials) {
+			backend.auth = { type: "basic", username: credentials.username };
+			setMCPCredential(app, backend.id, credentials.password);
+		} else {
+			backend.auth = { type: "apiKey", apiKeyHeader: "Authorization" };
+			setMCPCredential(app, backend.id, authHeader);
+		}
+		console.log(`[MCP Connection] 検索バックエンド「${backend.name}」の認証情報を移行しました`);
+	}
+	return migrated;
+}
+
+/**
+ * UTF-8の文字列をBase64に変換（Basic認証用）
+ */
+function encodeBase64(text: string): string {
+	let binary = "";
+	new TextEncoder().encode(text).forEach((byte) => {
+		binary += String.fromCharCode(byte);
+	});
+	return btoa(binary);
+}
+
+/**
+ * 認証設定と秘密情報からリクエストヘッダーを作成
+ */
+export function buildMCPAuthHeaders(auth: MCPAuthConfig | undefined, secret: string): Record<string, string> {
+	if (!auth || !secret) {
+		return {};
+	}
+	switch (auth.type) {
+		case "bearer":
+			return { Authorization: `Bearer ${secret}` };
+		case "apiKey":
+			return { [auth.apiKeyHeader || DEFAULT_API_KEY_HEADER]: secret };
+		case "basic":
+			return { Authorization: `Basic ${encodeBase64(`${auth.username || ""}:${secret}`)}` };
+		default:
+			return {};
+	}
+}
+
+/**
+ * MCPサーバーURL（mcpServerUrl）のサーバーを検索バックエンドの設定として取得
+ */
+export function getDefaultBackend(settings: KnowledgeConnectSettings): MCPBackendConfig {
+	return {
+		id: DEFAULT_CREDENTIAL_ID,
+		name: "MCPサーバー",
+		enabled: true,
+		url: settings.mcpServerUrl || "http://127.0.0.1:8000",
+		auth: settings.mcpAuth,
+		caCertPath: settings.mcpCaCertPath,
+	};
+}
+
+/**
+ * 検索バックエンドに接続するMCPServiceを作成
+ */
+export function createBackendMCPService(
+	app: App,
+	backend: MCPBackendConfig,
+	requestManager?: RequestManager | null
+): MCPService {
+	return new MCPService(backend.url, requestManager, {
+		headers: buildMCPAuthHeaders(backend.auth, getMCPCredential(app, backend.id)),
+		caCertPath: backend.caCertPath || undefined,
+		toServerPath: (vaultPath) => toServerPath(app, vaultPath, backend.serverRoot),
+	});
+}
+
+/**
+ * MCPサーバーURL（mcpServerUrl）のサーバーに接続するMCPServiceを作成
+ */
+export function createMCPService(
+	app: App,
+	settings: KnowledgeConnectSettings,
+	requestManager?: RequestManager | null
+): MCPService {
+	return createBackendMCPService(app, getDefaultBackend(settings), requestManager);
+}
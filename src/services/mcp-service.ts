@@ -3,6 +3,23 @@
  * MCPサーバーとの通信を管理するサービス
  */
 
+import { Platform } from "obsidian";
+import type { IncomingMessage } from "http";
+import type { RequestManager } from "./request-manager";
+import { getLocalMCPServer, isLocalMCPServerUrl } from "./local-mcp-server";
+import {
+	AppError,
+	AuthError,
+	CancelledError,
+	NetworkError,
+	createAppError,
+	createHttpError,
+	parseRetryAfter,
+	toErrorDetails,
+} from "../utils/errors";
+import { formatErrorMessage } from "../utils/error-handler";
+import { requireNodeModule } from "../utils/node-modules";
+
 export interface MCPServerResponse {
 	message?: string;
 	status?: string;
@@ -27,9 +44,21 @@ export interface IndexJobResponse {
 	directory_path: string;
 }
 
+/**
+ * 検索対象の絞り込み条件（指定した条件すべてに一致する結果のみを返す）
+ */
+export interface SearchFilters {
+	path_prefix?: string[]; // パスの前方一致（いずれかに一致）
+	tags?: string[]; // フロントマターのタグ（tags・aigen-tag。いずれかに一致）
+	modified_after?: string; // 更新日時の下限（YYYY-MM-DDまたはISO 8601）
+	modified_before?: string; // 更新日時の上限（YYYY-MM-DDの場合はその日を含む）
+	file_types?: string[]; // 拡張子（md、pdfなど。いずれかに一致）
+}
+
 export interface SearchQueryRequest {
 	query: string;
 	limit?: number;
+	filters?: SearchFilters;
 }
 
 export interface SearchResult {
@@ -37,6 +66,22 @@ export interface SearchResult {
 	file_type: string;
 	location_info: string;
 	snippet: string;
+	heading_path?: string[]; // 結果の位置の見出しの階層（上位の見出しから順）
+	start_line?: number; // 結果の開始行（1始まり）
+	end_line?: number;
+	score?: number; // 関連度（返すサーバー・インデックスのみ。大きいほど関連が高い）
+}
+
+/**
+ * 検索結果の開始行（1始まり）を取得
+ * start_lineを返さないサーバーの結果は、location_infoの「行 N」「行 N-M」から取得する
+ */
+export function getResultStartLine(result: SearchResult): number | undefined {
+	if (result.start_line) {
+		return result.start_line;
+	}
+	const match = (result.location_info || '').match(/行\s*(\d+)/);
+	return match ? Number(match[1]) : undefined;
 }
 
 export interface SearchResponse {
@@ -65,6 +110,151 @@ export interface Job {
 	result?: any;
 }
 
+/**
+ * ジョブのイベント（SSE）の購読で呼ばれるハンドラー
+ */
+export interface JobEventHandlers {
+	onOpen?: () => void;
+	onJob: (job: Job) => void;
+	onError?: (error: Error) => void; // 接続に失敗した・切断された
+	onUnsupported?: () => void; // サーバーがイベントの配信に対応していない
+}
+
+export interface JobEventSubscription {
+	close(): void;
+}
+
+/**
+ * ジョブがサーバーに存在しない（削除された・サーバーが再起動された）
+ */
+export class JobNotFoundError extends Error {
+	readonly jobId: number;
+
+	constructor(jobId: number) {
+		super(`ジョブ ${jobId} が見つかりません。`);
+		this.jobId = jobId;
+	}
+}
+
+/**
+ * TLS証明書の検証の失敗を表すNode.jsのエラーコード
+ */
+const TLS_ERROR_CODES = [
+	'SELF_SIGNED_CERT_IN_CHAIN',
+	'DEPTH_ZERO_SELF_SIGNED_CERT',
+	'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+	'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+	'CERT_HAS_EXPIRED',
+	'CERT_NOT_YET_VALID',
+	'ERR_TLS_CERT_ALTNAME_INVALID',
+];
+
+/**
+ * 認証に失敗した（401）・アクセスが拒否された（403）
+ */
+export class MCPAuthError extends AuthError {
+	constructor(status: number, endpoint?: string, details?: string) {
+		super(status === 401
+			? 'MCPサーバーの認証に失敗しました（HTTP 401）。'
+			: 'MCPサーバーへのアクセスが拒否されました（HTTP 403）。', {
+			status,
+			endpoint,
+			details,
+			hint: status === 401
+				? '設定の認証情報を確認してください。'
+				: '認証情報に必要な権限があるか確認してください。',
+		});
+	}
+}
+
+/**
+ * サーバーに接続できない（起動していない・URLの誤り・TLS証明書の検証の失敗など）
+ */
+export class MCPConnectionError extends NetworkError {
+	readonly tls: boolean; // TLS証明書の検証に失敗した
+
+	constructor(baseUrl: string, cause: unknown, endpoint?: string) {
+		const code = cause && typeof cause === 'object' ? String((cause as { code?: unknown }).code || '') : '';
+		const tls = TLS_ERROR_CODES.indexOf(code) >= 0;
+		const detail = cause instanceof Error ? cause.message : String(cause);
+		let hint: string;
+		if (tls) {
+			hint = 'CA証明書の設定を確認してください。';
+		} else if (baseUrl.startsWith('https:')) {
+			hint = 'サーバーが起動しているか、証明書が信頼されているか（自己署名の場合はCA証明書の設定）を確認してください。';
+		} else {
+			hint = 'サーバーが起動しているか、URLが正しいか確認してください。';
+		}
+		super(tls
+			? `MCPサーバー（${baseUrl}）のTLS証明書を検証できませんでした（${code}）。`
+			: `MCPサーバー（${baseUrl}）に接続できません。`, {
+			endpoint: endpoint ? `${baseUrl}${endpoint}` : baseUrl,
+			details: detail,
+			hint,
+			cause,
+		});
+		this.tls = tls;
+	}
+}
+
+/**
+ * MCPServiceの接続オプション
+ */
+export interface MCPConnectionOptions {
+	headers?: Record<string, string>; // すべてのリクエストに付加するヘッダー（認証など）
+	caCertPath?: string; // サーバー証明書の検証に使用するCA証明書（PEM）のパス（デスクトップ版のみ）
+	toServerPath?: (vaultPath: string) => string; // Vault内のパスをサーバー上のパスに変換（絞り込み条件のpath_prefixに使用）
+}
+
+/**
+ * 絞り込み条件をGETリクエストのクエリパラメータ（JSON）に変換
+ */
+function toFiltersParam(filters?: SearchFilters): string {
+	return filters ? `&filters=${encodeURIComponent(JSON.stringify(filters))}` : '';
+}
+
+/**
+ * 操作の失敗を呼び出し元に返すエラーに変換
+ * 接続・認証・キャンセルのエラーは原因が分かるようそのまま返し、それ以外は操作ごとのメッセージに詳細を付けて返す
+ * 種類の分かるエラーは種類とHTTPステータスなどを保ったまま作り直す
+ */
+function toOperationError(error: unknown, message: string): Error {
+	if (error instanceof NetworkError || error instanceof AuthError || error instanceof CancelledError) {
+		return error;
+	}
+	const detail = error instanceof Error ? error.message : String(error);
+	if (error instanceof AppError) {
+		return createAppError(error.kind, `${message}（${detail}）`, { ...error.getOptions(), cause: error });
+	}
+	return new Error(`${message}（${detail}）`);
+}
+
+/**
+ * エラーの応答からエラーを作成
+ * FastAPIの { "detail": ... } 形式の応答はdetailをメッセージに含める
+ */
+async function toResponseError(response: Response, endpoint: string): Promise<AppError> {
+	const body = await response.text().catch(() => '');
+	let detail = '';
+	try {
+		const data = JSON.parse(body);
+		if (data && data.detail !== undefined) {
+			detail = typeof data.detail === 'string' ? data.detail : JSON.stringify(data.detail);
+		}
+	} catch (error) {
+		// JSON以外の応答は詳細としてのみ表示する
+	}
+	return createHttpError(
+		response.status,
+		`MCPサーバーがエラーを返しました（HTTP ${response.status}）${detail ? `: ${detail}` : ''}`,
+		{
+			endpoint,
+			retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+			details: toErrorDetails(body),
+		}
+	);
+}
+
 export interface SearchStats {
 	total_documents: number;
 	database_path: string;
@@ -91,6 +281,31 @@ export interface VectorizeStats {
 	persist_directory: string;
 }
 
+/**
+ * インデックスの差分同期で送信するファイル単位の操作
+ */
+export type IndexSyncOperation =
+	| { op: 'upsert'; file_path: string; content: string }
+	| { op: 'delete'; file_path: string }
+	| { op: 'rename'; old_path: string; file_path: string };
+
+export interface IndexSyncRequest {
+	operations: IndexSyncOperation[];
+	vectorize?: boolean; // ベクトルストアも更新するか
+	provider?: string;
+	model?: string;
+	api_base?: string;
+	chunk_size?: number;
+	chunk_overlap?: number;
+}
+
+export interface IndexSyncResponse {
+	message: string;
+	upserted: number;
+	deleted: number;
+	renamed: number;
+}
+
 export interface HybridSearchRequest {
 	query: string;
 	limit?: number;
@@ -98,6 +313,7 @@ export interface HybridSearchRequest {
 	keyword_limit?: number;
 	vector_limit?: number;
 	expand_synonyms?: boolean;
+	filters?: SearchFilters;
 }
 
 export interface HybridSearchResponse {
@@ -118,6 +334,7 @@ export interface RAGRequest {
 	api_base?: string;
 	temperature?: number;
 	max_tokens?: number | null;
+	filters?: SearchFilters;
 }
 
 export interface RAGResponse {
@@ -142,9 +359,130 @@ export interface LLMModelsResponse {
 
 export class MCPService {
 	private readonly baseUrl: string;
+	private readonly requestManager: RequestManager | null;
+	private readonly headers: Record<string, string>;
+	private readonly caCertPath: string | null;
+	private readonly toServerPath: ((vaultPath: string) => string) | null;
 
-	constructor(baseUrl?: string) {
+	constructor(baseUrl?: string, requestManager?: RequestManager | null, options?: MCPConnectionOptions) {
 		this.baseUrl = baseUrl || 'http://127.0.0.1:8000';
+		this.requestManager = requestManager || null;
+		this.headers = options?.headers || {};
+		this.caCertPath = options?.caCertPath || null;
+		this.toServerPath = options?.toServerPath || null;
+	}
+
+	/**
+	 * 絞り込み条件をサーバーに送る形式に変換
+	 * path_prefixはVault内のパスで指定されるため、directory_pathなど他のパスと同じくサーバー上のパスに変換する
+	 */
+	private toServerFilters(filters?: SearchFilters): SearchFilters | undefined {
+		const toServerPath = this.toServerPath;
+		if (!filters || !filters.path_prefix || !toServerPath) {
+			return filters;
+		}
+		return { ...filters, path_prefix: filters.path_prefix.map((prefix) => toServerPath(prefix)) };
+	}
+
+	/**
+	 * このインスタンスから送信した実行中のリクエストをすべてキャンセル
+	 */
+	cancelPending(): number {
+		return this.requestManager ? this.requestManager.cancelOwner(this) : 0;
+	}
+
+	/**
+	 * リクエストマネージャーに登録してfetchを実行
+	 */
+	private async trackedFetch(endpoint: string, init: RequestInit): Promise<Response> {
+		const request = this.requestManager
+			? this.requestManager.start('mcp', endpoint.split('?')[0], { owner: this })
+			: null;
+		try {
+			const requestInit = {
+				...init,
+				headers: { ...(init.headers as Record<string, string> | undefined), ...this.headers },
+				signal: request ? request.signal : undefined,
+			};
+			// ローカルサーバーを指定した場合はプラグイン内で処理
+			if (isLocalMCPServerUrl(this.baseUrl)) {
+				return await getLocalMCPServer().fetch(endpoint, requestInit);
+			}
+			let response: Response;
+			try {
+				response = await this.fetchServer(`${this.baseUrl}${endpoint}`, requestInit);
+			} catch (error) {
+				if (request && request.signal.aborted) {
+					throw error;
+				}
+				throw new MCPConnectionError(this.baseUrl, error, endpoint);
+			}
+			if (response.status === 401 || response.status === 403) {
+				throw new MCPAuthError(response.status, `${this.baseUrl}${endpoint}`, toErrorDetails(await response.text().catch(() => '')));
+			}
+			return response;
+		} catch (error) {
+			if (request && request.signal.aborted) {
+				throw new CancelledError('リクエストがキャンセルされました。', { endpoint: `${this.baseUrl}${endpoint}` });
+			}
+			throw error;
+		} finally {
+			if (request) {
+				request.finish();
+			}
+		}
+	}
+
+	/**
+	 * サーバーにリクエストを送信
+	 * CA証明書が設定されたHTTPSのサーバーには、証明書を指定できるNode.jsのhttpsモジュールで接続する
+	 */
+	private async fetchServer(url: string, init: RequestInit): Promise<Response> {
+		if (!this.caCertPath || !url.startsWith('https:')) {
+			return fetch(url, init);
+		}
+		if (!Platform.isDesktopApp) {
+			throw new Error('CA証明書の指定はデスクトップ版でのみ使用できます。');
+		}
+		const https = requireNodeModule('https');
+		const fs = requireNodeModule('fs');
+		let ca: string;
+		try {
+			ca = fs.readFileSync(this.caCertPath, 'utf8');
+		} catch (error) {
+			throw new Error(`CA証明書を読み込めません: ${this.caCertPath}`);
+		}
+
+		return new Promise<Response>((resolve, reject) => {
+			const requestHeaders: Record<string, string> = {};
+			new Headers(init.headers).forEach((value, name) => {
+				requestHeaders[name] = value;
+			});
+			const req = https.request(url, { method: init.method || 'GET', headers: requestHeaders, ca }, (res: IncomingMessage) => {
+				const chunks: Uint8Array[] = [];
+				res.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+				res.on('error', reject);
+				res.on('end', () => {
+					const headers = new Headers();
+					Object.keys(res.headers).forEach((name) => {
+						const value = res.headers[name];
+						if (value !== undefined) {
+							headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+						}
+					});
+					const body = chunks.length > 0 ? Buffer.concat(chunks) : null;
+					resolve(new Response(body, { status: res.statusCode || 500, headers }));
+				});
+			});
+			req.on('error', reject);
+			if (init.signal) {
+				init.signal.addEventListener('abort', () => req.destroy(new Error('aborted')));
+			}
+			if (typeof init.body === 'string') {
+				req.write(init.body);
+			}
+			req.end();
+		});
 	}
 
 	/**
@@ -152,7 +490,7 @@ export class MCPService {
 	 */
 	async callServer(endpoint: string): Promise<MCPServerResponse> {
 		try {
-			const response = await fetch(`${this.baseUrl}${endpoint}`, {
+			const response = await this.trackedFetch(endpoint, {
 				method: 'GET',
 				headers: {
 					'Content-Type': 'application/json',
@@ -160,7 +498,7 @@ export class MCPService {
 			});
 
 			if (!response.ok) {
-				throw new Error(`HTTP error! status: ${response.status}`);
+				throw await toResponseError(response, `${this.baseUrl}${endpoint}`);
 			}
 
 			return await response.json();
@@ -175,7 +513,7 @@ export class MCPService {
 	 */
 	async postToServer(endpoint: string, data: any): Promise<MCPServerResponse> {
 		try {
-			const response = await fetch(`${this.baseUrl}${endpoint}`, {
+			const response = await this.trackedFetch(endpoint, {
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
@@ -184,7 +522,7 @@ export class MCPService {
 			});
 
 			if (!response.ok) {
-				throw new Error(`HTTP error! status: ${response.status}`);
+				throw await toResponseError(response, `${this.baseUrl}${endpoint}`);
 			}
 
 			return await response.json();
@@ -197,7 +535,7 @@ export class MCPService {
 	/**
 	 * サーバーのヘルスチェック
 	 */
-	async checkHealth(): Promise<{ status: string; healthy: boolean }> {
+	async checkHealth(): Promise<{ status: string; healthy: boolean; error?: string }> {
 		try {
 			const result = await this.callServer('/health');
 			return {
@@ -206,8 +544,9 @@ export class MCPService {
 			};
 		} catch (error) {
 			return {
-				status: 'unreachable',
+				status: error instanceof AuthError ? 'unauthorized' : 'unreachable',
 				healthy: false,
+				error: formatErrorMessage(error),
 			};
 		}
 	}
@@ -224,7 +563,7 @@ export class MCPService {
 				status: result.status || 'unknown',
 			};
 		} catch (error) {
-			throw new Error('MCPサーバーに接続できません。サーバーが起動しているか確認してください。');
+			throw toOperationError(error, 'MCPサーバーに接続できません。');
 		}
 	}
 
@@ -240,6 +579,21 @@ export class MCPService {
 		}
 	}
 
+	/**
+	 * サーバーが利用可能か確認し、利用できない場合は原因（認証・接続）が分かるエラーを投げる
+	 */
+	async ensureAvailable(): Promise<void> {
+		let result: MCPServerResponse;
+		try {
+			result = await this.callServer('/health');
+		} catch (error) {
+			throw toOperationError(error, 'MCPサーバーに接続できません。');
+		}
+		if (result.status !== 'healthy') {
+			throw new Error(`MCPサーバーが正常に動作していません（ステータス: ${result.status || 'unknown'}）。`);
+		}
+	}
+
 	/**
 	 * インデックス作成ジョブを開始
 	 */
@@ -255,43 +609,45 @@ export class MCPService {
 				directory_path: result.directory_path || directoryPath,
 			};
 		} catch (error) {
-			throw new Error('インデックス作成に失敗しました。サーバーが起動しているか確認してください。');
+			throw toOperationError(error, 'インデックス作成に失敗しました。');
 		}
 	}
 
 	/**
 	 * 全文検索を実行
 	 */
-	async searchDocuments(query: string, limit: number = 50): Promise<SearchResponse> {
+	async searchDocuments(query: string, limit: number = 50, filters?: SearchFilters): Promise<SearchResponse> {
 		try {
 			const encodedQuery = encodeURIComponent(query);
-			const result = await this.callServer(`/search/query?query=${encodedQuery}&limit=${limit}`);
+			const result = await this.callServer(`/search/query?query=${encodedQuery}&limit=${limit}${toFiltersParam(this.toServerFilters(filters))}`);
 			return {
 				query: result.query || query,
 				results: result.results || [],
 				total: result.total || 0,
 			};
 		} catch (error) {
-			throw new Error('検索に失敗しました。サーバーが起動しているか確認してください。');
+			throw toOperationError(error, '検索に失敗しました。');
 		}
 	}
 
 	/**
 	 * 全文検索を実行（POST版）
 	 */
-	async searchDocumentsPost(query: string, limit: number = 50): Promise<SearchResponse> {
+	async searchDocumentsPost(query: string, limit: number = 50, filters?: SearchFilters): Promise<SearchResponse> {
 		try {
-			const result = await this.postToServer('/search/query', {
+			const requestBody: SearchQueryRequest = {
 				query: query,
 				limit: limit,
-			});
+			};
+			if (filters) requestBody.filters = this.toServerFilters(filters);
+			const result = await this.postToServer('/search/query', requestBody);
 			return {
 				query: result.query || query,
 				results: result.results || [],
 				total: result.total || 0,
 			};
 		} catch (error) {
-			throw new Error('検索に失敗しました。サーバーが起動しているか確認してください。');
+			throw toOperationError(error, '検索に失敗しました。');
 		}
 	}
 
@@ -299,12 +655,27 @@ export class MCPService {
 	 * ジョブの進捗状況を取得
 	 */
 	async getJobStatus(jobId: number): Promise<Job> {
+		let response: Response;
 		try {
-			const result = await this.callServer(`/search/jobs/${jobId}`);
-			return result as Job;
+			response = await this.trackedFetch(`/search/jobs/${jobId}`, {
+				method: 'GET',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+			});
 		} catch (error) {
-			throw new Error(`ジョブ ${jobId} の取得に失敗しました。`);
+			throw toOperationError(error, `ジョブ ${jobId} の取得に失敗しました。`);
 		}
+		if (response.status === 404) {
+			throw new JobNotFoundError(jobId);
+		}
+		if (!response.ok) {
+			throw toOperationError(
+				await toResponseError(response, `${this.baseUrl}/search/jobs/${jobId}`),
+				`ジョブ ${jobId} の取得に失敗しました。`
+			);
+		}
+		return (await response.json()) as Job;
 	}
 
 	/**
@@ -319,7 +690,7 @@ export class MCPService {
 			const result = await this.callServer(endpoint);
 			return Array.isArray(result) ? result : result.jobs || [];
 		} catch (error) {
-			throw new Error('ジョブ一覧の取得に失敗しました。');
+			throw toOperationError(error, 'ジョブ一覧の取得に失敗しました。');
 		}
 	}
 
@@ -334,7 +705,144 @@ export class MCPService {
 				job_id: result.job_id || jobId,
 			};
 		} catch (error) {
-			throw new Error(`ジョブ ${jobId} のキャンセルに失敗しました。`);
+			throw toOperationError(error, `ジョブ ${jobId} のキャンセルに失敗しました。`);
+		}
+	}
+
+	/**
+	 * ジョブの状態の変化をサーバーからのイベント（SSE）で受け取る
+	 * 長時間の接続になるため、リクエストマネージャーには登録しない
+	 */
+	subscribeJobEvents(handlers: JobEventHandlers): JobEventSubscription {
+		let closed = false;
+
+		// ローカルサーバーはプラグイン内で直接通知する
+		if (isLocalMCPServerUrl(this.baseUrl)) {
+			const unsubscribe = getLocalMCPServer().subscribeJobs((job) => {
+				if (!closed) {
+					handlers.onJob(job);
+				}
+			});
+			window.setTimeout(() => {
+				if (!closed && handlers.onOpen) {
+					handlers.onOpen();
+				}
+			}, 0);
+			return {
+				close: () => {
+					closed = true;
+					unsubscribe();
+				},
+			};
+		}
+
+		// CA証明書を指定した接続ではストリームを扱えないため、ポーリングで監視する
+		if (this.caCertPath && this.baseUrl.startsWith('https:')) {
+			window.setTimeout(() => {
+				if (!closed && handlers.onUnsupported) {
+					handlers.onUnsupported();
+				}
+			}, 0);
+			return {
+				close: () => {
+					closed = true;
+				},
+			};
+		}
+
+		const controller = new AbortController();
+		const run = async () => {
+			const response = await fetch(`${this.baseUrl}/search/jobs/events`, {
+				method: 'GET',
+				headers: { Accept: 'text/event-stream', ...this.headers },
+				signal: controller.signal,
+			});
+			const contentType = response.headers.get('Content-Type') || '';
+			if (response.status === 404 || response.status === 405 || response.status === 501
+				|| (response.ok && !contentType.includes('text/event-stream'))) {
+				if (!closed && handlers.onUnsupported) {
+					handlers.onUnsupported();
+				}
+				return;
+			}
+			if (response.status === 401 || response.status === 403) {
+				throw new MCPAuthError(response.status, `${this.baseUrl}/search/jobs/events`);
+			}
+			if (!response.ok) {
+				throw await toResponseError(response, `${this.baseUrl}/search/jobs/events`);
+			}
+			if (!response.body) {
+				throw new Error('ジョブのイベントの応答が空です。');
+			}
+			if (!closed && handlers.onOpen) {
+				handlers.onOpen();
+			}
+
+			const reader = response.body.getReader();
+			const decoder = new TextDecoder();
+			let buffer = '';
+			let pendingCR = ''; // 受信データの末尾の\r（次のデータが\nで始まる場合は\r\nとして扱う）
+			while (!closed) {
+				const { done, value } = await reader.read();
+				if (done) {
+					break;
+				}
+				let text = pendingCR + decoder.decode(value, { stream: true });
+				pendingCR = '';
+				if (text.endsWith('\r')) {
+					pendingCR = '\r';
+					text = text.substring(0, text.length - 1);
+				}
+				buffer += text.replace(/\r\n?/g, '\n');
+				let separator = buffer.indexOf('\n\n');
+				while (separator >= 0) {
+					this.dispatchJobEvent(buffer.substring(0, separator), handlers);
+					buffer = buffer.substring(separator + 2);
+					separator = buffer.indexOf('\n\n');
+				}
+			}
+			if (!closed) {
+				throw new Error('ジョブのイベントの接続が切断されました。');
+			}
+		};
+		run().catch((error) => {
+			if (!closed && handlers.onError) {
+				handlers.onError(error instanceof Error ? error : new Error(String(error)));
+			}
+		});
+
+		return {
+			close: () => {
+				closed = true;
+				controller.abort();
+			},
+		};
+	}
+
+	/**
+	 * SSEのイベント1件を解析し、ジョブのイベントであればハンドラーに渡す
+	 * 「:」で始まる行（接続維持用のコメント）とジョブ以外のイベントは無視する
+	 */
+	private dispatchJobEvent(block: string, handlers: JobEventHandlers): void {
+		let eventType = 'message';
+		const dataLines: string[] = [];
+		for (const line of block.split('\n')) {
+			if (line.startsWith('event:')) {
+				eventType = line.substring(6).trim();
+			} else if (line.startsWith('data:')) {
+				dataLines.push(line.substring(5).replace(/^ /, ''));
+			}
+		}
+		if (dataLines.length === 0 || (eventType !== 'message' && eventType !== 'job')) {
+			return;
+		}
+		try {
+			const job = JSON.parse(dataLines.join('\n'));
+			if (job && typeof job.id === 'number') {
+				handlers.onJob(job as Job);
+			}
+		} catch (error) {
+			console.warn('[MCP] ジョブのイベントを解析できませんでした:', error);
 		}
 	}
 
@@ -349,7 +857,7 @@ export class MCPService {
 				database_path: result.database_path || '',
 			};
 		} catch (error) {
-			throw new Error('統計情報の取得に失敗しました。');
+			throw toOperationError(error, '統計情報の取得に失敗しました。');
 		}
 	}
 
@@ -381,7 +889,26 @@ export class MCPService {
 				directory_path: result.directory_path || directoryPath,
 			};
 		} catch (error) {
-			throw new Error('ベクトル化に失敗しました。サーバーが起動しているか確認してください。');
+			throw toOperationError(error, 'ベクトル化に失敗しました。');
+		}
+	}
+
+	/**
+	 * ファイル単位の変更（追加・更新・削除・名前変更）をインデックスに反映
+	 * POST /search/sync は任意のエンドポイント（仕様は docs/mcp-server-connection-guide-ja.md の「差分同期」を参照）
+	 * 対応していないサーバーは404・405を返し、エラーのstatusで判別できる
+	 */
+	async syncDocuments(request: IndexSyncRequest): Promise<IndexSyncResponse> {
+		try {
+			const result = await this.postToServer('/search/sync', request);
+			return {
+				message: result.message || 'インデックスを同期しました',
+				upserted: result.upserted || 0,
+				deleted: result.deleted || 0,
+				renamed: result.renamed || 0,
+			};
+		} catch (error) {
+			throw toOperationError(error, 'インデックスの同期に失敗しました。サーバーが差分同期に対応しているか確認してください。');
 		}
 	}
 
@@ -397,7 +924,7 @@ export class MCPService {
 				persist_directory: result.persist_directory || '',
 			};
 		} catch (error) {
-			throw new Error('ベクトルストアの統計情報の取得に失敗しました。');
+			throw toOperationError(error, 'ベクトルストアの統計情報の取得に失敗しました。');
 		}
 	}
 
@@ -410,11 +937,12 @@ export class MCPService {
 		hybridWeight: number = 0.5,
 		keywordLimit: number = 10,
 		vectorLimit: number = 20,
-		expandSynonyms: boolean = false
+		expandSynonyms: boolean = false,
+		filters?: SearchFilters
 	): Promise<HybridSearchResponse> {
 		try {
 			const encodedQuery = encodeURIComponent(query);
-			const url = `/search/hybrid?query=${encodedQuery}&limit=${limit}&hybrid_weight=${hybridWeight}&keyword_limit=${keywordLimit}&vector_limit=${vectorLimit}&expand_synonyms=${expandSynonyms}`;
+			const url = `/search/hybrid?query=${encodedQuery}&limit=${limit}&hybrid_weight=${hybridWeight}&keyword_limit=${keywordLimit}&vector_limit=${vectorLimit}&expand_synonyms=${expandSynonyms}${toFiltersParam(this.toServerFilters(filters))}`;
 			const result = await this.callServer(url);
 			return {
 				query: result.query || query,
@@ -422,7 +950,7 @@ export class MCPService {
 				total: result.total || 0,
 			};
 		} catch (error) {
-			throw new Error('ハイブリッド検索に失敗しました。サーバーが起動しているか確認してください。');
+			throw toOperationError(error, 'ハイブリッド検索に失敗しました。');
 		}
 	}
 
@@ -435,24 +963,27 @@ export class MCPService {
 		hybridWeight: number = 0.5,
 		keywordLimit: number = 10,
 		vectorLimit: number = 20,
-		expandSynonyms: boolean = false
+		expandSynonyms: boolean = false,
+		filters?: SearchFilters
 	): Promise<HybridSearchResponse> {
 		try {
-			const result = await this.postToServer('/search/hybrid', {
+			const requestBody: HybridSearchRequest = {
 				query: query,
 				limit: limit,
 				hybrid_weight: hybridWeight,
 				keyword_limit: keywordLimit,
 				vector_limit: vectorLimit,
 				expand_synonyms: expandSynonyms,
-			});
+			};
+			if (filters) requestBody.filters = this.toServerFilters(filters);
+			const result = await this.postToServer('/search/hybrid', requestBody);
 			return {
 				query: result.query || query,
 				results: result.results || [],
 				total: result.total || 0,
 			};
 		} catch (error) {
-			throw new Error('ハイブリッド検索に失敗しました。サーバーが起動しているか確認してください。');
+			throw toOperationError(error, 'ハイブリッド検索に失敗しました。');
 		}
 	}
 
@@ -470,7 +1001,8 @@ export class MCPService {
 		vectorLimit: number = 20,
 		expandSynonyms: boolean = false,
 		temperature: number = 0.7,
-		maxTokens?: number | null
+		maxTokens?: number | null,
+		filters?: SearchFilters
 	): Promise<RAGResponse> {
 		try {
 			const encodedQuery = encodeURIComponent(query);
@@ -479,6 +1011,7 @@ export class MCPService {
 			if (model) url += `&model=${encodeURIComponent(model)}`;
 			if (apiBase) url += `&api_base=${encodeURIComponent(apiBase)}`;
 			if (maxTokens !== undefined && maxTokens !== null) url += `&max_tokens=${maxTokens}`;
+			url += toFiltersParam(this.toServerFilters(filters));
 
 			const result = await this.callServer(url);
 			return {
@@ -489,7 +1022,7 @@ export class MCPService {
 				provider_used: result.provider_used || '',
 			};
 		} catch (error) {
-			throw new Error('RAG回答生成に失敗しました。サーバーが起動しているか確認してください。');
+			throw toOperationError(error, 'RAG回答生成に失敗しました。');
 		}
 	}
 
@@ -507,7 +1040,8 @@ export class MCPService {
 		vectorLimit: number = 20,
 		expandSynonyms: boolean = false,
 		temperature: number = 0.7,
-		maxTokens?: number | null
+		maxTokens?: number | null,
+		filters?: SearchFilters
 	): Promise<RAGResponse> {
 		try {
 			const requestBody: RAGRequest = {
@@ -523,6 +1057,7 @@ export class MCPService {
 			if (model) requestBody.model = model;
 			if (apiBase) requestBody.api_base = apiBase;
 			if (maxTokens !== undefined && maxTokens !== null) requestBody.max_tokens = maxTokens;
+			if (filters) requestBody.filters = this.toServerFilters(filters);
 
 			const result = await this.postToServer('/search/rag', requestBody);
 			return {
@@ -533,7 +1068,7 @@ export class MCPService {
 				provider_used: result.provider_used || '',
 			};
 		} catch (error) {
-			throw new Error('RAG回答生成に失敗しました。サーバーが起動しているか確認してください。');
+			throw toOperationError(error, 'RAG回答生成に失敗しました。');
 		}
 	}
 
@@ -550,7 +1085,7 @@ export class MCPService {
 				total: result.total || 0,
 			};
 		} catch (error) {
-			throw new Error('LiteLLMモデルリストの取得に失敗しました。');
+			throw toOperationError(error, 'LiteLLMモデルリストの取得に失敗しました。');
 		}
 	}
 }
@@ -0,0 +1,217 @@
+/**
+ * Mock AI Service
+ * APIキーやネットワークなしで動作を確認するため、設定した応答を決まった順序で返すAIサービス
+ */
+
+import {
+	AIService,
+	ChatCompletionOptions,
+	ChatCompletionDeltaHandler,
+	ChatCompletionResponse,
+	JSONSchema,
+	getMessageText,
+} from "./ai-service-interface";
+import { KnowledgeConnectSettings, MockAIResponse } from "../types";
+import { CancelledError, NetworkError, createHttpError } from "../utils/errors";
+
+/**
+ * 応答にモデル名が指定されていない場合のモデル名
+ */
+const MOCK_MODEL = "mock-model";
+
+/**
+ * ストリーミング時にcontentを分割する文字数
+ */
+const STREAM_CHUNK_SIZE = 16;
+
+/**
+ * 文字数からトークン数を概算（1トークン ≒ 4文字）
+ */
+function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * JSON Schemaに従ったサンプル値を作成
+ * 応答が設定されていない構造化出力の呼び出しでも、検証を通る応答を返すために使用する
+ */
+function createSampleValue(schema: JSONSchema): unknown {
+	if (schema.enum && schema.enum.length > 0) {
+		return schema.enum[0];
+	}
+	switch (schema.type) {
+		case "object": {
+			const value: Record<string, unknown> = {};
+			for (const key of Object.keys(schema.properties || {})) {
+				value[key] = createSampleValue((schema.properties || {})[key]);
+			}
+			return value;
+		}
+		case "array":
+			return schema.items ? [createSampleValue(schema.items)] : [];
+		case "number":
+		case "integer":
+			return 0;
+		case "boolean":
+			return false;
+		case "null":
+			return null;
+		default:
+			return "mock";
+	}
+}
+
+export class MockAIService implements AIService {
+	private responses: MockAIResponse[];
+	private sequenceIndex = 0; // matchなしの応答を次に再生する位置
+
+	constructor(settings: KnowledgeConnectSettings) {
+		this.responses = settings.mockAIResponses || [];
+	}
+
+	getServiceName(): string {
+		return "Mock";
+	}
+
+	/**
+	 * 外部に接続しないため常に利用可能
+	 */
+	isApiKeySet(): boolean {
+		return true;
+	}
+
+	/**
+	 * 応答に含まれるモデル名を一覧として返す
+	 */
+	async getModels(): Promise<string[]> {
+		const models = [MOCK_MODEL];
+		for (const response of this.responses) {
+			if (response.model && !models.includes(response.model)) {
+				models.push(response.model);
+			}
+		}
+		return models;
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		const scripted = this.nextResponse(options);
+		await this.wait(scripted.delayMs, options.signal);
+		return this.buildResponse(scripted, options);
+	}
+
+	async chatCompletionStream(
+		options: ChatCompletionOptions,
+		onDelta: ChatCompletionDeltaHandler
+	): Promise<ChatCompletionResponse> {
+		const scripted = this.nextResponse(options);
+		const response = this.buildResponse(scripted, options);
+
+		const chunks = scripted.chunks || this.splitContent(response.content);
+		for (const chunk of chunks) {
+			await this.wait(scripted.delayMs, options.signal);
+			onDelta(chunk);
+		}
+		return { ...response, content: chunks.join("") };
+	}
+
+	/**
+	 * 次に返す応答を選択
+	 * matchが一致する応答を優先し、なければmatchなしの応答を順番に（最後まで再生したら先頭から）返す
+	 */
+	private nextResponse(options: ChatCompletionOptions): MockAIResponse {
+		const userMessages = options.messages.filter((message) => message.role === "user");
+		const lastUserText = userMessages.length > 0
+			? getMessageText(userMessages[userMessages.length - 1].content)
+			: "";
+
+		for (const response of this.responses) {
+			if (!response.match) {
+				continue;
+			}
+			try {
+				if (new RegExp(response.match).test(lastUserText)) {
+					return response;
+				}
+			} catch {
+				console.warn(`[Mock AI] 無効な正規表現です: ${response.match}`);
+			}
+		}
+
+		const sequence = this.responses.filter((response) => !response.match);
+		if (sequence.length > 0) {
+			const response = sequence[this.sequenceIndex % sequence.length];
+			this.sequenceIndex++;
+			return response;
+		}
+
+		// 応答が設定されていない場合は決まった形式の応答を返す
+		if (options.responseFormat?.type === "json_schema") {
+			return { content: JSON.stringify(createSampleValue(options.responseFormat.schema)) };
+		}
+		if (options.responseFormat?.type === "json_object") {
+			return { content: "{}" };
+		}
+		return { content: `[Mock] ${lastUserText}` };
+	}
+
+	/**
+	 * 設定された応答からレスポンスを作成（エラーが設定されている場合は投げる）
+	 * 実際のサービスと同じく、HTTPステータスに応じた種類のエラー（ステータスなしは接続エラー）を投げる
+	 */
+	private buildResponse(scripted: MockAIResponse, options: ChatCompletionOptions): ChatCompletionResponse {
+		if (scripted.error) {
+			const { status, message, retryAfter } = scripted.error;
+			if (!status) {
+				throw new NetworkError(`Mock API エラー: ${message}`);
+			}
+			throw createHttpError(status, `Mock API エラー: ${status} ${message}`, { retryAfter });
+		}
+
+		const content = scripted.content ?? (scripted.chunks ? scripted.chunks.join("") : "");
+		const promptText = options.messages.map((message) => getMessageText(message.content)).join("\n");
+		const promptTokens = estimateTokens(promptText);
+		const completionTokens = estimateTokens(content);
+
+		return {
+			content,
+			model: scripted.model || options.model || MOCK_MODEL,
+			toolCalls: scripted.toolCalls && scripted.toolCalls.length > 0 ? scripted.toolCalls : undefined,
+			usage: scripted.usage || {
+				promptTokens,
+				completionTokens,
+				totalTokens: promptTokens + completionTokens,
+			},
+		};
+	}
+
+	private splitContent(content: string): string[] {
+		const chunks: string[] = [];
+		for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+			chunks.push(content.slice(i, i + STREAM_CHUNK_SIZE));
+		}
+		return chunks;
+	}
+
+	/**
+	 * 指定時間待機（中断された場合はキャンセルエラーを投げる）
+	 */
+	private wait(delayMs: number | undefined, signal?: AbortSignal): Promise<void> {
+		if (signal?.aborted) {
+			return Promise.reject(new CancelledError());
+		}
+		if (!delayMs || delayMs <= 0) {
+			return Promise.resolve();
+		}
+		return new Promise((resolve, reject) => {
+			const onAbort = () => {
+				clearTimeout(timeoutId);
+				reject(new CancelledError());
+			};
+			const timeoutId = setTimeout(() => {
+				signal?.removeEventListener("abort", onAbort);
+				resolve();
+			}, delayMs);
+			signal?.addEventListener("abort", onAbort, { once: true });
+		});
+	}
+}
@@ -0,0 +1,417 @@
+/**
+ * Ollama API Service
+ * Ollamaのネイティブ /api/chat を使用したAIサービスの実装
+ */
+
+import {
+	AIService,
+	ChatCompletionOptions,
+	ChatCompletionDeltaHandler,
+	ChatCompletionResponse,
+	ChatMessage,
+	getMessageImages,
+	getMessageText,
+} from "./ai-service-interface";
+import { KnowledgeConnectSettings } from "../types";
+import {
+	CancelledError,
+	NetworkError,
+	ServerError,
+	TimeoutError,
+	createHttpError,
+	parseRetryAfter,
+	toErrorDetails,
+} from "../utils/errors";
+import {
+	createStreamIdleTimer,
+	linkAbortSignal,
+	parseOpenAIToolCalls,
+	parseToolArguments,
+	toOpenAITools,
+} from "../utils/api-utils";
+
+/**
+ * /api/tags のレスポンス
+ */
+interface OllamaTagsResponse {
+	models?: Array<{ name?: string; model?: string }>;
+}
+
+/**
+ * /api/chat のレスポンスに含まれるトークン数
+ */
+interface OllamaUsagePayload {
+	prompt_eval_count?: number;
+	eval_count?: number;
+}
+
+/**
+ * /api/chat のストリーミングレスポンスの1行
+ */
+interface OllamaStreamChunk extends OllamaUsagePayload {
+	model?: string;
+	message?: { content?: string; tool_calls?: unknown[] };
+	done?: boolean;
+	error?: string;
+}
+
+export class OllamaService implements AIService {
+	private settings: KnowledgeConnectSettings;
+
+	constructor(settings: KnowledgeConnectSettings) {
+		this.settings = settings;
+	}
+
+	getServiceName(): string {
+		return "Ollama";
+	}
+
+	/**
+	 * OllamaはAPIキー不要のため、エンドポイントURLが設定されていれば利用可能とみなす
+	 */
+	isApiKeySet(): boolean {
+		const baseUrl = this.settings.ollamaEndpointUrl;
+		return !!baseUrl && baseUrl.trim().length > 0;
+	}
+
+	/**
+	 * ベースURLを取得（末尾のスラッシュを削除）
+	 */
+	private getBaseUrl(): string {
+		const baseUrl = this.settings.ollamaEndpointUrl || "http://localhost:11434";
+		return baseUrl.replace(/\/$/, "");
+	}
+
+	/**
+	 * リクエストヘッダーを構築
+	 * 認証付きプロキシ経由の場合のみAuthorizationヘッダーを付与する
+	 */
+	private buildHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+		};
+		const apiKey = this.settings.ollamaApiKey || "";
+		if (apiKey.trim()) {
+			headers.Authorization = `Bearer ${apiKey}`;
+		}
+		return headers;
+	}
+
+	/**
+	 * Ollamaから利用可能なモデルリストを取得（/api/tags）
+	 */
+	async getModels(): Promise<string[]> {
+		const tagsUrl = `${this.getBaseUrl()}/api/tags`;
+
+		try {
+			const controller = new AbortController();
+			const timeoutId = setTimeout(
+				() => controller.abort(),
+				this.settings.timeoutSeconds * 1000
+			);
+
+			const response = await fetch(tagsUrl, {
+				method: "GET",
+				headers: this.buildHeaders(),
+				signal: controller.signal,
+			});
+
+			clearTimeout(timeoutId);
+
+			if (!response.ok) {
+				const errorText = await response.text().catch(() => "");
+				throw new Error(
+					`モデルリストの取得に失敗しました: ${response.status} ${response.statusText}. ${errorText}`
+				);
+			}
+
+			const data: OllamaTagsResponse = await response.json();
+			if (data.models && Array.isArray(data.models)) {
+				const models = data.models
+					.map((model) => model.name || model.model)
+					.filter((name): name is string => !!name);
+				console.log(`[Ollama] 利用可能なモデル数: ${models.length}`);
+				return models;
+			}
+			console.warn("[Ollama] モデルリストが空です");
+			return [];
+		} catch (error: unknown) {
+			if (error instanceof Error) {
+				if (error.name === "AbortError") {
+					throw new Error("モデルリストの取得がタイムアウトしました。");
+				}
+				if (
+					error.message.includes("Failed to fetch") ||
+					error.message.includes("NetworkError") ||
+					error.message.includes("ECONNREFUSED")
+				) {
+					throw new Error(
+						`Ollamaに接続できません。Ollamaが起動しているか確認してください。エンドポイント: ${tagsUrl}`
+					);
+				}
+				throw error;
+			}
+			throw new Error("モデルリストの取得中にエラーが発生しました。");
+		}
+	}
+
+	/**
+	 * リクエストボディを構築
+	 */
+	private buildRequestBody(options: ChatCompletionOptions, stream: boolean) {
+		// Ollamaはインストール済みのモデル名を指定する必要があるため、デフォルト値は持たない
+		const model = options.model !== undefined && options.model !== ""
+			? options.model
+			: this.settings.aiModel;
+		if (!model || model.trim() === "") {
+			throw new Error("モデルが設定されていません。設定画面でデフォルトAIモデルを選択してください。");
+		}
+
+		return {
+			model: model,
+			messages: options.messages.map((msg) => this.toOllamaMessage(msg)),
+			stream: stream,
+			options: {
+				temperature: options.temperature ?? 0.7,
+				// Ollamaでは最大トークン数をnum_predictで指定する
+				num_predict: options.maxTokens || this.settings.maxTokens,
+			},
+			// Ollamaではformatに"json"またはJSON Schemaを指定する
+			...(options.responseFormat
+				? {
+					format: options.responseFormat.type === "json_schema"
+						? options.responseFormat.schema
+						: "json",
+				}
+				: {}),
+			...(options.tools && options.tools.length > 0 ? { tools: toOpenAITools(options.tools) } : {}),
+		};
+	}
+
+	/**
+	 * メッセージをOllamaの形式に変換
+	 * Ollamaではツール呼び出しの引数をJSON文字列ではなくオブジェクトで渡し、画像はimagesにBase64で渡す
+	 */
+	private toOllamaMessage(msg: ChatMessage) {
+		const images = getMessageImages(msg.content);
+		return {
+			role: msg.role,
+			content: getMessageText(msg.content),
+			...(images.length > 0 ? { images: images.map((image) => image.data) } : {}),
+			...(msg.toolCalls && msg.toolCalls.length > 0
+				? {
+					tool_calls: msg.toolCalls.map((toolCall) => ({
+						function: { name: toolCall.name, arguments: parseToolArguments(toolCall.arguments) },
+					})),
+				}
+				: {}),
+			...(msg.role === "tool" && msg.name ? { tool_name: msg.name } : {}),
+		};
+	}
+
+	/**
+	 * Ollamaのトークン数をChatCompletionResponseの形式に変換
+	 */
+	private toUsage(data: OllamaUsagePayload): ChatCompletionResponse["usage"] {
+		if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+			return undefined;
+		}
+		const promptTokens = data.prompt_eval_count || 0;
+		const completionTokens = data.eval_count || 0;
+		return {
+			promptTokens,
+			completionTokens,
+			totalTokens: promptTokens + completionTokens,
+		};
+	}
+
+	/**
+	 * Ollama APIにリクエストを送信
+	 * 呼び出し元のシグナルとタイムアウトの両方で中断できるようにする
+	 */
+	private async sendRequest(
+		requestBody: ReturnType<OllamaService["buildRequestBody"]>,
+		signal: AbortSignal | undefined,
+		handleResponse: (response: Response, controller: AbortController, endpointUrl: string) => Promise<ChatCompletionResponse>
+	): Promise<ChatCompletionResponse> {
+		const endpointUrl = `${this.getBaseUrl()}/api/chat`;
+		const controller = new AbortController();
+		const unlinkSignal = linkAbortSignal(controller, signal);
+		const timeoutId = setTimeout(
+			() => controller.abort(),
+			this.settings.timeoutSeconds * 1000
+		);
+
+		try {
+			const response = await fetch(endpointUrl, {
+				method: "POST",
+				headers: this.buildHeaders(),
+				body: JSON.stringify(requestBody),
+				signal: controller.signal,
+			});
+
+			// ストリーミングは応答開始後に長時間続くため、ヘッダー受信時点でタイムアウトを解除
+			// （以降は受信が途切れた場合のみ、readStreamの無通信タイムアウトで中断する）
+			clearTimeout(timeoutId);
+
+			if (!response.ok) {
+				// Ollamaのエラーは { "error": "..." } 形式
+				const errorData = await response.json().catch(() => ({}));
+				throw createHttpError(
+					response.status,
+					`Ollama API エラー: ${response.status} ${response.statusText}. ${
+						errorData.error || ""
+					}`,
+					{
+						endpoint: endpointUrl,
+						retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+						details: toErrorDetails(errorData),
+					}
+				);
+			}
+
+			return await handleResponse(response, controller, endpointUrl);
+		} catch (error: unknown) {
+			if (error instanceof Error) {
+				if (error.name === "AbortError") {
+					if (signal?.aborted) {
+						throw new CancelledError("リクエストがキャンセルされました。", { endpoint: endpointUrl });
+					}
+					throw new TimeoutError(`リクエストがタイムアウトしました（${this.settings.timeoutSeconds}秒）。`, {
+						endpoint: endpointUrl,
+						hint: "タイムアウト時間を増やすか、後でもう一度お試しください。",
+					});
+				}
+				if (error.message.includes("Failed to fetch") || error.message.includes("NetworkError")) {
+					throw new NetworkError("Ollamaに接続できません。", {
+						endpoint: endpointUrl,
+						hint: `エンドポイントURL（${endpointUrl}）が正しいか確認してください。`,
+						cause: error,
+					});
+				}
+				throw error;
+			}
+			throw new Error("予期しないエラーが発生しました。");
+		} finally {
+			clearTimeout(timeoutId);
+			unlinkSignal();
+		}
+	}
+
+	/**
+	 * Ollamaのストリーミングレスポンス（JSON Lines形式）を読み取る
+	 * 1行に1つのJSONオブジェクトが含まれ、done: true の行で完了する
+	 * データを受信しない状態がタイムアウト時間続いた場合はcontrollerで中断する
+	 */
+	private async readStream(
+		response: Response,
+		model: string,
+		onDelta: ChatCompletionDeltaHandler,
+		controller: AbortController,
+		endpointUrl: string
+	): Promise<ChatCompletionResponse> {
+		if (!response.body) {
+			throw new Error("ストリーミングレスポンスの本文が空です。");
+		}
+
+		const idleTimer = createStreamIdleTimer({ controller, timeoutMs: this.settings.timeoutSeconds * 1000 });
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder("utf-8");
+		const result: ChatCompletionResponse = { content: "", model: model };
+		let buffer = "";
+
+		const handleLine = (line: string) => {
+			const trimmed = line.trim();
+			if (!trimmed) {
+				return;
+			}
+			let data: OllamaStreamChunk;
+			try {
+				data = JSON.parse(trimmed);
+			} catch (error) {
+				throw new ServerError("Ollamaのストリーミング応答を解析できませんでした。", {
+					endpoint: endpointUrl,
+					details: trimmed.substring(0, 500),
+					cause: error,
+				});
+			}
+			if (data.error) {
+				throw new Error(`Ollama API エラー: ${data.error}`);
+			}
+			if (data.model) {
+				result.model = data.model;
+			}
+			const delta = data.message?.content;
+			if (delta) {
+				result.content += delta;
+				onDelta(delta);
+			}
+			// ツール呼び出しは分割されずに1行で届く
+			const toolCalls = parseOpenAIToolCalls(data.message);
+			if (toolCalls) {
+				result.toolCalls = [...(result.toolCalls || []), ...toolCalls];
+			}
+			if (data.done) {
+				result.usage = this.toUsage(data);
+			}
+		};
+
+		try {
+			idleTimer.reset();
+			let chunk = await reader.read();
+			while (!chunk.done) {
+				idleTimer.reset();
+				buffer += decoder.decode(chunk.value, { stream: true });
+				const lines = buffer.split("\n");
+				// 最後の行は途中の可能性があるためバッファに残す
+				buffer = lines.pop() || "";
+				lines.forEach(handleLine);
+				chunk = await reader.read();
+			}
+			handleLine(buffer + decoder.decode());
+		} finally {
+			idleTimer.clear();
+			reader.releaseLock();
+		}
+
+		return result;
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		if (!this.isApiKeySet()) {
+			throw new Error("エンドポイントURLが設定されていません。設定画面でOllamaのURLを設定してください。");
+		}
+
+		const requestBody = this.buildRequestBody(options, false);
+
+		return this.sendRequest(requestBody, options.signal, async (response) => {
+			const data = await response.json();
+
+			if (!data.message) {
+				throw new Error("Ollama APIからの応答形式が不正です。");
+			}
+
+			return {
+				content: data.message.content || "",
+				toolCalls: parseOpenAIToolCalls(data.message),
+				model: data.model || requestBody.model,
+				usage: this.toUsage(data),
+			};
+		});
+	}
+
+	async chatCompletionStream(
+		options: ChatCompletionOptions,
+		onDelta: ChatCompletionDeltaHandler
+	): Promise<ChatCompletionResponse> {
+		if (!this.isApiKeySet()) {
+			throw new Error("エンドポイントURLが設定されていません。設定画面でOllamaのURLを設定してください。");
+		}
+
+		const requestBody = this.buildRequestBody(options, true);
+
+		return this.sendRequest(requestBody, options.signal, (response, controller, endpointUrl) =>
+			this.readStream(response, requestBody.model, onDelta, controller, endpointUrl)
+		);
+	}
+}
@@ -0,0 +1,296 @@
+/**
+ * OpenAI Compatible API Service
+ * vLLMなど任意のOpenAI互換APIを使用したAIサービスの実装
+ */
+
+import {
+	AIService,
+	ChatCompletionOptions,
+	ChatCompletionDeltaHandler,
+	ChatCompletionResponse,
+} from "./ai-service-interface";
+import { KnowledgeConnectSettings } from "../types";
+import {
+	CancelledError,
+	NetworkError,
+	TimeoutError,
+	createHttpError,
+	parseRetryAfter,
+	toErrorDetails,
+} from "../utils/errors";
+import {
+	linkAbortSignal,
+	readChatCompletionStream,
+	toOpenAIResponseFormat,
+	toOpenAIMessages,
+	toOpenAITools,
+	parseOpenAIToolCalls,
+} from "../utils/api-utils";
+
+/**
+ * /models のレスポンス
+ */
+interface OpenAIModelsResponse {
+	data?: Array<{ id?: string; model?: string }>;
+}
+
+export class OpenAICompatibleService implements AIService {
+	private settings: KnowledgeConnectSettings;
+
+	constructor(settings: KnowledgeConnectSettings) {
+		this.settings = settings;
+	}
+
+	getServiceName(): string {
+		return "OpenAI互換API";
+	}
+
+	/**
+	 * ローカルサーバーはAPIキー不要な場合が多いため、ベースURLが設定されていれば利用可能とみなす
+	 */
+	isApiKeySet(): boolean {
+		const baseUrl = this.settings.openaiCompatibleEndpointUrl;
+		return !!baseUrl && baseUrl.trim().length > 0;
+	}
+
+	/**
+	 * 使用するAPIキーを取得
+	 */
+	private getApiKey(): string {
+		return this.settings.openaiCompatibleApiKey || "";
+	}
+
+	/**
+	 * ベースURLを取得（末尾のスラッシュを削除）
+	 */
+	private getBaseUrl(): string {
+		const baseUrl = this.settings.openaiCompatibleEndpointUrl || "http://localhost:8000/v1";
+		return baseUrl.replace(/\/$/, "");
+	}
+
+	/**
+	 * リクエストヘッダーを構築
+	 * APIキーが設定されている場合のみAuthorizationヘッダーを付与する
+	 */
+	private buildHeaders(): Record<string, string> {
+		const headers: Record<string, string> = {
+			"Content-Type": "application/json",
+		};
+		const apiKey = this.getApiKey();
+		if (apiKey.trim()) {
+			headers.Authorization = `Bearer ${apiKey}`;
+		}
+		return headers;
+	}
+
+	/**
+	 * OpenAI互換APIから利用可能なモデルリストを取得
+	 */
+	async getModels(): Promise<string[]> {
+		const modelsUrl = `${this.getBaseUrl()}/models`;
+
+		try {
+			const controller = new AbortController();
+			const timeoutId = setTimeout(
+				() => controller.abort(),
+				this.settings.timeoutSeconds * 1000
+			);
+
+			const response = await fetch(modelsUrl, {
+				method: "GET",
+				headers: this.buildHeaders(),
+				signal: controller.signal,
+			});
+
+			clearTimeout(timeoutId);
+
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw new Error(
+					`モデルリストの取得に失敗しました: ${response.status} ${response.statusText}. ${
+						errorData.error?.message || ""
+					}`
+				);
+			}
+
+			const data: OpenAIModelsResponse = await response.json();
+			if (data.data && Array.isArray(data.data)) {
+				const models = data.data
+					.map((model) => model.id || model.model)
+					.filter((id): id is string => !!id);
+				console.log(`[OpenAI Compatible] 利用可能なモデル数: ${models.length}`);
+				return models;
+			}
+			console.warn("[OpenAI Compatible] モデルリストが空です");
+			return [];
+		} catch (error: unknown) {
+			if (error instanceof Error) {
+				if (error.name === "AbortError") {
+					throw new Error("モデルリストの取得がタイムアウトしました。");
+				}
+				if (
+					error.message.includes("Failed to fetch") ||
+					error.message.includes("NetworkError") ||
+					error.message.includes("ECONNREFUSED")
+				) {
+					throw new Error(
+						`OpenAI互換サーバーに接続できません。サーバーが起動しているか確認してください。エンドポイント: ${modelsUrl}`
+					);
+				}
+				throw error;
+			}
+			throw new Error("モデルリストの取得中にエラーが発生しました。");
+		}
+	}
+
+	/**
+	 * リクエストボディを構築
+	 */
+	private buildRequestBody(options: ChatCompletionOptions, stream: boolean) {
+		// OpenAI互換サーバーはサーバーごとにモデル名が異なるため、デフォルト値は持たない
+		const model = options.model !== undefined && options.model !== ""
+			? options.model
+			: this.settings.aiModel;
+		if (!model || model.trim() === "") {
+			throw new Error("モデルが設定されていません。設定画面でデフォルトAIモデルを選択してください。");
+		}
+
+		return {
+			model: model,
+			messages: toOpenAIMessages(options.messages),
+			max_tokens: options.maxTokens || this.settings.maxTokens,
+			temperature: options.temperature ?? 0.7,
+			// ストリーミング時は最終チャンクでトークン使用量を受け取る
+			...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+			...(options.responseFormat
+				? { response_format: toOpenAIResponseFormat(options.responseFormat) }
+				: {}),
+			...(options.tools && options.tools.length > 0 ? { tools: toOpenAITools(options.tools) } : {}),
+		};
+	}
+
+	/**
+	 * OpenAI互換APIにリクエストを送信
+	 * 呼び出し元のシグナルとタイムアウトの両方で中断できるようにする
+	 */
+	private async sendRequest(
+		requestBody: ReturnType<OpenAICompatibleService["buildRequestBody"]>,
+		signal: AbortSignal | undefined,
+		handleResponse: (response: Response, controller: AbortController) => Promise<ChatCompletionResponse>
+	): Promise<ChatCompletionResponse> {
+		const endpointUrl = `${this.getBaseUrl()}/chat/completions`;
+		const controller = new AbortController();
+		const unlinkSignal = linkAbortSignal(controller, signal);
+		const timeoutId = setTimeout(
+			() => controller.abort(),
+			this.settings.timeoutSeconds * 1000
+		);
+
+		try {
+			const response = await fetch(endpointUrl, {
+				method: "POST",
+				headers: this.buildHeaders(),
+				body: JSON.stringify(requestBody),
+				signal: controller.signal,
+			});
+
+			// ストリーミングは応答開始後に長時間続くため、ヘッダー受信時点でタイムアウトを解除
+			// （以降は受信が途切れた場合のみ、readChatCompletionStreamの無通信タイムアウトで中断する）
+			clearTimeout(timeoutId);
+
+			if (!response.ok) {
+				const errorData = await response.json().catch(() => ({}));
+				throw createHttpError(
+					response.status,
+					`OpenAI互換API エラー: ${response.status} ${response.statusText}. ${
+						errorData.error?.message || ""
+					}`,
+					{
+						endpoint: endpointUrl,
+						retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+						details: toErrorDetails(errorData),
+					}
+				);
+			}
+
+			return await handleResponse(response, controller);
+		} catch (error: unknown) {
+			if (error instanceof Error) {
+				if (error.name === "AbortError") {
+					if (signal?.aborted) {
+						throw new CancelledError("リクエストがキャンセルされました。", { endpoint: endpointUrl });
+					}
+					throw new TimeoutError(`リクエストがタイムアウトしました（${this.settings.timeoutSeconds}秒）。`, {
+						endpoint: endpointUrl,
+						hint: "タイムアウト時間を増やすか、後でもう一度お試しください。",
+					});
+				}
+				if (error.message.includes("Failed to fetch") || error.message.includes("NetworkError")) {
+					throw new NetworkError("OpenAI互換サーバーに接続できません。", {
+						endpoint: endpointUrl,
+						hint: `エンドポイントURL（${endpointUrl}）が正しいか確認してください。`,
+						cause: error,
+					});
+				}
+				throw error;
+			}
+			throw new Error("予期しないエラーが発生しました。");
+		} finally {
+			clearTimeout(timeoutId);
+			unlinkSignal();
+		}
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		if (!this.isApiKeySet()) {
+			throw new Error("エンドポイントURLが設定されていません。設定画面でOpenAI互換APIのベースURLを設定してください。");
+		}
+
+		const requestBody = this.buildRequestBody(options, false);
+
+		return this.sendRequest(requestBody, options.signal, async (response) => {
+			const data = await response.json();
+
+			if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+				throw new Error("OpenAI互換APIからの応答形式が不正です。");
+			}
+
+			return {
+				content: data.choices[0].message.content || "",
+				toolCalls: parseOpenAIToolCalls(data.choices[0].message),
+				model: data.model || requestBody.model,
+				usage: data.usage
+					? {
+						promptTokens: data.usage.prompt_tokens || 0,
+						completionTokens: data.usage.completion_tokens || 0,
+						totalTokens: data.usage.total_tokens || 0,
+					}
+					: undefined,
+			};
+		});
+	}
+
+	async chatCompletionStream(
+		options: ChatCompletionOptions,
+		onDelta: ChatCompletionDeltaHandler
+	): Promise<ChatCompletionResponse> {
+		if (!this.isApiKeySet()) {
+			throw new Error("エンドポイントURLが設定されていません。設定画面でOpenAI互換APIのベースURLを設定してください。");
+		}
+
+		const requestBody = this.buildRequestBody(options, true);
+
+		return this.sendRequest(requestBody, options.signal, async (response, controller) => {
+			const streamed = await readChatCompletionStream(response, onDelta, {
+				controller,
+				timeoutMs: this.settings.timeoutSeconds * 1000,
+			});
+			return {
+				content: streamed.content,
+				toolCalls: streamed.toolCalls,
+				model: streamed.model || requestBody.model,
+				usage: streamed.usage,
+			};
+		});
+	}
+}
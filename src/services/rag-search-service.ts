@@ -1,11 +1,19 @@
 /**
  * RAG Search Service
  * MCPサーバーのハイブリッド検索を使用したRAG検索サービス
+ * 検索バックエンドが複数登録されている場合はすべてで検索し、結果を統合する
+ * MCPサーバーに接続できない場合はプラグイン内のローカルインデックスで検索する
  */
 
 import { App } from "obsidian";
-import { MCPService, type SearchResult } from "./mcp-service";
+import { getResultStartLine, type MCPService, type SearchFilters } from "./mcp-service";
+import { createMCPService } from "./mcp-connection";
+import type { RequestManager } from "./request-manager";
+import type { JobMonitorService } from "./job-monitor-service";
+import { MCPBackendRouter } from "./mcp-backend-router";
+import type { LocalSearchService } from "./local-search-service";
 import type { KnowledgeConnectSettings } from "../types";
+import { DEFAULT_SETTINGS } from "../settings";
 
 /**
  * 検索結果の型（MCPサーバーのSearchResultと互換性を保つ）
@@ -17,24 +25,43 @@ export interface SearchHit {
 	file_type?: string;
 	location_info?: string;
 	snippet?: string;
+	heading_path?: string[]; // 結果の位置の見出しの階層
+	start_line?: number; // 結果の開始行（1始まり）
+	backend?: string; // 取得元の検索バックエンド名
 }
 
 /**
  * RAG検索サービス
  */
 export class RAGSearchService {
-	private mcpService: MCPService;
+	private mcpService: MCPService; // インデックス作成に使用するサーバー
+	private router: MCPBackendRouter;
 	private app: App;
 	private settings: KnowledgeConnectSettings | undefined;
 	private isIndexing: boolean = false;
 	private indexProgress: { current: number; total: number } | null = null;
 	private indexedCount: number = 0; // インデックスされたドキュメント数を追跡
+	private jobMonitor: JobMonitorService | null;
 
-	constructor(app: App, settings?: KnowledgeConnectSettings) {
+	constructor(
+		app: App,
+		settings?: KnowledgeConnectSettings,
+		requestManager?: RequestManager,
+		jobMonitor?: JobMonitorService | null,
+		localSearch?: LocalSearchService | null
+	) {
 		this.app = app;
 		this.settings = settings;
-		const baseUrl = settings?.mcpServerUrl || 'http://127.0.0.1:8000';
-		this.mcpService = new MCPService(baseUrl);
+		this.jobMonitor = jobMonitor || null;
+		this.mcpService = createMCPService(app, settings || DEFAULT_SETTINGS, requestManager);
+		this.router = new MCPBackendRouter(app, settings || DEFAULT_SETTINGS, requestManager, localSearch);
+	}
+
+	/**
+	 * 実行中のMCPサーバーへのリクエストをキャンセル
+	 */
+	cancelPending(): number {
+		return this.mcpService.cancelPending() + this.router.cancelPending();
 	}
 
 	/**
@@ -42,10 +69,7 @@ export class RAGSearchService {
 	 */
 	async initialize(): Promise<void> {
 		try {
-			const isAvailable = await this.mcpService.isServerAvailable();
-			if (!isAvailable) {
-				throw new Error("MCPサーバーに接続できません。サーバーが起動しているか確認してください。");
-			}
+			await this.router.ensureAvailable();
 			console.log("[RAG Search] MCPサーバーに接続しました");
 		} catch (error) {
 			console.error("[RAG Search] MCPサーバーへの接続に失敗しました:", error);
@@ -92,61 +116,50 @@ export class RAGSearchService {
 	}
 
 	/**
-	 * ジョブの進捗を監視
+	 * ジョブの進捗を監視（JobMonitorServiceで監視し、終了まで待機）
 	 */
 	private async monitorJobProgress(jobId: number): Promise<void> {
-		const maxAttempts = 3600; // 最大1時間（2秒間隔）
-		let attempts = 0;
-
-		while (attempts < maxAttempts) {
-			try {
-				const job = await this.mcpService.getJobStatus(jobId);
-				
-				if (job.status === 'completed') {
-					this.indexProgress = {
-						current: job.progress.total,
-						total: job.progress.total,
-					};
-					return;
-				} else if (job.status === 'failed') {
-					throw new Error(job.error_message || 'インデックス作成が失敗しました');
-				} else if (job.status === 'cancelled') {
-					throw new Error('インデックス作成がキャンセルされました');
-				} else if (job.status === 'processing') {
-					this.indexProgress = {
-						current: job.progress.current,
-						total: job.progress.total,
-					};
-				}
-
-				// 2秒待機
-				await new Promise((resolve) => setTimeout(resolve, 2000));
-				attempts++;
-			} catch (error) {
-				console.error("[RAG Search] ジョブ進捗確認エラー:", error);
-				throw error;
-			}
+		if (!this.jobMonitor) {
+			throw new Error("ジョブの進捗を監視できません");
 		}
 
-		throw new Error('インデックス作成のタイムアウト');
+		const unsubscribe = this.jobMonitor.onChange((job) => {
+			if (job.id === jobId) {
+				this.indexProgress = {
+					current: job.progress.current,
+					total: job.progress.total,
+				};
+			}
+		});
+		try {
+			const job = await this.jobMonitor.waitForJob(jobId);
+			if (job.status === 'failed') {
+				throw new Error(job.error_message || 'インデックス作成が失敗しました');
+			} else if (job.status === 'cancelled') {
+				throw new Error('インデックス作成がキャンセルされました');
+			}
+		} finally {
+			unsubscribe();
+		}
 	}
 
 	/**
 	 * 検索を実行（MCPサーバーのハイブリッド検索を使用）
+	 * MCPサーバーに接続できない場合はローカルインデックスの全文検索の結果を返す
 	 * @param query 検索クエリ
 	 * @param limit 取得件数（デフォルト: 20）
 	 * @param hybridWeight ベクトル検索の重み（デフォルト: 0.5）
 	 * @param expandSynonyms 類義語展開を使用するか（デフォルト: false）
+	 * @param filters 絞り込み条件（フォルダ・タグ・更新日時・ファイルの種類）
 	 * @returns 検索結果の配列
 	 */
 	async search(
 		query: string,
 		limit?: number,
 		hybridWeight?: number,
-		expandSynonyms?: boolean
+		expandSynonyms?: boolean,
+		filters?: SearchFilters
 	): Promise<SearchHit[]> {
-		await this.initialize();
-
 		try {
 			// 設定からパラメータを取得（未指定の場合は設定値を使用）
 			const searchLimit = limit ?? (this.settings?.mcpSearchLimit || 20);
@@ -157,26 +170,38 @@ export class RAGSearchService {
 
 			console.log(`[RAG Search] ハイブリッド検索クエリ: "${query}"`);
 			
-			// MCPサーバーでハイブリッド検索を実行
-			const result = await this.mcpService.hybridSearch(
-				query,
+			// 各検索バックエンドでハイブリッド検索を実行
+			const results = await this.router.search(
+				async (service) => {
+					const result = await service.hybridSearch(
+						query,
+						searchLimit,
+						weight,
+						keywordLimit,
+						vectorLimit,
+						expand,
+						filters
+					);
+					return result.results;
+				},
 				searchLimit,
-				weight,
-				keywordLimit,
-				vectorLimit,
-				expand
+				query,
+				filters
 			);
 
-			console.log(`[RAG Search] 検索結果: ${result.total}件`);
+			console.log(`[RAG Search] 検索結果: ${results.length}件`);
 
 			// 検索結果を整形（MCPサーバーのSearchResultをSearchHitに変換）
-			const hits: SearchHit[] = result.results.map((r: SearchResult) => ({
+			const hits: SearchHit[] = results.map((r) => ({
 				path: r.file_path,
 				content: r.snippet || '',
 				score: 1.0, // MCPサーバーはスコアを返さないため、デフォルト値を設定
 				file_type: r.file_type,
 				location_info: r.location_info,
 				snippet: r.snippet,
+				heading_path: r.heading_path,
+				start_line: getResultStartLine(r),
+				backend: r.backend,
 			}));
 
 			// デバッグ用: 検索結果の詳細をログに出力
@@ -196,6 +221,13 @@ export class RAGSearchService {
 		}
 	}
 
+	/**
+	 * 直前の検索でローカルインデックスを使用したか
+	 */
+	usedLocalIndex(): boolean {
+		return this.router.usedLocalIndex();
+	}
+
 	/**
 	 * インデックスされたドキュメント数を取得（デバッグ用）
 	 */
@@ -222,7 +254,7 @@ export class RAGSearchService {
 	 */
 	async isInitialized(): Promise<boolean> {
 		try {
-			return await this.mcpService.isServerAvailable();
+			return await this.router.isAvailable();
 		} catch {
 			return false;
 		}
@@ -0,0 +1,163 @@
+/**
+ * Related Notes Service
+ * ノートの内容をクエリにしてハイブリッド検索し、意味的に関連するノートを探す
+ * MCPサーバー（接続できない場合はローカルインデックス）か、ローカルインデックスのみで検索する
+ */
+
+import { App, TFile } from "obsidian";
+import type { KnowledgeConnectSettings } from "../types";
+import type { RequestManager } from "./request-manager";
+import type { LocalSearchService } from "./local-search-service";
+import { getResultStartLine, type SearchResult } from "./mcp-service";
+import { MCPBackendRouter } from "./mcp-backend-router";
+import { isExcluded } from "../utils/exclusion-list";
+import { extractTextFromMarkdown } from "../utils/text-processor";
+
+/**
+ * 検索クエリにするノートの本文の最大文字数
+ */
+const MAX_QUERY_LENGTH = 1000;
+
+/**
+ * 関連ノートを追記するセクションの見出し
+ */
+export const RELATED_SECTION_HEADING = "関連ノート";
+
+/**
+ * 関連ノート
+ */
+export interface RelatedNote {
+	file: TFile;
+	snippet: string; // 検索に一致した箇所
+	score: number | null; // 関連度（検索結果が関連度を返さない場合はnull）
+	line?: number; // 一致した箇所の行（1始まり）
+	headings: string[]; // 一致した箇所の見出しの階層
+}
+
+/**
+ * ノートの「関連ノート」セクションにリンクを追記した内容を返す
+ * セクションがない場合は末尾に作成し、既にリンクがある場合はnullを返す
+ */
+export function appendToRelatedSection(content: string, link: string): string | null {
+	const lines = content.split("\n");
+	const headingIndex = lines.findIndex((line) => new RegExp(`^#{1,6}\\s+${RELATED_SECTION_HEADING}\\s*$`).test(line));
+	if (headingIndex < 0) {
+		const body = content.replace(/\s+$/, "");
+		return `${body ? `${body}\n\n` : ""}## ${RELATED_SECTION_HEADING}\n\n- ${link}\n`;
+	}
+
+	// セクションの終わり（同じか上位のレベルの次の見出し）を探す
+	const level = (lines[headingIndex].match(/^#+/) as RegExpMatchArray)[0].length;
+	let end = lines.length;
+	for (let i = headingIndex + 1; i < lines.length; i++) {
+		const match = lines[i].match(/^(#{1,6})\s/);
+		if (match && match[1].length <= level) {
+			end = i;
+			break;
+		}
+	}
+	if (lines.slice(headingIndex + 1, end).some((line) => line.includes(link))) {
+		return null;
+	}
+	// セクションの最後の空でない行の後に追加する
+	let insertAt = end;
+	while (insertAt > headingIndex + 1 && lines[insertAt - 1].trim() === "") {
+		insertAt--;
+	}
+	const entry = insertAt === headingIndex + 1 ? ["", `- ${link}`] : [`- ${link}`];
+	lines.splice(insertAt, 0, ...entry);
+	return lines.join("\n");
+}
+
+export class RelatedNotesService {
+	private app: App;
+	private settings: KnowledgeConnectSettings;
+	private localSearch: LocalSearchService | null;
+	private router: MCPBackendRouter;
+	private usedLocal = false; // 直前の検索でローカルインデックスを使用した
+
+	constructor(
+		app: App,
+		settings: KnowledgeConnectSettings,
+		requestManager?: RequestManager,
+		localSearch?: LocalSearchService | null
+	) {
+		this.app = app;
+		this.settings = settings;
+		this.localSearch = localSearch || null;
+		this.router = new MCPBackendRouter(app, settings, requestManager, localSearch);
+	}
+
+	/**
+	 * 直前の検索でローカルインデックスを使用したか
+	 */
+	usedLocalIndex(): boolean {
+		return this.usedLocal;
+	}
+
+	/**
+	 * ノートに関連するノートを検索（ノート自身と除外リストのノートは含めない）
+	 * @param limit 最大件数
+	 */
+	async findRelated(file: TFile, limit: number): Promise<RelatedNote[]> {
+		const content = await this.app.vault.cachedRead(file);
+		const query = `${file.basename}\n${extractTextFromMarkdown(content)}`.substring(0, MAX_QUERY_LENGTH).trim();
+		// 同じノートのチャンクが複数含まれる場合に備えて多めに取得する
+		const fetchLimit = limit * 3 + 1;
+
+		let results: SearchResult[];
+		if (this.settings.relatedNotesSource === "local") {
+			if (!this.localSearch || !this.localSearch.isEnabled()) {
+				throw new Error("ローカルインデックスが無効です。設定で「ローカルインデックスで検索」を有効にしてください。");
+			}
+			results = await this.localSearch.search(query, fetchLimit);
+			this.usedLocal = true;
+		} else {
+			results = await this.router.search(
+				async (service) => (await service.hybridSearchPost(
+					query,
+					fetchLimit,
+					this.settings.mcpHybridWeight ?? 0.5,
+					this.settings.mcpKeywordLimit || 10,
+					this.settings.mcpVectorLimit || 20,
+					this.settings.mcpExpandSynonyms || false
+				)).results,
+				fetchLimit,
+				query
+			);
+			this.usedLocal = this.router.usedLocalIndex();
+		}
+
+		const related: RelatedNote[] = [];
+		const seen = new Set<string>([file.path]);
+		for (const result of results) {
+			const path = this.router.toVaultPath(result.file_path);
+			if (path === null || seen.has(path) || isExcluded(path)) {
+				continue;
+			}
+			seen.add(path);
+			const target = this.app.vault.getAbstractFileByPath(path);
+			if (!(target instanceof TFile)) {
+				continue;
+			}
+			related.push({
+				file: target,
+				snippet: result.snippet,
+				score: typeof result.score === "number" ? result.score : null,
+				line: getResultStartLine(result),
+				headings: result.heading_path || [],
+			});
+			if (related.length >= limit) {
+				break;
+			}
+		}
+		return related;
+	}
+
+	/**
+	 * 実行中の検索をキャンセル
+	 */
+	cancelPending(): number {
+		return this.router.cancelPending();
+	}
+}
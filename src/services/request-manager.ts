@@ -0,0 +1,136 @@
+/**
+ * Request Manager
+ * 実行中のAI・MCPサーバーへのリクエストを追跡し、個別または一括でキャンセルできるようにする
+ */
+
+import type { AIFeature } from "../types";
+import { linkAbortSignal } from "../utils/api-utils";
+
+/**
+ * リクエストの種類
+ */
+export type RequestKind = "ai" | "mcp";
+
+/**
+ * 実行中のリクエストの情報
+ */
+export interface ActiveRequest {
+	id: number;
+	kind: RequestKind;
+	label: string; // 表示用の名前
+	feature?: AIFeature; // リクエストを開始した機能（AIの場合）
+	startedAt: number;
+}
+
+/**
+ * 開始したリクエストの操作用ハンドル
+ */
+export interface RequestHandle {
+	id: number;
+	signal: AbortSignal; // fetchに渡すシグナル（キャンセル時に中断される）
+	finish(): void; // 完了・失敗時に必ず呼び出す
+}
+
+export interface RequestStartOptions {
+	feature?: AIFeature;
+	signal?: AbortSignal; // 呼び出し元のシグナル（中断されるとこのリクエストも中断）
+	owner?: unknown; // まとめてキャンセルするためのリクエスト元
+}
+
+interface TrackedRequest {
+	info: ActiveRequest;
+	controller: AbortController;
+	owner?: unknown;
+	unlinkSignal: () => void;
+}
+
+export class RequestManager {
+	private requests: Map<number, TrackedRequest> = new Map();
+	private nextId = 1;
+	private listeners: Array<() => void> = [];
+
+	/**
+	 * リクエストの追跡を開始
+	 */
+	start(kind: RequestKind, label: string, options: RequestStartOptions = {}): RequestHandle {
+		const id = this.nextId++;
+		const controller = new AbortController();
+		this.requests.set(id, {
+			info: { id, kind, label, feature: options.feature, startedAt: Date.now() },
+			controller,
+			owner: options.owner,
+			unlinkSignal: linkAbortSignal(controller, options.signal),
+		});
+		this.notify();
+
+		return {
+			id,
+			signal: controller.signal,
+			finish: () => this.finish(id),
+		};
+	}
+
+	/**
+	 * 指定したリクエストをキャンセル
+	 */
+	cancel(id: number): boolean {
+		const request = this.requests.get(id);
+		if (!request) {
+			return false;
+		}
+		request.controller.abort();
+		this.finish(id);
+		return true;
+	}
+
+	/**
+	 * 指定したリクエスト元のリクエストをすべてキャンセル
+	 */
+	cancelOwner(owner: unknown): number {
+		const ids = Array.from(this.requests.values())
+			.filter((request) => request.owner === owner)
+			.map((request) => request.info.id);
+		ids.forEach((id) => this.cancel(id));
+		return ids.length;
+	}
+
+	/**
+	 * すべてのリクエストをキャンセル
+	 */
+	cancelAll(): number {
+		const ids = Array.from(this.requests.keys());
+		ids.forEach((id) => this.cancel(id));
+		return ids.length;
+	}
+
+	/**
+	 * 実行中のリクエストを取得（古い順）
+	 */
+	getActiveRequests(): ActiveRequest[] {
+		return Array.from(this.requests.values()).map((request) => request.info);
+	}
+
+	/**
+	 * リクエストの増減を監視（戻り値の関数で解除）
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.push(listener);
+		return () => {
+			this.listeners = this.listeners.filter((l) => l !== listener);
+		};
+	}
+
+	private finish(id: number): void {
+		const request = this.requests.get(id);
+		if (!request) {
+			return;
+		}
+		request.unlinkSignal();
+		this.requests.delete(id);
+		this.notify();
+	}
+
+	private notify(): void {
+		this.listeners.forEach((listener) => listener());
+	}
+}
@@ -0,0 +1,72 @@
+/**
+ * Request Tracking AI Service
+ * AIサービスをラップし、実行中のリクエストをリクエストマネージャーに登録してキャンセルできるようにする
+ */
+
+import {
+	AIService,
+	ChatCompletionOptions,
+	ChatCompletionDeltaHandler,
+	ChatCompletionResponse,
+} from "./ai-service-interface";
+import { RequestManager } from "./request-manager";
+import { AI_FEATURE_LABELS } from "../settings";
+
+export class RequestTrackingAIService implements AIService {
+	private service: AIService;
+	private requestManager: RequestManager;
+
+	/**
+	 * ラップ対象のサービスがモデルリストを取得できる場合のみ設定される
+	 */
+	getModels?: () => Promise<string[]>;
+
+	constructor(service: AIService, requestManager: RequestManager) {
+		this.service = service;
+		this.requestManager = requestManager;
+
+		const getServiceModels = service.getModels;
+		if (getServiceModels) {
+			this.getModels = () => getServiceModels.call(service);
+		}
+	}
+
+	getServiceName(): string {
+		return this.service.getServiceName();
+	}
+
+	isApiKeySet(): boolean {
+		return this.service.isApiKeySet();
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		const request = this.startRequest(options);
+		try {
+			return await this.service.chatCompletion({ ...options, signal: request.signal });
+		} finally {
+			request.finish();
+		}
+	}
+
+	async chatCompletionStream(
+		options: ChatCompletionOptions,
+		onDelta: ChatCompletionDeltaHandler
+	): Promise<ChatCompletionResponse> {
+		const request = this.startRequest(options);
+		try {
+			return await this.service.chatCompletionStream({ ...options, signal: request.signal }, onDelta);
+		} finally {
+			request.finish();
+		}
+	}
+
+	/**
+	 * 呼び出し元のシグナルと連動したリクエストを登録
+	 */
+	private startRequest(options: ChatCompletionOptions) {
+		return this.requestManager.start("ai", AI_FEATURE_LABELS[options.feature || "other"], {
+			feature: options.feature,
+			signal: options.signal,
+		});
+	}
+}
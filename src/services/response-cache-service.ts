@@ -0,0 +1,203 @@
+/**
+ * Response Cache Service
+ * 同じ入力に対するAIの応答をプラグインフォルダに保存し、有効期間内は再利用する
+ */
+
+import type { Plugin } from "obsidian";
+import type { ChatCompletionResponse } from "./ai-service-interface";
+import { KnowledgeConnectSettings } from "../types";
+import { readPluginJson, writePluginJson } from "../utils/plugin-storage";
+
+/**
+ * キャッシュの保存ファイル名（プラグインフォルダ内）
+ */
+const CACHE_FILE_NAME = "response-cache.json";
+
+/**
+ * キャッシュのキーの元になる情報
+ */
+export interface ResponseCacheKeySource {
+	provider: string;
+	model: string;
+	messages: unknown; // メッセージと応答形式など、応答を左右する入力
+	temperature?: number;
+}
+
+/**
+ * 保存されたキャッシュエントリ
+ */
+interface ResponseCacheEntry {
+	key: string;
+	createdAt: number;
+	size: number; // 保存サイズ（バイト）
+	response: Pick<ChatCompletionResponse, "content" | "model" | "usage">;
+}
+
+/**
+ * キャッシュの状態
+ */
+export interface ResponseCacheStats {
+	entries: number;
+	sizeBytes: number;
+}
+
+/**
+ * 文字列のSHA-256ハッシュを16進数で取得
+ */
+async function sha256(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => `0${byte.toString(16)}`.slice(-2))
+		.join("");
+}
+
+export class ResponseCacheService {
+	private plugin: Plugin;
+	private settings: KnowledgeConnectSettings;
+	private entries: Map<string, ResponseCacheEntry> = new Map(); // 古い順（使用時に末尾へ移動）
+	private totalSize = 0;
+	private saveQueue: Promise<void> = Promise.resolve();
+
+	constructor(plugin: Plugin, settings: KnowledgeConnectSettings) {
+		this.plugin = plugin;
+		this.settings = settings;
+	}
+
+	/**
+	 * 設定を更新
+	 */
+	updateSettings(settings: KnowledgeConnectSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * 保存済みのキャッシュを読み込む
+	 */
+	async load(): Promise<void> {
+		const entries = await readPluginJson<ResponseCacheEntry[]>(this.plugin, CACHE_FILE_NAME, []);
+		this.entries.clear();
+		this.totalSize = 0;
+		if (Array.isArray(entries)) {
+			for (const entry of entries) {
+				if (!this.isExpired(entry)) {
+					this.entries.set(entry.key, entry);
+					this.totalSize += entry.size;
+				}
+			}
+		}
+	}
+
+	/**
+	 * キャッシュのキーを作成
+	 */
+	async createKey(source: ResponseCacheKeySource): Promise<string> {
+		return sha256(
+			JSON.stringify([source.provider, source.model, source.messages, source.temperature ?? null])
+		);
+	}
+
+	/**
+	 * 有効期間内のキャッシュを取得
+	 */
+	get(key: string): ChatCompletionResponse | null {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return null;
+		}
+		if (this.isExpired(entry)) {
+			this.remove(key);
+			this.save();
+			return null;
+		}
+		// 最近使用したエントリを末尾に移動（サイズ超過時に残りやすくする）
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return { ...entry.response, cached: true };
+	}
+
+	/**
+	 * 応答をキャッシュに保存
+	 */
+	async set(key: string, response: ChatCompletionResponse): Promise<void> {
+		const stored: ResponseCacheEntry["response"] = {
+			content: response.content,
+			model: response.model,
+			usage: response.usage,
+		};
+		const entry: ResponseCacheEntry = {
+			key,
+			createdAt: Date.now(),
+			size: new TextEncoder().encode(JSON.stringify(stored)).length,
+			response: stored,
+		};
+
+		const maxSize = this.getMaxSize();
+		if (entry.size > maxSize) {
+			return; // 1件で上限を超える応答は保存しない
+		}
+
+		this.remove(key);
+		this.entries.set(key, entry);
+		this.totalSize += entry.size;
+
+		// 上限を超えた分を古い順に削除
+		const iterator = this.entries.keys();
+		while (this.totalSize > maxSize) {
+			const oldest = iterator.next();
+			if (oldest.done) {
+				break;
+			}
+			this.remove(oldest.value);
+		}
+
+		await this.save();
+	}
+
+	/**
+	 * キャッシュをすべて削除
+	 */
+	async clear(): Promise<void> {
+		this.entries.clear();
+		this.totalSize = 0;
+		await this.save();
+	}
+
+	/**
+	 * キャッシュの件数とサイズを取得
+	 */
+	getStats(): ResponseCacheStats {
+		return {
+			entries: this.entries.size,
+			sizeBytes: this.totalSize,
+		};
+	}
+
+	private isExpired(entry: ResponseCacheEntry): boolean {
+		const ttlHours = this.settings.responseCacheTTLHours ?? 168;
+		return Date.now() - entry.createdAt > ttlHours * 60 * 60 * 1000;
+	}
+
+	private getMaxSize(): number {
+		return (this.settings.responseCacheMaxSizeMB ?? 10) * 1024 * 1024;
+	}
+
+	private remove(key: string): void {
+		const entry = this.entries.get(key);
+		if (entry) {
+			this.totalSize -= entry.size;
+			this.entries.delete(key);
+		}
+	}
+
+	/**
+	 * 保存処理を直列化して書き込みの競合を防ぐ
+	 */
+	private save(): Promise<void> {
+		this.saveQueue = this.saveQueue
+			.then(() => writePluginJson(this.plugin, CACHE_FILE_NAME, Array.from(this.entries.values())))
+			.catch((error) => {
+				console.error("[Response Cache] キャッシュの保存に失敗しました:", error);
+			});
+		return this.saveQueue;
+	}
+}
@@ -0,0 +1,248 @@
+/**
+ * Usage Ledger Service
+ * AI呼び出しごとのトークン使用量と推定コストを記録・集計する
+ */
+
+import type { Plugin } from "obsidian";
+import { AIFeature, AIModelPrice, KnowledgeConnectSettings } from "../types";
+import { readPluginJson, writePluginJson } from "../utils/plugin-storage";
+
+/**
+ * 使用量の保存先ファイル名（プラグインフォルダ内）
+ */
+const LEDGER_FILE_NAME = "usage-ledger.json";
+
+/**
+ * 記録を保持する日数（これより古い記録は読み込み時に削除）
+ */
+const RETENTION_DAYS = 400;
+
+/**
+ * 1回のAI呼び出しの使用量
+ */
+export interface UsageRecord {
+	timestamp: number;
+	feature: AIFeature | "other";
+	model: string;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	cost: number; // 推定コスト（USD）
+}
+
+/**
+ * 集計結果の1行
+ */
+export interface UsageSummaryRow {
+	period: string; // 日別は YYYY-MM-DD、月別は YYYY-MM
+	feature: AIFeature | "other";
+	model: string;
+	calls: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	cost: number;
+}
+
+/**
+ * 集計の単位
+ */
+export type UsagePeriod = "daily" | "monthly";
+
+/**
+ * 予算チェックの結果
+ */
+export interface UsageBudgetStatus {
+	budget: number; // 月間予算（0の場合は無制限）
+	spent: number; // 今月の推定コスト
+	exceeded: boolean;
+}
+
+/**
+ * タイムスタンプを集計期間のキーに変換（ローカル時刻）
+ */
+export function toPeriodKey(timestamp: number, period: UsagePeriod): string {
+	const date = new Date(timestamp);
+	const pad = (value: number) => `0${value}`.slice(-2);
+	const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+	if (period === "monthly") {
+		return month;
+	}
+	return `${month}-${pad(date.getDate())}`;
+}
+
+/**
+ * 記録用のモデル名を正規化
+ * フォールバック経由の応答に付与されたサービス名（例: "gpt-4o (LiteLLM)"）を取り除く
+ */
+export function normalizeModelName(model: string): string {
+	return model.replace(/\s*\([^)]*\)$/, "").trim();
+}
+
+export class UsageLedgerService {
+	private plugin: Plugin;
+	private settings: KnowledgeConnectSettings;
+	private records: UsageRecord[] = [];
+	private listeners: Array<() => void> = [];
+	private saveQueue: Promise<void> = Promise.resolve();
+
+	constructor(plugin: Plugin, settings: KnowledgeConnectSettings) {
+		this.plugin = plugin;
+		this.settings = settings;
+	}
+
+	/**
+	 * 設定を更新
+	 */
+	updateSettings(settings: KnowledgeConnectSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * 保存済みの記録を読み込む
+	 */
+	async load(): Promise<void> {
+		const records = await readPluginJson<UsageRecord[]>(this.plugin, LEDGER_FILE_NAME, []);
+		const threshold = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+		this.records = Array.isArray(records)
+			? records.filter((record) => record.timestamp >= threshold)
+			: [];
+		this.notify();
+	}
+
+	/**
+	 * モデルの料金を取得
+	 * 完全一致がない場合は "provider/model" のプロバイダー部分を除いた名前で照合する
+	 */
+	getPrice(model: string): AIModelPrice | null {
+		const prices = this.settings.aiModelPrices || [];
+		const name = normalizeModelName(model);
+		const exact = prices.find((price) => price.model === name);
+		if (exact) {
+			return exact;
+		}
+		const baseName = name.split("/").pop() || name;
+		return prices.find((price) => (price.model.split("/").pop() || price.model) === baseName) || null;
+	}
+
+	/**
+	 * トークン数から推定コスト（USD）を計算
+	 * 料金表にないモデル（ローカルモデルなど）は0とする
+	 */
+	estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+		const price = this.getPrice(model);
+		if (!price) {
+			return 0;
+		}
+		return (promptTokens * price.inputPrice + completionTokens * price.outputPrice) / 1000000;
+	}
+
+	/**
+	 * 使用量を記録して保存
+	 */
+	async record(
+		feature: AIFeature | undefined,
+		model: string,
+		usage: { promptTokens: number; completionTokens: number; totalTokens: number }
+	): Promise<void> {
+		const name = normalizeModelName(model);
+		this.records.push({
+			timestamp: Date.now(),
+			feature: feature || "other",
+			model: name,
+			promptTokens: usage.promptTokens,
+			completionTokens: usage.completionTokens,
+			totalTokens: usage.totalTokens || usage.promptTokens + usage.completionTokens,
+			cost: this.estimateCost(name, usage.promptTokens, usage.completionTokens),
+		});
+		this.notify();
+		await this.save();
+	}
+
+	/**
+	 * 全記録を削除
+	 */
+	async clear(): Promise<void> {
+		this.records = [];
+		this.notify();
+		await this.save();
+	}
+
+	/**
+	 * 期間・機能・モデルごとに集計（新しい期間が先頭）
+	 */
+	summarize(period: UsagePeriod): UsageSummaryRow[] {
+		const rows = new Map<string, UsageSummaryRow>();
+		for (const record of this.records) {
+			const periodKey = toPeriodKey(record.timestamp, period);
+			const key = `${periodKey}\u0000${record.feature}\u0000${record.model}`;
+			let row = rows.get(key);
+			if (!row) {
+				row = {
+					period: periodKey,
+					feature: record.feature,
+					model: record.model,
+					calls: 0,
+					promptTokens: 0,
+					completionTokens: 0,
+					totalTokens: 0,
+					cost: 0,
+				};
+				rows.set(key, row);
+			}
+			row.calls++;
+			row.promptTokens += record.promptTokens;
+			row.completionTokens += record.completionTokens;
+			row.totalTokens += record.totalTokens;
+			row.cost += record.cost;
+		}
+		return Array.from(rows.values()).sort((a, b) => {
+			if (a.period !== b.period) {
+				return a.period < b.period ? 1 : -1;
+			}
+			return b.cost - a.cost || b.totalTokens - a.totalTokens;
+		});
+	}
+
+	/**
+	 * 今月の推定コストと予算の状態を取得
+	 */
+	getBudgetStatus(): UsageBudgetStatus {
+		const budget = this.settings.usageMonthlyBudget || 0;
+		const currentMonth = toPeriodKey(Date.now(), "monthly");
+		const spent = this.records
+			.filter((record) => toPeriodKey(record.timestamp, "monthly") === currentMonth)
+			.reduce((sum, record) => sum + record.cost, 0);
+		return {
+			budget,
+			spent,
+			exceeded: budget > 0 && spent >= budget,
+		};
+	}
+
+	/**
+	 * 記録の変更を監視（戻り値の関数で解除）
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.push(listener);
+		return () => {
+			this.listeners = this.listeners.filter((l) => l !== listener);
+		};
+	}
+
+	private notify(): void {
+		this.listeners.forEach((listener) => listener());
+	}
+
+	/**
+	 * 保存処理を直列化して書き込みの競合を防ぐ
+	 */
+	private save(): Promise<void> {
+		this.saveQueue = this.saveQueue
+			.then(() => writePluginJson(this.plugin, LEDGER_FILE_NAME, this.records))
+			.catch((error) => {
+				console.error("[Usage Ledger] 使用量の保存に失敗しました:", error);
+			});
+		return this.saveQueue;
+	}
+}
@@ -0,0 +1,100 @@
+/**
+ * Usage Tracking AI Service
+ * AIサービスをラップし、呼び出しごとの使用量を記録して月間予算を確認する
+ */
+
+import { Notice } from "obsidian";
+import {
+	AIService,
+	ChatCompletionOptions,
+	ChatCompletionDeltaHandler,
+	ChatCompletionResponse,
+} from "./ai-service-interface";
+import { UsageLedgerService, toPeriodKey } from "./usage-ledger-service";
+import { KnowledgeConnectSettings } from "../types";
+
+export class UsageTrackingAIService implements AIService {
+	private service: AIService;
+	private ledger: UsageLedgerService;
+	private settings: KnowledgeConnectSettings;
+	private warnedMonth: string | null = null;
+
+	/**
+	 * ラップ対象のサービスがモデルリストを取得できる場合のみ設定される
+	 */
+	getModels?: () => Promise<string[]>;
+
+	constructor(service: AIService, ledger: UsageLedgerService, settings: KnowledgeConnectSettings) {
+		this.service = service;
+		this.ledger = ledger;
+		this.settings = settings;
+
+		const getServiceModels = service.getModels;
+		if (getServiceModels) {
+			this.getModels = () => getServiceModels.call(service);
+		}
+	}
+
+	getServiceName(): string {
+		return this.service.getServiceName();
+	}
+
+	isApiKeySet(): boolean {
+		return this.service.isApiKeySet();
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		this.checkBudget();
+		const response = await this.service.chatCompletion(options);
+		this.recordUsage(options, response);
+		return response;
+	}
+
+	async chatCompletionStream(
+		options: ChatCompletionOptions,
+		onDelta: ChatCompletionDeltaHandler
+	): Promise<ChatCompletionResponse> {
+		this.checkBudget();
+		const response = await this.service.chatCompletionStream(options, onDelta);
+		this.recordUsage(options, response);
+		return response;
+	}
+
+	/**
+	 * 呼び出し前に月間予算を確認
+	 * ブロック設定の場合はエラーを投げ、警告設定の場合は月に1回だけ通知する
+	 */
+	private checkBudget(): void {
+		const status = this.ledger.getBudgetStatus();
+		if (!status.exceeded) {
+			return;
+		}
+
+		const message = `今月のAI利用額（推定 $${status.spent.toFixed(2)}）が月間予算 $${status.budget.toFixed(2)} に達しています。`;
+		if (this.settings.usageBudgetAction === "block") {
+			throw new Error(`${message}設定画面で予算を変更するまでAIの呼び出しは停止されます。`);
+		}
+
+		const currentMonth = toPeriodKey(Date.now(), "monthly");
+		if (this.warnedMonth !== currentMonth) {
+			this.warnedMonth = currentMonth;
+			new Notice(`⚠️ ${message}`, 8000);
+		}
+	}
+
+	/**
+	 * 応答の使用量を記録（記録に失敗してもAIの応答には影響させない）
+	 */
+	private recordUsage(options: ChatCompletionOptions, response: ChatCompletionResponse): void {
+		// キャッシュから返した応答はAIを呼び出していないため記録しない
+		if (response.cached) {
+			return;
+		}
+		const usage = response.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+		this.ledger
+			.record(options.feature, response.model || options.model || this.settings.aiModel, usage)
+			.catch((error) => {
+				console.error("[Usage Ledger] 使用量の記録に失敗しました:", error);
+			});
+	}
+}
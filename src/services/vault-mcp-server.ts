@@ -0,0 +1,618 @@
+/**
+ * Vault MCP Server
+ * VaultをModel Context Protocol（Streamable HTTP）のサーバーとして公開し、
+ * 外部のエージェント（IDEのアシスタント・CLIツールなど）から検索・読み書きできるようにする
+ * デスクトップ版でのみ使用でき、127.0.0.1でのみ待ち受ける
+ */
+
+import { App, Platform, TFile, normalizePath } from "obsidian";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { KnowledgeConnectSettings } from "../types";
+import type { JSONRPCMessage, JSONRPCResponse, MCPTool } from "./mcp-client";
+import { MCP_PROTOCOL_VERSION } from "./mcp-client";
+import { createMCPService } from "./mcp-connection";
+import type { AutoTagService } from "./auto-tag-service";
+import type { RequestManager } from "./request-manager";
+import { getSavePath, saveToFile, type SaveOptions } from "../utils/file-manager";
+import { isExcluded } from "../utils/exclusion-list";
+import { requireNodeModule } from "../utils/node-modules";
+import { toVaultPath } from "../utils/vault-paths";
+
+/**
+ * リクエスト本文の最大サイズ（バイト）
+ */
+const MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * ツールの結果として返す本文の最大文字数
+ */
+const MAX_NOTE_LENGTH = 20000;
+
+/**
+ * 保持するリクエストログの件数
+ */
+const MAX_LOG_ENTRIES = 100;
+
+const SERVER_INFO = { name: "knowledge-connect-vault", version: "1.0.0" };
+
+/**
+ * 読み込み専用モードでも公開するツール
+ */
+const READ_TOOLS: MCPTool[] = [
+	{
+		name: "search_notes",
+		description: "Vault内のノートを検索し、該当箇所の抜粋を返します。modeにkeyword（全文検索）またはhybrid（キーワード＋ベクトル）を指定できます。",
+		inputSchema: {
+			type: "object",
+			properties: {
+				query: { type: "string", description: "検索クエリ" },
+				mode: { type: "string", enum: ["hybrid", "keyword"], description: "検索方法（デフォルト: hybrid）" },
+				limit: { type: "integer", description: "取得する件数（デフォルト: 10、最大: 50）" },
+			},
+			required: ["query"],
+		},
+	},
+	{
+		name: "read_note",
+		description: "Vault内のノートの本文を読み込みます。",
+		inputSchema: {
+			type: "object",
+			properties: {
+				path: { type: "string", description: "Vaultのルートからのパス（例: フォルダ/ノート.md）" },
+			},
+			required: ["path"],
+		},
+	},
+	{
+		name: "get_tags",
+		description: "ノートのAI生成タグ（aigen-tag）を返します。pathを省略した場合は公開中のノート全体のタグと件数を返します。",
+		inputSchema: {
+			type: "object",
+			properties: {
+				path: { type: "string", description: "Vaultのルートからのパス（省略可）" },
+			},
+		},
+	},
+];
+
+/**
+ * 読み込み専用モードでない場合のみ公開するツール
+ */
+const WRITE_TOOLS: MCPTool[] = [
+	{
+		name: "create_note",
+		description: "Vaultに新しいノートを作成します。同名のノートが既に存在する場合は作成しません。",
+		inputSchema: {
+			type: "object",
+			properties: {
+				folder: { type: "string", description: "保存先フォルダ（省略時はデフォルトの保存先）" },
+				fileName: { type: "string", description: "ファイル名（拡張子は不要）" },
+				content: { type: "string", description: "ノートの本文（Markdown）" },
+			},
+			required: ["fileName", "content"],
+		},
+	},
+	{
+		name: "append_to_note",
+		description: "既存のノートの末尾に内容を追記します。",
+		inputSchema: {
+			type: "object",
+			properties: {
+				path: { type: "string", description: "Vaultのルートからのパス（例: フォルダ/ノート.md）" },
+				content: { type: "string", description: "追記する内容（Markdown）" },
+			},
+			required: ["path", "content"],
+		},
+	},
+];
+
+/**
+ * リクエストログの1件
+ */
+export interface VaultMCPRequestLogEntry {
+	time: number;
+	method: string;
+	tool?: string;
+	target?: string; // 検索クエリ・パスなど
+	status: "ok" | "error" | "denied";
+	message?: string;
+	durationMs: number;
+}
+
+/**
+ * ツールの実行結果とログに記録する状態
+ */
+interface ToolCallOutcome {
+	result: { content: Array<{ type: "text"; text: string }>; isError?: boolean };
+	status: VaultMCPRequestLogEntry["status"];
+	message?: string;
+}
+
+/**
+ * ツールの実行を拒否した場合のエラー（ログでdeniedとして記録する）
+ */
+class AccessDeniedError extends Error {}
+
+/**
+ * JSON-RPCのエラー応答として返すエラー
+ */
+class JSONRPCError extends Error {
+	code: number;
+
+	constructor(code: number, message: string) {
+		super(message);
+		this.code = code;
+	}
+}
+
+export class VaultMCPServer {
+	private app: App;
+	private settings: KnowledgeConnectSettings;
+	private getAutoTagService: () => AutoTagService | null;
+	private requestManager?: RequestManager;
+	private server: Server | null = null;
+	private port: number | null = null;
+	private log: VaultMCPRequestLogEntry[] = [];
+
+	constructor(
+		app: App,
+		settings: KnowledgeConnectSettings,
+		getAutoTagService: () => AutoTagService | null,
+		requestManager?: RequestManager
+	) {
+		this.app = app;
+		this.settings = settings;
+		this.getAutoTagService = getAutoTagService;
+		this.requestManager = requestManager;
+	}
+
+	/**
+	 * 設定を更新
+	 * 有効・無効やポートが変わった場合はサーバーを起動・停止し直す
+	 */
+	updateSettings(settings: KnowledgeConnectSettings): void {
+		this.settings = settings;
+		const port = this.getPort();
+		if (!settings.enableVaultMCPServer) {
+			void this.stop();
+		} else if (!this.server || this.port !== port) {
+			void this.restart();
+		}
+	}
+
+	/**
+	 * サーバーを起動
+	 */
+	async start(): Promise<void> {
+		if (this.server || !this.settings.enableVaultMCPServer) {
+			return;
+		}
+		if (!Platform.isDesktopApp) {
+			console.warn("[Vault MCP Server] MCPサーバーはデスクトップ版でのみ起動できます");
+			return;
+		}
+
+		const http = requireNodeModule("http");
+		const port = this.getPort();
+		const server = http.createServer((req, res) => {
+			void this.handleHttpRequest(req, res);
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(port, "127.0.0.1", () => {
+				server.off("error", reject);
+				resolve();
+			});
+		}).catch((error) => {
+			throw new Error(`MCPサーバーを起動できません（ポート: ${port}）: ${error instanceof Error ? error.message : String(error)}`);
+		});
+
+		server.on("error", (error) => console.error("[Vault MCP Server] サーバーエラー:", error));
+		this.server = server;
+		this.port = port;
+		console.log(`[Vault MCP Server] http://127.0.0.1:${port}/mcp で起動しました`);
+	}
+
+	/**
+	 * サーバーを停止
+	 */
+	async stop(): Promise<void> {
+		const server = this.server;
+		if (!server) {
+			return;
+		}
+		this.server = null;
+		this.port = null;
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+		console.log("[Vault MCP Server] 停止しました");
+	}
+
+	/**
+	 * 起動中か
+	 */
+	isRunning(): boolean {
+		return this.server !== null;
+	}
+
+	/**
+	 * 接続先のURLを取得
+	 */
+	getUrl(): string {
+		return `http://127.0.0.1:${this.getPort()}/mcp`;
+	}
+
+	/**
+	 * リクエストログを取得（新しい順）
+	 */
+	getLog(): VaultMCPRequestLogEntry[] {
+		return [...this.log].reverse();
+	}
+
+	/**
+	 * リクエストログを削除
+	 */
+	clearLog(): void {
+		this.log = [];
+	}
+
+	private async restart(): Promise<void> {
+		try {
+			await this.stop();
+			await this.start();
+		} catch (error) {
+			console.error("[Vault MCP Server]", error);
+		}
+	}
+
+	private getPort(): number {
+		return this.settings.vaultMCPServerPort || 27125;
+	}
+
+	/**
+	 * HTTPリクエストを処理
+	 */
+	private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+		// ブラウザ上のページからの呼び出し（DNSリバインディング）を防ぐため、ローカル以外のOriginを拒否
+		const origin = req.headers.origin;
+		if (origin && !/^(https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?|app:\/\/obsidian\.md)$/.test(origin)) {
+			this.sendJson(res, 403, { error: "Forbidden origin" });
+			return;
+		}
+
+		const path = (req.url || "/").split("?")[0];
+		if (path !== "/mcp") {
+			this.sendJson(res, 404, { error: "Not found" });
+			return;
+		}
+		if (req.method === "DELETE") {
+			// セッションは保持しないため、終了の要求には常に成功を返す
+			res.writeHead(200);
+			res.end();
+			return;
+		}
+		if (req.method !== "POST") {
+			res.writeHead(405, { Allow: "POST, DELETE" });
+			res.end();
+			return;
+		}
+
+		let payload: unknown;
+		try {
+			payload = JSON.parse(await this.readBody(req));
+		} catch (error) {
+			this.sendJson(res, 400, this.errorResponse(null, -32700, error instanceof Error ? error.message : "Parse error"));
+			return;
+		}
+
+		const messages = (Array.isArray(payload) ? payload : [payload]) as JSONRPCMessage[];
+		const responses: JSONRPCResponse[] = [];
+		for (const message of messages) {
+			const response = await this.handleMessage(message);
+			if (response) {
+				responses.push(response);
+			}
+		}
+
+		if (responses.length === 0) {
+			// 通知・応答のみの場合は受理のみ返す
+			res.writeHead(202);
+			res.end();
+			return;
+		}
+		this.sendJson(res, 200, Array.isArray(payload) ? responses : responses[0]);
+	}
+
+	/**
+	 * JSON-RPCのメッセージを処理（通知の場合はnullを返す）
+	 */
+	private async handleMessage(message: JSONRPCMessage): Promise<JSONRPCResponse | null> {
+		if (!message || typeof message !== "object" || !("method" in message)) {
+			return null;
+		}
+		const isRequest = "id" in message && message.id !== undefined && message.id !== null;
+		if (!isRequest) {
+			return null;
+		}
+		const id = (message as { id: number | string }).id;
+		const startedAt = Date.now();
+		const params = message.params || {};
+		const tool = message.method === "tools/call" ? String(params.name || "") : undefined;
+		const args = (params.arguments || {}) as Record<string, unknown>;
+
+		try {
+			let result: unknown;
+			let status: VaultMCPRequestLogEntry["status"] = "ok";
+			let logMessage: string | undefined;
+			if (message.method === "tools/call") {
+				const outcome = await this.callTool(tool || "", args);
+				result = outcome.result;
+				status = outcome.status;
+				logMessage = outcome.message;
+			} else {
+				result = await this.dispatch(message.method);
+			}
+			if (message.method !== "ping") {
+				this.addLog({
+					time: startedAt,
+					method: message.method,
+					tool,
+					target: tool ? String(args.query || args.path || args.fileName || "") || undefined : undefined,
+					status,
+					message: logMessage,
+					durationMs: Date.now() - startedAt,
+				});
+			}
+			return { jsonrpc: "2.0", id, result };
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			this.addLog({
+				time: startedAt,
+				method: message.method,
+				tool,
+				status: "error",
+				message: errorMessage,
+				durationMs: Date.now() - startedAt,
+			});
+			return this.errorResponse(id, error instanceof JSONRPCError ? error.code : -32603, errorMessage);
+		}
+	}
+
+	private async dispatch(method: string): Promise<unknown> {
+		switch (method) {
+			case "initialize":
+				return {
+					protocolVersion: MCP_PROTOCOL_VERSION,
+					capabilities: { tools: {} },
+					serverInfo: SERVER_INFO,
+					instructions: "Obsidian Vaultのノートを検索・参照するためのツールを提供します。",
+				};
+			case "ping":
+				return {};
+			case "tools/list":
+				return { tools: this.getTools() };
+			default:
+				throw new JSONRPCError(-32601, `Method not found: ${method}`);
+		}
+	}
+
+	private getTools(): MCPTool[] {
+		return this.settings.vaultMCPServerReadOnly !== false ? READ_TOOLS : [...READ_TOOLS, ...WRITE_TOOLS];
+	}
+
+	/**
+	 * ツールを実行
+	 * ツールの失敗はJSON-RPCのエラーではなくisErrorの結果として返す
+	 */
+	private async callTool(name: string, args: Record<string, unknown>): Promise<ToolCallOutcome> {
+		if (!this.getTools().some((tool) => tool.name === name)) {
+			throw new JSONRPCError(-32602, `Unknown tool: ${name}`);
+		}
+
+		try {
+			let text: string;
+			switch (name) {
+				case "search_notes":
+					text = await this.searchNotes(String(args.query || ""), String(args.mode || "hybrid"), Number(args.limit) || 10);
+					break;
+				case "read_note":
+					text = await this.readNote(String(args.path || ""));
+					break;
+				case "get_tags":
+					text = await this.getTags(args.path ? String(args.path) : "");
+					break;
+				case "create_note":
+					text = await this.createNote(String(args.folder || ""), String(args.fileName || ""), String(args.content || ""));
+					break;
+				default:
+					text = await this.appendToNote(String(args.path || ""), String(args.content || ""));
+					break;
+			}
+			return { result: { content: [{ type: "text", text }] }, status: "ok" };
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			return {
+				result: { content: [{ type: "text", text: `エラー: ${message}` }], isError: true },
+				status: error instanceof AccessDeniedError ? "denied" : "error",
+				message,
+			};
+		}
+	}
+
+	private async searchNotes(query: string, mode: string, limit: number): Promise<string> {
+		if (!query.trim()) {
+			throw new Error("検索クエリが指定されていません。");
+		}
+		const mcpService = createMCPService(this.app, this.settings, this.requestManager);
+		const size = Math.min(Math.max(limit, 1), 50);
+		const response = mode === "keyword"
+			? await mcpService.searchDocuments(query, size)
+			: await mcpService.hybridSearch(query, size);
+
+		const results = response.results
+			.map((result) => ({ ...result, path: toVaultPath(this.app, result.file_path) ?? result.file_path }))
+			.filter((result) => this.isAllowed(result.path));
+		if (results.length === 0) {
+			return "該当するノートは見つかりませんでした。";
+		}
+		return JSON.stringify(
+			results.map((result) => ({
+				path: result.path,
+				location: result.location_info,
+				snippet: result.snippet,
+			}))
+		);
+	}
+
+	private async readNote(path: string): Promise<string> {
+		const file = this.getAllowedFile(path);
+		const content = await this.app.vault.cachedRead(file);
+		if (content.length > MAX_NOTE_LENGTH) {
+			return `${content.substring(0, MAX_NOTE_LENGTH)}\n\n...（${content.length}文字中、先頭${MAX_NOTE_LENGTH}文字のみ）`;
+		}
+		return content;
+	}
+
+	private async getTags(path: string): Promise<string> {
+		const autoTagService = this.getAutoTagService();
+		if (!autoTagService) {
+			throw new Error("タグ生成サービスが初期化されていません。");
+		}
+
+		if (path) {
+			const file = this.getAllowedFile(path);
+			const tags = autoTagService.getExistingTags(await this.app.vault.cachedRead(file));
+			return JSON.stringify({ path: file.path, tags: tags || [] });
+		}
+
+		const counts: Record<string, number> = {};
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!this.isAllowed(file.path)) {
+				continue;
+			}
+			const tags = autoTagService.getExistingTags(await this.app.vault.cachedRead(file)) || [];
+			for (const tag of tags) {
+				counts[tag] = (counts[tag] || 0) + 1;
+			}
+		}
+		const tags = Object.keys(counts)
+			.sort((a, b) => counts[b] - counts[a])
+			.map((tag) => ({ tag, count: counts[tag] }));
+		return tags.length > 0 ? JSON.stringify(tags) : "タグが付いたノートはありません。";
+	}
+
+	private async createNote(folder: string, fileName: string, content: string): Promise<string> {
+		if (!fileName.trim()) {
+			throw new Error("ファイル名が指定されていません。");
+		}
+		const targetFolder = folder.trim() ? this.normalizeVaultPath(folder) : this.settings.defaultSaveFolder || "";
+		if (!this.isAllowed(`${targetFolder}/`)) {
+			throw new AccessDeniedError(`このフォルダには書き込めません: ${targetFolder || "/"}`);
+		}
+		const saveOptions: SaveOptions = {
+			folder: targetFolder,
+			fileName,
+			content,
+			format: "markdown",
+		};
+		const targetPath = getSavePath(this.settings, saveOptions);
+		// 既存のノートを上書きしないようにする
+		if (this.app.vault.getAbstractFileByPath(targetPath)) {
+			throw new Error(`同名のノートが既に存在します: ${targetPath}`);
+		}
+		const file = await saveToFile(this.app, this.settings, saveOptions);
+		if (!file) {
+			throw new Error("ノートの作成に失敗しました。");
+		}
+		return `ノートを保存しました: ${file.path}`;
+	}
+
+	private async appendToNote(path: string, content: string): Promise<string> {
+		const target = this.getAllowedFile(path);
+		const file = await saveToFile(this.app, this.settings, {
+			filePath: target.path,
+			fileName: target.path,
+			content,
+			append: true,
+		});
+		if (!file) {
+			throw new Error("ノートへの追記に失敗しました。");
+		}
+		return `ノートに追記しました: ${file.path}`;
+	}
+
+	/**
+	 * 公開対象のノートを取得（対象外・存在しない場合はエラー）
+	 */
+	private getAllowedFile(path: string): TFile {
+		const normalized = this.normalizeVaultPath(path);
+		if (!this.isAllowed(normalized)) {
+			throw new AccessDeniedError(`このノートにはアクセスできません: ${normalized}`);
+		}
+		const file = this.app.vault.getAbstractFileByPath(normalized);
+		if (!(file instanceof TFile)) {
+			throw new Error(`ノートが見つかりません: ${normalized}`);
+		}
+		return file;
+	}
+
+	/**
+	 * 公開するフォルダに含まれるか（未設定の場合はVault全体）
+	 */
+	private isAllowed(path: string): boolean {
+		if (isExcluded(path)) {
+			return false;
+		}
+		const folders = (this.settings.vaultMCPServerAllowedFolders || [])
+			.map((folder) => folder.trim().replace(/^\/+|\/+$/g, ""))
+			.filter((folder) => folder !== "");
+		if (folders.length === 0) {
+			return true;
+		}
+		return folders.some((folder) => path === folder || path.startsWith(`${folder}/`));
+	}
+
+	private normalizeVaultPath(path: string): string {
+		const normalized = normalizePath(path.trim().replace(/^\/+/, ""));
+		if (!normalized || normalized.split("/").includes("..")) {
+			throw new AccessDeniedError(`このパスにはアクセスできません: ${path}`);
+		}
+		return normalized;
+	}
+
+	private addLog(entry: VaultMCPRequestLogEntry): void {
+		this.log.push(entry);
+		if (this.log.length > MAX_LOG_ENTRIES) {
+			this.log.splice(0, this.log.length - MAX_LOG_ENTRIES);
+		}
+		const detail = [entry.tool, entry.target, entry.message].filter((value) => value).join(" ");
+		console.log(`[Vault MCP Server] ${entry.method} ${entry.status}${detail ? ` ${detail}` : ""} (${entry.durationMs}ms)`);
+	}
+
+	private readBody(req: IncomingMessage): Promise<string> {
+		return new Promise((resolve, reject) => {
+			const chunks: Buffer[] = [];
+			let size = 0;
+			req.on("data", (chunk: Buffer) => {
+				size += chunk.length;
+				if (size > MAX_BODY_SIZE) {
+					reject(new Error("リクエストが大きすぎます。"));
+					req.destroy();
+					return;
+				}
+				chunks.push(chunk);
+			});
+			req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+			req.on("error", reject);
+		});
+	}
+
+	private errorResponse(id: number | string | null, code: number, message: string): JSONRPCResponse {
+		return { jsonrpc: "2.0", id: id as number | string, error: { code, message } };
+	}
+
+	private sendJson(res: ServerResponse, status: number, body: unknown): void {
+		res.writeHead(status, { "Content-Type": "application/json" });
+		res.end(JSON.stringify(body));
+	}
+}
@@ -0,0 +1,269 @@
+/**
+ * Vault Tool Service
+ * チャット中にAIが呼び出せるVault操作ツール（検索・読み込み・一覧・作成・追記）
+ */
+
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+import type { KnowledgeConnectSettings } from "../types";
+import type { ToolCall, ToolDefinition } from "./ai-service-interface";
+import type { MCPService } from "./mcp-service";
+import { createMCPService } from "./mcp-connection";
+import type { RequestManager } from "./request-manager";
+import { parseToolArguments } from "../utils/api-utils";
+import { getSavePath, saveToFile, type SaveOptions } from "../utils/file-manager";
+import { isExcluded } from "../utils/exclusion-list";
+import { confirmToolCall } from "../utils/tool-confirm-dialog";
+
+/**
+ * ツールの結果としてモデルに返す本文の最大文字数
+ */
+const MAX_NOTE_LENGTH = 8000;
+
+/**
+ * 確認ダイアログに表示する書き込み内容の最大文字数
+ */
+const MAX_PREVIEW_LENGTH = 1000;
+
+const VAULT_TOOLS: ToolDefinition[] = [
+	{
+		name: "search_notes",
+		description: "Vault内のノートをハイブリッド検索（キーワード＋ベクトル）し、該当箇所の抜粋を返します。",
+		parameters: {
+			type: "object",
+			properties: {
+				query: { type: "string", description: "検索クエリ" },
+				limit: { type: "integer", description: "取得する件数（デフォルト: 5、最大: 20）" },
+			},
+			required: ["query"],
+		},
+	},
+	{
+		name: "read_note",
+		description: "Vault内のノートの本文を読み込みます。",
+		parameters: {
+			type: "object",
+			properties: {
+				path: { type: "string", description: "Vaultのルートからのパス（例: フォルダ/ノート.md）" },
+			},
+			required: ["path"],
+		},
+	},
+	{
+		name: "list_folder",
+		description: "Vault内のフォルダに含まれるファイルとサブフォルダの一覧を返します。",
+		parameters: {
+			type: "object",
+			properties: {
+				path: { type: "string", description: "Vaultのルートからのフォルダパス（ルートの場合は空文字）" },
+			},
+		},
+	},
+	{
+		name: "create_note",
+		description: "Vaultに新しいノートを作成します。実行前にユーザーの確認が必要です。",
+		parameters: {
+			type: "object",
+			properties: {
+				folder: { type: "string", description: "保存先フォルダ（省略時はデフォルトの保存先）" },
+				fileName: { type: "string", description: "ファイル名（拡張子は不要）" },
+				content: { type: "string", description: "ノートの本文（Markdown）" },
+			},
+			required: ["fileName", "content"],
+		},
+	},
+	{
+		name: "append_to_note",
+		description: "既存のノートの末尾に内容を追記します。実行前にユーザーの確認が必要です。",
+		parameters: {
+			type: "object",
+			properties: {
+				path: { type: "string", description: "Vaultのルートからのパス（例: フォルダ/ノート.md）" },
+				content: { type: "string", description: "追記する内容（Markdown）" },
+			},
+			required: ["path", "content"],
+		},
+	},
+];
+
+/**
+ * ツール呼び出しを表示用の短い文字列に変換
+ */
+export function describeToolCall(toolCall: ToolCall): string {
+	const args = parseToolArguments(toolCall.arguments);
+	const target = args.query || args.path || args.fileName || "";
+	return target ? `${toolCall.name}: ${String(target)}` : toolCall.name;
+}
+
+export class VaultToolService {
+	private app: App;
+	private settings: KnowledgeConnectSettings;
+	private mcpService: MCPService;
+
+	constructor(app: App, settings: KnowledgeConnectSettings, requestManager?: RequestManager) {
+		this.app = app;
+		this.settings = settings;
+		this.mcpService = createMCPService(app, settings, requestManager);
+	}
+
+	/**
+	 * 実行中の検索リクエストをキャンセル
+	 */
+	cancelPending(): void {
+		this.mcpService.cancelPending();
+	}
+
+	/**
+	 * モデルに提供するツールの定義を取得
+	 */
+	getDefinitions(): ToolDefinition[] {
+		return VAULT_TOOLS;
+	}
+
+	/**
+	 * ツールを実行し、モデルに返す結果を文字列で返す
+	 * 失敗した場合もエラー内容を結果として返し、モデルが会話を続けられるようにする
+	 */
+	async execute(toolCall: ToolCall): Promise<string> {
+		const args = parseToolArguments(toolCall.arguments);
+		try {
+			switch (toolCall.name) {
+				case "search_notes":
+					return await this.searchNotes(String(args.query || ""), Number(args.limit) || 5);
+				case "read_note":
+					return await this.readNote(String(args.path || ""));
+				case "list_folder":
+					return this.listFolder(String(args.path || ""));
+				case "create_note":
+					return await this.createNote(
+						String(args.folder || ""),
+						String(args.fileName || ""),
+						String(args.content || "")
+					);
+				case "append_to_note":
+					return await this.appendToNote(String(args.path || ""), String(args.content || ""));
+				default:
+					return `エラー: 不明なツールです: ${toolCall.name}`;
+			}
+		} catch (error) {
+			console.error(`[Vault Tools] ${toolCall.name} の実行に失敗しました:`, error);
+			return `エラー: ${error instanceof Error ? error.message : String(error)}`;
+		}
+	}
+
+	private async searchNotes(query: string, limit: number): Promise<string> {
+		if (!query.trim()) {
+			return "エラー: 検索クエリが指定されていません。";
+		}
+		const response = await this.mcpService.hybridSearch(query, Math.min(Math.max(limit, 1), 20));
+		if (response.results.length === 0) {
+			return "該当するノートは見つかりませんでした。";
+		}
+		return JSON.stringify(
+			response.results.map((result) => ({
+				path: result.file_path,
+				location: result.location_info,
+				snippet: result.snippet,
+			}))
+		);
+	}
+
+	private async readNote(path: string): Promise<string> {
+		const normalized = this.normalizeVaultPath(path);
+		const file = this.app.vault.getAbstractFileByPath(normalized);
+		if (!(file instanceof TFile)) {
+			return `エラー: ノートが見つかりません: ${normalized}`;
+		}
+		const content = await this.app.vault.cachedRead(file);
+		if (content.length > MAX_NOTE_LENGTH) {
+			return `${content.substring(0, MAX_NOTE_LENGTH)}\n\n...（${content.length}文字中、先頭${MAX_NOTE_LENGTH}文字のみ）`;
+		}
+		return content;
+	}
+
+	private listFolder(path: string): string {
+		const normalized = path.trim() === "" || path.trim() === "/" ? "/" : this.normalizeVaultPath(path);
+		const folder = normalized === "/"
+			? this.app.vault.getRoot()
+			: this.app.vault.getAbstractFileByPath(normalized);
+		if (!(folder instanceof TFolder)) {
+			return `エラー: フォルダが見つかりません: ${normalized}`;
+		}
+		const entries = folder.children
+			.filter((child) => !isExcluded(child.path))
+			.map((child) => (child instanceof TFolder ? `${child.path}/` : child.path))
+			.sort();
+		return entries.length > 0 ? entries.join("\n") : "（空のフォルダです）";
+	}
+
+	private async createNote(folder: string, fileName: string, content: string): Promise<string> {
+		if (!fileName.trim()) {
+			return "エラー: ファイル名が指定されていません。";
+		}
+		const targetFolder = folder.trim() ? this.normalizeVaultPath(folder) : this.settings.defaultSaveFolder || "";
+		const saveOptions: SaveOptions = {
+			folder: targetFolder,
+			fileName,
+			content,
+			format: "markdown",
+		};
+		const targetPath = getSavePath(this.settings, saveOptions);
+		// 既存のノートを上書きしないようにする
+		if (this.app.vault.getAbstractFileByPath(targetPath)) {
+			return `エラー: 同名のノートが既に存在します: ${targetPath}`;
+		}
+
+		const approved = await confirmToolCall(
+			this.app,
+			"ノートの作成",
+			`AIが「${targetPath}」を作成しようとしています。`,
+			this.toPreview(content)
+		);
+		if (!approved) {
+			return "ユーザーがノートの作成を拒否しました。";
+		}
+
+		const file = await saveToFile(this.app, this.settings, saveOptions);
+		return file ? `ノートを作成しました: ${file.path}` : "エラー: ノートの作成に失敗しました。";
+	}
+
+	private async appendToNote(path: string, content: string): Promise<string> {
+		const normalized = this.normalizeVaultPath(path);
+		if (!(this.app.vault.getAbstractFileByPath(normalized) instanceof TFile)) {
+			return `エラー: ノートが見つかりません: ${normalized}`;
+		}
+		const approved = await confirmToolCall(
+			this.app,
+			"ノートへの追記",
+			`AIが「${normalized}」に追記しようとしています。`,
+			this.toPreview(content)
+		);
+		if (!approved) {
+			return "ユーザーがノートへの追記を拒否しました。";
+		}
+
+		const file = await saveToFile(this.app, this.settings, {
+			filePath: normalized,
+			fileName: normalized,
+			content,
+			append: true,
+		});
+		return file ? `ノートに追記しました: ${file.path}` : "エラー: ノートへの追記に失敗しました。";
+	}
+
+	/**
+	 * Vault内のパスに正規化し、設定フォルダなどの除外対象へのアクセスを拒否
+	 */
+	private normalizeVaultPath(path: string): string {
+		const normalized = normalizePath(path.trim().replace(/^\/+/, ""));
+		if (!normalized || normalized.split("/").includes("..") || isExcluded(normalized)) {
+			throw new Error(`このパスにはアクセスできません: ${path}`);
+		}
+		return normalized;
+	}
+
+	private toPreview(content: string): string {
+		return content.length > MAX_PREVIEW_LENGTH
+			? `${content.substring(0, MAX_PREVIEW_LENGTH)}\n...`
+			: content;
+	}
+}
@@ -4,9 +4,37 @@
 
 import { App, Modal, Notice, PluginSettingTab, Setting } from "obsidian";
 import KnowledgeConnectPlugin from "./main";
-import { LiteLLMService } from "./services/litellm-service";
-import { MCPService } from "./services/mcp-service";
-import { PromptTemplate } from "./types";
+import { AIServiceFactory } from "./services/ai-service-factory";
+import { ROUTABLE_FEATURES } from "./services/feature-routing-ai-service";
+import { DEFAULT_EMBEDDING_MODELS } from "./services/embedding-service";
+import { createMCPService, DEFAULT_API_KEY_HEADER, DEFAULT_CREDENTIAL_ID, getMCPCredential, setMCPCredential } from "./services/mcp-connection";
+import { AI_FEATURE_LABELS } from "./settings";
+import { AIFeatureRoute, AIModelPrice, AIService, LocalEmbeddingProvider, MCPAuthConfig, MCPAuthType, MCPBackendConfig, MCPClientServerConfig, MCPClientTransport, MockAIResponse, PromptTemplate, RelatedNotesSource, UsageBudgetAction } from "./types";
+
+/**
+ * エンドポイントURLを設定できるAIサービスの設定キー
+ */
+type EndpointUrlSettingKey = "litellmEndpointUrl" | "openaiCompatibleEndpointUrl" | "ollamaEndpointUrl";
+
+/**
+ * 「キー 区切り文字 値」形式の行をオブジェクトに変換（環境変数・ヘッダーの入力用）
+ */
+function parseKeyValueLines(value: string, separator: string): Record<string, string> {
+	const result: Record<string, string> = {};
+	for (const line of value.split("\n")) {
+		const index = line.indexOf(separator);
+		if (index > 0) {
+			result[line.substring(0, index).trim()] = line.substring(index + separator.length).trim();
+		}
+	}
+	return result;
+}
+
+function formatKeyValueLines(values: Record<string, string> | undefined, separator: string): string {
+	return Object.keys(values || {})
+		.map((key) => `${key}${separator}${(values || {})[key]}`)
+		.join("\n");
+}
 
 
 export class KnowledgeConnectSettingTab extends PluginSettingTab {
@@ -27,20 +55,191 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 			return this.plugin.settings.openrouterApiKey || this.plugin.settings.apiKey || "";
 		} else if (this.plugin.settings.aiService === "litellm") {
 			return this.plugin.settings.litellmApiKey || this.plugin.settings.apiKey || "";
+		} else if (this.plugin.settings.aiService === "openai-compatible") {
+			return this.plugin.settings.openaiCompatibleApiKey || "";
+		} else if (this.plugin.settings.aiService === "ollama") {
+			return this.plugin.settings.ollamaApiKey || "";
 		}
 		return this.plugin.settings.apiKey || "";
 	}
 
 	/**
-	 * LiteLLMのモデルリストを取得してドロップダウンに設定
+	 * AIサービスの表示名を取得
+	 */
+	private getServiceLabel(service: AIService): string {
+		switch (service) {
+			case "openrouter":
+				return "OpenRouter";
+			case "litellm":
+				return "LiteLLM";
+			case "openai-compatible":
+				return "OpenAI互換API（vLLMなど）";
+			case "ollama":
+				return "Ollama";
+			case "mock":
+				return "モック（開発・動作確認用）";
+		}
+	}
+
+	/**
+	 * AIサービス選択の説明文を取得
+	 */
+	private getServiceDescription(service: AIService): string {
+		const prefix = "使用するAIサービスプロバイダーを選択してください。";
+		switch (service) {
+			case "openrouter":
+				return prefix + "OpenRouterは複数のAIモデル（GPT-4、Claude、Geminiなど）に統一APIでアクセスできます。";
+			case "litellm":
+				return prefix + "LiteLLMは100以上のLLMを統一的なOpenAI互換インターフェースで利用できるオープンソースライブラリです。";
+			case "openai-compatible":
+				return prefix + "OpenAI互換API（vLLM、LM Studioなど）のベースURLに直接接続します。";
+			case "ollama":
+				return prefix + "Ollamaのネイティブ API（/api/chat）に直接接続し、ローカルモデルをオフラインで利用できます。";
+			case "mock":
+				return prefix + "モックは外部に接続せず、設定した応答を返します。APIキーなしで各機能の動作を確認できます。";
+		}
+	}
+
+	/**
+	 * APIキー設定の説明文を取得
+	 */
+	private getApiKeyDescription(service: AIService): string {
+		const prefix = "選択したAIサービスプロバイダーのAPIキーを設定します。";
+		switch (service) {
+			case "openrouter":
+				return prefix + "OpenRouterの場合は https://openrouter.ai/ でAPIキーを取得できます。";
+			case "litellm":
+				return prefix + "LiteLLMの場合は、LiteLLMサーバーで設定したAPIキーを入力してください。";
+			case "openai-compatible":
+				return prefix + "サーバーで認証を有効にしている場合のみ入力してください（任意）。";
+			case "ollama":
+				return prefix + "認証付きのリバースプロキシ経由で接続する場合のみ入力してください（任意）。";
+			case "mock":
+				return "モックではAPIキーは使用しません。";
+		}
+	}
+
+	/**
+	 * 現在選択中のサービスのAPIキーを保存
+	 */
+	private setCurrentApiKey(value: string): void {
+		if (this.plugin.settings.aiService === "openrouter") {
+			this.plugin.settings.openrouterApiKey = value;
+		} else if (this.plugin.settings.aiService === "litellm") {
+			this.plugin.settings.litellmApiKey = value;
+		} else if (this.plugin.settings.aiService === "openai-compatible") {
+			this.plugin.settings.openaiCompatibleApiKey = value;
+		} else if (this.plugin.settings.aiService === "ollama") {
+			this.plugin.settings.ollamaApiKey = value;
+		}
+	}
+
+	/**
+	 * APIキーが必須のサービスか確認
+	 * OpenAI互換APIとOllamaはローカルで認証なしに動作することが多いため任意
+	 */
+	private isApiKeyRequired(): boolean {
+		return this.plugin.settings.aiService === "openrouter" || this.plugin.settings.aiService === "litellm";
+	}
+
+	/**
+	 * デフォルトAIモデルのドロップダウンをローディング表示にしてモデルリストを再読み込み
+	 */
+	private reloadServerModels(): void {
+		if (!this.modelSettingRef) {
+			return;
+		}
+		const selectEl = this.modelSettingRef.settingEl.querySelector("select") as HTMLSelectElement;
+		if (selectEl) {
+			// 一時的にローディング表示
+			selectEl.innerHTML = "";
+			const loadingOption = document.createElement("option");
+			loadingOption.value = "loading";
+			loadingOption.textContent = "モデルリストを読み込み中...";
+			selectEl.appendChild(loadingOption);
+			selectEl.value = "loading";
+			selectEl.disabled = true;
+			// モデルリストを再読み込み
+			this.loadServerModels(this.modelSettingRef, null);
+		}
+	}
+
+	/**
+	 * エンドポイントURLの設定項目を追加
+	 */
+	private addEndpointUrlSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		key: EndpointUrlSettingKey,
+		defaultUrl: string
+	): void {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) =>
+				text
+					.setPlaceholder(defaultUrl)
+					.setValue(this.plugin.settings[key] || defaultUrl)
+					.onChange(async (value) => {
+						// URLのバリデーション
+						try {
+							new URL(value || defaultUrl);
+							this.plugin.settings[key] = value || defaultUrl;
+							await this.plugin.saveSettings();
+							// モデルリストだけを再読み込み
+							this.reloadServerModels();
+						} catch {
+							new Notice("無効なURL形式です。");
+						}
+					})
+			);
+	}
+
+	/**
+	 * モックAIサービスの応答の設定項目を追加
+	 */
+	private addMockResponsesSetting(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("モックの応答")
+			.setDesc(
+				"返す応答をJSON配列で設定します（例: [{\"match\": \"要約\", \"content\": \"...\"}, {\"error\": {\"status\": 429, \"message\": \"Too Many Requests\"}}]）。" +
+				"matchが最後のユーザーメッセージに一致する応答を優先し、matchなしの応答は順番に返します。空の場合はユーザーメッセージをそのまま返します。"
+			)
+			.addTextArea((text) => {
+				text.inputEl.rows = 8;
+				text.inputEl.style.width = "100%";
+				text
+					.setPlaceholder("[]")
+					.setValue(JSON.stringify(this.plugin.settings.mockAIResponses || [], null, 2))
+					.onChange(async (value) => {
+						let responses: MockAIResponse[];
+						try {
+							responses = value.trim() ? JSON.parse(value) : [];
+						} catch {
+							new Notice("JSONの形式が正しくありません。");
+							return;
+						}
+						if (!Array.isArray(responses)) {
+							new Notice("応答はJSON配列で指定してください。");
+							return;
+						}
+						this.plugin.settings.mockAIResponses = responses;
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	/**
+	 * サーバー（LiteLLM・OpenAI互換API・Ollama）のモデルリストを取得してドロップダウンに設定
 	 */
-	private async loadLiteLLMModels(
+	private async loadServerModels(
 		setting: Setting,
 		dropdown: ReturnType<Setting["addDropdown"]> | null
 	): Promise<void> {
 		try {
-			// LiteLLMServiceのインスタンスを作成してモデルリストを取得
-			const litellmService = new LiteLLMService(this.plugin.settings);
+			// 選択中のサービスのインスタンスを作成してモデルリストを取得
+			const modelService = AIServiceFactory.createService(this.plugin.settings);
 			
 			// select要素を取得（少し待機してから取得）
 			let selectEl = setting.settingEl.querySelector("select") as HTMLSelectElement;
@@ -55,21 +254,23 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 			}
 			console.log("[Settings] select要素を取得しました");
 
-			if (!litellmService.isApiKeySet()) {
+			if (!modelService.isApiKeySet() || !modelService.getModels) {
 				// select要素のオプションを更新（innerHTMLを使わずに安全に更新）
 				while (selectEl.firstChild) {
 					selectEl.removeChild(selectEl.firstChild);
 				}
 				const option = document.createElement("option");
 				option.value = "";
-				option.textContent = "APIキーが設定されていません";
+				option.textContent = this.isApiKeyRequired()
+					? "APIキーが設定されていません"
+					: "エンドポイントURLが設定されていません";
 				selectEl.appendChild(option);
 				selectEl.value = "";
 				selectEl.disabled = true;
 				return;
 			}
 
-			const models = await litellmService.getModels();
+			const models = await modelService.getModels();
 
 			// select要素がまだ存在するか再確認
 			let currentSelectEl = setting.settingEl.querySelector("select") as HTMLSelectElement;
@@ -156,9 +357,10 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 			}
 			
 			// ユーザーに通知（詳細なエラーメッセージを表示）
+			const serviceName = this.getServiceLabel(this.plugin.settings.aiService);
 			const noticeMessage = errorMessage.includes("接続") || errorMessage.includes("Failed to fetch")
-				? `LiteLLMプロキシに接続できません。エンドポイントURL（${this.plugin.settings.litellmEndpointUrl || "http://localhost:4000"}）とAPIキーを確認してください。`
-				: `LiteLLMのモデルリストを取得できませんでした: ${errorMessage}`;
+				? `${serviceName}に接続できません。エンドポイントURLとAPIキーを確認してください。詳細: ${errorMessage}`
+				: `${serviceName}のモデルリストを取得できませんでした: ${errorMessage}`;
 			new Notice(noticeMessage, 8000);
 		}
 	}
@@ -181,26 +383,20 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 		// AIサービス選択
 		new Setting(containerEl)
 			.setName("AIサービス選択")
-			.setDesc(
-				this.plugin.settings.aiService === "openrouter"
-					? "使用するAIサービスプロバイダーを選択してください。OpenRouterは複数のAIモデル（GPT-4、Claude、Geminiなど）に統一APIでアクセスできます。"
-					: "使用するAIサービスプロバイダーを選択してください。LiteLLMは100以上のLLMを統一的なOpenAI互換インターフェースで利用できるオープンソースライブラリです。"
-			)
+			.setDesc(this.getServiceDescription(this.plugin.settings.aiService))
 			.addDropdown((dropdown) =>
 				dropdown
-					.addOption("openrouter", "OpenRouter")
-					.addOption("litellm", "LiteLLM")
+					.addOption("openrouter", this.getServiceLabel("openrouter"))
+					.addOption("litellm", this.getServiceLabel("litellm"))
+					.addOption("openai-compatible", this.getServiceLabel("openai-compatible"))
+					.addOption("ollama", this.getServiceLabel("ollama"))
+					.addOption("mock", this.getServiceLabel("mock"))
 					.setValue(this.plugin.settings.aiService)
 					.onChange(async (value) => {
 						// 現在のAPIキーを保存
-						const currentApiKey = this.getCurrentApiKey();
-						if (this.plugin.settings.aiService === "openrouter") {
-							this.plugin.settings.openrouterApiKey = currentApiKey;
-						} else if (this.plugin.settings.aiService === "litellm") {
-							this.plugin.settings.litellmApiKey = currentApiKey;
-						}
+						this.setCurrentApiKey(this.getCurrentApiKey());
 
-						this.plugin.settings.aiService = value as "openrouter" | "litellm";
+						this.plugin.settings.aiService = value as AIService;
 						await this.plugin.saveSettings();
 						// サービス変更時に説明文を更新
 						this.display();
@@ -210,11 +406,7 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 		// AI APIキー
 		const apiKeySetting = new Setting(containerEl)
 			.setName("AI APIキー")
-			.setDesc(
-				this.plugin.settings.aiService === "openrouter"
-					? "選択したAIサービスプロバイダーのAPIキーを設定します。OpenRouterの場合は https://openrouter.ai/ でAPIキーを取得できます。"
-					: "選択したAIサービスプロバイダーのAPIキーを設定します。LiteLLMの場合は、LiteLLMサーバーで設定したAPIキーを入力してください。"
-			)
+			.setDesc(this.getApiKeyDescription(this.plugin.settings.aiService))
 			.addText((text) => {
 				text.inputEl.type = "password";
 				const currentApiKey = this.getCurrentApiKey();
@@ -223,27 +415,11 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 					.setValue(currentApiKey)
 					.onChange(async (value) => {
 						// サービスごとのAPIキーを保存
-						if (this.plugin.settings.aiService === "openrouter") {
-							this.plugin.settings.openrouterApiKey = value;
-						} else if (this.plugin.settings.aiService === "litellm") {
-							this.plugin.settings.litellmApiKey = value;
-							// LiteLLM選択時はモデルリストだけを再読み込み
+						this.setCurrentApiKey(value);
+						if (this.plugin.settings.aiService !== "openrouter") {
+							// モデルリストを動的に取得するサービスではモデルリストだけを再読み込み
 							await this.plugin.saveSettings();
-							if (this.modelSettingRef) {
-								const selectEl = this.modelSettingRef.settingEl.querySelector("select") as HTMLSelectElement;
-								if (selectEl) {
-									// 一時的にローディング表示
-									selectEl.innerHTML = "";
-									const loadingOption = document.createElement("option");
-									loadingOption.value = "loading";
-									loadingOption.textContent = "モデルリストを読み込み中...";
-									selectEl.appendChild(loadingOption);
-									selectEl.value = "loading";
-									selectEl.disabled = true;
-									// モデルリストを再読み込み
-									this.loadLiteLLMModels(this.modelSettingRef, null);
-								}
-							}
+							this.reloadServerModels();
 							return;
 						}
 						// 後方互換性のためapiKeyも更新
@@ -252,47 +428,38 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 					});
 			});
 
-		// LiteLLMエンドポイントURL（LiteLLM選択時のみ表示）
+		// エンドポイントURL（選択したサービスのみ表示）
 		if (this.plugin.settings.aiService === "litellm") {
-			new Setting(containerEl)
-				.setName("LiteLLMエンドポイントURL")
-				.setDesc("LiteLLMサーバーのベースURLを設定します。デフォルトは http://localhost:4000 です。")
-				.addText((text) =>
-					text
-						.setPlaceholder("http://localhost:4000")
-						.setValue(this.plugin.settings.litellmEndpointUrl || "http://localhost:4000")
-						.onChange(async (value) => {
-							// URLのバリデーション
-							try {
-								new URL(value || "http://localhost:4000");
-								this.plugin.settings.litellmEndpointUrl = value || "http://localhost:4000";
-								await this.plugin.saveSettings();
-								// モデルリストだけを再読み込み
-								if (this.modelSettingRef) {
-									const selectEl = this.modelSettingRef.settingEl.querySelector("select") as HTMLSelectElement;
-									if (selectEl) {
-										// 一時的にローディング表示
-										selectEl.innerHTML = "";
-										const loadingOption = document.createElement("option");
-										loadingOption.value = "loading";
-										loadingOption.textContent = "モデルリストを読み込み中...";
-										selectEl.appendChild(loadingOption);
-										selectEl.value = "loading";
-										selectEl.disabled = true;
-										// モデルリストを再読み込み
-										this.loadLiteLLMModels(this.modelSettingRef, null);
-									}
-								}
-							} catch {
-								new Notice("無効なURL形式です。");
-							}
-						})
-				);
+			this.addEndpointUrlSetting(
+				containerEl,
+				"LiteLLMエンドポイントURL",
+				"LiteLLMサーバーのベースURLを設定します。デフォルトは http://localhost:4000 です。",
+				"litellmEndpointUrl",
+				"http://localhost:4000"
+			);
+		} else if (this.plugin.settings.aiService === "openai-compatible") {
+			this.addEndpointUrlSetting(
+				containerEl,
+				"OpenAI互換APIのベースURL",
+				"vLLMなどOpenAI互換サーバーのベースURL（/v1 まで）を設定します。/chat/completions と /models が使用されます。",
+				"openaiCompatibleEndpointUrl",
+				"http://localhost:8000/v1"
+			);
+		} else if (this.plugin.settings.aiService === "ollama") {
+			this.addEndpointUrlSetting(
+				containerEl,
+				"OllamaエンドポイントURL",
+				"OllamaのベースURLを設定します。デフォルトは http://localhost:11434 です。/api/chat と /api/tags が使用されます。",
+				"ollamaEndpointUrl",
+				"http://localhost:11434"
+			);
+		} else if (this.plugin.settings.aiService === "mock") {
+			this.addMockResponsesSetting(containerEl);
 		}
 
 		// APIキーが未設定の場合の警告
 		const currentApiKey = this.getCurrentApiKey();
-		if (!currentApiKey || currentApiKey.trim() === "") {
+		if (this.isApiKeyRequired() && (!currentApiKey || currentApiKey.trim() === "")) {
 			apiKeySetting.setDesc(
 				apiKeySetting.descEl.textContent + " ⚠️ APIキーが設定されていません。機能を使用するには必須です。"
 			);
@@ -320,7 +487,7 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 					});
 			});
 		} else {
-			// LiteLLMのモデルリスト（動的取得）
+			// LiteLLM・OpenAI互換API・Ollamaのモデルリスト（動的取得）
 			const modelDropdown = this.modelSettingRef.addDropdown((dropdown) => {
 				dropdown
 					.addOption("loading", "モデルリストを読み込み中...")
@@ -329,7 +496,7 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 			});
 
 			// モデルリストを取得
-			this.loadLiteLLMModels(this.modelSettingRef, modelDropdown);
+			this.loadServerModels(this.modelSettingRef, modelDropdown);
 		}
 
 		// デフォルトの保存先フォルダ
@@ -458,6 +625,19 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 			autoSaveSetting.setDesc(autoSaveSetting.descEl.textContent + " ⚠️ 保存先フォルダが設定されていません。");
 		}
 
+		// チャットでのツール使用
+		new Setting(containerEl)
+			.setName("チャットでVaultツールを使用")
+			.setDesc(
+				"AIチャットで、AIが会話の途中にノートの検索・読み込み・フォルダ一覧の取得を行えるようにします。ノートの作成・追記は毎回確認ダイアログで許可が必要です。ツール呼び出しに対応したモデルが必要です。"
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.enableChatTools ?? false).onChange(async (value) => {
+					this.plugin.settings.enableChatTools = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
 		// ==================== 表示設定 ====================
 		containerEl.createEl("h3", { text: "表示設定" });
 
@@ -555,6 +735,188 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 			})
 			.addExtraButton((button) => button.setIcon("hash").setTooltip("トークン"));
 
+		// 機能別のモデル割り当て
+		containerEl.createEl("h4", { text: "機能別のモデル割り当て" });
+		containerEl.createEl("p", {
+			text: "機能ごとに使用するAIサービス・モデル・温度・最大トークン数を設定します。空欄の項目はメインのAIサービスとデフォルト値を使用します。AIサービスを変更する場合はモデルも指定してください。チャットとURL要約では、ここで指定したモデルが画面の初期選択になります。",
+			cls: "setting-item-description",
+		});
+
+		this.displayFeatureRoutes(containerEl);
+
+		// フォールバック設定
+		containerEl.createEl("h4", { text: "フォールバック設定" });
+		containerEl.createEl("p", {
+			text: "メインのAIサービスがエラー（429・5xx・タイムアウトなど）で応答できない場合に、上から順に試すAIサービスを設定します。モデルが空欄の場合、メインと同じサービスでは呼び出し元で指定したモデルを、別のサービスではそのサービスの既定モデル（OpenRouter: google/gemini-2.5-flash、LiteLLM: gpt-3.5-turbo）を使用します。OpenAI互換・Ollamaは既定モデルがないため、モデルを入力してください。",
+			cls: "setting-item-description",
+		});
+
+		this.displayFallbackChain(containerEl);
+
+		new Setting(containerEl).addButton((button) => {
+			button
+				.setButtonText("フォールバック先を追加")
+				.onClick(async () => {
+					const chain = this.plugin.settings.aiFallbackChain || [];
+					this.plugin.settings.aiFallbackChain = [...chain, { service: "litellm", model: "" }];
+					await this.plugin.saveSettings();
+					this.display();
+				});
+		});
+
+		// 各サービスでのリトライ回数
+		new Setting(containerEl)
+			.setName("リトライ回数")
+			.setDesc("フォールバック有効時に、次のサービスへ切り替える前に同じサービスでリトライする回数です。リトライ間隔は回数に応じて長くなります。")
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setPlaceholder("2")
+					.setValue((this.plugin.settings.aiFallbackMaxRetries ?? 2).toString())
+					.onChange(async (value) => {
+						const numValue = parseInt(value);
+						if (isNaN(numValue) || numValue < 0 || numValue > 5) {
+							new Notice("値は0から5の範囲で入力してください。");
+							return;
+						}
+						this.plugin.settings.aiFallbackMaxRetries = numValue;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// 使用量・コスト設定
+		containerEl.createEl("h4", { text: "使用量・コスト設定" });
+		containerEl.createEl("p", {
+			text: "AI呼び出しごとのトークン数と推定コストを記録します。集計はコマンド「AI使用量ダッシュボードを開く」で確認できます。",
+			cls: "setting-item-description",
+		});
+
+		// 月間予算
+		new Setting(containerEl)
+			.setName("月間予算（USD）")
+			.setDesc("今月の推定コストがこの金額に達した場合に警告またはブロックします。0の場合は無制限です。")
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setPlaceholder("0")
+					.setValue((this.plugin.settings.usageMonthlyBudget || 0).toString())
+					.onChange(async (value) => {
+						const numValue = parseFloat(value || "0");
+						if (isNaN(numValue) || numValue < 0) {
+							new Notice("0以上の数値を入力してください。");
+							return;
+						}
+						this.plugin.settings.usageMonthlyBudget = numValue;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// 予算超過時の動作
+		new Setting(containerEl)
+			.setName("予算超過時の動作")
+			.setDesc("警告: 通知を表示して実行を続けます。ブロック: AIの呼び出しを停止します。")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("warn", "警告")
+					.addOption("block", "ブロック")
+					.setValue(this.plugin.settings.usageBudgetAction || "warn")
+					.onChange(async (value) => {
+						this.plugin.settings.usageBudgetAction = value as UsageBudgetAction;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// モデルごとの料金表
+		containerEl.createEl("p", {
+			text: "モデルごとの料金（USD / 100万トークン、入力・出力）。料金表にないモデルのコストは0として記録されます。",
+			cls: "setting-item-description",
+		});
+
+		this.displayModelPrices(containerEl);
+
+		new Setting(containerEl).addButton((button) => {
+			button
+				.setButtonText("料金を追加")
+				.onClick(async () => {
+					const prices = this.plugin.settings.aiModelPrices || [];
+					this.plugin.settings.aiModelPrices = [...prices, { model: "", inputPrice: 0, outputPrice: 0 }];
+					await this.plugin.saveSettings();
+					this.display();
+				});
+		});
+
+		// 応答キャッシュ設定
+		containerEl.createEl("h4", { text: "応答キャッシュ設定" });
+		containerEl.createEl("p", {
+			text: "ページ要約・タグ生成・URL要約で、同じ内容・モデルへの応答を保存して再利用し、再実行時のコストを抑えます。",
+			cls: "setting-item-description",
+		});
+
+		new Setting(containerEl)
+			.setName("応答キャッシュを有効化")
+			.setDesc("キャッシュはプラグインフォルダ内に保存されます。")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableResponseCache ?? false)
+					.onChange(async (value) => {
+						this.plugin.settings.enableResponseCache = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("キャッシュの有効期間（時間）")
+			.setDesc("この時間を過ぎたキャッシュは使用されません。")
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setPlaceholder("168")
+					.setValue((this.plugin.settings.responseCacheTTLHours ?? 168).toString())
+					.onChange(async (value) => {
+						const numValue = parseFloat(value);
+						if (isNaN(numValue) || numValue <= 0) {
+							new Notice("0より大きい数値を入力してください。");
+							return;
+						}
+						this.plugin.settings.responseCacheTTLHours = numValue;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("キャッシュの最大サイズ（MB）")
+			.setDesc("上限を超えた場合は使用されていない古いキャッシュから削除します。")
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setPlaceholder("10")
+					.setValue((this.plugin.settings.responseCacheMaxSizeMB ?? 10).toString())
+					.onChange(async (value) => {
+						const numValue = parseFloat(value);
+						if (isNaN(numValue) || numValue <= 0) {
+							new Notice("0より大きい数値を入力してください。");
+							return;
+						}
+						this.plugin.settings.responseCacheMaxSizeMB = numValue;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const responseCache = this.plugin.getResponseCache();
+		if (responseCache) {
+			const stats = responseCache.getStats();
+			new Setting(containerEl)
+				.setName("キャッシュを削除")
+				.setDesc(`現在 ${stats.entries}件（${(stats.sizeBytes / 1024).toFixed(1)} KB）`)
+				.addButton((button) =>
+					button.setButtonText("削除").onClick(async () => {
+						await responseCache.clear();
+						new Notice("応答キャッシュを削除しました。");
+						this.display();
+					})
+				);
+		}
+
 		// ==================== ページ要約機能設定 ====================
 		containerEl.createEl("h3", { text: "ページ要約機能設定" });
 
@@ -614,6 +976,19 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 					})
 			);
 
+		// 埋め込み画像を含める
+		new Setting(containerEl)
+			.setName("埋め込み画像を含める")
+			.setDesc(
+				"ページ要約の初期設定として、ページに埋め込まれた画像（![[image.png]] など）もAIに送信します。画像入力に対応したモデルが必要です。要約ごとに変更することもできます。"
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.summaryIncludeImages ?? false).onChange(async (value) => {
+					this.plugin.settings.summaryIncludeImages = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
 		// テンプレートプロンプト管理
 		containerEl.createEl("h4", { text: "テンプレートプロンプト管理" });
 		containerEl.createEl("p", {
@@ -646,7 +1021,7 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 		// MCPサーバーURL
 		new Setting(containerEl)
 			.setName("MCPサーバーURL")
-			.setDesc("MCPサーバーのベースURLを設定します。デフォルトは http://127.0.0.1:8000 です。")
+			.setDesc("MCPサーバーのベースURLを設定します。デフォルトは http://127.0.0.1:8000 です。local://mcp を指定すると、外部サーバーなしで動作する開発用の簡易サーバー（データはメモリ上のみ）を使用します。")
 			.addText((text) => {
 				text
 					.setPlaceholder("http://127.0.0.1:8000")
@@ -667,6 +1042,25 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 					});
 			});
 
+		// MCPサーバーの認証
+		this.displayMCPAuthSettings(containerEl, this.plugin.settings.mcpAuth, DEFAULT_CREDENTIAL_ID, async (update) => {
+			this.plugin.settings.mcpAuth = { ...(this.plugin.settings.mcpAuth || { type: "none" }), ...update };
+			await this.plugin.saveSettings();
+		});
+
+		new Setting(containerEl)
+			.setName("CA証明書")
+			.setDesc("自己署名などの証明書を使用するHTTPSのサーバーに接続する場合に、CA証明書（PEM形式）のファイルパスを指定します。デスクトップ版のみ。")
+			.addText((text) =>
+				text
+					.setPlaceholder("/path/to/ca.pem")
+					.setValue(this.plugin.settings.mcpCaCertPath || "")
+					.onChange(async (value) => {
+						this.plugin.settings.mcpCaCertPath = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
 		// MCPサーバーの接続確認
 		const mcpStatusSetting = new Setting(containerEl)
 			.setName("MCPサーバーステータス")
@@ -676,15 +1070,14 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 					button.setDisabled(true);
 					button.setButtonText("確認中...");
 					try {
-						const baseUrl = this.plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-						const mcpService = new MCPService(baseUrl);
+						const mcpService = createMCPService(this.app, this.plugin.settings);
 						const health = await mcpService.checkHealth();
 						if (health.healthy) {
 							new Notice("MCPサーバーに接続できました");
 							mcpStatusSetting.setDesc(`ステータス: ${health.status}`);
 						} else {
-							new Notice("MCPサーバーに接続できませんでした。サーバーが起動しているか確認してください。");
-							mcpStatusSetting.setDesc(`ステータス: ${health.status}`);
+							new Notice(health.error || "MCPサーバーに接続できませんでした。サーバーが起動しているか確認してください。");
+							mcpStatusSetting.setDesc(`ステータス: ${health.status}${health.error ? `（${health.error}）` : ""}`);
 						}
 					} catch (error) {
 						const errorMessage = error instanceof Error ? error.message : "不明なエラー";
@@ -698,6 +1091,33 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 				});
 			});
 
+		// 検索バックエンド
+		containerEl.createEl("h4", { text: "検索バックエンド" });
+		containerEl.createEl("p", {
+			text: "複数のMCPサーバーで検索し、結果を統合して表示します。登録した場合は上記のMCPサーバーURLの代わりに使用します（インデックス作成・ジョブ・RAGは上記のサーバーを使用します）。対象フォルダを指定したサーバーの結果は、そのフォルダ内のノートのみ表示します。",
+			cls: "setting-item-description",
+		});
+
+		this.displayMCPBackends(containerEl);
+
+		new Setting(containerEl).addButton((button) => {
+			button
+				.setButtonText("検索バックエンドを追加")
+				.onClick(async () => {
+					const backends = this.plugin.settings.mcpBackends || [];
+					const backend: MCPBackendConfig = {
+						id: `backend-${Date.now()}`,
+						name: "",
+						enabled: true,
+						url: "",
+						folders: [],
+					};
+					this.plugin.settings.mcpBackends = [...backends, backend];
+					await this.plugin.saveSettings();
+					this.display();
+				});
+		});
+
 		// インデックス化用ディレクトリ
 		const indexDirectorySetting = new Setting(containerEl)
 			.setName("インデックス化対象ディレクトリ")
@@ -718,21 +1138,17 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 					button.setButtonText("作成中...");
 					
 					try {
-						const baseUrl = this.plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-						const mcpService = new MCPService(baseUrl);
+						const mcpService = createMCPService(this.app, this.plugin.settings);
 						
-						// サーバー接続確認
-						const isAvailable = await mcpService.isServerAvailable();
-						if (!isAvailable) {
-							throw new Error("MCPサーバーに接続できません。サーバーが起動しているか確認してください。");
-						}
+						// サーバー接続確認（認証・接続のどちらで失敗したかをメッセージで示す）
+						await mcpService.ensureAvailable();
 
 						// インデックス作成を開始
 						const result = await mcpService.createIndex(directoryPath, false);
 						new Notice(`インデックス作成を開始しました（ジョブID: ${result.job_id}）`);
 						
 						// 進捗を監視（非同期で実行）
-						this.monitorIndexJob(result.job_id, button);
+						this.monitorJob(result.job_id, button, "インデックス作成");
 					} catch (error) {
 						const errorMessage = error instanceof Error ? error.message : "不明なエラーが発生しました";
 						new Notice(`インデックス作成に失敗しました: ${errorMessage}`);
@@ -763,14 +1179,10 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 					button.setButtonText("ベクトル化中...");
 					
 					try {
-						const baseUrl = this.plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-						const mcpService = new MCPService(baseUrl);
+						const mcpService = createMCPService(this.app, this.plugin.settings);
 						
-						// サーバー接続確認
-						const isAvailable = await mcpService.isServerAvailable();
-						if (!isAvailable) {
-							throw new Error("MCPサーバーに接続できません。サーバーが起動しているか確認してください。");
-						}
+						// サーバー接続確認（認証・接続のどちらで失敗したかをメッセージで示す）
+						await mcpService.ensureAvailable();
 
 						// Embeddingプロバイダーを取得（設定から）
 						const provider = this.plugin.settings.mcpVectorizeProvider || 
@@ -792,7 +1204,7 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 						new Notice(`ベクトル化を開始しました（ジョブID: ${result.job_id}）`);
 						
 						// 進捗を監視（非同期で実行）
-						this.monitorVectorizeJob(result.job_id, button);
+						this.monitorJob(result.job_id, button, "ベクトル化");
 					} catch (error) {
 						const errorMessage = error instanceof Error ? error.message : "不明なエラーが発生しました";
 						new Notice(`ベクトル化に失敗しました: ${errorMessage}`);
@@ -803,24 +1215,196 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 				});
 			});
 
-		// 統計情報表示
-		const statsSetting = new Setting(containerEl)
-			.setName("統計情報")
-			.setDesc("インデックスとベクトルストアの統計情報を表示します。")
-			.addButton((button) => {
-				button.setButtonText("統計情報を取得").onClick(async () => {
-					button.setDisabled(true);
-					button.setButtonText("取得中...");
-					
+		// インデックスの自動同期
+		const indexSyncService = this.plugin.getIndexSyncService();
+		const indexSyncStatus = indexSyncService ? indexSyncService.getStatus() : null;
+		let indexSyncStatusText = "同期はまだ行われていません。";
+		if (indexSyncStatus && indexSyncStatus.unsupported) {
+			indexSyncStatusText = "MCPサーバーが差分同期（POST /search/sync）に対応していないため、自動同期を停止しています。「今すぐ同期」で再開できます。";
+		} else if (indexSyncStatus && indexSyncStatus.lastError) {
+			indexSyncStatusText = `前回の同期に失敗しました: ${indexSyncStatus.lastError}`;
+		} else if (indexSyncStatus && indexSyncStatus.lastSyncAt) {
+			indexSyncStatusText = `最終同期: ${new Date(indexSyncStatus.lastSyncAt).toLocaleString("ja-JP")}`;
+		}
+		if (indexSyncStatus && indexSyncStatus.pending > 0) {
+			indexSyncStatusText += `（送信待ち: ${indexSyncStatus.pending}ファイル）`;
+		}
+
+		new Setting(containerEl)
+			.setName("インデックスの自動同期")
+			.setDesc(`ノートの作成・変更・削除・名前変更を検索インデックスにファイル単位で反映します。内容が変わっていないファイルと除外対象のフォルダは送信しません。${indexSyncStatusText}`)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableIndexSync || false)
+					.onChange(async (value) => {
+						this.plugin.settings.enableIndexSync = value;
+						await this.plugin.saveSettings();
+					})
+			)
+			.addButton((button) => {
+				button.setButtonText("今すぐ同期").onClick(async () => {
+					if (!indexSyncService) {
+						return;
+					}
+					button.setDisabled(true);
+					await indexSyncService.syncNow();
+					const status = indexSyncService.getStatus();
+					new Notice(status.lastError ? `同期に失敗しました: ${status.lastError}` : "インデックスを同期しました");
+					this.display();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("同期の待ち時間（秒）")
+			.setDesc("最後の変更からこの時間が経過した後に、まとめて同期します。")
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setPlaceholder("5")
+					.setValue((this.plugin.settings.indexSyncDebounceSeconds ?? 5).toString())
+					.onChange(async (value) => {
+						const numValue = parseInt(value);
+						if (!isNaN(numValue) && numValue >= 1 && numValue <= 600) {
+							this.plugin.settings.indexSyncDebounceSeconds = numValue;
+							await this.plugin.saveSettings();
+						}
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("同期時にベクトルも更新")
+			.setDesc("有効にすると、変更したノートのベクトルも「ベクトル化設定」の内容で更新します（Embeddingの料金が発生する場合があります）。")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.indexSyncVectorize || false)
+					.onChange(async (value) => {
+						this.plugin.settings.indexSyncVectorize = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// ローカルインデックス（MCPサーバーに接続できない場合の検索）
+		const localSearch = this.plugin.getSearchService();
+		const localSearchStatus = localSearch ? localSearch.getStatus() : null;
+		let localSearchStatusText = "インデックスはまだ作成されていません。";
+		if (localSearchStatus && localSearchStatus.documents > 0) {
+			localSearchStatusText = `インデックス済みのノート: ${localSearchStatus.documents}件`;
+		}
+
+		new Setting(containerEl)
+			.setName("ローカルインデックスで検索")
+			.setDesc(`MCPサーバーに接続できない場合に、プラグイン内の全文検索インデックス（プラグインフォルダに保存）でMCP検索・RAGチャットを行います。変更されたノートは検索時にインデックスに反映します。${localSearchStatusText}`)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableLocalSearch !== false)
+					.onChange(async (value) => {
+						this.plugin.settings.enableLocalSearch = value;
+						await this.plugin.saveSettings();
+					})
+			)
+			.addButton((button) => {
+				button.setButtonText("インデックスを再作成").onClick(async () => {
+					if (!localSearch) {
+						return;
+					}
+					button.setDisabled(true);
+					button.setButtonText("作成中...");
 					try {
-						const baseUrl = this.plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-						const mcpService = new MCPService(baseUrl);
+						await localSearch.rebuild((current, total) => {
+							button.setButtonText(`作成中... ${current}/${total}`);
+						});
+						new Notice(`ローカルインデックスを作成しました（${localSearch.getStatus().documents}件）`);
+					} catch (error) {
+						const errorMessage = error instanceof Error ? error.message : "不明なエラーが発生しました";
+						new Notice(`ローカルインデックスの作成に失敗しました: ${errorMessage}`);
+					} finally {
+						this.display();
+					}
+				});
+			});
+
+		// ローカルのベクトルインデックス
+		const vectorStore = localSearch ? localSearch.getVectorStore() : null;
+		const vectorStatus = vectorStore ? vectorStore.getStatus() : null;
+		const vectorStatusText = vectorStatus && vectorStatus.documents > 0
+			? `ベクトル化済みのノート: ${vectorStatus.documents}件（${vectorStatus.chunks}チャンク、${vectorStatus.model}）`
+			: "ベクトルインデックスはまだ作成されていません。";
+
+		new Setting(containerEl)
+			.setName("ローカルのベクトル検索")
+			.setDesc(`ローカルインデックスで検索する際に、ノートをベクトル化したインデックスでの意味検索を併用し、全文検索の結果とRRFで統合します。作成後は変更されたノートを、編集が落ち着いてから（30秒後）バックグラウンドでベクトル化します（Embeddingの料金が発生する場合があります。使用量は「ベクトル化（ローカルインデックス）」として記録されます）。${vectorStatusText}`)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableLocalVectorSearch || false)
+					.onChange(async (value) => {
+						this.plugin.settings.enableLocalVectorSearch = value;
+						await this.plugin.saveSettings();
+					})
+			)
+			.addButton((button) => {
+				button.setButtonText("ベクトル化").onClick(async () => {
+					if (!vectorStore) {
+						return;
+					}
+					button.setDisabled(true);
+					button.setButtonText("ベクトル化中...");
+					try {
+						await vectorStore.update((current, total) => {
+							button.setButtonText(`ベクトル化中... ${current}/${total}`);
+						});
+						new Notice(`ノートをベクトル化しました（${vectorStore.getStatus().documents}件）`);
+					} catch (error) {
+						const errorMessage = error instanceof Error ? error.message : "不明なエラーが発生しました";
+						new Notice(`ベクトル化に失敗しました: ${errorMessage}`);
+					} finally {
+						this.display();
+					}
+				});
+			});
+
+		new Setting(containerEl)
+			.setName("ローカルのEmbeddingプロバイダー")
+			.setDesc("ローカルのベクトル化に使用するプロバイダーです。LiteLLM・OllamaはAIサービス設定のエンドポイントURLとAPIキーを使用します。変更した場合は次回のベクトル化でインデックスを作り直します。")
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("openrouter", "OpenRouter")
+					.addOption("litellm", "LiteLLM")
+					.addOption("ollama", "Ollama")
+					.setValue(this.plugin.settings.localEmbeddingProvider || "openrouter")
+					.onChange(async (value) => {
+						this.plugin.settings.localEmbeddingProvider = value as LocalEmbeddingProvider;
+						await this.plugin.saveSettings();
+						this.display();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("ローカルのEmbeddingモデル")
+			.setDesc("未設定の場合はプロバイダーのデフォルトモデルを使用します。")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_EMBEDDING_MODELS[this.plugin.settings.localEmbeddingProvider || "openrouter"])
+					.setValue(this.plugin.settings.localEmbeddingModel || "")
+					.onChange(async (value) => {
+						this.plugin.settings.localEmbeddingModel = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// 統計情報表示
+		const statsSetting = new Setting(containerEl)
+			.setName("統計情報")
+			.setDesc("インデックスとベクトルストアの統計情報を表示します。")
+			.addButton((button) => {
+				button.setButtonText("統計情報を取得").onClick(async () => {
+					button.setDisabled(true);
+					button.setButtonText("取得中...");
+					
+					try {
+						const mcpService = createMCPService(this.app, this.plugin.settings);
 						
 						// サーバー接続確認
-						const isAvailable = await mcpService.isServerAvailable();
-						if (!isAvailable) {
-							throw new Error("MCPサーバーに接続できません。");
-						}
+						await mcpService.ensureAvailable();
 
 						// 統計情報を取得
 						const [searchStats, vectorizeStats] = await Promise.all([
@@ -918,7 +1502,7 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 		// チャンクサイズ
 		new Setting(containerEl)
 			.setName("チャンクサイズ")
-			.setDesc("ベクトル化時のチャンクサイズ（トークン数）を設定します。デフォルト: 512")
+			.setDesc("ベクトル化時のチャンクサイズ（トークン数）を設定します。ノートは見出し単位で分割され、ローカルのベクトル検索にも使用されます。デフォルト: 512")
 			.addText((text) => {
 				text.inputEl.type = "number";
 				text
@@ -936,7 +1520,7 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 		// チャンクオーバーラップ
 		new Setting(containerEl)
 			.setName("チャンクオーバーラップ")
-			.setDesc("ベクトル化時のオーバーラップサイズ（トークン数）を設定します。デフォルト: 50")
+			.setDesc("ベクトル化時のオーバーラップサイズ（トークン数）を設定します。ローカルのベクトル検索にも使用されます。デフォルト: 50")
 			.addText((text) => {
 				text.inputEl.type = "number";
 				text
@@ -1147,90 +1731,770 @@ export class KnowledgeConnectSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					});
 			});
+
+		// 関連ノート設定
+		containerEl.createEl("h4", { text: "関連ノート" });
+
+		new Setting(containerEl)
+			.setName("関連ノートの検索方法")
+			.setDesc("関連ノートViewで、アクティブなノートの内容で検索するインデックスを選択します。")
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption("mcp", "MCPサーバー（接続できない場合はローカルインデックス）")
+					.addOption("local", "ローカルインデックスのみ")
+					.setValue(this.plugin.settings.relatedNotesSource || "mcp")
+					.onChange(async (value) => {
+						this.plugin.settings.relatedNotesSource = value as RelatedNotesSource;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("関連ノートの表示件数")
+			.setDesc("関連ノートViewに表示するノートの数を設定します。デフォルト: 10（1-50）")
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setPlaceholder("10")
+					.setValue((this.plugin.settings.relatedNotesLimit || 10).toString())
+					.onChange(async (value) => {
+						const numValue = parseInt(value);
+						if (!isNaN(numValue) && numValue >= 1 && numValue <= 50) {
+							this.plugin.settings.relatedNotesLimit = numValue;
+							await this.plugin.saveSettings();
+						} else {
+							new Notice("値は1から50の範囲で入力してください。");
+						}
+					});
+			});
+
+		// ==================== 外部MCPサーバー（ツール連携） ====================
+		containerEl.createEl("h3", { text: "外部MCPサーバー（ツール連携）" });
+		containerEl.createEl("p", {
+			text: "Model Context Protocolに対応したサーバーを登録すると、そのツールとリソースをチャットでAIが使用できます。上記の検索用MCPサーバーとは別に設定します。stdioはデスクトップ版でのみ使用できます。",
+			cls: "setting-item-description",
+		});
+
+		this.displayMCPClientServers(containerEl);
+
+		new Setting(containerEl).addButton((button) => {
+			button
+				.setButtonText("MCPサーバーを追加")
+				.onClick(async () => {
+					const servers = this.plugin.settings.mcpClientServers || [];
+					const server: MCPClientServerConfig = {
+						id: `server-${Date.now()}`,
+						name: `server${servers.length + 1}`,
+						enabled: true,
+						transport: "http",
+						url: "",
+						requireConfirmation: true,
+					};
+					this.plugin.settings.mcpClientServers = [...servers, server];
+					await this.plugin.saveSettings();
+					this.display();
+				});
+		});
+
+		// ==================== Vault MCPサーバー ====================
+		containerEl.createEl("h3", { text: "Vault MCPサーバー（外部エージェントに公開）" });
+		containerEl.createEl("p", {
+			text: "このVaultをMCPサーバーとして公開し、IDEのアシスタントやCLIツールから検索・ノートの読み込み・タグの参照ができるようにします。127.0.0.1でのみ待ち受け、デスクトップ版でのみ使用できます。",
+			cls: "setting-item-description",
+		});
+
+		const vaultMCPServer = this.plugin.getVaultMCPServer();
+		new Setting(containerEl)
+			.setName("Vault MCPサーバーを有効化")
+			.setDesc(`接続先URL: http://127.0.0.1:${this.plugin.settings.vaultMCPServerPort || 27125}/mcp（Streamable HTTP）`)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableVaultMCPServer || false)
+					.onChange(async (value) => {
+						this.plugin.settings.enableVaultMCPServer = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("ポート")
+			.setDesc("待ち受けるポート番号です（1024〜65535）。")
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setPlaceholder("27125")
+					.setValue((this.plugin.settings.vaultMCPServerPort || 27125).toString())
+					.onChange(async (value) => {
+						const numValue = parseInt(value);
+						if (!isNaN(numValue) && numValue >= 1024 && numValue <= 65535) {
+							this.plugin.settings.vaultMCPServerPort = numValue;
+							await this.plugin.saveSettings();
+						}
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("公開するフォルダ")
+			.setDesc("外部からアクセスできるフォルダを1行に1つずつ入力します。空の場合はVault全体を公開します（設定フォルダなどの除外対象は常に非公開）。")
+			.addTextArea((text) => {
+				text.inputEl.rows = 3;
+				text
+					.setPlaceholder("Notes\nProjects/公開")
+					.setValue((this.plugin.settings.vaultMCPServerAllowedFolders || []).join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.vaultMCPServerAllowedFolders = value
+							.split("\n")
+							.map((folder) => folder.trim())
+							.filter((folder) => folder !== "");
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("読み込み専用")
+			.setDesc("有効にすると、ノートの作成・追記ツールを公開しません。")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.vaultMCPServerReadOnly !== false)
+					.onChange(async (value) => {
+						this.plugin.settings.vaultMCPServerReadOnly = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// リクエストログ
+		containerEl.createEl("h4", { text: "リクエストログ" });
+		const logContainer = containerEl.createDiv({ cls: "vault-mcp-log" });
+		const renderLog = () => {
+			logContainer.empty();
+			const entries = vaultMCPServer ? vaultMCPServer.getLog().slice(0, 20) : [];
+			if (entries.length === 0) {
+				logContainer.createEl("p", {
+					text: vaultMCPServer && vaultMCPServer.isRunning() ? "リクエストはまだありません。" : "サーバーは停止しています。",
+					cls: "setting-item-description",
+				});
+				return;
+			}
+			for (const entry of entries) {
+				const row = logContainer.createDiv({ cls: `vault-mcp-log-entry vault-mcp-log-${entry.status}` });
+				row.createSpan({ text: new Date(entry.time).toLocaleTimeString("ja-JP"), cls: "vault-mcp-log-time" });
+				row.createSpan({ text: entry.tool ? `${entry.method} ${entry.tool}` : entry.method, cls: "vault-mcp-log-method" });
+				row.createSpan({ text: [entry.target, entry.message].filter((value) => value).join(" / ") });
+				row.createSpan({ text: `${entry.durationMs}ms`, cls: "vault-mcp-log-duration" });
+			}
+		};
+		renderLog();
+
+		new Setting(containerEl)
+			.addButton((button) => {
+				button.setButtonText("更新").onClick(() => renderLog());
+			})
+			.addButton((button) => {
+				button.setButtonText("ログを削除").onClick(() => {
+					if (vaultMCPServer) {
+						vaultMCPServer.clearLog();
+					}
+					renderLog();
+				});
+			});
 	}
 
 	/**
-	 * インデックス作成ジョブの進捗を監視
+	 * ジョブの進捗を監視し、終了したらボタンを元に戻す
+	 * 終了時の通知はJobMonitorServiceが行い、設定画面を閉じても監視を続ける
 	 */
-	private async monitorIndexJob(jobId: number, button: ReturnType<Setting["addButton"]>): Promise<void> {
-		const maxAttempts = 3600; // 最大1時間（2秒間隔）
-		let attempts = 0;
-
-		while (attempts < maxAttempts) {
-			try {
-				const baseUrl = this.plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-				const mcpService = new MCPService(baseUrl);
-				const job = await mcpService.getJobStatus(jobId);
-				
-				if (job.status === 'completed') {
-					new Notice(`インデックス作成が完了しました（${job.progress.total}ファイル）`);
-					button.setDisabled(false);
-					button.setButtonText("インデックス作成");
-					return;
-				} else if (job.status === 'failed') {
-					throw new Error(job.error_message || 'インデックス作成が失敗しました');
-				} else if (job.status === 'cancelled') {
-					throw new Error('インデックス作成がキャンセルされました');
+	private async monitorJob(jobId: number, button: ReturnType<Setting["addButton"]>, buttonText: string): Promise<void> {
+		const jobMonitor = this.plugin.getJobMonitor();
+		try {
+			if (jobMonitor) {
+				await jobMonitor.waitForJob(jobId, true);
+			}
+		} catch (error) {
+			console.error("[Settings] ジョブ進捗確認エラー:", error);
+			const errorMessage = error instanceof Error ? error.message : "不明なエラーが発生しました";
+			new Notice(`${buttonText}エラー: ${errorMessage}`);
+		} finally {
+			button.setDisabled(false);
+			button.setButtonText(buttonText);
+		}
+	}
+
+	/**
+	 * 機能別のモデル割り当てを表示
+	 */
+	private displayFeatureRoutes(containerEl: HTMLElement): void {
+		ROUTABLE_FEATURES.forEach((feature) => {
+			const route = this.plugin.settings.aiFeatureRoutes?.[feature] || {};
+
+			// オブジェクトを置き換えて保存する（デフォルト設定のオブジェクトを書き換えないため）
+			const updateRoute = async (update: Partial<AIFeatureRoute>) => {
+				const routes = this.plugin.settings.aiFeatureRoutes || {};
+				this.plugin.settings.aiFeatureRoutes = {
+					...routes,
+					[feature]: { ...routes[feature], ...update },
+				};
+				await this.plugin.saveSettings();
+			};
+
+			const parseOptionalNumber = (value: string, parse: (value: string) => number): number | undefined | null => {
+				if (value.trim() === "") {
+					return undefined;
 				}
+				const numValue = parse(value);
+				return isNaN(numValue) || numValue < 0 ? null : numValue;
+			};
 
-				// 2秒待機
-				await new Promise((resolve) => setTimeout(resolve, 2000));
-				attempts++;
-			} catch (error) {
-				console.error("[Settings] ジョブ進捗確認エラー:", error);
-				const errorMessage = error instanceof Error ? error.message : "不明なエラーが発生しました";
-				new Notice(`インデックス作成エラー: ${errorMessage}`);
-				button.setDisabled(false);
-				button.setButtonText("インデックス作成");
-				return;
-			}
+			new Setting(containerEl)
+				.setName(AI_FEATURE_LABELS[feature])
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("", "メインのAIサービス")
+						.addOption("openrouter", this.getServiceLabel("openrouter"))
+						.addOption("litellm", this.getServiceLabel("litellm"))
+						.addOption("openai-compatible", this.getServiceLabel("openai-compatible"))
+						.addOption("ollama", this.getServiceLabel("ollama"))
+						.addOption("mock", this.getServiceLabel("mock"))
+						.setValue(route.service || "")
+						.onChange(async (value) => {
+							await updateRoute({ service: value ? (value as AIService) : undefined });
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("モデル")
+						.setValue(route.model || "")
+						.onChange(async (value) => {
+							await updateRoute({ model: value.trim() || undefined });
+						})
+				)
+				.addText((text) => {
+					text.inputEl.type = "number";
+					text.inputEl.title = "温度（0〜2）";
+					text.inputEl.style.width = "80px";
+					text
+						.setPlaceholder("温度")
+						.setValue(route.temperature !== undefined ? route.temperature.toString() : "")
+						.onChange(async (value) => {
+							const numValue = parseOptionalNumber(value, parseFloat);
+							if (numValue === null || (numValue !== undefined && numValue > 2)) {
+								new Notice("温度は0から2の範囲で入力してください。");
+								return;
+							}
+							await updateRoute({ temperature: numValue });
+						});
+				})
+				.addText((text) => {
+					text.inputEl.type = "number";
+					text.inputEl.title = "最大トークン数";
+					text.inputEl.style.width = "100px";
+					text
+						.setPlaceholder("最大トークン")
+						.setValue(route.maxTokens !== undefined ? route.maxTokens.toString() : "")
+						.onChange(async (value) => {
+							const numValue = parseOptionalNumber(value, (v) => parseInt(v));
+							if (numValue === null || numValue === 0) {
+								new Notice("最大トークン数は1以上の整数で入力してください。");
+								return;
+							}
+							await updateRoute({ maxTokens: numValue });
+						});
+				});
+		});
+	}
+
+	/**
+	 * モデルごとの料金表を表示
+	 */
+	private displayModelPrices(containerEl: HTMLElement): void {
+		const prices = this.plugin.settings.aiModelPrices || [];
+
+		prices.forEach((price, index) => {
+			// 配列を置き換えて保存する（デフォルト設定の配列を書き換えないため）
+			const updatePrice = async (update: Partial<AIModelPrice>) => {
+				const current = this.plugin.settings.aiModelPrices || [];
+				this.plugin.settings.aiModelPrices = current.map((item, i) =>
+					i === index ? { ...item, ...update } : item
+				);
+				await this.plugin.saveSettings();
+			};
+
+			const parsePrice = (value: string): number | null => {
+				const numValue = parseFloat(value || "0");
+				return isNaN(numValue) || numValue < 0 ? null : numValue;
+			};
+
+			new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder("モデル名（例: openai/gpt-5-mini）")
+						.setValue(price.model)
+						.onChange(async (value) => {
+							await updatePrice({ model: value.trim() });
+						})
+				)
+				.addText((text) => {
+					text.inputEl.type = "number";
+					text.inputEl.title = "入力（USD / 100万トークン）";
+					text
+						.setPlaceholder("入力")
+						.setValue(price.inputPrice.toString())
+						.onChange(async (value) => {
+							const numValue = parsePrice(value);
+							if (numValue !== null) {
+								await updatePrice({ inputPrice: numValue });
+							}
+						});
+				})
+				.addText((text) => {
+					text.inputEl.type = "number";
+					text.inputEl.title = "出力（USD / 100万トークン）";
+					text
+						.setPlaceholder("出力")
+						.setValue(price.outputPrice.toString())
+						.onChange(async (value) => {
+							const numValue = parsePrice(value);
+							if (numValue !== null) {
+								await updatePrice({ outputPrice: numValue });
+							}
+						});
+				})
+				.addButton((button) => {
+					button
+						.setIcon("trash")
+						.setTooltip("削除")
+						.setWarning()
+						.onClick(async () => {
+							const current = this.plugin.settings.aiModelPrices || [];
+							this.plugin.settings.aiModelPrices = current.filter((_, i) => i !== index);
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+		});
+	}
+
+	/**
+	 * フォールバックチェーンのリストを表示
+	 */
+	private displayFallbackChain(containerEl: HTMLElement): void {
+		const chain = this.plugin.settings.aiFallbackChain || [];
+
+		if (chain.length === 0) {
+			containerEl.createEl("p", {
+				text: "フォールバック先が設定されていません。",
+				cls: "setting-item-description",
+			});
+			return;
 		}
 
-		new Notice("インデックス作成のタイムアウト");
-		button.setDisabled(false);
-		button.setButtonText("インデックス作成");
+		chain.forEach((entry, index) => {
+			// 配列を置き換えて保存する（デフォルト設定の配列を書き換えないため）
+			const updateEntry = async (update: Partial<typeof entry>) => {
+				const current = this.plugin.settings.aiFallbackChain || [];
+				this.plugin.settings.aiFallbackChain = current.map((item, i) =>
+					i === index ? { ...item, ...update } : item
+				);
+				await this.plugin.saveSettings();
+			};
+
+			new Setting(containerEl)
+				.setName(`フォールバック ${index + 1}`)
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("openrouter", this.getServiceLabel("openrouter"))
+						.addOption("litellm", this.getServiceLabel("litellm"))
+						.addOption("openai-compatible", this.getServiceLabel("openai-compatible"))
+						.addOption("ollama", this.getServiceLabel("ollama"))
+						.addOption("mock", this.getServiceLabel("mock"))
+						.setValue(entry.service)
+						.onChange(async (value) => {
+							await updateEntry({ service: value as AIService });
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("モデル（任意）")
+						.setValue(entry.model || "")
+						.onChange(async (value) => {
+							await updateEntry({ model: value.trim() });
+						})
+				)
+				.addButton((button) => {
+					button
+						.setIcon("trash")
+						.setTooltip("削除")
+						.setWarning()
+						.onClick(async () => {
+							const current = this.plugin.settings.aiFallbackChain || [];
+							this.plugin.settings.aiFallbackChain = current.filter((_, i) => i !== index);
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+		});
 	}
 
 	/**
-	 * ベクトル化ジョブの進捗を監視
+	 * 検索用MCPサーバーの認証設定を表示
+	 * トークン・APIキー・パスワードは設定には保存せず、この端末にのみ保存する
 	 */
-	private async monitorVectorizeJob(jobId: number, button: ReturnType<Setting["addButton"]>): Promise<void> {
-		const maxAttempts = 3600; // 最大1時間（2秒間隔）
-		let attempts = 0;
-
-		while (attempts < maxAttempts) {
-			try {
-				const baseUrl = this.plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-				const mcpService = new MCPService(baseUrl);
-				const job = await mcpService.getJobStatus(jobId);
-				
-				if (job.status === 'completed') {
-					new Notice(`ベクトル化が完了しました（${job.progress.total}ファイル）`);
-					button.setDisabled(false);
-					button.setButtonText("ベクトル化");
-					return;
-				} else if (job.status === 'failed') {
-					throw new Error(job.error_message || 'ベクトル化が失敗しました');
-				} else if (job.status === 'cancelled') {
-					throw new Error('ベクトル化がキャンセルされました');
-				}
+	private displayMCPAuthSettings(
+		containerEl: HTMLElement,
+		auth: MCPAuthConfig | undefined,
+		credentialId: string,
+		onChange: (update: Partial<MCPAuthConfig>) => Promise<void>
+	): void {
+		const type = auth?.type || "none";
 
-				// 2秒待機
-				await new Promise((resolve) => setTimeout(resolve, 2000));
-				attempts++;
-			} catch (error) {
-				console.error("[Settings] ジョブ進捗確認エラー:", error);
-				const errorMessage = error instanceof Error ? error.message : "不明なエラーが発生しました";
-				new Notice(`ベクトル化エラー: ${errorMessage}`);
-				button.setDisabled(false);
-				button.setButtonText("ベクトル化");
-				return;
-			}
+		new Setting(containerEl)
+			.setName("認証方式")
+			.setDesc("トークン・APIキー・パスワードはdata.jsonには保存せず、この端末にのみ保存します（同期されないため、端末ごとに入力してください）。")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("none", "なし")
+					.addOption("bearer", "Bearerトークン")
+					.addOption("apiKey", "APIキー（ヘッダー）")
+					.addOption("basic", "Basic認証")
+					.setValue(type)
+					.onChange(async (value) => {
+						await onChange({ type: value as MCPAuthType });
+						this.display();
+					})
+			);
+
+		if (type === "none") {
+			return;
 		}
 
-		new Notice("ベクトル化のタイムアウト");
-		button.setDisabled(false);
-		button.setButtonText("ベクトル化");
+		if (type === "apiKey") {
+			new Setting(containerEl)
+				.setName("ヘッダー名")
+				.setDesc("APIキーを送るリクエストヘッダーの名前です。")
+				.addText((text) =>
+					text
+						.setPlaceholder(DEFAULT_API_KEY_HEADER)
+						.setValue(auth?.apiKeyHeader || "")
+						.onChange(async (value) => {
+							await onChange({ apiKeyHeader: value.trim() || undefined });
+						})
+				);
+		}
+
+		if (type === "basic") {
+			new Setting(containerEl)
+				.setName("ユーザー名")
+				.addText((text) =>
+					text
+						.setValue(auth?.username || "")
+						.onChange(async (value) => {
+							await onChange({ username: value.trim() });
+						})
+				);
+		}
+
+		const secretLabels: Record<Exclude<MCPAuthType, "none">, string> = {
+			bearer: "トークン",
+			apiKey: "APIキー",
+			basic: "パスワード",
+		};
+		new Setting(containerEl)
+			.setName(secretLabels[type])
+			.addText((text) => {
+				text.inputEl.type = "password";
+				text
+					.setValue(getMCPCredential(this.app, credentialId))
+					.onChange(async (value) => {
+						setMCPCredential(this.app, credentialId, value.trim());
+						// 接続中のサービスに新しい認証情報を反映する
+						await this.plugin.saveSettings();
+					});
+			});
+	}
+
+	/**
+	 * 検索バックエンドのリストを表示
+	 */
+	private displayMCPBackends(containerEl: HTMLElement): void {
+		const backends = this.plugin.settings.mcpBackends || [];
+
+		if (backends.length === 0) {
+			containerEl.createEl("p", {
+				text: "検索バックエンドが登録されていません。MCPサーバーURLのサーバーのみで検索します。",
+				cls: "setting-item-description",
+			});
+			return;
+		}
+
+		backends.forEach((backend, index) => {
+			// 配列を置き換えて保存する（デフォルト設定の配列を書き換えないため）
+			const updateBackend = async (update: Partial<MCPBackendConfig>) => {
+				const current = this.plugin.settings.mcpBackends || [];
+				this.plugin.settings.mcpBackends = current.map((item, i) =>
+					i === index ? { ...item, ...update } : item
+				);
+				await this.plugin.saveSettings();
+			};
+
+			new Setting(containerEl)
+				.setName(backend.name || `検索バックエンド ${index + 1}`)
+				.setDesc("名前とベースURL")
+				.addText((text) =>
+					text
+						.setPlaceholder("チームWiki")
+						.setValue(backend.name)
+						.onChange(async (value) => {
+							await updateBackend({ name: value.trim() });
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("http://127.0.0.1:8000")
+						.setValue(backend.url)
+						.onChange(async (value) => {
+							await updateBackend({ url: value.trim() });
+						})
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setTooltip("有効")
+						.setValue(backend.enabled)
+						.onChange(async (value) => {
+							await updateBackend({ enabled: value });
+						})
+				)
+				.addButton((button) => {
+					button
+						.setIcon("trash")
+						.setTooltip("削除")
+						.setWarning()
+						.onClick(async () => {
+							const current = this.plugin.settings.mcpBackends || [];
+							this.plugin.settings.mcpBackends = current.filter((_, i) => i !== index);
+							setMCPCredential(this.app, backend.id, "");
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+
+			this.displayMCPAuthSettings(containerEl, backend.auth, backend.id, async (update) => {
+				const current = this.plugin.settings.mcpBackends || [];
+				this.plugin.settings.mcpBackends = current.map((item, i) =>
+					i === index ? { ...item, auth: { ...(item.auth || { type: "none" }), ...update } } : item
+				);
+				await this.plugin.saveSettings();
+			});
+
+			new Setting(containerEl)
+				.setName("CA証明書")
+				.setDesc("HTTPSのサーバーの証明書の検証に使用するCA証明書（PEM形式）のファイルパスです。デスクトップ版のみ。")
+				.addText((text) =>
+					text
+						.setPlaceholder("/path/to/ca.pem")
+						.setValue(backend.caCertPath || "")
+						.onChange(async (value) => {
+							await updateBackend({ caCertPath: value.trim() || undefined });
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("対象フォルダ")
+				.setDesc("このサーバーで検索するVault内のフォルダを1行に1つずつ入力します。空欄の場合はVault全体です。")
+				.addTextArea((text) => {
+					text.inputEl.rows = 2;
+					text
+						.setPlaceholder("TeamWiki")
+						.setValue((backend.folders || []).join("\n"))
+						.onChange(async (value) => {
+							await updateBackend({
+								folders: value.split("\n").map((folder) => folder.trim()).filter((folder) => folder !== ""),
+							});
+						});
+				});
+
+			new Setting(containerEl)
+				.setName("サーバー上のVaultのパス")
+				.setDesc("共有サーバーなど、このVaultを別の場所に置いてインデックスしたサーバーの場合に、サーバー上のVaultのパスを入力します。検索結果のパスをこのVaultのノートとして扱い、対象フォルダの判定にも使用します。空欄の場合はこの端末のVaultのパスです。")
+				.addText((text) =>
+					text
+						.setPlaceholder("/srv/shared/vault")
+						.setValue(backend.serverRoot || "")
+						.onChange(async (value) => {
+							await updateBackend({ serverRoot: value.trim() || undefined });
+						})
+				);
+		});
+	}
+
+	/**
+	 * 外部MCPサーバーのリストを表示
+	 */
+	private displayMCPClientServers(containerEl: HTMLElement): void {
+		const servers = this.plugin.settings.mcpClientServers || [];
+
+		if (servers.length === 0) {
+			containerEl.createEl("p", {
+				text: "外部MCPサーバーが登録されていません。",
+				cls: "setting-item-description",
+			});
+			return;
+		}
+
+		servers.forEach((server, index) => {
+			// 配列を置き換えて保存する（デフォルト設定の配列を書き換えないため）
+			const updateServer = async (update: Partial<MCPClientServerConfig>) => {
+				const current = this.plugin.settings.mcpClientServers || [];
+				this.plugin.settings.mcpClientServers = current.map((item, i) =>
+					i === index ? { ...item, ...update } : item
+				);
+				await this.plugin.saveSettings();
+			};
+
+			containerEl.createEl("h4", { text: server.name || `MCPサーバー ${index + 1}` });
+
+			new Setting(containerEl)
+				.setName("名前")
+				.setDesc("ツール名の接頭辞（mcp_名前_ツール名）として使用します。")
+				.addText((text) =>
+					text
+						.setPlaceholder("filesystem")
+						.setValue(server.name)
+						.onChange(async (value) => {
+							await updateServer({ name: value.trim() });
+						})
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setTooltip("有効")
+						.setValue(server.enabled)
+						.onChange(async (value) => {
+							await updateServer({ enabled: value });
+						})
+				);
+
+			new Setting(containerEl)
+				.setName("接続方式")
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("http", "Streamable HTTP")
+						.addOption("stdio", "stdio（ローカルのコマンドを起動）")
+						.setValue(server.transport)
+						.onChange(async (value) => {
+							await updateServer({ transport: value as MCPClientTransport });
+							this.display();
+						})
+				);
+
+			if (server.transport === "stdio") {
+				new Setting(containerEl)
+					.setName("コマンド")
+					.setDesc("MCPサーバーを起動するコマンドです。")
+					.addText((text) =>
+						text
+							.setPlaceholder("npx")
+							.setValue(server.command || "")
+							.onChange(async (value) => {
+								await updateServer({ command: value.trim() });
+							})
+					);
+
+				new Setting(containerEl)
+					.setName("引数")
+					.setDesc("コマンドの引数を1行に1つずつ入力します。")
+					.addTextArea((text) => {
+						text.inputEl.rows = 3;
+						text
+							.setPlaceholder("-y\n@modelcontextprotocol/server-filesystem\n/path/to/dir")
+							.setValue((server.args || []).join("\n"))
+							.onChange(async (value) => {
+								await updateServer({ args: value.split("\n").map((arg) => arg.trim()).filter((arg) => arg !== "") });
+							});
+					});
+
+				new Setting(containerEl)
+					.setName("環境変数")
+					.setDesc("追加の環境変数を「KEY=value」の形式で1行に1つずつ入力します。")
+					.addTextArea((text) => {
+						text.inputEl.rows = 2;
+						text
+							.setPlaceholder("API_KEY=...")
+							.setValue(formatKeyValueLines(server.env, "="))
+							.onChange(async (value) => {
+								await updateServer({ env: parseKeyValueLines(value, "=") });
+							});
+					});
+			} else {
+				new Setting(containerEl)
+					.setName("URL")
+					.setDesc("MCPサーバーのエンドポイントURLです。")
+					.addText((text) =>
+						text
+							.setPlaceholder("http://localhost:3000/mcp")
+							.setValue(server.url || "")
+							.onChange(async (value) => {
+								await updateServer({ url: value.trim() });
+							})
+					);
+
+				new Setting(containerEl)
+					.setName("ヘッダー")
+					.setDesc("追加のリクエストヘッダーを「Name: value」の形式で1行に1つずつ入力します。")
+					.addTextArea((text) => {
+						text.inputEl.rows = 2;
+						text
+							.setPlaceholder("Authorization: Bearer ...")
+							.setValue(formatKeyValueLines(server.headers, ": "))
+							.onChange(async (value) => {
+								await updateServer({ headers: parseKeyValueLines(value, ":") });
+							});
+					});
+			}
+
+			new Setting(containerEl)
+				.setName("実行前に確認")
+				.setDesc("AIがこのサーバーのツールを実行する前に確認ダイアログを表示します。")
+				.addToggle((toggle) =>
+					toggle
+						.setValue(server.requireConfirmation !== false)
+						.onChange(async (value) => {
+							await updateServer({ requireConfirmation: value });
+						})
+				);
+
+			new Setting(containerEl)
+				.addButton((button) => {
+					button.setButtonText("接続テスト").onClick(async () => {
+						const manager = this.plugin.getMCPClientManager();
+						if (!manager) {
+							return;
+						}
+						const current = (this.plugin.settings.mcpClientServers || [])[index];
+						button.setDisabled(true);
+						button.setButtonText("接続中...");
+						try {
+							const result = await manager.testConnection(current);
+							const name = result.serverInfo.serverInfo?.name || current.name;
+							new Notice(`${name} に接続しました（ツール: ${result.tools.length}件）`);
+						} catch (error) {
+							new Notice(`接続に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+						} finally {
+							button.setDisabled(false);
+							button.setButtonText("接続テスト");
+						}
+					});
+				})
+				.addButton((button) => {
+					button
+						.setIcon("trash")
+						.setTooltip("削除")
+						.setWarning()
+						.onClick(async () => {
+							const current = this.plugin.settings.mcpClientServers || [];
+							this.plugin.settings.mcpClientServers = current.filter((_, i) => i !== index);
+							await this.plugin.saveSettings();
+							this.display();
+						});
+				});
+		});
 	}
 
 	/**
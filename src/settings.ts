@@ -2,7 +2,7 @@
  * Knowledge Connect Plugin - Settings
  */
 
-import { KnowledgeConnectSettings, PromptTemplate } from "./types";
+import { AIFeature, KnowledgeConnectSettings, PromptTemplate } from "./types";
 
 /**
  * デフォルト設定値
@@ -12,6 +12,8 @@ export const DEFAULT_SETTINGS: KnowledgeConnectSettings = {
 	apiKey: "", // 後方互換性のため残す
 	openrouterApiKey: "",
 	litellmApiKey: "",
+	openaiCompatibleApiKey: "",
+	ollamaApiKey: "",
 	aiService: "openrouter",
 	defaultSaveFolder: "",
 
@@ -27,11 +29,53 @@ export const DEFAULT_SETTINGS: KnowledgeConnectSettings = {
 	theme: "auto",
 	enableContextMenu: true,
 	enableAutoSave: false,
+	enableChatTools: false,
 	timeoutSeconds: 60,
 	maxTokens: 2000,
 	aiModel: "google/gemini-2.5-flash", // デフォルトモデル
 	litellmEndpointUrl: "http://localhost:4000", // LiteLLMデフォルトエンドポイント
+	openaiCompatibleEndpointUrl: "http://localhost:8000/v1", // vLLMなどOpenAI互換サーバーのデフォルトエンドポイント
+	ollamaEndpointUrl: "http://localhost:11434", // Ollamaデフォルトエンドポイント
+	mockAIResponses: [], // 未設定の場合はユーザーメッセージをそのまま返す
+	aiFallbackChain: [], // フォールバックなし
+	aiFallbackMaxRetries: 2,
+	aiFeatureRoutes: {}, // 全機能でメインのAIサービスとデフォルトAIモデルを使用
+
+	// 使用量・コストのデフォルト設定
+	// 料金は参考値のため、実際の契約に合わせて設定画面で調整してください（USD / 100万トークン）
+	aiModelPrices: [
+		{ model: "google/gemini-2.5-flash", inputPrice: 0.3, outputPrice: 2.5 },
+		{ model: "openai/gpt-5-mini", inputPrice: 0.25, outputPrice: 2 },
+		{ model: "openai/gpt-5.1", inputPrice: 1.25, outputPrice: 10 },
+		{ model: "anthropic/claude-sonnet-4.5", inputPrice: 3, outputPrice: 15 },
+	],
+	usageMonthlyBudget: 0, // 無制限
+	usageBudgetAction: "warn",
+
+	// 応答キャッシュのデフォルト設定
+	enableResponseCache: false,
+	responseCacheTTLHours: 168, // 7日間
+	responseCacheMaxSizeMB: 10,
 	mcpServerUrl: "http://127.0.0.1:8000", // MCPサーバーのデフォルトURL
+	mcpAuth: { type: "none" }, // 認証なし
+	mcpCaCertPath: "", // システムの証明書で検証
+	mcpBackends: [], // mcpServerUrlのサーバーのみで検索
+	enableIndexSync: false,
+	indexSyncDebounceSeconds: 5,
+	indexSyncVectorize: false, // Embeddingの呼び出しが発生するためデフォルトは無効
+	enableLocalSearch: true,
+	enableLocalVectorSearch: false, // Embeddingの呼び出しが発生するためデフォルトは無効
+	localEmbeddingProvider: "openrouter",
+	localEmbeddingModel: "", // プロバイダーのデフォルト
+	relatedNotesSource: "mcp",
+	relatedNotesLimit: 10,
+	mcpClientServers: [], // 外部MCPサーバーなし
+
+	// Vault MCPサーバーのデフォルト設定
+	enableVaultMCPServer: false,
+	vaultMCPServerPort: 27125,
+	vaultMCPServerAllowedFolders: [], // Vault全体
+	vaultMCPServerReadOnly: true,
 	
 	// ページ要約機能のデフォルト設定
 	promptTemplates: [
@@ -53,6 +97,7 @@ export const DEFAULT_SETTINGS: KnowledgeConnectSettings = {
 	] as PromptTemplate[],
 	defaultSummaryModel: "", // 空の場合はaiModelを使用
 	summarySaveFolder: "", // 空の場合は元のページと同じフォルダ
+	summaryIncludeImages: false,
 
 	// MCP APIパラメータ設定（デフォルト値）
 	mcpVectorizeProvider: undefined, // ベクトル化のプロバイダー（未設定の場合はaiServiceから推論）
@@ -119,6 +164,13 @@ export function validateSettings(settings: Partial<KnowledgeConnectSettings>): {
 		}
 	}
 
+	// Vault MCPサーバーのポートのバリデーション
+	if (settings.vaultMCPServerPort !== undefined) {
+		if (settings.vaultMCPServerPort < 1024 || settings.vaultMCPServerPort > 65535) {
+			errors.push("Vault MCPサーバーのポートは1024から65535の範囲で設定してください。");
+		}
+	}
+
 	// 自動保存の依存関係チェック
 	if (settings.enableAutoSave && (!settings.defaultSaveFolder || settings.defaultSaveFolder.trim() === "")) {
 		errors.push("自動保存を有効にするには、デフォルトの保存先フォルダを設定してください。");
@@ -130,3 +182,18 @@ export function validateSettings(settings: Partial<KnowledgeConnectSettings>): {
 	};
 }
 
+/**
+ * 機能の表示名
+ */
+export const AI_FEATURE_LABELS: Record<AIFeature | "other", string> = {
+	chat: "AIチャット",
+	"auto-tag": "自動タグ生成",
+	summarize: "要約",
+	"url-summary": "URL要約",
+	title: "タイトル生成",
+	"context-menu": "コンテキストメニュー",
+	"similar-words": "類似単語抽出",
+	rag: "RAG回答（オフライン）",
+	embedding: "ベクトル化（ローカルインデックス）",
+	other: "その他",
+};
@@ -5,7 +5,136 @@
 /**
  * AIサービスプロバイダーの種類
  */
-export type AIService = "openrouter" | "litellm";
+export type AIService = "openrouter" | "litellm" | "openai-compatible" | "ollama" | "mock";
+
+/**
+ * ローカルのベクトル化（Embedding）に使用するプロバイダーの種類
+ */
+export type LocalEmbeddingProvider = "openrouter" | "litellm" | "ollama";
+
+/**
+ * 関連ノートの検索に使用するインデックス
+ * mcp: MCPサーバーのハイブリッド検索（接続できない場合はローカルインデックス）、local: ローカルインデックスのみ
+ */
+export type RelatedNotesSource = "mcp" | "local";
+
+/**
+ * モックAIサービスが返す応答（スクリプトまたは記録した応答）
+ */
+export interface MockAIResponse {
+	match?: string; // 最後のユーザーメッセージに一致する正規表現（未指定の場合は順番に再生）
+	content?: string; // 応答テキスト
+	chunks?: string[]; // ストリーミング時に分割して送る差分（未指定の場合はcontentを分割）
+	model?: string; // 応答のモデル名
+	toolCalls?: Array<{ id: string; name: string; arguments: string }>; // ツール呼び出しの要求
+	usage?: {
+		promptTokens: number;
+		completionTokens: number;
+		totalTokens: number;
+	};
+	error?: {
+		status?: number; // HTTPステータス（429・5xxはリトライ対象として扱われる。未指定の場合は接続エラー）
+		message: string;
+		retryAfter?: number; // 再試行できるまでの秒数（429の場合のRetry-After）
+	};
+	delayMs?: number; // 応答（ストリーミングでは差分ごと）までの待ち時間
+}
+
+/**
+ * フォールバックチェーンの1要素
+ */
+export interface AIFallbackEntry {
+	service: AIService;
+	model?: string; // 使用するモデル（空の場合はそのサービスの既定モデル。メインと同じサービスでは呼び出し元が指定したモデル）
+}
+
+/**
+ * 外部MCPサーバーへの接続方式
+ */
+export type MCPClientTransport = "stdio" | "http";
+
+/**
+ * チャットのツールとして使用する外部MCPサーバーの設定
+ */
+export interface MCPClientServerConfig {
+	id: string;
+	name: string;
+	enabled: boolean;
+	transport: MCPClientTransport;
+	command?: string; // stdio: 起動するコマンド（例: npx）
+	args?: string[]; // stdio: コマンドの引数
+	env?: Record<string, string>; // stdio: 追加の環境変数
+	url?: string; // http: エンドポイントURL（例: http://localhost:3000/mcp）
+	headers?: Record<string, string>; // http: 追加のリクエストヘッダー
+	requireConfirmation?: boolean; // ツールの実行前にユーザーの確認を求める（デフォルト: true）
+}
+
+/**
+ * 検索用MCPサーバーの認証方式
+ */
+export type MCPAuthType = "none" | "bearer" | "apiKey" | "basic";
+
+/**
+ * 検索用MCPサーバーの認証設定
+ * トークン・APIキー・パスワードは設定には保存せず、端末のlocalStorageに保存する（mcp-connection.ts）
+ */
+export interface MCPAuthConfig {
+	type: MCPAuthType;
+	apiKeyHeader?: string; // apiKey: APIキーを送るヘッダー名（デフォルト: X-API-Key）
+	username?: string; // basic: ユーザー名
+}
+
+/**
+ * 検索に使用するMCPサーバー（検索バックエンド）の設定
+ */
+export interface MCPBackendConfig {
+	id: string;
+	name: string;
+	enabled: boolean;
+	url: string; // ベースURL（例: http://127.0.0.1:8000）
+	auth?: MCPAuthConfig;
+	caCertPath?: string; // サーバー証明書の検証に使用するCA証明書（PEM）のパス
+	folders?: string[]; // 検索対象のVault内フォルダ（空の場合はVault全体）
+	serverRoot?: string; // サーバー上のVaultのパス（共有サーバーなど別の場所でインデックスした場合。空の場合はこの端末のVaultのパス）
+}
+
+/**
+ * AIを呼び出す機能の種類（使用量の集計に使用）
+ */
+export type AIFeature =
+	| "chat" // AIチャット
+	| "auto-tag" // 自動タグ生成
+	| "summarize" // 要約（AI要約・ページ要約・チャット要約）
+	| "url-summary" // URL要約
+	| "title" // タイトル生成（チャット・RAG）
+	| "context-menu" // コンテキストメニューからの問い合わせ
+	| "similar-words" // RAG検索の類似単語抽出
+	| "rag" // RAG回答（MCPサーバーに接続できない場合）
+	| "embedding"; // ローカルインデックスのベクトル化（検索クエリを含む）
+
+/**
+ * 機能ごとのAIサービス・モデルの割り当て（空の項目は既定値を使用）
+ */
+export interface AIFeatureRoute {
+	service?: AIService; // 使用するAIサービス（未設定の場合はメインのAIサービス）
+	model?: string; // 使用するモデル
+	temperature?: number; // 温度パラメータ
+	maxTokens?: number; // 最大トークン数
+}
+
+/**
+ * モデルごとの料金（USD / 100万トークン）
+ */
+export interface AIModelPrice {
+	model: string;
+	inputPrice: number; // 入力トークンの料金
+	outputPrice: number; // 出力トークンの料金
+}
+
+/**
+ * 月間予算を超えた場合の動作
+ */
+export type UsageBudgetAction = "warn" | "block";
 
 /**
  * 要約の詳細度
@@ -43,6 +172,8 @@ export interface KnowledgeConnectSettings {
 	apiKey: string; // 後方互換性のため残す（現在選択中のサービスのAPIキー）
 	openrouterApiKey?: string; // OpenRouter APIキー
 	litellmApiKey?: string; // LiteLLM APIキー
+	openaiCompatibleApiKey?: string; // OpenAI互換API APIキー（不要なサーバーでは空欄）
+	ollamaApiKey?: string; // Ollama APIキー（認証付きプロキシ経由の場合のみ）
 	aiService: AIService;
 	defaultSaveFolder: string;
 
@@ -54,16 +185,53 @@ export interface KnowledgeConnectSettings {
 	theme: Theme;
 	enableContextMenu: boolean;
 	enableAutoSave: boolean;
+	enableChatTools?: boolean; // チャットでAIがVaultの検索・読み書きツールを使用できるようにする
 	timeoutSeconds: number;
 	maxTokens: number;
 	aiModel: string; // デフォルトAIモデル
 	litellmEndpointUrl?: string; // LiteLLMエンドポイントURL（オプション）
+	openaiCompatibleEndpointUrl?: string; // OpenAI互換APIのベースURL（例: http://localhost:8000/v1）
+	ollamaEndpointUrl?: string; // OllamaのベースURL（オプション）
+	mockAIResponses?: MockAIResponse[]; // モックAIサービスが返す応答（開発・動作確認用）
+	aiFallbackChain?: AIFallbackEntry[]; // メインのAIサービスが失敗した場合に順に試すサービス
+	aiFallbackMaxRetries?: number; // 各サービスでのリトライ回数（デフォルト: 2）
+	aiFeatureRoutes?: Partial<Record<AIFeature, AIFeatureRoute>>; // 機能ごとのAIサービス・モデルの割り当て
+
+	// 使用量・コスト設定
+	aiModelPrices?: AIModelPrice[]; // モデルごとの料金表（コスト推定に使用）
+	usageMonthlyBudget?: number; // 月間予算（USD、0の場合は無制限）
+	usageBudgetAction?: UsageBudgetAction; // 予算超過時の動作（デフォルト: warn）
+
+	// 応答キャッシュ設定
+	enableResponseCache?: boolean; // 要約・タグ生成などの応答をキャッシュする
+	responseCacheTTLHours?: number; // キャッシュの有効期間（時間）
+	responseCacheMaxSizeMB?: number; // キャッシュの最大サイズ（MB）
 	mcpServerUrl?: string; // MCPサーバーのベースURL（オプション）
+	mcpAuth?: MCPAuthConfig; // MCPサーバーの認証設定
+	mcpCaCertPath?: string; // MCPサーバーの証明書の検証に使用するCA証明書（PEM）のパス（デスクトップ版のみ）
+	mcpBackends?: MCPBackendConfig[]; // 検索に使用するMCPサーバー（空の場合はmcpServerUrlのみ）
+	enableIndexSync?: boolean; // ファイルの変更をインデックスに自動で反映する
+	indexSyncDebounceSeconds?: number; // 最後の変更から同期するまでの待ち時間（秒）
+	indexSyncVectorize?: boolean; // 同期時にベクトルストアも更新する
+	enableLocalSearch?: boolean; // MCPサーバーに接続できない場合にプラグイン内のインデックスで検索する
+	enableLocalVectorSearch?: boolean; // ローカルインデックスの検索でベクトル検索を併用する
+	localEmbeddingProvider?: LocalEmbeddingProvider; // ローカルのベクトル化に使用するプロバイダー
+	localEmbeddingModel?: string; // ローカルのベクトル化に使用するモデル（空の場合はプロバイダーのデフォルト）
+	relatedNotesSource?: RelatedNotesSource; // 関連ノートの検索に使用するインデックス
+	relatedNotesLimit?: number; // 関連ノートの表示件数
+	mcpClientServers?: MCPClientServerConfig[]; // チャットでツールを使用する外部MCPサーバー
+
+	// Vault MCPサーバー設定（外部のエージェントにVaultを公開）
+	enableVaultMCPServer?: boolean; // VaultをMCPサーバーとして公開する（デスクトップ版のみ）
+	vaultMCPServerPort?: number; // 待ち受けるポート（127.0.0.1のみ）
+	vaultMCPServerAllowedFolders?: string[]; // 公開するフォルダ（空の場合はVault全体）
+	vaultMCPServerReadOnly?: boolean; // 読み込み専用（ノートの作成・追記ツールを公開しない）
 	
 	// ページ要約機能の設定
 	promptTemplates?: PromptTemplate[]; // テンプレートプロンプトのリスト
 	defaultSummaryModel?: string; // ページ要約のデフォルトモデル
 	summarySaveFolder?: string; // ページ要約結果の保存先フォルダ
+	summaryIncludeImages?: boolean; // ページ要約でノートに埋め込まれた画像もAIに送信する
 
 	// MCP APIパラメータ設定
 	mcpVectorizeProvider?: string; // ベクトル化のプロバイダー（openrouter, aws_bedrock, litellm）
@@ -3,13 +3,29 @@
  * API呼び出しに関するユーティリティ関数
  */
 
+import type {
+	ChatMessage,
+	ChatResponseFormat,
+	ToolCall,
+	ToolDefinition,
+} from "../services/ai-service-interface";
+import { AppError } from "./errors";
+
+/**
+ * リトライ時に待つRetry-Afterの上限（秒）
+ */
+const MAX_RETRY_AFTER_SECONDS = 60;
+
 /**
  * リトライ付きAPI呼び出し
+ * shouldRetryがfalseを返したエラーはリトライせずにそのまま投げる
+ * エラーに再試行までの時間（Retry-After）が指定されている場合は、その時間（最大60秒）待ってからリトライする
  */
 export async function retryApiCall<T>(
 	fn: () => Promise<T>,
 	maxRetries: number = 3,
-	delayMs: number = 1000
+	delayMs: number = 1000,
+	shouldRetry?: (error: unknown) => boolean
 ): Promise<T> {
 	let lastError: unknown;
 
@@ -19,9 +35,16 @@ export async function retryApiCall<T>(
 		} catch (error) {
 			lastError = error;
 
+			if (shouldRetry && !shouldRetry(error)) {
+				throw error;
+			}
+
 			// 最後の試行でない場合、待機してからリトライ
 			if (attempt < maxRetries) {
-				await new Promise((resolve) => setTimeout(resolve, delayMs * attempt));
+				const retryAfterMs = error instanceof AppError && error.retryAfter !== undefined
+					? Math.min(error.retryAfter, MAX_RETRY_AFTER_SECONDS) * 1000
+					: 0;
+				await new Promise((resolve) => setTimeout(resolve, Math.max(delayMs * attempt, retryAfterMs)));
 			}
 		}
 	}
@@ -29,6 +52,292 @@ export async function retryApiCall<T>(
 	throw lastError;
 }
 
+/**
+ * 外部のAbortSignalを内部のAbortControllerに連動させる
+ * 戻り値の関数を呼ぶとリスナーを解除する
+ */
+export function linkAbortSignal(
+	controller: AbortController,
+	signal?: AbortSignal
+): () => void {
+	if (!signal) {
+		return () => {};
+	}
+	if (signal.aborted) {
+		controller.abort();
+		return () => {};
+	}
+	const onAbort = () => controller.abort();
+	signal.addEventListener("abort", onAbort);
+	return () => signal.removeEventListener("abort", onAbort);
+}
+
+/**
+ * ストリーミングで受信したチャット補完の結果
+ */
+export interface StreamedChatCompletion {
+	content: string;
+	model?: string;
+	toolCalls?: ToolCall[];
+	usage?: {
+		promptTokens: number;
+		completionTokens: number;
+		totalTokens: number;
+	};
+}
+
+/**
+ * ストリーミングの無通信タイムアウト
+ */
+export interface StreamIdleTimeout {
+	controller: AbortController; // タイムアウト時に中断するリクエストのコントローラー
+	timeoutMs: number; // データを受信しない状態がこの時間続いたら中断する
+}
+
+/**
+ * 無通信タイムアウトのタイマーを作成
+ * データを受信するたびにresetを呼び出し、読み取りの終了時にclearを呼び出す（idleTimeoutがない場合は何もしない）
+ */
+export function createStreamIdleTimer(idleTimeout?: StreamIdleTimeout): { reset: () => void; clear: () => void } {
+	let idleTimer: ReturnType<typeof setTimeout> | null = null;
+	const clear = () => {
+		if (idleTimer !== null) {
+			clearTimeout(idleTimer);
+			idleTimer = null;
+		}
+	};
+	const reset = () => {
+		if (!idleTimeout) {
+			return;
+		}
+		clear();
+		idleTimer = setTimeout(() => idleTimeout.controller.abort(), idleTimeout.timeoutMs);
+	};
+	return { reset, clear };
+}
+
+/**
+ * OpenAI互換APIのSSE（Server-Sent Events）レスポンスを読み取る
+ * 差分テキストを受信するたびにonDeltaを呼び出し、完了時に全文を返す
+ * idleTimeoutを指定した場合、データを受信するたびにタイマーをリセットし、途中で止まったストリームを中断する
+ */
+export async function readChatCompletionStream(
+	response: Response,
+	onDelta: (delta: string) => void,
+	idleTimeout?: StreamIdleTimeout
+): Promise<StreamedChatCompletion> {
+	if (!response.body) {
+		throw new Error("ストリーミングレスポンスの本文が空です。");
+	}
+
+	const idleTimer = createStreamIdleTimer(idleTimeout);
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder("utf-8");
+	const result: StreamedChatCompletion = { content: "" };
+	// ツール呼び出しは複数のチャンクに分割されて届くため、indexごとに連結する
+	const toolCalls: ToolCall[] = [];
+	let buffer = "";
+	let done = false;
+
+	const handleLine = (line: string) => {
+		const trimmed = line.trim();
+		// 空行とコメント行（": OPENROUTER PROCESSING" など）は無視
+		if (!trimmed || trimmed.startsWith(":") || !trimmed.startsWith("data:")) {
+			return;
+		}
+
+		const data = trimmed.substring(5).trim();
+		if (data === "[DONE]") {
+			done = true;
+			return;
+		}
+
+		let payload: any;
+		try {
+			payload = JSON.parse(data);
+		} catch {
+			console.warn("[API Utils] SSEデータのパースに失敗しました:", data);
+			return;
+		}
+
+		if (payload.error) {
+			throw new Error(`ストリーミング中にエラーが発生しました: ${payload.error.message || JSON.stringify(payload.error)}`);
+		}
+		if (payload.model) {
+			result.model = payload.model;
+		}
+		if (payload.usage) {
+			result.usage = {
+				promptTokens: payload.usage.prompt_tokens || 0,
+				completionTokens: payload.usage.completion_tokens || 0,
+				totalTokens: payload.usage.total_tokens || 0,
+			};
+		}
+
+		const delta = payload.choices?.[0]?.delta?.content;
+		if (typeof delta === "string" && delta.length > 0) {
+			result.content += delta;
+			onDelta(delta);
+		}
+
+		const toolCallDeltas = payload.choices?.[0]?.delta?.tool_calls;
+		if (Array.isArray(toolCallDeltas)) {
+			for (const toolCallDelta of toolCallDeltas) {
+				const index = typeof toolCallDelta.index === "number" ? toolCallDelta.index : toolCalls.length;
+				const toolCall = toolCalls[index] || (toolCalls[index] = { id: "", name: "", arguments: "" });
+				if (toolCallDelta.id) {
+					toolCall.id = toolCallDelta.id;
+				}
+				if (toolCallDelta.function?.name) {
+					toolCall.name += toolCallDelta.function.name;
+				}
+				if (toolCallDelta.function?.arguments) {
+					toolCall.arguments += toolCallDelta.function.arguments;
+				}
+			}
+		}
+	};
+
+	try {
+		idleTimer.reset();
+		while (!done) {
+			const { value, done: streamDone } = await reader.read();
+			if (streamDone) {
+				break;
+			}
+			idleTimer.reset();
+			buffer += decoder.decode(value, { stream: true });
+
+			// 改行単位で処理し、末尾の未完成行はバッファに残す
+			const lines = buffer.split("\n");
+			buffer = lines.pop() || "";
+			for (const line of lines) {
+				handleLine(line);
+				if (done) {
+					break;
+				}
+			}
+		}
+
+		if (!done && buffer) {
+			handleLine(buffer);
+		}
+	} finally {
+		idleTimer.clear();
+		reader.releaseLock();
+	}
+
+	const completedToolCalls = toolCalls.filter((toolCall) => toolCall && toolCall.name);
+	if (completedToolCalls.length > 0) {
+		result.toolCalls = completedToolCalls.map((toolCall, index) => ({
+			...toolCall,
+			id: toolCall.id || `call_${index}`,
+		}));
+	}
+
+	return result;
+}
+
+/**
+ * メッセージ本文をOpenAI互換APIの形式に変換
+ * 画像はdata URLとしてimage_urlに埋め込む
+ */
+function toOpenAIContent(content: ChatMessage["content"]) {
+	if (typeof content === "string") {
+		return content;
+	}
+	return content.map((part) =>
+		part.type === "text"
+			? { type: "text", text: part.text }
+			: { type: "image_url", image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+	);
+}
+
+/**
+ * メッセージをOpenAI互換APIの形式に変換
+ */
+export function toOpenAIMessages(messages: ChatMessage[]) {
+	return messages.map((msg) => ({
+		role: msg.role,
+		content: toOpenAIContent(msg.content),
+		...(msg.toolCalls && msg.toolCalls.length > 0
+			? {
+				tool_calls: msg.toolCalls.map((toolCall) => ({
+					id: toolCall.id,
+					type: "function",
+					function: { name: toolCall.name, arguments: toolCall.arguments },
+				})),
+			}
+			: {}),
+		...(msg.toolCallId ? { tool_call_id: msg.toolCallId } : {}),
+		...(msg.role === "tool" && msg.name ? { name: msg.name } : {}),
+	}));
+}
+
+/**
+ * ツール定義をOpenAI互換APIのtoolsに変換
+ */
+export function toOpenAITools(tools: ToolDefinition[]) {
+	return tools.map((tool) => ({
+		type: "function",
+		function: {
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.parameters,
+		},
+	}));
+}
+
+/**
+ * ツール呼び出しの引数（JSON文字列）をオブジェクトに変換
+ * 不正なJSONの場合は空のオブジェクトを返す
+ */
+export function parseToolArguments(args: string): Record<string, unknown> {
+	if (!args || args.trim() === "") {
+		return {};
+	}
+	try {
+		const parsed = JSON.parse(args);
+		return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * OpenAI互換APIの応答メッセージからツール呼び出しを取り出す
+ */
+export function parseOpenAIToolCalls(message: any): ToolCall[] | undefined {
+	if (!Array.isArray(message?.tool_calls) || message.tool_calls.length === 0) {
+		return undefined;
+	}
+	return message.tool_calls.map((toolCall: any, index: number) => ({
+		id: toolCall.id || `call_${index}`,
+		name: toolCall.function?.name || "",
+		arguments: typeof toolCall.function?.arguments === "string"
+			? toolCall.function.arguments
+			: JSON.stringify(toolCall.function?.arguments || {}),
+	}));
+}
+
+/**
+ * 応答形式をOpenAI互換APIのresponse_formatに変換
+ */
+export function toOpenAIResponseFormat(format: ChatResponseFormat) {
+	if (format.type === "json_object") {
+		return { type: "json_object" };
+	}
+	return {
+		type: "json_schema",
+		json_schema: {
+			name: format.name,
+			schema: format.schema,
+			strict: format.strict ?? false,
+		},
+	};
+}
+
 /**
  * APIキーの形式を検証（簡易版）
  */
@@ -53,6 +53,13 @@ export class CacheManager {
 		});
 	}
 
+	/**
+	 * 保存しておいたキャッシュ情報を復元
+	 */
+	restoreCache(info: FileCacheInfo): void {
+		this.cache.set(info.filePath, info);
+	}
+
 	/**
 	 * ファイルのキャッシュを削除
 	 */
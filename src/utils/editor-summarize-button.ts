@@ -9,6 +9,12 @@ import { SummarizePageModal, SummarizePageResult } from "./summarize-page-modal"
 import { AIServiceFactory } from "../services/ai-service-factory";
 import { showError, showSuccess } from "./error-handler";
 import { TFile } from "obsidian";
+import { buildMessageContent, loadEmbeddedImages } from "./image-attachments";
+
+/**
+ * ページ要約で送信する埋め込み画像の最大数
+ */
+const MAX_SUMMARY_IMAGES = 5;
 
 /**
  * エディタに要約ボタンを追加
@@ -295,6 +301,11 @@ async function executeSummarize(
 		// プロンプトを構築
 		const prompt = `${result.prompt}\n\n---\n\n${fileContent}`;
 
+		// ページに埋め込まれた画像を読み込む
+		const images = result.includeImages
+			? await loadEmbeddedImages(plugin.app, fileContent, originalFile.path, MAX_SUMMARY_IMAGES)
+			: [];
+
 		// ローディング通知
 		if (plugin.settings.notificationSettings.showInfo) {
 			new (plugin.app as any).Notice("要約を生成中...", 2000);
@@ -302,17 +313,20 @@ async function executeSummarize(
 
 		// 要約を実行
 		const response = await aiService.chatCompletion({
+			feature: "summarize",
 			messages: [
 				{
 					role: "user",
-					content: prompt,
+					content: buildMessageContent(prompt, images),
 				},
 			],
 			model: result.model,
 			maxTokens: plugin.settings.maxTokens,
+			cache: result.refreshCache ? "refresh" : "use",
 		});
 
 		const summary = response.content;
+		const cachedLabel = response.cached ? "（キャッシュ）" : "";
 
 		// 保存方法に応じて処理を分岐
 		if (result.saveLocation === "new-page") {
@@ -361,7 +375,7 @@ async function executeSummarize(
 
 			// 成功通知
 			showSuccess(
-				`要約を保存しました: ${finalPath}`,
+				`要約を保存しました${cachedLabel}: ${finalPath}`,
 				plugin.settings.notificationSettings
 			);
 		} else {
@@ -397,7 +411,7 @@ async function executeSummarize(
 
 			// 成功通知
 			showSuccess(
-				`要約を${result.saveLocation === "top" ? "上部" : "下部"}に追加しました。`,
+				`要約を${result.saveLocation === "top" ? "上部" : "下部"}に追加しました${cachedLabel}。`,
 				plugin.settings.notificationSettings
 			);
 		}
@@ -123,8 +123,8 @@ function updateTagButton(plugin: KnowledgeConnectPlugin, leaf: WorkspaceLeaf | n
 	const button = buttonContainer.createEl("button", {
 		cls: "generate-tag-button",
 		attr: {
-			"aria-label": "AIタグを生成",
-			title: "AIタグを生成",
+			"aria-label": "AIタグを生成（Shift+クリックでキャッシュを使わずに再生成）",
+			title: "AIタグを生成（Shift+クリックでキャッシュを使わずに再生成）",
 		},
 	});
 
@@ -164,7 +164,7 @@ function updateTagButton(plugin: KnowledgeConnectPlugin, leaf: WorkspaceLeaf | n
 		e.preventDefault();
 		console.log("[TagButton] Button clicked");
 		try {
-			await handleTagGenerationClick(plugin, view);
+			await handleTagGenerationClick(plugin, view, e.shiftKey);
 		} catch (error) {
 			console.error("[TagButton] Error in handleTagGenerationClick:", error);
 			showError(
@@ -182,7 +182,8 @@ function updateTagButton(plugin: KnowledgeConnectPlugin, leaf: WorkspaceLeaf | n
  */
 async function handleTagGenerationClick(
 	plugin: KnowledgeConnectPlugin,
-	view: MarkdownView
+	view: MarkdownView,
+	refreshCache = false
 ): Promise<void> {
 	console.log("[TagButton] handleTagGenerationClick called");
 	
@@ -220,11 +221,13 @@ async function handleTagGenerationClick(
 		showInfo("タグを生成中...", plugin.settings.notificationSettings);
 
 		// 強制的にタグを生成（既存タグがあっても上書き）
-		await autoTagService.handleFileModify(file, true);
+		const result = await autoTagService.handleFileModify(file, true, refreshCache);
 
 		// 成功通知
 		showSuccess(
-			"タグを生成しました",
+			result?.cached
+				? "タグを生成しました（キャッシュ。Shift+クリックで再生成）"
+				: "タグを生成しました",
 			plugin.settings.notificationSettings
 		);
 	} catch (error) {
@@ -5,11 +5,16 @@
 
 import { Notice } from "obsidian";
 import { NotificationSettings } from "../types";
+import { AppError, CancelledError } from "./errors";
 
 /**
  * エラーメッセージをユーザーフレンドリーな形式に変換
+ * 種類の分かるエラーは対処方法を付けて返す
  */
 export function formatErrorMessage(error: unknown): string {
+	if (error instanceof AppError) {
+		return error.hint ? `${error.message} ${error.hint}` : error.message;
+	}
 	if (error instanceof Error) {
 		return error.message;
 	}
@@ -19,19 +24,60 @@ export function formatErrorMessage(error: unknown): string {
 	return "予期しないエラーが発生しました。";
 }
 
+/**
+ * エラーの詳細（HTTPステータス・リクエスト先・応答本文など）を表示用の行に変換
+ */
+export function formatErrorDetails(error: AppError): string[] {
+	const lines: string[] = [];
+	if (error.status !== undefined) {
+		lines.push(`HTTPステータス: ${error.status}`);
+	}
+	if (error.endpoint) {
+		lines.push(`リクエスト先: ${error.endpoint}`);
+	}
+	if (error.retryAfter !== undefined) {
+		lines.push(`再試行まで: ${error.retryAfter}秒`);
+	}
+	if (error.details) {
+		lines.push(error.details);
+	}
+	return lines;
+}
+
 /**
  * エラーを通知として表示
+ * 種類の分かるエラーは対処方法と、開閉できる詳細を表示する
+ * キャンセルはユーザーの操作によるものなので、エラーとしては表示しない
  */
 export function showError(
 	error: unknown,
 	notificationSettings: NotificationSettings
 ): void {
-	if (!notificationSettings.showError) {
+	if (!notificationSettings.showError || error instanceof CancelledError) {
+		return;
+	}
+
+	if (!(error instanceof AppError)) {
+		new Notice(`❌ ${formatErrorMessage(error)}`, 5000);
 		return;
 	}
 
-	const message = formatErrorMessage(error);
-	new Notice(`❌ ${message}`, 5000);
+	const details = formatErrorDetails(error);
+	const fragment = createFragment((el) => {
+		el.createDiv({ text: `❌ ${error.message}` });
+		if (error.hint) {
+			el.createDiv({ text: error.hint, cls: "knowledge-connect-error-hint" });
+		}
+		if (details.length > 0) {
+			const detailsEl = el.createEl("details", { cls: "knowledge-connect-error-details" });
+			detailsEl.createEl("summary", { text: "詳細" });
+			detailsEl.createEl("pre", { text: details.join("\n") });
+			// 通知はクリックすると閉じるため、詳細の開閉では閉じないようにする
+			detailsEl.addEventListener("click", (event) => event.stopPropagation());
+		}
+	});
+	// 詳細を確認できるよう、詳細がある場合は長めに表示する
+	new Notice(fragment, details.length > 0 ? 10000 : 5000);
 }
 
 /**
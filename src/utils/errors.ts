@@ -0,0 +1,237 @@
+/**
+ * Errors
+ * APIやサーバーへのリクエストの失敗を種類ごとに表すエラークラス
+ * 呼び出し元はinstanceofで種類を判定し、HTTPステータス・リクエスト先・再試行までの時間を参照できる
+ */
+
+/**
+ * エラーの種類
+ */
+export type AppErrorKind =
+	| "network" // 接続できない
+	| "timeout" // 応答が時間内に返らない
+	| "auth" // 認証の失敗・アクセスの拒否
+	| "rateLimit" // リクエスト数の制限
+	| "server" // サーバー側のエラー
+	| "validation" // リクエストの内容・設定の誤り
+	| "cancelled"; // ユーザーによるキャンセル
+
+export interface AppErrorOptions {
+	status?: number; // HTTPステータス
+	endpoint?: string; // リクエスト先のURL・エンドポイント
+	retryAfter?: number; // 再試行できるまでの秒数（Retry-Afterヘッダー）
+	details?: string; // サーバーの応答本文などの詳細
+	hint?: string; // 対処方法（省略時は種類ごとの既定の対処方法）
+	cause?: unknown; // 元のエラー
+}
+
+/**
+ * 種類ごとの既定の対処方法
+ */
+const DEFAULT_HINTS: Record<AppErrorKind, string | undefined> = {
+	network: "ネットワーク接続と、設定のURLが正しいか確認してください。",
+	timeout: "しばらくしてから再試行するか、設定のタイムアウト時間を増やしてください。",
+	auth: "設定のAPIキー・認証情報を確認してください。",
+	rateLimit: "しばらくしてから再試行してください。",
+	server: "サーバー側で問題が発生しています。しばらくしてから再試行してください。",
+	validation: "入力内容と設定（モデル名など）を確認してください。",
+	cancelled: undefined,
+};
+
+/**
+ * リクエストの失敗を表すエラーの基底クラス
+ */
+export class AppError extends Error {
+	readonly kind: AppErrorKind;
+	readonly status?: number;
+	readonly endpoint?: string;
+	readonly retryAfter?: number;
+	readonly details?: string;
+	readonly hint?: string;
+	readonly cause?: unknown;
+
+	constructor(kind: AppErrorKind, message: string, options: AppErrorOptions = {}) {
+		super(message);
+		this.name = "AppError";
+		this.kind = kind;
+		this.status = options.status;
+		this.endpoint = options.endpoint;
+		this.retryAfter = options.retryAfter;
+		this.details = options.details;
+		this.hint = options.hint ?? DEFAULT_HINTS[kind];
+		this.cause = options.cause;
+	}
+
+	/**
+	 * 作成時のオプションを取得（メッセージを変えて同じ種類のエラーを作り直す場合に使用）
+	 */
+	getOptions(): AppErrorOptions {
+		return {
+			status: this.status,
+			endpoint: this.endpoint,
+			retryAfter: this.retryAfter,
+			details: this.details,
+			hint: this.hint,
+			cause: this.cause,
+		};
+	}
+}
+
+/**
+ * サーバーに接続できない（起動していない・URLの誤り・ネットワークの切断など）
+ */
+export class NetworkError extends AppError {
+	constructor(message: string, options: AppErrorOptions = {}) {
+		super("network", message, options);
+		this.name = "NetworkError";
+	}
+}
+
+/**
+ * 応答が時間内に返らない
+ */
+export class TimeoutError extends AppError {
+	constructor(message: string, options: AppErrorOptions = {}) {
+		super("timeout", message, options);
+		this.name = "TimeoutError";
+	}
+}
+
+/**
+ * 認証に失敗した（401）・アクセスが拒否された（403）
+ */
+export class AuthError extends AppError {
+	constructor(message: string, options: AppErrorOptions = {}) {
+		super("auth", message, options);
+		this.name = "AuthError";
+	}
+}
+
+/**
+ * リクエスト数の制限を超えた（429）
+ */
+export class RateLimitError extends AppError {
+	constructor(message: string, options: AppErrorOptions = {}) {
+		super("rateLimit", message, {
+			...options,
+			hint: options.hint ?? (options.retryAfter !== undefined
+				? `${options.retryAfter}秒ほど待ってから再試行してください。`
+				: undefined),
+		});
+		this.name = "RateLimitError";
+	}
+}
+
+/**
+ * サーバー側でエラーが発生した（5xx）
+ */
+export class ServerError extends AppError {
+	constructor(message: string, options: AppErrorOptions = {}) {
+		super("server", message, options);
+		this.name = "ServerError";
+	}
+}
+
+/**
+ * リクエストの内容・設定に誤りがある（4xx）
+ */
+export class ValidationError extends AppError {
+	constructor(message: string, options: AppErrorOptions = {}) {
+		super("validation", message, options);
+		this.name = "ValidationError";
+	}
+}
+
+/**
+ * ユーザーがリクエストをキャンセルした
+ */
+export class CancelledError extends AppError {
+	constructor(message = "リクエストがキャンセルされました。", options: AppErrorOptions = {}) {
+		super("cancelled", message, options);
+		this.name = "CancelledError";
+	}
+}
+
+/**
+ * 種類を指定してエラーを作成
+ */
+export function createAppError(kind: AppErrorKind, message: string, options: AppErrorOptions = {}): AppError {
+	switch (kind) {
+		case "network":
+			return new NetworkError(message, options);
+		case "timeout":
+			return new TimeoutError(message, options);
+		case "auth":
+			return new AuthError(message, options);
+		case "rateLimit":
+			return new RateLimitError(message, options);
+		case "server":
+			return new ServerError(message, options);
+		case "cancelled":
+			return new CancelledError(message, options);
+		default:
+			return new ValidationError(message, options);
+	}
+}
+
+/**
+ * HTTPステータスからエラーを作成
+ */
+export function createHttpError(status: number, message: string, options: AppErrorOptions = {}): AppError {
+	const errorOptions = { ...options, status };
+	if (status === 401 || status === 403) {
+		return new AuthError(message, errorOptions);
+	}
+	if (status === 429) {
+		return new RateLimitError(message, errorOptions);
+	}
+	if (status === 408 || status === 504) {
+		return new TimeoutError(message, errorOptions);
+	}
+	if (status >= 500) {
+		return new ServerError(message, errorOptions);
+	}
+	return new ValidationError(message, errorOptions);
+}
+
+/**
+ * Retry-Afterヘッダー（秒数またはHTTP日付）を秒数に変換
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const seconds = Number(value.trim());
+	if (!isNaN(seconds)) {
+		return Math.max(0, Math.ceil(seconds));
+	}
+	const date = Date.parse(value);
+	if (isNaN(date)) {
+		return undefined;
+	}
+	return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * 応答本文から詳細として表示するテキストを取得（長い場合は切り詰める）
+ */
+export function toErrorDetails(body: unknown): string | undefined {
+	if (body === undefined || body === null || body === "") {
+		return undefined;
+	}
+	const text = typeof body === "string" ? body : JSON.stringify(body);
+	if (!text || text === "{}") {
+		return undefined;
+	}
+	return text.length > 2000 ? `${text.substring(0, 2000)}...` : text;
+}
+
+/**
+ * 再試行すれば成功する可能性があるエラーか
+ */
+export function isTransientError(error: unknown): boolean {
+	return error instanceof NetworkError
+		|| error instanceof TimeoutError
+		|| error instanceof RateLimitError
+		|| error instanceof ServerError;
+}
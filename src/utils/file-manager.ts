@@ -13,6 +13,33 @@ export interface SaveOptions {
 	content: string;
 	format?: "markdown" | "text" | "json";
 	append?: boolean;
+	filePath?: string; // 既存ファイルのパス（指定した場合はfolderとfileNameより優先）
+}
+
+/**
+ * 保存先のフルパスを取得
+ */
+export function getSavePath(settings: KnowledgeConnectSettings, options: SaveOptions): string {
+	// パスが指定された場合はファイル名を変換せずにそのまま使用
+	if (options.filePath) {
+		return sanitizePath(options.filePath);
+	}
+
+	// フォルダパスを決定
+	const folderPath = options.folder || settings.defaultSaveFolder || "";
+	const sanitizedFolder = sanitizePath(folderPath);
+
+	// ファイル名を決定
+	const extension = getExtension(options.format || "markdown");
+	const sanitizedFileName = sanitizeFileName(options.fileName);
+	const fullFileName = sanitizedFileName.endsWith(extension)
+		? sanitizedFileName
+		: `${sanitizedFileName}${extension}`;
+
+	// フルパス
+	return sanitizedFolder
+		? `${sanitizedFolder}/${fullFileName}`
+		: fullFileName;
 }
 
 /**
@@ -24,21 +51,8 @@ export async function saveToFile(
 	options: SaveOptions
 ): Promise<TFile | null> {
 	try {
-		// フォルダパスを決定
-		const folderPath = options.folder || settings.defaultSaveFolder || "";
-		const sanitizedFolder = sanitizePath(folderPath);
-
-		// ファイル名を決定
-		const extension = getExtension(options.format || "markdown");
-		const sanitizedFileName = sanitizeFileName(options.fileName);
-		const fullFileName = sanitizedFileName.endsWith(extension)
-			? sanitizedFileName
-			: `${sanitizedFileName}${extension}`;
-
-		// フルパス
-		const fullPath = sanitizedFolder
-			? `${sanitizedFolder}/${fullFileName}`
-			: fullFileName;
+		const fullPath = getSavePath(settings, options);
+		const sanitizedFolder = fullPath.includes("/") ? fullPath.substring(0, fullPath.lastIndexOf("/")) : "";
 
 		// フォルダが存在しない場合は作成
 		if (sanitizedFolder) {
@@ -192,3 +206,14 @@ export async function saveSearchResult(
 	});
 }
 
+
+/**
+ * ノートを新しいタブで開き、指定した行までスクロール
+ * @param line 1始まりの行番号（省略時はノートの先頭を表示）
+ */
+export async function openFileAtLine(app: App, file: TFile, line?: number): Promise<void> {
+	const leaf = app.workspace.getLeaf("tab");
+	await leaf.openFile(file, line ? { eState: { line: line - 1 } } : undefined);
+	// 開いたタブをアクティブにする
+	app.workspace.setActiveLeaf(leaf, { focus: true });
+}
@@ -0,0 +1,159 @@
+/**
+ * Image Attachments
+ * Vault内の画像やクリップボードの画像をAIに送信できる形式に変換する
+ */
+
+import { App, TFile } from "obsidian";
+import type { ChatContentPart } from "../services/ai-service-interface";
+
+/**
+ * AIに送信できる画像
+ */
+export interface ImageAttachment {
+	name: string; // 表示用の名前
+	mimeType: string;
+	data: string; // Base64（data:プレフィックスなし）
+}
+
+/**
+ * 送信する画像1枚あたりの最大サイズ（バイト）
+ */
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+};
+
+/**
+ * 画像として扱える拡張子か判定
+ */
+export function isImageExtension(extension: string): boolean {
+	return extension.toLowerCase() in IMAGE_MIME_TYPES;
+}
+
+/**
+ * Vault内の画像ファイルを取得
+ */
+export function getVaultImageFiles(app: App): TFile[] {
+	return app.vault.getFiles().filter((file) => isImageExtension(file.extension));
+}
+
+/**
+ * ArrayBufferをBase64に変換
+ */
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+	const bytes = new Uint8Array(buffer);
+	let binary = "";
+	// 大きな画像でも引数の上限を超えないように分割して変換
+	const chunkSize = 0x8000;
+	for (let i = 0; i < bytes.length; i += chunkSize) {
+		binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+	}
+	return btoa(binary);
+}
+
+/**
+ * Vault内の画像ファイルを読み込む
+ */
+export async function loadVaultImage(app: App, file: TFile): Promise<ImageAttachment> {
+	if (!isImageExtension(file.extension)) {
+		throw new Error(`画像ファイルではありません: ${file.path}`);
+	}
+	if (file.stat.size > MAX_IMAGE_SIZE) {
+		throw new Error(`画像のサイズが大きすぎます（最大5MB）: ${file.path}`);
+	}
+	const buffer = await app.vault.readBinary(file);
+	return {
+		name: file.name,
+		mimeType: IMAGE_MIME_TYPES[file.extension.toLowerCase()],
+		data: arrayBufferToBase64(buffer),
+	};
+}
+
+/**
+ * クリップボードなどから取得した画像を読み込む
+ */
+export async function loadImageBlob(blob: Blob, name: string): Promise<ImageAttachment> {
+	if (!blob.type.startsWith("image/")) {
+		throw new Error("画像以外のデータは添付できません。");
+	}
+	if (blob.size > MAX_IMAGE_SIZE) {
+		throw new Error("画像のサイズが大きすぎます（最大5MB）。");
+	}
+	const buffer = await blob.arrayBuffer();
+	return {
+		name,
+		mimeType: blob.type,
+		data: arrayBufferToBase64(buffer),
+	};
+}
+
+/**
+ * ノート本文に埋め込まれた画像（![[image.png]] と ![](image.png)）を読み込む
+ * 見つからない画像や読み込めない画像は読み飛ばす
+ */
+export async function loadEmbeddedImages(
+	app: App,
+	content: string,
+	sourcePath: string,
+	maxImages: number
+): Promise<ImageAttachment[]> {
+	const linkPaths: string[] = [];
+	const wikiEmbedPattern = /!\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]/g;
+	const markdownEmbedPattern = /!\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+	let match: RegExpExecArray | null;
+	while ((match = wikiEmbedPattern.exec(content)) !== null) {
+		linkPaths.push(match[1].trim());
+	}
+	while ((match = markdownEmbedPattern.exec(content)) !== null) {
+		// 外部URLは対象外
+		if (!/^[a-z]+:\/\//i.test(match[1])) {
+			linkPaths.push(decodeURIComponent(match[1].trim()));
+		}
+	}
+
+	const images: ImageAttachment[] = [];
+	const loadedPaths = new Set<string>();
+	for (const linkPath of linkPaths) {
+		if (images.length >= maxImages) {
+			break;
+		}
+		const file = app.metadataCache.getFirstLinkpathDest(linkPath, sourcePath);
+		if (!file || loadedPaths.has(file.path) || !isImageExtension(file.extension)) {
+			continue;
+		}
+		loadedPaths.add(file.path);
+		try {
+			images.push(await loadVaultImage(app, file));
+		} catch (error) {
+			console.warn(`[Image Attachments] 画像を読み込めませんでした: ${file.path}`, error);
+		}
+	}
+	return images;
+}
+
+/**
+ * テキストと画像からメッセージの構成要素を作成
+ * 画像がない場合はテキストのみを返す
+ */
+export function buildMessageContent(text: string, images: ImageAttachment[]): string | ChatContentPart[] {
+	if (images.length === 0) {
+		return text;
+	}
+	return [
+		{ type: "text", text },
+		...images.map((image): ChatContentPart => ({ type: "image", mimeType: image.mimeType, data: image.data })),
+	];
+}
+
+/**
+ * 画像をimg要素で表示するためのdata URLを取得
+ */
+export function toDataUrl(image: ImageAttachment): string {
+	return `data:${image.mimeType};base64,${image.data}`;
+}
@@ -0,0 +1,29 @@
+/**
+ * Image Select Modal
+ * Vault内の画像ファイルを検索して選択するモーダル
+ */
+
+import { App, FuzzySuggestModal, TFile } from "obsidian";
+import { getVaultImageFiles } from "./image-attachments";
+
+export class ImageSelectModal extends FuzzySuggestModal<TFile> {
+	private onSelect: (file: TFile) => void;
+
+	constructor(app: App, onSelect: (file: TFile) => void) {
+		super(app);
+		this.onSelect = onSelect;
+		this.setPlaceholder("添付する画像を検索...");
+	}
+
+	getItems(): TFile[] {
+		return getVaultImageFiles(this.app);
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onSelect(file);
+	}
+}
@@ -0,0 +1,31 @@
+/**
+ * Node Modules
+ * デスクトップ版でのみ使用できるNode.jsのモジュールを読み込む
+ * モバイル版で読み込まれないよう、静的なimportではなく使用する時点でElectronのrequireから取得する
+ */
+
+import { Platform } from "obsidian";
+
+/**
+ * 読み込めるモジュールと型
+ */
+interface NodeModules {
+	child_process: typeof import("child_process");
+	fs: typeof import("fs");
+	http: typeof import("http");
+	https: typeof import("https");
+}
+
+/**
+ * Node.jsのモジュールを読み込む
+ * @throws デスクトップ版以外で呼び出した場合
+ */
+export function requireNodeModule<K extends keyof NodeModules>(name: K): NodeModules[K] {
+	const nodeRequire = Platform.isDesktopApp
+		? (window as unknown as { require?: (id: string) => unknown }).require
+		: undefined;
+	if (!nodeRequire) {
+		throw new Error(`Node.jsのモジュール（${name}）はデスクトップ版でのみ使用できます。`);
+	}
+	return nodeRequire(name) as NodeModules[K];
+}
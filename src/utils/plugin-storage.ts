@@ -0,0 +1,41 @@
+/**
+ * Plugin Storage
+ * プラグインフォルダ内のJSONファイルへの読み書き
+ * 設定（data.json）とは別に保存したいデータに使用する
+ */
+
+import type { Plugin } from "obsidian";
+
+/**
+ * プラグインフォルダ内のファイルパスを取得
+ */
+export function getPluginFilePath(plugin: Plugin, fileName: string): string {
+	const dir = plugin.manifest.dir || `${plugin.app.vault.configDir}/plugins/${plugin.manifest.id}`;
+	return `${dir}/${fileName}`;
+}
+
+/**
+ * プラグインフォルダ内のJSONファイルを読み込む
+ * ファイルが存在しない・壊れている場合はfallbackを返す
+ */
+export async function readPluginJson<T>(plugin: Plugin, fileName: string, fallback: T): Promise<T> {
+	const path = getPluginFilePath(plugin, fileName);
+	try {
+		if (!(await plugin.app.vault.adapter.exists(path))) {
+			return fallback;
+		}
+		const content = await plugin.app.vault.adapter.read(path);
+		return JSON.parse(content) as T;
+	} catch (error) {
+		console.error(`[Plugin Storage] ${fileName} の読み込みに失敗しました:`, error);
+		return fallback;
+	}
+}
+
+/**
+ * プラグインフォルダ内のJSONファイルに書き込む
+ */
+export async function writePluginJson(plugin: Plugin, fileName: string, data: unknown): Promise<void> {
+	const path = getPluginFilePath(plugin, fileName);
+	await plugin.app.vault.adapter.write(path, JSON.stringify(data));
+}
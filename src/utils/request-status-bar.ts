@@ -0,0 +1,103 @@
+/**
+ * Request Status Bar
+ * 実行中のリクエスト数をステータスバーに表示し、クリックでキャンセルメニューを開く
+ */
+
+import { Menu } from "obsidian";
+import type { RequestManager } from "../services/request-manager";
+
+/**
+ * 経過時間を更新する間隔（ミリ秒）
+ */
+const REFRESH_INTERVAL_MS = 1000;
+
+export class RequestStatusBar {
+	private el: HTMLElement;
+	private requestManager: RequestManager;
+	private unsubscribe: (() => void) | null = null;
+	private refreshTimer: number | null = null;
+
+	constructor(el: HTMLElement, requestManager: RequestManager) {
+		this.el = el;
+		this.requestManager = requestManager;
+		this.el.addClass("knowledge-connect-request-status");
+		this.el.addEventListener("click", (e) => this.showMenu(e));
+	}
+
+	/**
+	 * 表示を開始
+	 */
+	start(): void {
+		this.unsubscribe = this.requestManager.onChange(() => this.render());
+		this.render();
+	}
+
+	/**
+	 * 表示を終了
+	 */
+	stop(): void {
+		if (this.unsubscribe) {
+			this.unsubscribe();
+			this.unsubscribe = null;
+		}
+		this.stopRefresh();
+	}
+
+	private render(): void {
+		const requests = this.requestManager.getActiveRequests();
+		if (requests.length === 0) {
+			this.el.empty();
+			this.el.style.display = "none";
+			this.stopRefresh();
+			return;
+		}
+
+		this.el.style.display = "";
+		const oldest = Math.min(...requests.map((request) => request.startedAt));
+		const elapsed = Math.floor((Date.now() - oldest) / 1000);
+		this.el.setText(`⏳ 実行中 ${requests.length}件（${elapsed}秒）`);
+		this.el.setAttr("aria-label", "クリックしてリクエストをキャンセル");
+
+		// 経過時間を更新し続ける
+		if (this.refreshTimer === null) {
+			this.refreshTimer = window.setInterval(() => this.render(), REFRESH_INTERVAL_MS);
+		}
+	}
+
+	private stopRefresh(): void {
+		if (this.refreshTimer !== null) {
+			window.clearInterval(this.refreshTimer);
+			this.refreshTimer = null;
+		}
+	}
+
+	/**
+	 * 実行中のリクエストの一覧とキャンセル操作を表示
+	 */
+	private showMenu(e: MouseEvent): void {
+		const requests = this.requestManager.getActiveRequests();
+		if (requests.length === 0) {
+			return;
+		}
+
+		const menu = new Menu();
+		for (const request of requests) {
+			const elapsed = Math.floor((Date.now() - request.startedAt) / 1000);
+			const kindLabel = request.kind === "ai" ? "AI" : "MCP";
+			menu.addItem((item) =>
+				item
+					.setTitle(`キャンセル: [${kindLabel}] ${request.label}（${elapsed}秒）`)
+					.setIcon("x-circle")
+					.onClick(() => this.requestManager.cancel(request.id))
+			);
+		}
+		menu.addSeparator();
+		menu.addItem((item) =>
+			item
+				.setTitle("すべてキャンセル")
+				.setIcon("x-octagon")
+				.onClick(() => this.requestManager.cancelAll())
+		);
+		menu.showAtMouseEvent(e);
+	}
+}
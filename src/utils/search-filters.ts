@@ -0,0 +1,235 @@
+/**
+ * Search Filters
+ * 検索クエリの絞り込み構文の解析と、検索結果の絞り込み
+ * 例: 「設計方針 tag:project path:work/ after:2025-01-01 type:md」
+ * MCPサーバーが絞り込みに対応していない場合に備えて、受け取った結果もプラグイン側で絞り込む
+ */
+
+import { App, TFile, parseFrontMatterTags } from "obsidian";
+import type { SearchFilters } from "../services/mcp-service";
+
+/**
+ * 絞り込み条件の種類
+ */
+export type SearchFilterKey = "tag" | "path" | "after" | "before" | "type";
+
+/**
+ * クエリ中の絞り込み条件（チップとして表示する単位）
+ */
+export interface SearchFilterToken {
+	key: SearchFilterKey;
+	value: string;
+	raw: string; // クエリ中の文字列（チップを削除する際に使用）
+}
+
+export interface ParsedSearchQuery {
+	query: string; // 絞り込み条件を除いた検索クエリ
+	filters: SearchFilters;
+	tokens: SearchFilterToken[];
+}
+
+/**
+ * 絞り込み条件の表示名
+ */
+export const SEARCH_FILTER_LABELS: Record<SearchFilterKey, string> = {
+	tag: "タグ",
+	path: "パス",
+	after: "更新日（以降）",
+	before: "更新日（以前）",
+	type: "種類",
+};
+
+/**
+ * 入力欄のプレースホルダーなどに表示する構文の説明
+ */
+export const SEARCH_FILTER_SYNTAX_HINT = "tag:タグ path:フォルダ/ after:2025-01-01 before:2025-12-31 type:md で絞り込み";
+
+const FILTER_KEY_ALIASES: Record<string, SearchFilterKey> = {
+	tag: "tag",
+	path: "path",
+	folder: "path",
+	after: "after",
+	before: "before",
+	type: "type",
+	file_type: "type",
+};
+
+const FILTER_TOKEN_PATTERN = /(^|\s)(tag|path|folder|after|before|type|file_type):("[^"]*"|\S+)/gi;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 日付（YYYY-MM-DDはローカル時刻の0時、それ以外はDate.parseで解釈）をミリ秒に変換
+ */
+function parseFilterDate(value: string): number | null {
+	const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (match) {
+		return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+	}
+	const time = Date.parse(value);
+	return isNaN(time) ? null : time;
+}
+
+function normalizeTag(tag: string): string {
+	return tag.replace(/^#/, "").trim().toLowerCase();
+}
+
+function normalizePath(path: string): string {
+	return path.replace(/\\/g, "/").replace(/^\/+/, "").toLowerCase();
+}
+
+/**
+ * クエリから絞り込み条件（tag: path: after: before: type:）を取り出す
+ * 値に空白を含める場合は path:"My Notes/" のように引用符で囲む。解釈できない日付は検索語として残す
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+	const tokens: SearchFilterToken[] = [];
+	const filters: SearchFilters = {};
+
+	const query = input.replace(FILTER_TOKEN_PATTERN, (match: string, prefix: string, name: string, rawValue: string) => {
+		const key = FILTER_KEY_ALIASES[name.toLowerCase()];
+		const value = rawValue.replace(/^"|"$/g, "").trim();
+		if (!value || ((key === "after" || key === "before") && parseFilterDate(value) === null)) {
+			return match;
+		}
+		tokens.push({ key, value, raw: match.trim() });
+		switch (key) {
+			case "tag":
+				filters.tags = [...(filters.tags || []), value.replace(/^#/, "")];
+				break;
+			case "path":
+				filters.path_prefix = [...(filters.path_prefix || []), value.replace(/\\/g, "/").replace(/^\/+/, "")];
+				break;
+			case "after":
+				filters.modified_after = value;
+				break;
+			case "before":
+				filters.modified_before = value;
+				break;
+			case "type":
+				filters.file_types = [...(filters.file_types || []), value.replace(/^\./, "").toLowerCase()];
+				break;
+		}
+		return prefix;
+	}).replace(/\s+/g, " ").trim();
+
+	return { query, filters, tokens };
+}
+
+/**
+ * 絞り込み条件が指定されているか
+ */
+export function hasSearchFilters(filters: SearchFilters | undefined): filters is SearchFilters {
+	return !!filters && (
+		(filters.tags || []).length > 0
+		|| (filters.path_prefix || []).length > 0
+		|| (filters.file_types || []).length > 0
+		|| !!filters.modified_after
+		|| !!filters.modified_before
+	);
+}
+
+/**
+ * ノートのフロントマターのタグ（tags・aigen-tag）を取得（#を除き小文字にする）
+ */
+export function getNoteTags(app: App, file: TFile): string[] {
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+	if (!frontmatter) {
+		return [];
+	}
+	const tags = parseFrontMatterTags(frontmatter) || [];
+	const aigenTags = frontmatter["aigen-tag"];
+	if (Array.isArray(aigenTags)) {
+		tags.push(...aigenTags.map(String));
+	} else if (typeof aigenTags === "string") {
+		tags.push(...aigenTags.split(/[,\s]+/));
+	}
+	return tags.map(normalizeTag).filter((tag) => tag.length > 0);
+}
+
+/**
+ * 検索結果のファイルが絞り込み条件に一致するか
+ * タグ・更新日時の条件はVault内のファイルでのみ確認でき、Vault外のファイルは一致しないものとする
+ * @param filePath Vault内のパス（Vault外のファイルは絶対パス）
+ */
+export function matchesSearchFilters(app: App, filePath: string, filters: SearchFilters): boolean {
+	const path = normalizePath(filePath);
+
+	const fileTypes = filters.file_types || [];
+	if (fileTypes.length > 0) {
+		const extension = (path.match(/\.([^./]+)$/) || ["", ""])[1];
+		if (!fileTypes.some((type) => type.toLowerCase() === extension)) {
+			return false;
+		}
+	}
+
+	// フォルダの区切りで判定する（path:work は work/ 以下と work に一致し、workshop/ には一致しない）
+	const prefixes = (filters.path_prefix || []).map((prefix) => normalizePath(prefix).replace(/\/+$/, ""));
+	if (prefixes.length > 0 && !prefixes.some((prefix) => !prefix || path === prefix || path.startsWith(`${prefix}/`))) {
+		return false;
+	}
+
+	const tags = (filters.tags || []).map(normalizeTag);
+	if (tags.length === 0 && !filters.modified_after && !filters.modified_before) {
+		return true;
+	}
+	const file = app.vault.getAbstractFileByPath(filePath.replace(/\\/g, "/"));
+	if (!(file instanceof TFile)) {
+		return false;
+	}
+
+	// 階層のあるタグは上位のタグでも一致する（tag:project は project/web にも一致）
+	if (tags.length > 0) {
+		const noteTags = getNoteTags(app, file);
+		if (!tags.some((tag) => noteTags.some((noteTag) => noteTag === tag || noteTag.startsWith(`${tag}/`)))) {
+			return false;
+		}
+	}
+
+	const after = filters.modified_after ? parseFilterDate(filters.modified_after) : null;
+	if (after !== null && file.stat.mtime < after) {
+		return false;
+	}
+	// 日付のみの指定はその日の終わりまでを含める
+	const before = filters.modified_before ? parseFilterDate(filters.modified_before) : null;
+	if (before !== null) {
+		const end = /^\d{4}-\d{2}-\d{2}$/.test(filters.modified_before as string) ? before + DAY_MS : before + 1;
+		if (file.stat.mtime >= end) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * クエリの絞り込み条件をチップとして表示し、チップの削除ボタンで入力欄から条件を取り除く
+ * 入力欄の内容が変わるたびに表示を更新する
+ * @returns 表示を更新する関数（入力欄の内容をプログラムから変更した場合に呼び出す）
+ */
+export function attachSearchFilterChips(
+	containerEl: HTMLElement,
+	inputEl: HTMLInputElement | HTMLTextAreaElement
+): () => void {
+	const render = () => {
+		containerEl.empty();
+		const { tokens } = parseSearchQuery(inputEl.value);
+		containerEl.toggleClass("is-empty", tokens.length === 0);
+		for (const token of tokens) {
+			const chip = containerEl.createSpan({ cls: "knowledge-connect-filter-chip" });
+			chip.createSpan({ text: `${SEARCH_FILTER_LABELS[token.key]}: ${token.value}` });
+			const removeButton = chip.createEl("button", {
+				text: "×",
+				cls: "knowledge-connect-filter-chip-remove",
+				attr: { "aria-label": "条件を削除" },
+			});
+			removeButton.onclick = () => {
+				inputEl.value = inputEl.value.replace(token.raw, "").replace(/\s{2,}/g, " ").trim();
+				render();
+				inputEl.focus();
+			};
+		}
+	};
+	inputEl.addEventListener("input", render);
+	render();
+	return render;
+}
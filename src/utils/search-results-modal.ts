@@ -5,6 +5,7 @@
 
 import { App, Modal } from "obsidian";
 import type { SearchResult } from "../services/mcp-service";
+import { formatHeadingPath } from "./text-processor";
 
 export class SearchResultsModal extends Modal {
 	private results: SearchResult[];
@@ -39,6 +40,14 @@ export class SearchResultsModal extends Modal {
 			const filePath = resultItem.createEl("div", { cls: "mcp-search-file-path" });
 			filePath.createEl("strong", { text: `${index + 1}. ${result.file_path}` });
 
+			// 見出しの階層
+			if (result.heading_path && result.heading_path.length > 0) {
+				resultItem.createEl("div", {
+					cls: "mcp-search-heading-path",
+					text: formatHeadingPath(result.file_path, result.heading_path),
+				});
+			}
+
 			// ファイルタイプと場所情報
 			const metaInfo = resultItem.createEl("div", { cls: "mcp-search-meta" });
 			metaInfo.createEl("span", { text: `タイプ: ${result.file_type}` });
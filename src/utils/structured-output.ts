@@ -0,0 +1,295 @@
+/**
+ * Structured Output
+ * AIの応答をJSON Schemaに従った型付きオブジェクトとして取得する
+ * プロバイダーが応答形式の指定に対応していない場合も、検証と修正依頼の再試行で結果を得る
+ */
+
+import {
+	AIService,
+	ChatCompletionOptions,
+	ChatMessage,
+	JSONSchema,
+	getMessageText,
+} from "../services/ai-service-interface";
+import { ValidationError } from "./errors";
+
+/**
+ * 構造化出力の定義
+ */
+export interface StructuredOutputFormat {
+	name: string; // スキーマ名（response_formatのnameに使用）
+	schema: JSONSchema;
+}
+
+/**
+ * タグ生成の応答
+ */
+export interface TagsResult {
+	tags: string[];
+}
+
+export const TAGS_FORMAT: StructuredOutputFormat = {
+	name: "tags",
+	schema: {
+		type: "object",
+		properties: {
+			tags: {
+				type: "array",
+				description: "記事の主要なトピックやキーワードを表すタグ（最大10個）",
+				items: { type: "string" },
+				maxItems: 10,
+			},
+		},
+		required: ["tags"],
+		additionalProperties: false,
+	},
+};
+
+/**
+ * タイトル生成の応答
+ */
+export interface TitleResult {
+	title: string;
+}
+
+export const TITLE_FORMAT: StructuredOutputFormat = {
+	name: "title",
+	schema: {
+		type: "object",
+		properties: {
+			title: {
+				type: "string",
+				description: "30文字以内の日本語のタイトル（ファイル名に使用できない文字を含まない）",
+				maxLength: 30,
+			},
+		},
+		required: ["title"],
+		additionalProperties: false,
+	},
+};
+
+/**
+ * 形式が不正だった場合に修正を依頼する最大回数
+ */
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * 応答形式の指定に対応していないプロバイダーのエラーか判定
+ */
+function isResponseFormatRejected(error: unknown): boolean {
+	if (error instanceof ValidationError) {
+		return error.status === 400 || error.status === 422;
+	}
+	const message = error instanceof Error ? error.message : String(error);
+	return /エラー: (400|422)\b/.test(message);
+}
+
+/**
+ * システムプロンプトに出力形式の指示を追加
+ */
+function withSchemaInstruction(messages: ChatMessage[], format: StructuredOutputFormat): ChatMessage[] {
+	const instruction =
+		"出力は次のJSON Schemaに従ったJSONオブジェクトのみとしてください。コードブロックや説明文は付けないでください。\n" +
+		JSON.stringify(format.schema);
+
+	const systemIndex = messages.findIndex((msg) => msg.role === "system");
+	if (systemIndex === -1) {
+		return [{ role: "system", content: instruction }, ...messages];
+	}
+	return messages.map((msg, index) =>
+		index === systemIndex ? { ...msg, content: `${getMessageText(msg.content)}\n\n${instruction}` } : msg
+	);
+}
+
+/**
+ * 応答テキストからJSONを取り出して解析
+ * コードブロックで囲まれた場合や前後に説明文が付いた場合も解析する
+ */
+export function parseJsonResponse(content: string): unknown {
+	const text = content
+		.trim()
+		.replace(/^```(?:json)?\s*/i, "")
+		.replace(/\s*```$/, "")
+		.trim();
+
+	try {
+		return JSON.parse(text);
+	} catch {
+		// 本文中の最初のJSONオブジェクト（または配列）を探す
+		const match = text.match(/[{[][\s\S]*[}\]]/);
+		if (!match) {
+			throw new Error("応答にJSONが含まれていません。");
+		}
+		return JSON.parse(match[0]);
+	}
+}
+
+/**
+ * 値がスキーマに従っているか検証し、問題点のリストを返す
+ * 型・必須プロパティ・列挙値のみを検証し、長さや個数の上限は呼び出し元で調整する
+ */
+export function validateJsonSchema(value: unknown, schema: JSONSchema, path = "$"): string[] {
+	const errors: string[] = [];
+
+	if (schema.enum && !schema.enum.includes(value as string | number)) {
+		errors.push(`${path} は ${schema.enum.join(", ")} のいずれかである必要があります`);
+	}
+
+	switch (schema.type) {
+		case "object": {
+			if (typeof value !== "object" || value === null || Array.isArray(value)) {
+				errors.push(`${path} はオブジェクトである必要があります`);
+				break;
+			}
+			const record = value as Record<string, unknown>;
+			for (const key of schema.required || []) {
+				if (record[key] === undefined) {
+					errors.push(`${path}.${key} がありません`);
+				}
+			}
+			for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+				if (record[key] !== undefined) {
+					errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+				}
+			}
+			break;
+		}
+		case "array":
+			if (!Array.isArray(value)) {
+				errors.push(`${path} は配列である必要があります`);
+				break;
+			}
+			if (schema.items) {
+				const itemSchema = schema.items;
+				value.forEach((item, index) => {
+					errors.push(...validateJsonSchema(item, itemSchema, `${path}[${index}]`));
+				});
+			}
+			break;
+		case "string":
+			if (typeof value !== "string") {
+				errors.push(`${path} は文字列である必要があります`);
+			}
+			break;
+		case "number":
+			if (typeof value !== "number") {
+				errors.push(`${path} は数値である必要があります`);
+			}
+			break;
+		case "integer":
+			if (typeof value !== "number" || !Number.isInteger(value)) {
+				errors.push(`${path} は整数である必要があります`);
+			}
+			break;
+		case "boolean":
+			if (typeof value !== "boolean") {
+				errors.push(`${path} は真偽値である必要があります`);
+			}
+			break;
+		case "null":
+			if (value !== null) {
+				errors.push(`${path} はnullである必要があります`);
+			}
+			break;
+	}
+
+	return errors;
+}
+
+/**
+ * 構造化出力の結果
+ */
+export interface StructuredOutputResult<T> {
+	data: T;
+	cached: boolean; // 応答キャッシュから取得した場合true
+}
+
+/**
+ * AIに構造化出力を要求し、検証済みのオブジェクトを返す
+ * 応答形式の指定を拒否された場合は指定なしで再送し、形式が不正な場合は修正を依頼して再試行する
+ */
+export async function requestStructuredOutput<T>(
+	aiService: AIService,
+	options: ChatCompletionOptions,
+	format: StructuredOutputFormat,
+	maxRepairAttempts: number = DEFAULT_MAX_REPAIR_ATTEMPTS
+): Promise<T> {
+	const result = await requestStructuredOutputWithCacheInfo<T>(aiService, options, format, maxRepairAttempts);
+	return result.data;
+}
+
+/**
+ * AIに構造化出力を要求し、検証済みのオブジェクトと応答キャッシュの使用有無を返す
+ */
+export async function requestStructuredOutputWithCacheInfo<T>(
+	aiService: AIService,
+	options: ChatCompletionOptions,
+	format: StructuredOutputFormat,
+	maxRepairAttempts: number = DEFAULT_MAX_REPAIR_ATTEMPTS
+): Promise<StructuredOutputResult<T>> {
+	let messages = withSchemaInstruction(options.messages, format);
+	let useResponseFormat = true;
+	let cacheMode = options.cache;
+	let lastError = "";
+
+	for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+		let content: string;
+		let cached = false;
+		try {
+			const response = await aiService.chatCompletion({
+				...options,
+				messages,
+				responseFormat: useResponseFormat
+					? { type: "json_schema", name: format.name, schema: format.schema }
+					: undefined,
+				cache: cacheMode,
+			});
+			content = response.content;
+			cached = response.cached === true;
+		} catch (error) {
+			if (useResponseFormat && isResponseFormatRejected(error)) {
+				console.warn("[Structured Output] 応答形式の指定が拒否されたため、指定なしで再試行します:", error);
+				useResponseFormat = false;
+				attempt--;
+				continue;
+			}
+			throw error;
+		}
+
+		let errors: string[];
+		let data: unknown = undefined;
+		try {
+			data = parseJsonResponse(content);
+			errors = validateJsonSchema(data, format.schema);
+		} catch (error) {
+			errors = [error instanceof Error ? error.message : String(error)];
+		}
+
+		if (errors.length === 0) {
+			return { data: data as T, cached };
+		}
+
+		// キャッシュされていた応答が不正な場合は、キャッシュを使用せずに同じ内容で再試行
+		if (cached) {
+			console.warn("[Structured Output] キャッシュされた応答の形式が不正なため、再生成します");
+			cacheMode = "refresh";
+			attempt--;
+			continue;
+		}
+
+		lastError = errors.join("、");
+		console.warn(`[Structured Output] 応答の形式が不正です（${attempt + 1}回目）: ${lastError}`);
+
+		// 不正な応答と問題点を伝えて修正を依頼
+		messages = [
+			...messages,
+			{ role: "assistant", content },
+			{
+				role: "user",
+				content: `前の応答は指定された形式ではありません（${lastError}）。JSON Schemaに従ったJSONオブジェクトのみを出力し直してください。`,
+			},
+		];
+	}
+
+	throw new Error(`AIの応答を指定された形式で解析できませんでした: ${lastError}`);
+}
@@ -15,6 +15,8 @@ export interface SummarizePageResult {
 	prompt: string;
 	model: string;
 	saveLocation: SaveLocation;
+	includeImages: boolean; // ページに埋め込まれた画像も送信する
+	refreshCache: boolean; // 応答キャッシュを使用せずに再生成する
 	cancelled: boolean;
 }
 
@@ -23,6 +25,8 @@ export class SummarizePageModal extends Modal {
 		prompt: "",
 		model: "",
 		saveLocation: "new-page",
+		includeImages: false,
+		refreshCache: false,
 		cancelled: true,
 	};
 	onSubmit: (result: SummarizePageResult) => void;
@@ -45,6 +49,7 @@ export class SummarizePageModal extends Modal {
 		
 		// デフォルトモデルを設定
 		this.result.model = settings.defaultSummaryModel || settings.aiModel || "";
+		this.result.includeImages = settings.summaryIncludeImages ?? false;
 		
 		// デフォルトテンプレートを選択（最初のテンプレート）
 		if (this.templates.length > 0) {
@@ -200,6 +205,26 @@ export class SummarizePageModal extends Modal {
 					});
 			});
 
+		new Setting(saveLocationSection)
+			.setName("埋め込み画像を含める")
+			.setDesc("ページに埋め込まれた画像もAIに送信します（画像入力に対応したモデルが必要です）")
+			.addToggle((toggle) => {
+				toggle.setValue(this.result.includeImages).onChange((value) => {
+					this.result.includeImages = value;
+				});
+			});
+
+		if (this.settings.enableResponseCache) {
+			new Setting(saveLocationSection)
+				.setName("キャッシュを使わずに再生成")
+				.setDesc("同じページ・プロンプト・モデルの要約がキャッシュされていても、AIで要約し直します")
+				.addToggle((toggle) => {
+					toggle.setValue(this.result.refreshCache).onChange((value) => {
+						this.result.refreshCache = value;
+					});
+				});
+		}
+
 		// ボタン
 		new Setting(contentEl).addButton((button) => {
 			button
@@ -254,8 +279,8 @@ export class SummarizePageModal extends Modal {
 				{ value: "openai/gpt-5.1", label: "OpenAI GPT-5.1" },
 				{ value: "anthropic/claude-sonnet-4.5", label: "Anthropic Claude Sonnet 4.5" },
 			];
-		} else if (this.settings.aiService === "litellm") {
-			// LiteLLMの場合は設定されているモデルをデフォルトとして使用
+		} else {
+			// LiteLLM・OpenAI互換API・Ollamaの場合は設定されているモデルをデフォルトとして使用
 			// 実際のモデルリストは動的に取得する必要があるが、ここでは簡易的にデフォルトモデルを使用
 			this.availableModels = [
 				{ value: this.settings.aiModel || "", label: this.settings.aiModel || "デフォルトモデル" },
@@ -88,6 +88,365 @@ export function chunkText(text: string, maxChunkSize: number = 8000): string[] {
 	return chunks;
 }
 
+/**
+ * 見出し単位で分割したチャンク
+ */
+export interface MarkdownChunk {
+	text: string; // ノートの元のテキスト（Markdownのまま）
+	headings: string[]; // チャンクが属する見出しの階層（上位の見出しから順）
+	startLine: number; // 開始行（1始まり、フロントマターを含むノートの先頭から数える）
+	endLine: number; // 終了行（1始まり、この行を含む）
+	tokens: number; // 概算のトークン数
+}
+
+export interface MarkdownChunkOptions {
+	chunkSize?: number; // 1チャンクの最大トークン数（デフォルト: 512）
+	chunkOverlap?: number; // 前のチャンクと重ねるトークン数（デフォルト: 50）
+}
+
+/**
+ * 分割しないMarkdownのブロック（見出し・段落・リスト・コードブロック・表・引用/コールアウト）
+ * start・endは0始まりの行番号（endを含む）
+ */
+interface MarkdownBlock {
+	type: 'heading' | 'paragraph' | 'list' | 'code' | 'table' | 'quote';
+	start: number;
+	end: number;
+	tokens: number;
+	columns?: { from: number; to: number }; // 1行を区切った場合の行内の文字位置（toを含まない）
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const CJK_CHAR_PATTERN = /[\u3040-\u30FF\u3400-\u9FFF\uF900-\uFAFF\uFF66-\uFF9F]/;
+
+/**
+ * 見出し行であれば見出しのレベルとテキストを取得
+ */
+function parseHeading(line: string): { level: number; text: string } | null {
+	const match = line.match(HEADING_PATTERN);
+	if (!match) {
+		return null;
+	}
+	return { level: match[1].length, text: match[2].trim() };
+}
+
+/**
+ * フロントマターの次の行の番号（フロントマターがない場合は0）
+ */
+function getBodyStartLine(lines: string[]): number {
+	if (lines.length === 0 || lines[0].trim() !== '---') {
+		return 0;
+	}
+	for (let i = 1; i < lines.length; i++) {
+		if (lines[i].trim() === '---') {
+			return i + 1;
+		}
+	}
+	return 0;
+}
+
+/**
+ * コードブロックの終了行を取得（閉じられていない場合は最終行）
+ */
+function findFenceEnd(lines: string[], start: number): number {
+	const fence = (lines[start].match(FENCE_PATTERN) as RegExpMatchArray)[1];
+	for (let i = start + 1; i < lines.length; i++) {
+		const match = lines[i].trim().match(/^(`{3,}|~{3,})$/);
+		if (match && match[1][0] === fence[0] && match[1].length >= fence.length) {
+			return i;
+		}
+	}
+	return lines.length - 1;
+}
+
+/**
+ * テキストのトークン数を概算
+ * 日本語（かな・漢字）は1文字1トークン、それ以外は4文字1トークンとして数える
+ */
+export function estimateTokenCount(text: string): number {
+	const cjk = text.match(new RegExp(CJK_CHAR_PATTERN.source, 'g'));
+	const cjkCount = cjk ? cjk.length : 0;
+	return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+/**
+ * 行をブロックに分割（コードブロック・表・リスト・引用/コールアウトは途中で区切らない）
+ */
+function parseBlocks(lines: string[], bodyStart: number): MarkdownBlock[] {
+	const blocks: MarkdownBlock[] = [];
+	const isBlank = (index: number) => lines[index].trim() === '';
+	const isTableLine = (index: number) => lines[index].trim().startsWith('|');
+	const isQuoteLine = (index: number) => lines[index].trim().startsWith('>');
+	// 段落を終了させる行（別の種類のブロックの開始）
+	const startsBlock = (index: number) =>
+		parseHeading(lines[index]) !== null
+		|| FENCE_PATTERN.test(lines[index])
+		|| isTableLine(index)
+		|| isQuoteLine(index)
+		|| LIST_ITEM_PATTERN.test(lines[index]);
+
+	let i = bodyStart;
+	while (i < lines.length) {
+		if (isBlank(i)) {
+			i++;
+			continue;
+		}
+		const start = i;
+		let type: MarkdownBlock['type'];
+		if (parseHeading(lines[i])) {
+			type = 'heading';
+		} else if (FENCE_PATTERN.test(lines[i])) {
+			type = 'code';
+			i = findFenceEnd(lines, i);
+		} else if (isTableLine(i)) {
+			type = 'table';
+			while (i + 1 < lines.length && isTableLine(i + 1)) {
+				i++;
+			}
+		} else if (isQuoteLine(i)) {
+			type = 'quote';
+			while (i + 1 < lines.length && isQuoteLine(i + 1)) {
+				i++;
+			}
+		} else if (LIST_ITEM_PATTERN.test(lines[i])) {
+			type = 'list';
+			// 項目の続きの行（インデントされた行）と、空行を挟んで続く項目もリストに含める
+			while (i + 1 < lines.length) {
+				if (!isBlank(i + 1) && (LIST_ITEM_PATTERN.test(lines[i + 1]) || /^\s+\S/.test(lines[i + 1]))) {
+					i++;
+				} else if (isBlank(i + 1) && i + 2 < lines.length && LIST_ITEM_PATTERN.test(lines[i + 2])) {
+					i += 2;
+				} else {
+					break;
+				}
+			}
+		} else {
+			type = 'paragraph';
+			while (i + 1 < lines.length && !isBlank(i + 1) && !startsBlock(i + 1)) {
+				i++;
+			}
+		}
+		blocks.push({ type, start, end: i, tokens: estimateTokenCount(lines.slice(start, i + 1).join('\n')) });
+		i++;
+	}
+	return blocks;
+}
+
+/**
+ * 文を文字数で分割（英文などは単語の途中で区切らないよう、できるだけ直前の空白で区切る）
+ */
+function splitByLength(line: string, range: { from: number; to: number }, chunkSize: number): Array<{ from: number; to: number }> {
+	const charTokens = (char: string) => (CJK_CHAR_PATTERN.test(char) ? 1 : 0.25);
+	const ranges: Array<{ from: number; to: number }> = [];
+	let from = range.from;
+	let tokens = 0;
+	for (let i = range.from; i < range.to; i++) {
+		const tokensOfChar = charTokens(line[i]);
+		if (i > from && tokens + tokensOfChar > chunkSize) {
+			const space = line.lastIndexOf(' ', i - 1);
+			const cut = space > from + (i - from) / 2 ? space + 1 : i;
+			ranges.push({ from, to: cut });
+			from = cut;
+			tokens = 0;
+			for (let j = cut; j < i; j++) {
+				tokens += charTokens(line[j]);
+			}
+		}
+		tokens += tokensOfChar;
+	}
+	ranges.push({ from, to: range.to });
+	return ranges;
+}
+
+/**
+ * チャンクサイズを超える1行を文の区切りで分割し、それでも超える文は文字数で分割
+ */
+function splitLongLine(line: string, chunkSize: number): Array<{ from: number; to: number }> {
+	// 句点・感嘆符・疑問符（閉じ括弧を含む）と、空白が続くピリオドを文の終わりとする
+	const sentenceEndPattern = /(?:[。．！？!?]+[」』）)"']*|\.(?=\s))\s*/g;
+	const sentences: Array<{ from: number; to: number }> = [];
+	let from = 0;
+	let match: RegExpExecArray | null;
+	while ((match = sentenceEndPattern.exec(line)) !== null) {
+		const to = match.index + match[0].length;
+		sentences.push({ from, to });
+		from = to;
+	}
+	if (from < line.length) {
+		sentences.push({ from, to: line.length });
+	}
+
+	// 文をチャンクサイズまでまとめる
+	const ranges: Array<{ from: number; to: number }> = [];
+	let current: { from: number; to: number } | null = null;
+	let currentTokens = 0;
+	for (const sentence of sentences) {
+		const parts = estimateTokenCount(line.substring(sentence.from, sentence.to)) > chunkSize
+			? splitByLength(line, sentence, chunkSize)
+			: [sentence];
+		for (const part of parts) {
+			const partTokens = estimateTokenCount(line.substring(part.from, part.to));
+			if (current && currentTokens + partTokens > chunkSize) {
+				ranges.push(current);
+				current = null;
+				currentTokens = 0;
+			}
+			current = current ? { from: current.from, to: part.to } : { from: part.from, to: part.to };
+			currentTokens += partTokens;
+		}
+	}
+	if (current) {
+		ranges.push(current);
+	}
+	return ranges;
+}
+
+/**
+ * チャンクサイズを超えるブロックを行単位で分割（1行でチャンクサイズを超える場合は行の途中で区切る）
+ */
+function splitLargeBlock(lines: string[], block: MarkdownBlock, chunkSize: number): MarkdownBlock[] {
+	const pieces: MarkdownBlock[] = [];
+	let start = block.start;
+	let tokens = 0;
+	for (let i = block.start; i <= block.end; i++) {
+		const lineTokens = estimateTokenCount(lines[i]) + 1;
+		if (lineTokens > chunkSize) {
+			if (i > start) {
+				pieces.push({ type: block.type, start, end: i - 1, tokens });
+			}
+			for (const columns of splitLongLine(lines[i], chunkSize)) {
+				const text = lines[i].substring(columns.from, columns.to);
+				pieces.push({ type: block.type, start: i, end: i, tokens: estimateTokenCount(text), columns });
+			}
+			start = i + 1;
+			tokens = 0;
+			continue;
+		}
+		if (i > start && tokens + lineTokens > chunkSize) {
+			pieces.push({ type: block.type, start, end: i - 1, tokens });
+			start = i;
+			tokens = 0;
+		}
+		tokens += lineTokens;
+	}
+	if (start <= block.end) {
+		pieces.push({ type: block.type, start, end: block.end, tokens });
+	}
+	return pieces;
+}
+
+/**
+ * Markdownを見出しの構造に沿ってチャンクに分割
+ * 見出しごとに新しいチャンクを始め、セクションがchunkSizeを超える場合はブロックの境界で区切る（1行で超える場合は文・文字数で区切る）
+ * 同じセクション内で区切った場合は、前のチャンクの末尾のブロックをchunkOverlapの範囲で重ねる
+ */
+export function chunkMarkdown(content: string, options: MarkdownChunkOptions = {}): MarkdownChunk[] {
+	const chunkSize = Math.max(options.chunkSize || 512, 1);
+	const chunkOverlap = Math.min(Math.max(options.chunkOverlap ?? 50, 0), chunkSize - 1);
+	const lines = content.split('\n');
+	const chunks: MarkdownChunk[] = [];
+	const headingStack: Array<{ level: number; text: string }> = [];
+	let current: MarkdownBlock[] = [];
+	let currentTokens = 0;
+
+	const flush = () => {
+		// 見出しだけのチャンクは作らない
+		if (current.some((block) => block.type !== 'heading')) {
+			const first = current[0];
+			const last = current[current.length - 1];
+			// 行の途中で区切ったブロックは、その文字位置から（まで）を含める
+			const selected = lines.slice(first.start, last.end + 1);
+			if (last.columns) {
+				selected[selected.length - 1] = selected[selected.length - 1].substring(0, last.columns.to);
+			}
+			if (first.columns) {
+				selected[0] = selected[0].substring(first.columns.from);
+			}
+			chunks.push({
+				text: selected.join('\n').trim(),
+				headings: headingStack.map((heading) => heading.text),
+				startLine: first.start + 1,
+				endLine: last.end + 1,
+				tokens: currentTokens,
+			});
+		}
+	};
+
+	for (const block of parseBlocks(lines, getBodyStartLine(lines))) {
+		if (block.type === 'heading') {
+			flush();
+			const heading = parseHeading(lines[block.start]) as { level: number; text: string };
+			while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= heading.level) {
+				headingStack.pop();
+			}
+			headingStack.push(heading);
+			current = [block];
+			currentTokens = block.tokens;
+			continue;
+		}
+
+		const pieces = block.tokens > chunkSize ? splitLargeBlock(lines, block, chunkSize) : [block];
+		for (const piece of pieces) {
+			// 見出しの直後のブロックは、サイズを超えても見出しと同じチャンクにする
+			if (current.some((previous) => previous.type !== 'heading') && currentTokens + piece.tokens > chunkSize) {
+				flush();
+				// 末尾のブロックを重ねて次のチャンクを始める（見出しは重ねない）
+				const overlap: MarkdownBlock[] = [];
+				let overlapTokens = 0;
+				for (let i = current.length - 1; i >= 0; i--) {
+					const previous = current[i];
+					if (previous.type === 'heading' || overlapTokens + previous.tokens > chunkOverlap
+						|| overlapTokens + previous.tokens + piece.tokens > chunkSize) {
+						break;
+					}
+					overlap.unshift(previous);
+					overlapTokens += previous.tokens;
+				}
+				current = overlap;
+				currentTokens = overlapTokens;
+			}
+			current.push(piece);
+			currentTokens += piece.tokens;
+		}
+	}
+	flush();
+	return chunks;
+}
+
+/**
+ * 指定した行が属する見出しの階層を取得（上位の見出しから順）
+ * @param lines ノートの行（フロントマターを含む）
+ * @param lineIndex 0始まりの行番号
+ */
+export function getHeadingPath(lines: string[], lineIndex: number): string[] {
+	const headingStack: Array<{ level: number; text: string }> = [];
+	let inFence = false;
+	for (let i = getBodyStartLine(lines); i <= lineIndex && i < lines.length; i++) {
+		if (FENCE_PATTERN.test(lines[i])) {
+			inFence = !inFence;
+			continue;
+		}
+		const heading = inFence ? null : parseHeading(lines[i]);
+		if (heading) {
+			while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= heading.level) {
+				headingStack.pop();
+			}
+			headingStack.push(heading);
+		}
+	}
+	return headingStack.map((heading) => heading.text);
+}
+
+/**
+ * ノート名と見出しの階層を「ノート › セクション › サブセクション」の形式にする
+ */
+export function formatHeadingPath(filePath: string, headings: string[] = []): string {
+	const noteName = (filePath.split(/[\\/]/).pop() || filePath).replace(/\.md$/, '');
+	return [noteName, ...headings].join(' › ');
+}
+
 /**
  * ファイル名からタイトルを抽出
  */
@@ -5,6 +5,7 @@
 
 import { App, Modal, Setting } from "obsidian";
 import type { AIService } from "../services/ai-service-interface";
+import { requestStructuredOutput, TITLE_FORMAT, type TitleResult } from "./structured-output";
 
 /**
  * デフォルトタイトルを生成（AIとの会話_yyyymmddHHMMSS形式）
@@ -20,6 +21,18 @@ export function generateDefaultTitle(): string {
 	return `AIとの会話_${year}${month}${day}${hours}${minutes}${seconds}`;
 }
 
+/**
+ * AIが生成したタイトルをファイル名として使用できる形式に整える
+ */
+export function sanitizeGeneratedTitle(title: string): string {
+	return title
+		.replace(/[<>:"|?*/\\]/g, "") // ファイル名として使用できない文字を削除
+		.replace(/\s+/g, " ")
+		.replace(/^「|」$/g, "") // 引用符を削除
+		.trim()
+		.slice(0, 50); // 最大50文字
+}
+
 export interface TitleInputResult {
 	title: string;
 	useAI: boolean;
@@ -142,38 +155,28 @@ export class TitleInputDialog extends Modal {
 				.join("\n")
 				.slice(0, 500); // 最初の500文字のみ
 
-			const response = await this.aiService.chatCompletion({
-				messages: [
-					{
-						role: "system",
-						content:
-							"あなたはタイトル生成アシスタントです。与えられたチャット履歴の内容を分析して、適切なタイトルを1つだけ生成してください。タイトルは30文字以内で、日本語で、ファイル名として使用できる形式（特殊文字なし）で出力してください。タイトル以外の説明や補足は不要です。",
-					},
-					{
-						role: "user",
-						content: `以下のチャット履歴から適切なタイトルを生成してください：\n\n${previewText}`,
-					},
-				],
-				maxTokens: 50,
-				model: this.selectedModel,
-			});
-
-			let generatedTitle = response.content.trim();
-			
-			// 改行で分割して最初の行を取得（タイトル以外の説明が含まれる場合があるため）
-			const firstLine = generatedTitle.split("\n")[0].trim();
-			if (firstLine) {
-				generatedTitle = firstLine;
-			}
-			
-			// ファイル名として使用できない文字を削除
-			generatedTitle = generatedTitle
-				.replace(/[<>:"|?*\/\\]/g, "")
-				.replace(/\n/g, " ")
-				.replace(/^タイトル[:：]\s*/i, "") // 「タイトル:」などのプレフィックスを削除
-				.replace(/^「|」$/g, "") // 引用符を削除
-				.trim()
-				.slice(0, 50); // 最大50文字
+			const result = await requestStructuredOutput<TitleResult>(
+				this.aiService,
+				{
+					feature: "title",
+					messages: [
+						{
+							role: "system",
+							content:
+								"あなたはタイトル生成アシスタントです。与えられたチャット履歴の内容を分析して、適切なタイトルを1つだけ生成してください。タイトルは30文字以内で、日本語で、ファイル名として使用できる形式（特殊文字なし）にしてください。",
+						},
+						{
+							role: "user",
+							content: `以下のチャット履歴から適切なタイトルを生成してください：\n\n${previewText}`,
+						},
+					],
+					maxTokens: 50,
+					model: this.selectedModel,
+				},
+				TITLE_FORMAT
+			);
+
+			const generatedTitle = sanitizeGeneratedTitle(result.title);
 
 			if (generatedTitle && this.titleInputEl) {
 				this.result.title = generatedTitle;
@@ -181,7 +184,7 @@ export class TitleInputDialog extends Modal {
 				this.titleInputEl.value = generatedTitle;
 			} else {
 				// タイトルが生成されなかった場合
-				console.warn("タイトルが生成されませんでした。レスポンス:", response.content);
+				console.warn("タイトルが生成されませんでした。レスポンス:", result);
 			}
 		} catch (error) {
 			console.error("タイトル生成エラー:", error);
@@ -0,0 +1,78 @@
+/**
+ * Tool Confirm Dialog
+ * AIがVaultへの書き込みツールを呼び出す前の確認ダイアログ
+ */
+
+import { App, Modal, Setting } from "obsidian";
+
+export class ToolConfirmDialog extends Modal {
+	private title: string;
+	private description: string;
+	private preview: string;
+	private onResult: (approved: boolean) => void;
+	private approved = false;
+
+	constructor(
+		app: App,
+		title: string,
+		description: string,
+		preview: string,
+		onResult: (approved: boolean) => void
+	) {
+		super(app);
+		this.title = title;
+		this.description = description;
+		this.preview = preview;
+		this.onResult = onResult;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: this.title });
+		contentEl.createEl("p", { text: this.description });
+
+		// 書き込まれる内容のプレビュー
+		if (this.preview) {
+			const previewEl = contentEl.createEl("pre", { cls: "tool-confirm-preview" });
+			previewEl.textContent = this.preview;
+		}
+
+		new Setting(contentEl)
+			.addButton((button) => {
+				button
+					.setButtonText("許可")
+					.setCta()
+					.onClick(() => {
+						this.approved = true;
+						this.close();
+					});
+			})
+			.addButton((button) => {
+				button.setButtonText("拒否").onClick(() => {
+					this.close();
+				});
+			});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.onResult(this.approved);
+	}
+}
+
+/**
+ * 確認ダイアログを表示し、ユーザーの選択を待つ
+ */
+export function confirmToolCall(
+	app: App,
+	title: string,
+	description: string,
+	preview: string
+): Promise<boolean> {
+	return new Promise((resolve) => {
+		new ToolConfirmDialog(app, title, description, preview, resolve).open();
+	});
+}
@@ -0,0 +1,55 @@
+/**
+ * Vault Paths
+ * Vault内のパスと、MCPサーバーとやり取りする絶対パスの変換
+ * サーバーはインデックス作成時に渡した絶対パス（Vaultのパス + Vault内のパス）でファイルを識別する
+ * 共有サーバーなど別の場所でVaultをインデックスしたサーバーでは、そのサーバー上のVaultのパス（serverRoot）を使用する
+ */
+
+import { App, FileSystemAdapter } from "obsidian";
+
+/**
+ * Vaultの絶対パスを取得（区切り文字は/、末尾の/なし）
+ * ファイルシステム上にないVault（モバイル版など）では空文字を返す
+ */
+export function getVaultBasePath(app: App): string {
+	const adapter = app.vault.adapter;
+	if (!(adapter instanceof FileSystemAdapter)) {
+		return "";
+	}
+	return adapter.getBasePath().replace(/\\/g, "/").replace(/\/+$/, "");
+}
+
+/**
+ * サーバー上のVaultのパスを取得（serverRootが空の場合はこの端末のVaultのパス）
+ */
+function getServerBasePath(app: App, serverRoot?: string): string {
+	const root = (serverRoot || "").trim().replace(/\\/g, "/").replace(/\/+$/, "");
+	return root || getVaultBasePath(app);
+}
+
+/**
+ * Vault内のパスをサーバーに渡す絶対パスに変換（空文字はVault自体のパス）
+ * @param serverRoot サーバー上のVaultのパス（空の場合はこの端末のVaultのパス）
+ */
+export function toServerPath(app: App, vaultPath: string, serverRoot?: string): string {
+	const basePath = getServerBasePath(app, serverRoot);
+	const path = vaultPath.replace(/\\/g, "/").replace(/^\/+/, "");
+	if (!basePath) {
+		return path;
+	}
+	return path ? `${basePath}/${path}` : basePath;
+}
+
+/**
+ * サーバーが返すパスをVault内のパスに変換
+ * 相対パスはVault内のパスとみなし、Vault外の絶対パスの場合はnullを返す
+ * @param serverRoot サーバー上のVaultのパス（空の場合はこの端末のVaultのパス）
+ */
+export function toVaultPath(app: App, serverPath: string, serverRoot?: string): string | null {
+	const path = serverPath.replace(/\\/g, "/");
+	const basePath = getServerBasePath(app, serverRoot);
+	if (basePath && (path === basePath || path.startsWith(`${basePath}/`))) {
+		return path.substring(basePath.length + 1);
+	}
+	return path.startsWith("/") || /^[a-zA-Z]:\//.test(path) ? null : path;
+}
@@ -5,18 +5,38 @@
 
 import { ItemView, MarkdownRenderer, MarkdownView, WorkspaceLeaf } from "obsidian";
 import KnowledgeConnectPlugin from "../main";
-import type { ChatMessage } from "../services/ai-service-interface";
+import { getMessageText, type ChatCompletionResponse, type ChatMessage, type ToolCall, type ToolDefinition } from "../services/ai-service-interface";
 import { showError, showInfo, showSuccess } from "../utils/error-handler";
+import { CancelledError } from "../utils/errors";
 import { saveChatHistory, saveToFile } from "../utils/file-manager";
 import { SaveDialog } from "../utils/save-dialog";
 import { ModelSelectDialog, type ModelSelectResult } from "../utils/model-select-dialog";
-import { TitleInputDialog, generateDefaultTitle } from "../utils/title-input-dialog";
-import { LiteLLMService } from "../services/litellm-service";
+import { TitleInputDialog, generateDefaultTitle, sanitizeGeneratedTitle } from "../utils/title-input-dialog";
+import { requestStructuredOutput, TITLE_FORMAT, type TitleResult } from "../utils/structured-output";
+import { AIServiceFactory } from "../services/ai-service-factory";
+import { getFeatureSettings } from "../services/feature-routing-ai-service";
+import { VaultToolService, describeToolCall } from "../services/vault-tool-service";
+import {
+	buildMessageContent,
+	loadImageBlob,
+	loadVaultImage,
+	toDataUrl,
+	type ImageAttachment,
+} from "../utils/image-attachments";
+import { ImageSelectModal } from "../utils/image-select-modal";
 
 export const CHAT_VIEW_TYPE = "knowledge-connect-chat";
 
+/**
+ * 1回の応答で連続して呼び出せるツールの最大回数
+ */
+const MAX_TOOL_ROUNDS = 5;
+
 interface ChatMessageWithModel extends ChatMessage {
+	content: string;
+	images?: ImageAttachment[]; // ユーザーが添付した画像
 	model?: string;
+	toolMessages?: ChatMessage[]; // この応答の前に行われたツール呼び出しとその結果
 }
 
 export class ChatView extends ItemView {
@@ -25,10 +45,14 @@ export class ChatView extends ItemView {
 	private inputEl: HTMLTextAreaElement | null = null;
 	private messagesEl: HTMLElement | null = null;
 	private sendButton: HTMLButtonElement | null = null;
+	private stopButton: HTMLButtonElement | null = null;
 	private clearButton: HTMLButtonElement | null = null;
 	private modelSelectEl: HTMLSelectElement | null = null;
 	private currentModel: string = "";
 	private isLoading: boolean = false;
+	private abortController: AbortController | null = null;
+	private pendingImages: ImageAttachment[] = []; // 次のメッセージに添付する画像
+	private attachmentsEl: HTMLElement | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: KnowledgeConnectPlugin) {
 		super(leaf);
@@ -51,8 +75,8 @@ export class ChatView extends ItemView {
 		const container = this.containerEl.children[1];
 		container.empty();
 
-		// 現在のモデルを初期化
-		this.currentModel = this.plugin.settings.aiModel;
+		// 現在のモデルを初期化（チャットに割り当てられたモデルを優先）
+		this.currentModel = getFeatureSettings(this.plugin.settings, "chat").aiModel;
 
 		// ヘッダー
 		const header = container.createDiv("chat-header");
@@ -126,6 +150,8 @@ export class ChatView extends ItemView {
 
 		// 入力エリア
 		const inputContainer = container.createDiv("chat-input-container");
+		// 添付する画像のプレビュー
+		this.attachmentsEl = inputContainer.createDiv("chat-attachments");
 		this.inputEl = inputContainer.createEl("textarea", {
 			placeholder: "メッセージを入力してください...",
 			cls: "chat-input",
@@ -140,6 +166,24 @@ export class ChatView extends ItemView {
 		});
 		this.sendButton.onclick = () => this.sendMessage();
 
+		// 画像添付ボタン（Vault内の画像を選択）
+		const attachButton = buttonContainer.createEl("button", {
+			text: "画像を添付",
+			cls: "chat-attach-button",
+		});
+		attachButton.onclick = () => this.selectVaultImage();
+
+		// 停止ボタン（応答生成中のみ表示）
+		this.stopButton = buttonContainer.createEl("button", {
+			text: "停止",
+			cls: "chat-stop-button",
+		});
+		this.stopButton.style.display = "none";
+		this.stopButton.onclick = () => this.stopGeneration();
+
+		// クリップボードの画像を貼り付けて添付
+		this.inputEl.addEventListener("paste", (e) => this.handlePaste(e));
+
 		// Enterキーで送信（Shift+Enterで改行）
 		this.inputEl.addEventListener("keydown", (e) => {
 			if (e.key === "Enter" && !e.shiftKey) {
@@ -153,12 +197,16 @@ export class ChatView extends ItemView {
 	}
 
 	async onClose() {
+		// 応答生成中の場合は中断
+		this.stopGeneration();
 		// クリーンアップ
 		this.inputEl = null;
 		this.messagesEl = null;
 		this.sendButton = null;
+		this.stopButton = null;
 		this.clearButton = null;
 		this.modelSelectEl = null;
+		this.attachmentsEl = null;
 	}
 
 	/**
@@ -175,8 +223,10 @@ export class ChatView extends ItemView {
 
 		try {
 			let models: Array<{ value: string; label: string }> = [];
+			// チャットに割り当てられたAIサービスのモデルを表示
+			const chatSettings = getFeatureSettings(this.plugin.settings, "chat");
 
-			if (this.plugin.settings.aiService === "openrouter") {
+			if (chatSettings.aiService === "openrouter") {
 				// OpenRouterのモデルリスト
 				models = [
 					{ value: "google/gemini-2.5-flash", label: "Google Gemini 2.5 Flash" },
@@ -186,23 +236,27 @@ export class ChatView extends ItemView {
 					{ value: "openai/gpt-5.1", label: "OpenAI GPT-5.1" },
 					{ value: "anthropic/claude-sonnet-4.5", label: "Anthropic Claude Sonnet 4.5" },
 				];
-			} else if (this.plugin.settings.aiService === "litellm") {
-				// LiteLLMのモデルリストを取得
-				const litellmService = new LiteLLMService(this.plugin.settings);
-				if (litellmService.isApiKeySet()) {
+				// 割り当てられたモデルが一覧にない場合は追加
+				if (this.currentModel && !models.some((m) => m.value === this.currentModel)) {
+					models.unshift({ value: this.currentModel, label: this.currentModel });
+				}
+			} else {
+				// サーバーから利用可能なモデルリストを取得
+				const modelService = AIServiceFactory.createService(chatSettings);
+				if (modelService.isApiKeySet()) {
 					try {
-						const modelIds = await litellmService.getModels();
+						const modelIds = modelService.getModels ? await modelService.getModels() : [];
 						models = modelIds.map((id) => ({ value: id, label: id }));
 					} catch (error) {
-						// LiteLLM接続エラーをキャッチ
-						console.error("[ChatView] LiteLLMモデルリストの取得に失敗:", error);
+						// 接続エラーをキャッチ
+						console.error("[ChatView] モデルリストの取得に失敗:", error);
 						const errorMessage = error instanceof Error 
 							? error.message 
-							: "LiteLLMプロキシに接続できません";
+							: `${modelService.getServiceName()}に接続できません`;
 						
 						// エラーメッセージを表示（通知設定を確認）
 						showError(
-							`LiteLLM接続エラー: ${errorMessage}`,
+							`${modelService.getServiceName()}接続エラー: ${errorMessage}`,
 							this.plugin.settings.notificationSettings
 						);
 						
@@ -254,7 +308,7 @@ export class ChatView extends ItemView {
 			}
 			// エラー通知を表示
 			showError(
-				error instanceof Error ? error.message : "モデルリストの取得に失敗しました",
+				error instanceof Error ? error : "モデルリストの取得に失敗しました",
 				this.plugin.settings.notificationSettings
 			);
 		}
@@ -266,7 +320,7 @@ export class ChatView extends ItemView {
 		}
 
 		const message = this.inputEl.value.trim();
-		if (!message) {
+		if (!message && this.pendingImages.length === 0) {
 			return;
 		}
 
@@ -283,33 +337,118 @@ export class ChatView extends ItemView {
 		const userMessage: ChatMessageWithModel = {
 			role: "user",
 			content: message,
+			images: this.pendingImages.length > 0 ? this.pendingImages : undefined,
 		};
 		this.messages.push(userMessage);
 		this.inputEl.value = "";
+		this.pendingImages = [];
+		this.renderAttachments();
 		this.renderMessages();
 
 		// ローディング状態
 		this.setLoading(true);
 		showInfo("AIに送信中...", this.plugin.settings.notificationSettings);
 
+		// 送信するメッセージ（応答用のプレースホルダーを追加する前に確定させる）
+		// 過去の応答で行われたツール呼び出しも会話の文脈として含める
+		const requestMessages: ChatMessage[] = [];
+		for (const msg of this.messages) {
+			if (msg.toolMessages) {
+				requestMessages.push(...msg.toolMessages);
+			}
+			requestMessages.push({ role: msg.role, content: buildMessageContent(msg.content, msg.images || []) });
+		}
+
+		// Vaultツール（設定で有効な場合のみ）
+		const vaultTools = this.plugin.settings.enableChatTools
+			? new VaultToolService(this.app, this.plugin.settings, this.plugin.getRequestManager())
+			: null;
+		// 外部MCPサーバーのツール（有効なサーバーが設定されている場合のみ）
+		const mcpClientManager = this.plugin.getMCPClientManager();
+		const mcpTools = mcpClientManager && mcpClientManager.hasServers() ? mcpClientManager : null;
+
+		// AIの応答を逐次表示するためのプレースホルダー
+		const assistantMessage: ChatMessageWithModel = {
+			role: "assistant",
+			content: "",
+			model: this.currentModel,
+		};
+		this.messages.push(assistantMessage);
+		this.renderMessages();
+		let streamingEl = this.getLastMessageContentEl();
+		if (streamingEl) {
+			streamingEl.addClass("chat-message-streaming");
+		}
+
+		const abortController = new AbortController();
+		this.abortController = abortController;
+		if (vaultTools) {
+			// 停止時は実行中のツールの検索も中断する
+			abortController.signal.addEventListener("abort", () => vaultTools.cancelPending());
+		}
+
 		try {
+			const toolDefinitions: ToolDefinition[] = [
+				...(vaultTools ? vaultTools.getDefinitions() : []),
+				...(mcpTools ? await mcpTools.getToolDefinitions(abortController.signal) : []),
+			];
+			const hasTools = toolDefinitions.length > 0;
+
 			// AIに送信（現在選択されているモデルを使用）
-			const response = await aiService.chatCompletion({
-				messages: this.messages.map(msg => ({
-					role: msg.role,
-					content: msg.content,
-				})),
-				maxTokens: this.plugin.settings.maxTokens,
-				model: this.currentModel,
-			});
+			// ツールの呼び出しが要求された場合は実行結果を渡して再度送信する
+			let response: ChatCompletionResponse;
+			const toolMessages: ChatMessage[] = [];
+			for (let round = 0; ; round++) {
+				response = await aiService.chatCompletionStream(
+					{
+						feature: "chat",
+						messages: [...requestMessages, ...toolMessages],
+						maxTokens: this.plugin.settings.maxTokens,
+						model: this.currentModel,
+						signal: abortController.signal,
+						tools: hasTools && round < MAX_TOOL_ROUNDS ? toolDefinitions : undefined,
+					},
+					(delta) => {
+						assistantMessage.content += delta;
+						if (streamingEl) {
+							streamingEl.textContent = assistantMessage.content;
+						}
+						this.scrollToBottom();
+					}
+				);
 
-			// AIの応答を追加（モデル情報も含める）
-			const assistantMessage: ChatMessageWithModel = {
-				role: "assistant",
-				content: response.content,
-				model: response.model || this.currentModel,
-			};
-			this.messages.push(assistantMessage);
+				if (!hasTools || round >= MAX_TOOL_ROUNDS || !response.toolCalls || response.toolCalls.length === 0) {
+					break;
+				}
+
+				toolMessages.push({ role: "assistant", content: response.content, toolCalls: response.toolCalls });
+				assistantMessage.toolMessages = toolMessages;
+				assistantMessage.content = "";
+				this.renderMessages();
+
+				for (const toolCall of response.toolCalls) {
+					showInfo(`ツールを実行中: ${describeToolCall(toolCall)}`, this.plugin.settings.notificationSettings);
+					const result = mcpTools && mcpTools.isMCPTool(toolCall.name)
+						? await mcpTools.execute(toolCall, abortController.signal)
+						: vaultTools
+							? await vaultTools.execute(toolCall)
+							: `エラー: 不明なツールです: ${toolCall.name}`;
+					if (abortController.signal.aborted) {
+						throw new CancelledError("リクエストがキャンセルされました。");
+					}
+					toolMessages.push({ role: "tool", content: result, toolCallId: toolCall.id, name: toolCall.name });
+				}
+
+				// 次の応答を表示する要素を取得し直す
+				streamingEl = this.getLastMessageContentEl();
+				if (streamingEl) {
+					streamingEl.addClass("chat-message-streaming");
+				}
+			}
+
+			// 完了した応答で確定（モデル情報も含める）
+			assistantMessage.content = response.content;
+			assistantMessage.model = response.model || this.currentModel;
 			this.renderMessages();
 
 			showSuccess(
@@ -322,21 +461,67 @@ export class ChatView extends ItemView {
 				await this.autoSave();
 			}
 		} catch (error) {
-			showError(error, this.plugin.settings.notificationSettings);
-			// エラー時はユーザーメッセージを削除
-			this.messages.pop();
-			this.renderMessages();
+			// 停止ボタンとステータスバーからのキャンセルを同じように扱う
+			const cancelled = abortController.signal.aborted || error instanceof CancelledError;
+			if (cancelled && assistantMessage.content) {
+				// 停止された場合は途中までの応答を残す
+				this.renderMessages();
+				showInfo("応答の生成を停止しました", this.plugin.settings.notificationSettings);
+			} else {
+				if (!cancelled) {
+					showError(error, this.plugin.settings.notificationSettings);
+				}
+				// エラー時はプレースホルダーとユーザーメッセージを削除
+				this.messages.pop();
+				this.messages.pop();
+				this.renderMessages();
+			}
 		} finally {
+			if (this.abortController === abortController) {
+				this.abortController = null;
+			}
 			this.setLoading(false);
 		}
 	}
 
+	/**
+	 * 応答の生成を停止
+	 */
+	private stopGeneration() {
+		if (this.abortController) {
+			this.abortController.abort();
+		}
+	}
+
+	/**
+	 * 最後に表示されたメッセージのコンテンツ要素を取得
+	 */
+	private getLastMessageContentEl(): HTMLElement | null {
+		if (!this.messagesEl) {
+			return null;
+		}
+		const contentEls = this.messagesEl.querySelectorAll(".chat-message-content");
+		return contentEls.length > 0 ? (contentEls[contentEls.length - 1] as HTMLElement) : null;
+	}
+
+	/**
+	 * 最下部にスクロール
+	 */
+	private scrollToBottom() {
+		if (this.messagesEl) {
+			this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+		}
+	}
+
 	private setLoading(loading: boolean) {
 		this.isLoading = loading;
 		if (this.sendButton) {
 			this.sendButton.disabled = loading;
 			this.sendButton.textContent = loading ? "送信中..." : "送信";
 		}
+		if (this.stopButton) {
+			this.stopButton.style.display = loading ? "" : "none";
+		}
 		if (this.inputEl) {
 			this.inputEl.disabled = loading;
 		}
@@ -376,6 +561,11 @@ export class ChatView extends ItemView {
 				}
 			}
 
+			// 応答の前に行われたツール呼び出し
+			if (message.toolMessages) {
+				this.renderToolCalls(messageEl, message.toolMessages);
+			}
+
 			const contentEl = messageEl.createDiv("chat-message-content");
 			// 文字選択を有効化
 			contentEl.style.userSelect = "text";
@@ -406,7 +596,19 @@ export class ChatView extends ItemView {
 				};
 			} else {
 				// ユーザーのメッセージはテキストとして表示
-				contentEl.createEl("p", { text: message.content });
+				if (message.content) {
+					contentEl.createEl("p", { text: message.content });
+				}
+				// 添付した画像
+				if (message.images) {
+					const imagesEl = contentEl.createDiv("chat-message-images");
+					for (const image of message.images) {
+						imagesEl.createEl("img", {
+							cls: "chat-image-thumbnail",
+							attr: { src: toDataUrl(image), alt: image.name, title: image.name },
+						});
+					}
+				}
 			}
 		}
 
@@ -441,6 +643,102 @@ export class ChatView extends ItemView {
 		return modelNames[modelId] || modelId;
 	}
 
+	/**
+	 * Vault内の画像を選択して添付
+	 */
+	private selectVaultImage() {
+		new ImageSelectModal(this.app, async (file) => {
+			try {
+				this.addAttachment(await loadVaultImage(this.app, file));
+			} catch (error) {
+				showError(error, this.plugin.settings.notificationSettings);
+			}
+		}).open();
+	}
+
+	/**
+	 * クリップボードから貼り付けられた画像を添付
+	 */
+	private async handlePaste(e: ClipboardEvent) {
+		const items = e.clipboardData ? Array.from(e.clipboardData.items) : [];
+		const imageItems = items.filter((item) => item.kind === "file" && item.type.startsWith("image/"));
+		if (imageItems.length === 0) {
+			return;
+		}
+		// 画像の場合はテキストとして貼り付けない
+		e.preventDefault();
+		for (const item of imageItems) {
+			const blob = item.getAsFile();
+			if (!blob) {
+				continue;
+			}
+			try {
+				this.addAttachment(await loadImageBlob(blob, blob.name || "クリップボードの画像"));
+			} catch (error) {
+				showError(error, this.plugin.settings.notificationSettings);
+			}
+		}
+	}
+
+	private addAttachment(image: ImageAttachment) {
+		this.pendingImages = [...this.pendingImages, image];
+		this.renderAttachments();
+	}
+
+	/**
+	 * 添付する画像のプレビューを表示
+	 */
+	private renderAttachments() {
+		if (!this.attachmentsEl) {
+			return;
+		}
+		this.attachmentsEl.empty();
+		this.pendingImages.forEach((image, index) => {
+			if (!this.attachmentsEl) {
+				return;
+			}
+			const itemEl = this.attachmentsEl.createDiv("chat-attachment");
+			itemEl.createEl("img", {
+				cls: "chat-image-thumbnail",
+				attr: { src: toDataUrl(image), alt: image.name, title: image.name },
+			});
+			const removeButton = itemEl.createEl("button", {
+				text: "×",
+				cls: "chat-attachment-remove",
+				attr: { "aria-label": "添付を削除" },
+			});
+			removeButton.onclick = () => {
+				this.pendingImages = this.pendingImages.filter((_, i) => i !== index);
+				this.renderAttachments();
+			};
+		});
+	}
+
+	/**
+	 * ツール呼び出しの一覧を表示（結果は折りたたんで表示）
+	 */
+	private renderToolCalls(messageEl: HTMLElement, toolMessages: ChatMessage[]) {
+		const toolCalls: ToolCall[] = [];
+		for (const msg of toolMessages) {
+			if (msg.toolCalls) {
+				toolCalls.push(...msg.toolCalls);
+			}
+		}
+
+		const toolsEl = messageEl.createDiv("chat-tool-calls");
+		for (const toolMessage of toolMessages) {
+			if (toolMessage.role !== "tool") {
+				continue;
+			}
+			const toolCall = toolCalls.find((call) => call.id === toolMessage.toolCallId);
+			const detailsEl = toolsEl.createEl("details", { cls: "chat-tool-call" });
+			detailsEl.createEl("summary", {
+				text: `🔧 ${toolCall ? describeToolCall(toolCall) : toolMessage.name || "tool"}`,
+			});
+			detailsEl.createEl("pre", { text: getMessageText(toolMessage.content), cls: "chat-tool-result" });
+		}
+	}
+
 	/**
 	 * チャット履歴からページを作成
 	 */
@@ -474,41 +772,31 @@ export class ChatView extends ItemView {
 				.join("\n")
 				.slice(0, 500); // 最初の500文字のみ
 
-			const titleResponse = await aiService.chatCompletion({
-				messages: [
-					{
-						role: "system",
-						content:
-							"あなたはタイトル生成アシスタントです。与えられたチャット履歴の内容を分析して、適切なタイトルを1つだけ生成してください。タイトルは30文字以内で、日本語で、ファイル名として使用できる形式（特殊文字なし）で出力してください。タイトル以外の説明や補足は不要です。",
-					},
-					{
-						role: "user",
-						content: `以下のチャット履歴から適切なタイトルを生成してください：\n\n${previewText}`,
-					},
-				],
-				maxTokens: 50,
-				model: this.currentModel,
-			});
+			const result = await requestStructuredOutput<TitleResult>(
+				aiService,
+				{
+					feature: "title",
+					messages: [
+						{
+							role: "system",
+							content:
+								"あなたはタイトル生成アシスタントです。与えられたチャット履歴の内容を分析して、適切なタイトルを1つだけ生成してください。タイトルは30文字以内で、日本語で、ファイル名として使用できる形式（特殊文字なし）にしてください。",
+						},
+						{
+							role: "user",
+							content: `以下のチャット履歴から適切なタイトルを生成してください：\n\n${previewText}`,
+						},
+					],
+					maxTokens: 50,
+					model: this.currentModel,
+				},
+				TITLE_FORMAT
+			);
 
-			generatedTitle = titleResponse.content.trim();
-			
-			// 改行で分割して最初の行を取得（タイトル以外の説明が含まれる場合があるため）
-			const firstLine = generatedTitle.split("\n")[0].trim();
-			if (firstLine) {
-				generatedTitle = firstLine;
-			}
-			
-			// ファイル名として使用できない文字を削除
-			generatedTitle = generatedTitle
-				.replace(/[<>:"|?*\/\\]/g, "")
-				.replace(/\n/g, " ")
-				.replace(/^タイトル[:：]\s*/i, "") // 「タイトル:」などのプレフィックスを削除
-				.replace(/^「|」$/g, "") // 引用符を削除
-				.trim()
-				.slice(0, 50); // 最大50文字
+			generatedTitle = sanitizeGeneratedTitle(result.title);
 
 			if (!generatedTitle) {
-				console.warn("タイトルが生成されませんでした。レスポンス:", titleResponse.content);
+				console.warn("タイトルが生成されませんでした。レスポンス:", result);
 				generatedTitle = `チャット履歴-${new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19)}`;
 			}
 		} catch (error) {
@@ -740,21 +1028,21 @@ export class ChatView extends ItemView {
 				{ value: "openai/gpt-5.1", label: "OpenAI GPT-5.1" },
 				{ value: "anthropic/claude-sonnet-4.5", label: "Anthropic Claude Sonnet 4.5" },
 			];
-		} else if (this.plugin.settings.aiService === "litellm") {
-			// LiteLLMのモデルリストを取得
+		} else {
+			// サーバーから利用可能なモデルリストを取得
 			try {
-				const litellmService = new LiteLLMService(this.plugin.settings);
-				if (litellmService.isApiKeySet()) {
+				const modelService = AIServiceFactory.createService(this.plugin.settings);
+				if (modelService.isApiKeySet()) {
 					try {
-						const modelIds = await litellmService.getModels();
+						const modelIds = modelService.getModels ? await modelService.getModels() : [];
 						availableModels = modelIds.map((id) => ({ value: id, label: id }));
 					} catch (error) {
-						console.error("[ChatView] LiteLLMモデルリストの取得に失敗:", error);
+						console.error("[ChatView] モデルリストの取得に失敗:", error);
 						const errorMessage = error instanceof Error 
 							? error.message 
-							: "LiteLLMプロキシに接続できません";
+							: `${modelService.getServiceName()}に接続できません`;
 						showError(
-							`LiteLLM接続エラー: ${errorMessage}`,
+							`${modelService.getServiceName()}接続エラー: ${errorMessage}`,
 							this.plugin.settings.notificationSettings
 						);
 						return;
@@ -769,7 +1057,7 @@ export class ChatView extends ItemView {
 			} catch (error) {
 				console.error("[ChatView] モデルリスト取得処理でエラー:", error);
 				showError(
-					error instanceof Error ? error.message : "モデルリストの取得に失敗しました",
+					error instanceof Error ? error : "モデルリストの取得に失敗しました",
 					this.plugin.settings.notificationSettings
 				);
 				return;
@@ -847,6 +1135,7 @@ export class ChatView extends ItemView {
 
 					// AIに要約を依頼
 					const response = await aiService.chatCompletion({
+						feature: "summarize",
 						messages: [
 							{
 								role: "system",
@@ -921,22 +1210,22 @@ export class ChatView extends ItemView {
 				{ value: "openai/gpt-5.1", label: "OpenAI GPT-5.1" },
 				{ value: "anthropic/claude-sonnet-4.5", label: "Anthropic Claude Sonnet 4.5" },
 			];
-		} else if (this.plugin.settings.aiService === "litellm") {
-			// LiteLLMのモデルリストを取得
+		} else {
+			// サーバーから利用可能なモデルリストを取得
 			try {
-				const litellmService = new LiteLLMService(this.plugin.settings);
-				if (litellmService.isApiKeySet()) {
+				const modelService = AIServiceFactory.createService(this.plugin.settings);
+				if (modelService.isApiKeySet()) {
 					try {
-						const modelIds = await litellmService.getModels();
+						const modelIds = modelService.getModels ? await modelService.getModels() : [];
 						availableModels = modelIds.map((id) => ({ value: id, label: id }));
 					} catch (error) {
-						// LiteLLM接続エラーをキャッチ
-						console.error("[ChatView] LiteLLMモデルリストの取得に失敗:", error);
+						// 接続エラーをキャッチ
+						console.error("[ChatView] モデルリストの取得に失敗:", error);
 						const errorMessage = error instanceof Error 
 							? error.message 
-							: "LiteLLMプロキシに接続できません";
+							: `${modelService.getServiceName()}に接続できません`;
 						showError(
-							`LiteLLM接続エラー: ${errorMessage}`,
+							`${modelService.getServiceName()}接続エラー: ${errorMessage}`,
 							this.plugin.settings.notificationSettings
 						);
 						return;
@@ -952,7 +1241,7 @@ export class ChatView extends ItemView {
 				// 予期しないエラーをキャッチ
 				console.error("[ChatView] モデルリスト取得処理でエラー:", error);
 				showError(
-					error instanceof Error ? error.message : "モデルリストの取得に失敗しました",
+					error instanceof Error ? error : "モデルリストの取得に失敗しました",
 					this.plugin.settings.notificationSettings
 				);
 				return;
@@ -1003,6 +1292,7 @@ export class ChatView extends ItemView {
 
 							// AIに要約を依頼
 							const response = await aiService.chatCompletion({
+								feature: "summarize",
 								messages: [
 									{
 										role: "system",
@@ -0,0 +1,265 @@
+/**
+ * Jobs View
+ * MCPサーバーのインデックス作成・ベクトル化ジョブの一覧と進捗を表示
+ */
+
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import KnowledgeConnectPlugin from "../main";
+import type { Job } from "../services/mcp-service";
+import { JOB_TYPE_LABELS, isActiveJob } from "../services/job-monitor-service";
+import { showError, showInfo, showSuccess } from "../utils/error-handler";
+
+export const JOBS_VIEW_TYPE = "knowledge-connect-jobs";
+
+/**
+ * 一覧に表示するジョブの最大数
+ */
+const MAX_JOBS = 100;
+
+const STATUS_LABELS: Record<Job["status"], string> = {
+	pending: "待機中",
+	processing: "実行中",
+	completed: "完了",
+	failed: "失敗",
+	cancelled: "キャンセル",
+};
+
+/**
+ * 経過時間を表示用の文字列に変換
+ */
+function formatDuration(ms: number): string {
+	const seconds = Math.max(0, Math.floor(ms / 1000));
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	if (hours > 0) {
+		return `${hours}時間${minutes}分`;
+	}
+	if (minutes > 0) {
+		return `${minutes}分${seconds % 60}秒`;
+	}
+	return `${seconds}秒`;
+}
+
+function formatTime(value: string): string {
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? value : date.toLocaleString("ja-JP");
+}
+
+export class JobsView extends ItemView {
+	plugin: KnowledgeConnectPlugin;
+	private jobs: Job[] = [];
+	private statusFilter: Job["status"] | "" = "";
+	private listEl: HTMLElement | null = null;
+	private loadError: string | null = null;
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: KnowledgeConnectPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return JOBS_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "MCPジョブ";
+	}
+
+	getIcon(): string {
+		return "list-checks";
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		container.addClass("jobs-view");
+
+		// ヘッダー
+		const header = container.createDiv("jobs-header");
+		header.createEl("h2", { text: "MCPジョブ" });
+
+		// ステータスの絞り込みと更新ボタン
+		const toolbar = header.createDiv("jobs-toolbar");
+		const filterSelect = toolbar.createEl("select", { cls: "dropdown" });
+		filterSelect.createEl("option", { text: "すべて", value: "" });
+		(Object.keys(STATUS_LABELS) as Job["status"][]).forEach((status) => {
+			filterSelect.createEl("option", { text: STATUS_LABELS[status], value: status });
+		});
+		filterSelect.value = this.statusFilter;
+		filterSelect.onchange = () => {
+			this.statusFilter = filterSelect.value as Job["status"] | "";
+			this.loadJobs();
+		};
+		const refreshButton = toolbar.createEl("button", { text: "更新" });
+		refreshButton.onclick = () => this.loadJobs();
+
+		this.listEl = container.createDiv("jobs-list");
+
+		// 監視中のジョブの進捗が更新されたら再描画
+		const jobMonitor = this.plugin.getJobMonitor();
+		if (jobMonitor) {
+			this.unsubscribe = jobMonitor.onChange((job) => this.updateJob(job));
+		}
+
+		await this.loadJobs();
+	}
+
+	async onClose() {
+		// ジョブの監視はJobMonitorServiceが続けるため、ここでは更新の受け取りのみ解除する
+		if (this.unsubscribe) {
+			this.unsubscribe();
+			this.unsubscribe = null;
+		}
+		this.listEl = null;
+	}
+
+	/**
+	 * ジョブ一覧を取得
+	 * 実行中のジョブは監視を開始し、Viewを閉じた後も進捗を追跡する
+	 */
+	private async loadJobs(): Promise<void> {
+		const jobMonitor = this.plugin.getJobMonitor();
+		if (!jobMonitor) {
+			return;
+		}
+		try {
+			this.jobs = await jobMonitor.createService().getJobs(this.statusFilter || undefined, MAX_JOBS);
+			for (const job of this.jobs) {
+				if (isActiveJob(job) && !jobMonitor.isWatching(job.id)) {
+					jobMonitor.watch(job.id, false);
+				}
+			}
+			this.loadError = null;
+			this.render();
+		} catch (error) {
+			// 接続できない間は監視中のジョブの最後に取得した状態を表示する
+			this.jobs = jobMonitor.getWatchedJobs();
+			this.loadError = "ジョブ一覧を取得できませんでした。MCPサーバーが起動しているか確認してください。";
+			this.render();
+			showError(error, this.plugin.settings.notificationSettings);
+		}
+	}
+
+	/**
+	 * 監視中のジョブの状態を一覧に反映
+	 */
+	private updateJob(job: Job): void {
+		const index = this.jobs.findIndex((j) => j.id === job.id);
+		if (index >= 0) {
+			this.jobs[index] = job;
+		} else if (!this.statusFilter || this.statusFilter === job.status) {
+			this.jobs.unshift(job);
+		}
+		this.render();
+	}
+
+	private render(): void {
+		if (!this.listEl) {
+			return;
+		}
+		this.listEl.empty();
+
+		const jobMonitor = this.plugin.getJobMonitor();
+		if (jobMonitor && jobMonitor.getConnection() !== "idle") {
+			this.listEl.createDiv({
+				text: jobMonitor.getConnection() === "stream"
+					? "進捗をサーバーからの通知で更新しています"
+					: "進捗を定期的に確認しています",
+				cls: "jobs-connection",
+			});
+		}
+		if (this.loadError) {
+			this.listEl.createDiv({ text: this.loadError, cls: "jobs-card-error" });
+		}
+
+		const jobs = this.jobs.filter((job) => !this.statusFilter || job.status === this.statusFilter);
+		if (jobs.length === 0) {
+			this.listEl.createEl("p", { text: "ジョブはありません。", cls: "jobs-empty" });
+			return;
+		}
+		for (const job of jobs) {
+			this.renderJob(this.listEl, job);
+		}
+	}
+
+	private renderJob(containerEl: HTMLElement, job: Job): void {
+		const card = containerEl.createDiv(`jobs-card jobs-status-${job.status}`);
+
+		const titleRow = card.createDiv("jobs-card-title");
+		titleRow.createSpan({ text: `#${job.id} ${JOB_TYPE_LABELS[job.job_type] || job.job_type}` });
+		titleRow.createSpan({ text: STATUS_LABELS[job.status] || job.status, cls: "jobs-status-badge" });
+
+		const directoryPath = job.parameters && job.parameters.directory_path;
+		if (directoryPath) {
+			card.createDiv({ text: String(directoryPath), cls: "jobs-card-detail" });
+		}
+
+		// 進捗
+		if (isActiveJob(job) || job.progress.total > 0) {
+			const bar = card.createDiv("jobs-progress-bar");
+			const fill = bar.createDiv("jobs-progress-bar-fill");
+			fill.style.width = `${Math.min(100, Math.max(0, job.progress.percentage))}%`;
+			card.createDiv({
+				text: `${job.progress.current}/${job.progress.total}（${job.progress.percentage}%）${job.progress.message ? ` ${job.progress.message}` : ""}`,
+				cls: "jobs-card-detail",
+			});
+		}
+
+		if (job.error_message) {
+			card.createDiv({ text: job.error_message, cls: "jobs-card-error" });
+		}
+
+		// 時間
+		const timing: string[] = [`作成: ${formatTime(job.created_at)}`];
+		if (job.started_at) {
+			const startedAt = new Date(job.started_at).getTime();
+			const endedAt = isActiveJob(job) ? Date.now() : new Date(job.updated_at).getTime();
+			if (!isNaN(startedAt) && !isNaN(endedAt)) {
+				timing.push(`${isActiveJob(job) ? "経過" : "所要時間"}: ${formatDuration(endedAt - startedAt)}`);
+			}
+		}
+		card.createDiv({ text: timing.join(" / "), cls: "jobs-card-detail" });
+
+		// 操作
+		const actions = card.createDiv("jobs-card-actions");
+		if (isActiveJob(job)) {
+			const cancelButton = actions.createEl("button", { text: "キャンセル", cls: "mod-warning" });
+			cancelButton.onclick = () => this.cancelJob(job, cancelButton);
+		} else if (JOB_TYPE_LABELS[job.job_type]) {
+			const rerunButton = actions.createEl("button", { text: "再実行" });
+			rerunButton.onclick = () => this.rerunJob(job, rerunButton);
+		}
+	}
+
+	private async cancelJob(job: Job, button: HTMLButtonElement): Promise<void> {
+		const jobMonitor = this.plugin.getJobMonitor();
+		if (!jobMonitor) {
+			return;
+		}
+		button.disabled = true;
+		try {
+			await jobMonitor.cancel(job.id);
+			showInfo(`ジョブ ${job.id} のキャンセルを要求しました`, this.plugin.settings.notificationSettings);
+		} catch (error) {
+			button.disabled = false;
+			showError(error, this.plugin.settings.notificationSettings);
+		}
+	}
+
+	private async rerunJob(job: Job, button: HTMLButtonElement): Promise<void> {
+		const jobMonitor = this.plugin.getJobMonitor();
+		if (!jobMonitor) {
+			return;
+		}
+		button.disabled = true;
+		try {
+			const jobId = await jobMonitor.rerun(job);
+			showSuccess(`ジョブを再実行しました（ジョブID: ${jobId}）`, this.plugin.settings.notificationSettings);
+			await this.loadJobs();
+		} catch (error) {
+			button.disabled = false;
+			showError(error, this.plugin.settings.notificationSettings);
+		}
+	}
+}
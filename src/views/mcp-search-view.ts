@@ -1,32 +1,44 @@
 /**
  * MCP Search View
  * MCPサーバーを使用した全文検索機能のView実装
+ * 検索バックエンドが複数登録されている場合はすべてで検索し、結果を統合して表示する
+ * MCPサーバーに接続できない場合はローカルインデックスで検索する
  */
 
 import { ItemView, WorkspaceLeaf, TFile } from "obsidian";
 import KnowledgeConnectPlugin from "../main";
-import { MCPService, type SearchResult } from "../services/mcp-service";
+import { BackendSearchResult, MCPBackendRouter } from "../services/mcp-backend-router";
+import { getResultStartLine } from "../services/mcp-service";
 import { showError, showInfo, showSuccess } from "../utils/error-handler";
+import { openFileAtLine } from "../utils/file-manager";
+import { formatHeadingPath } from "../utils/text-processor";
+import { attachSearchFilterChips, hasSearchFilters, parseSearchQuery, SEARCH_FILTER_SYNTAX_HINT } from "../utils/search-filters";
 
 export const MCP_SEARCH_VIEW_TYPE = "knowledge-connect-mcp-search";
 
 export class MCPSearchView extends ItemView {
 	plugin: KnowledgeConnectPlugin;
-	private mcpService: MCPService;
+	private router: MCPBackendRouter;
 	private searchInputEl: HTMLInputElement | null = null;
 	private limitInputEl: HTMLInputElement | null = null;
 	private searchButton: HTMLButtonElement | null = null;
+	private stopButton: HTMLButtonElement | null = null;
 	private statsButton: HTMLButtonElement | null = null;
 	private resultsEl: HTMLElement | null = null;
 	private isLoading: boolean = false;
-	private currentResults: SearchResult[] = [];
+	private isCancelled = false; // 検索を停止した場合true
+	private currentResults: BackendSearchResult[] = [];
 	private currentQuery: string = "";
 
 	constructor(leaf: WorkspaceLeaf, plugin: KnowledgeConnectPlugin) {
 		super(leaf);
 		this.plugin = plugin;
-		const baseUrl = plugin.settings.mcpServerUrl || 'http://127.0.0.1:8000';
-		this.mcpService = new MCPService(baseUrl);
+		this.router = new MCPBackendRouter(
+			plugin.app,
+			plugin.settings,
+			plugin.getRequestManager(),
+			plugin.getSearchService()
+		);
 	}
 
 	getViewType(): string {
@@ -82,7 +94,7 @@ export class MCPSearchView extends ItemView {
 		// 検索キーワード入力
 		this.searchInputEl = searchContainer.createEl("input", {
 			type: "text",
-			placeholder: "検索キーワードを入力...",
+			placeholder: `検索キーワードを入力...（${SEARCH_FILTER_SYNTAX_HINT}）`,
 			cls: "mcp-search-input",
 		});
 		this.searchInputEl.style.flex = "1";
@@ -125,6 +137,17 @@ export class MCPSearchView extends ItemView {
 		});
 		this.searchButton.onclick = () => this.performSearch();
 
+		// 停止ボタン（検索中のみ表示）
+		this.stopButton = searchContainer.createEl("button", {
+			text: "停止",
+			cls: "mcp-search-stop-button",
+		});
+		this.stopButton.style.display = "none";
+		this.stopButton.onclick = () => this.stopSearch();
+
+		// 絞り込み条件のチップ
+		attachSearchFilterChips(header.createDiv("knowledge-connect-filter-chips"), this.searchInputEl);
+
 		// 検索結果表示エリア
 		this.resultsEl = container.createDiv("mcp-search-results-container");
 		this.resultsEl.style.flex = "1";
@@ -136,7 +159,8 @@ export class MCPSearchView extends ItemView {
 	}
 
 	async onClose() {
-		// クリーンアップ処理があれば実装
+		// 実行中の検索を停止
+		this.stopSearch();
 	}
 
 	/**
@@ -162,11 +186,14 @@ export class MCPSearchView extends ItemView {
 			return;
 		}
 
-		const query = this.searchInputEl.value.trim();
+		const input = this.searchInputEl.value.trim();
+		// 絞り込み条件（tag: path: after: など）を検索キーワードから取り出す
+		const { query, filters: parsedFilters } = parseSearchQuery(input);
 		if (!query) {
 			showError("検索キーワードを入力してください", this.plugin.settings.notificationSettings);
 			return;
 		}
+		const filters = hasSearchFilters(parsedFilters) ? parsedFilters : undefined;
 
 		const limit = parseInt(this.limitInputEl.value) || 50;
 		if (limit < 1 || limit > 100) {
@@ -175,27 +202,44 @@ export class MCPSearchView extends ItemView {
 		}
 
 		this.isLoading = true;
-		this.currentQuery = query;
+		this.isCancelled = false;
+		this.currentQuery = input;
 		this.setLoadingState(true);
 
 		try {
-			const result = await this.mcpService.searchDocuments(query, limit);
-			this.currentResults = result.results;
+			const results = await this.router.search(
+				async (service) => (await service.searchDocuments(query, limit, filters)).results,
+				limit,
+				query,
+				filters
+			);
+			this.currentResults = results;
+			if (this.router.usedLocalIndex()) {
+				showInfo(
+					"MCPサーバーに接続できないため、ローカルインデックスで検索しました",
+					this.plugin.settings.notificationSettings
+				);
+			}
 
 			// 検索結果を表示
-			this.displayResults(result.results, result.total);
+			this.displayResults(results, results.length);
 
-			if (result.total > 0) {
+			if (results.length > 0) {
 				showSuccess(
-					`${result.total}件の検索結果が見つかりました`,
+					`${results.length}件の検索結果が見つかりました`,
 					this.plugin.settings.notificationSettings
 				);
 			} else {
 				showInfo("検索結果がありませんでした", this.plugin.settings.notificationSettings);
 			}
 		} catch (error) {
+			if (this.isCancelled) {
+				showInfo("検索を停止しました", this.plugin.settings.notificationSettings);
+				this.showWelcomeMessage();
+				return;
+			}
 			showError(
-				error instanceof Error ? error.message : "検索に失敗しました",
+				error instanceof Error ? error : "検索に失敗しました",
 				this.plugin.settings.notificationSettings
 			);
 			this.showWelcomeMessage();
@@ -208,7 +252,7 @@ export class MCPSearchView extends ItemView {
 	/**
 	 * 検索結果を表示
 	 */
-	private displayResults(results: SearchResult[], total: number) {
+	private displayResults(results: BackendSearchResult[], total: number) {
 		if (!this.resultsEl) return;
 
 		this.resultsEl.empty();
@@ -244,7 +288,7 @@ export class MCPSearchView extends ItemView {
 	/**
 	 * 検索結果アイテムを作成
 	 */
-	private createResultItem(result: SearchResult, index: number): HTMLElement {
+	private createResultItem(result: BackendSearchResult, index: number): HTMLElement {
 		const item = document.createElement("div");
 		item.className = "mcp-search-result-item";
 		item.style.padding = "1rem";
@@ -272,9 +316,18 @@ export class MCPSearchView extends ItemView {
 		pathLink.style.cursor = "pointer";
 		pathLink.style.textDecoration = "underline";
 
-		// クリックでファイルを開く
+		// 見出しの階層（ノート › セクション › サブセクション）
+		if (result.heading_path && result.heading_path.length > 0) {
+			const headingPath = item.createDiv("mcp-search-heading-path");
+			headingPath.style.marginBottom = "0.5rem";
+			headingPath.style.fontSize = "0.85em";
+			headingPath.style.color = "var(--text-muted)";
+			headingPath.setText(formatHeadingPath(result.file_path, result.heading_path));
+		}
+
+		// クリックでファイルを開き、結果の位置までスクロールする
 		item.addEventListener("click", async () => {
-			await this.openFile(result.file_path);
+			await this.openFile(result.file_path, getResultStartLine(result));
 		});
 
 		// メタ情報
@@ -287,6 +340,9 @@ export class MCPSearchView extends ItemView {
 
 		metaInfo.createEl("span", { text: `タイプ: ${result.file_type}` });
 		metaInfo.createEl("span", { text: ` | 場所: ${result.location_info}` });
+		if (this.router.hasMultipleBackends() || this.router.usedLocalIndex()) {
+			metaInfo.createEl("span", { text: ` | サーバー: ${result.backend}` });
+		}
 
 		// スニペット
 		const snippet = item.createDiv("mcp-search-snippet");
@@ -304,8 +360,9 @@ export class MCPSearchView extends ItemView {
 
 	/**
 	 * ファイルを開く（新しいタブで）
+	 * @param line 表示する行（1始まり）
 	 */
-	private async openFile(filePath: string) {
+	private async openFile(filePath: string, line?: number) {
 		try {
 			// ファイルパスをObsidianのバルト内のパスに変換
 			// MCPサーバーから返されるパスは絶対パスの可能性があるため、
@@ -328,10 +385,7 @@ export class MCPSearchView extends ItemView {
 			const file = this.plugin.app.vault.getAbstractFileByPath(relativePath);
 			if (file instanceof TFile) {
 				// 新しいタブでファイルを開く
-				const leaf = this.app.workspace.getLeaf("tab");
-				await leaf.openFile(file);
-				// 開いたタブをアクティブにする
-				this.app.workspace.setActiveLeaf(leaf, { focus: true });
+				await openFileAtLine(this.app, file, line);
 			} else {
 				// ファイルが見つからない場合、外部ファイルとして扱う
 				// Obsidianの外部リンクとして開く
@@ -345,7 +399,7 @@ export class MCPSearchView extends ItemView {
 			}
 		} catch (error) {
 			showError(
-				error instanceof Error ? error.message : "ファイルを開くのに失敗しました",
+				error instanceof Error ? error : "ファイルを開くのに失敗しました",
 				this.plugin.settings.notificationSettings
 			);
 			console.error("[MCP Search] Error opening file:", error);
@@ -357,13 +411,20 @@ export class MCPSearchView extends ItemView {
 	 */
 	private async showStats() {
 		try {
-			const stats = await this.mcpService.getSearchStats();
-			const message = `インデックス済みドキュメント: ${stats.total_documents}件`;
+			const backendStats = await this.router.getStats();
+			if (backendStats.every((item) => item.stats === null)) {
+				throw new Error("統計情報の取得に失敗しました");
+			}
+			const message = backendStats.length === 1
+				? `インデックス済みドキュメント: ${backendStats[0].stats?.total_documents}件`
+				: backendStats
+					.map((item) => `${item.backend}: ${item.stats ? `${item.stats.total_documents}件` : "取得できませんでした"}`)
+					.join("\n");
 			showSuccess(message, this.plugin.settings.notificationSettings);
-			console.log("[MCP Search] Stats:", stats);
+			console.log("[MCP Search] Stats:", backendStats);
 		} catch (error) {
 			showError(
-				error instanceof Error ? error.message : "統計情報の取得に失敗しました",
+				error instanceof Error ? error : "統計情報の取得に失敗しました",
 				this.plugin.settings.notificationSettings
 			);
 		}
@@ -373,6 +434,9 @@ export class MCPSearchView extends ItemView {
 	 * ローディング状態を設定
 	 */
 	private setLoadingState(loading: boolean) {
+		if (this.stopButton) {
+			this.stopButton.style.display = loading ? "" : "none";
+		}
 		if (!this.searchButton) return;
 
 		if (loading) {
@@ -383,5 +447,13 @@ export class MCPSearchView extends ItemView {
 			this.searchButton.textContent = "検索";
 		}
 	}
-}
 
+	/**
+	 * 実行中の検索を停止
+	 */
+	private stopSearch() {
+		if (!this.isLoading) return;
+		this.isCancelled = true;
+		this.router.cancelPending();
+	}
+}
@@ -3,13 +3,26 @@
  * 全文検索ベースのRAGシステムのView実装
  */
 
-import { ItemView, MarkdownView, WorkspaceLeaf } from "obsidian";
+import { ItemView, MarkdownView, TFile, WorkspaceLeaf } from "obsidian";
 import KnowledgeConnectPlugin from "../main";
 import { RAGSearchService, type SearchHit } from "../services/rag-search-service";
-import { MCPService, type SearchResult } from "../services/mcp-service";
-import { showError, showInfo, showSuccess } from "../utils/error-handler";
-import { saveToFile } from "../utils/file-manager";
+import { getResultStartLine, type MCPService, type RAGResponse, type SearchFilters, type SearchResult } from "../services/mcp-service";
+import { createMCPService } from "../services/mcp-connection";
+import { formatErrorMessage, showError, showInfo, showSuccess } from "../utils/error-handler";
+import { CancelledError, NetworkError, RateLimitError, TimeoutError, isTransientError } from "../utils/errors";
+import { openFileAtLine, saveToFile } from "../utils/file-manager";
+import { formatHeadingPath } from "../utils/text-processor";
+import { toVaultPath } from "../utils/vault-paths";
+import {
+	attachSearchFilterChips,
+	hasSearchFilters,
+	matchesSearchFilters,
+	parseSearchQuery,
+	SEARCH_FILTER_SYNTAX_HINT,
+} from "../utils/search-filters";
 import { SaveDialog } from "../utils/save-dialog";
+import { sanitizeGeneratedTitle } from "../utils/title-input-dialog";
+import { requestStructuredOutput, TITLE_FORMAT, type TitleResult } from "../utils/structured-output";
 import type { ChatMessage } from "../services/ai-service-interface";
 
 export const RAG_VIEW_TYPE = "knowledge-connect-rag";
@@ -22,6 +35,7 @@ interface RAGMessage {
 	role: "user" | "assistant";
 	content: string;
 	searchHits?: SearchHit[];
+	notice?: string; // 回答の注意事項（絞り込み条件が適用されなかった場合など）
 	timestamp: Date;
 }
 
@@ -31,19 +45,27 @@ export class RAGView extends ItemView {
 	private mcpService: MCPService;
 	private messages: RAGMessage[] = [];
 	private inputEl: HTMLTextAreaElement | null = null;
+	private refreshFilterChips: (() => void) | null = null;
 	private messagesEl: HTMLElement | null = null;
 	private sendButton: HTMLButtonElement | null = null;
+	private stopButton: HTMLButtonElement | null = null;
 	private clearButton: HTMLButtonElement | null = null;
 	private indexButton: HTMLButtonElement | null = null;
 	private saveButton: HTMLButtonElement | null = null;
 	private isLoading: boolean = false;
+	private isCancelled = false; // 送信中のリクエストを停止した場合true
 
 	constructor(leaf: WorkspaceLeaf, plugin: KnowledgeConnectPlugin) {
 		super(leaf);
 		this.plugin = plugin;
-		this.searchService = new RAGSearchService(plugin.app, plugin.settings);
-		const baseUrl = plugin.settings?.mcpServerUrl || 'http://127.0.0.1:8000';
-		this.mcpService = new MCPService(baseUrl);
+		this.searchService = new RAGSearchService(
+			plugin.app,
+			plugin.settings,
+			plugin.getRequestManager(),
+			plugin.getJobMonitor(),
+			plugin.getSearchService()
+		);
+		this.mcpService = createMCPService(plugin.app, plugin.settings, plugin.getRequestManager());
 	}
 
 	getViewType(): string {
@@ -96,7 +118,7 @@ export class RAGView extends ItemView {
 
 		// テキストエリア
 		this.inputEl = inputContainer.createEl("textarea", {
-			placeholder: "質問を入力してください...",
+			placeholder: `質問を入力してください...（${SEARCH_FILTER_SYNTAX_HINT}）`,
 			cls: "rag-input",
 		});
 		this.inputEl.style.width = "100%";
@@ -105,6 +127,12 @@ export class RAGView extends ItemView {
 		this.inputEl.style.padding = "0.5rem";
 		this.inputEl.style.marginBottom = "0.5rem";
 
+		// 絞り込み条件のチップ
+		this.refreshFilterChips = attachSearchFilterChips(
+			inputContainer.createDiv("knowledge-connect-filter-chips"),
+			this.inputEl
+		);
+
 		// Enterキーで送信（Shift+Enterで改行）
 		this.inputEl.addEventListener("keydown", (e) => {
 			if (e.key === "Enter" && !e.shiftKey) {
@@ -125,6 +153,14 @@ export class RAGView extends ItemView {
 		});
 		this.sendButton.onclick = () => this.handleSend();
 
+		// 停止ボタン（送信中のみ表示）
+		this.stopButton = buttonContainer.createEl("button", {
+			text: "停止",
+			cls: "rag-stop-button",
+		});
+		this.stopButton.style.display = "none";
+		this.stopButton.onclick = () => this.stopRequest();
+
 		// クリアボタン
 		this.clearButton = buttonContainer.createEl("button", {
 			text: "クリア",
@@ -145,7 +181,8 @@ export class RAGView extends ItemView {
 	}
 
 	async onClose() {
-		// クリーンアップ処理があれば実装
+		// 実行中のリクエストを停止
+		this.stopRequest();
 	}
 
 	/**
@@ -160,6 +197,13 @@ export class RAGView extends ItemView {
 			});
 		} catch (error) {
 			console.error("[RAG View] 検索サービスの初期化に失敗しました:", error);
+			if ((error instanceof NetworkError || error instanceof TimeoutError) && this.canAnswerLocally()) {
+				showInfo(
+					"MCPサーバーに接続できないため、ローカルインデックスで回答します",
+					this.plugin.settings.notificationSettings
+				);
+				return;
+			}
 			showError("検索サービスの初期化に失敗しました", this.plugin.settings.notificationSettings);
 		}
 	}
@@ -199,6 +243,7 @@ export class RAGView extends ItemView {
 
 		try {
 			const response = await aiService.chatCompletion({
+				feature: "similar-words",
 				messages: [
 					{
 						role: "system",
@@ -286,24 +331,33 @@ export class RAGView extends ItemView {
 			return;
 		}
 
-		const query = this.inputEl.value.trim();
-		if (!query || this.isLoading) {
+		const input = this.inputEl.value.trim();
+		if (!input || this.isLoading) {
+			return;
+		}
+		// 絞り込み条件（tag: path: after: など）を質問から取り出す
+		const { query, filters: parsedFilters } = parseSearchQuery(input);
+		if (!query) {
+			showError("質問を入力してください", this.plugin.settings.notificationSettings);
 			return;
 		}
+		const filters = hasSearchFilters(parsedFilters) ? parsedFilters : undefined;
 
 		// ユーザーメッセージを追加
 		this.addMessage({
 			id: this.generateId(),
 			role: "user",
-			content: query,
+			content: input,
 			timestamp: new Date(),
 		});
 
 		// 入力欄をクリア
 		this.inputEl.value = "";
 		this.inputEl.style.height = "auto";
+		this.refreshChips();
 
 		// ローディング状態に設定
+		this.isCancelled = false;
 		this.setLoading(true);
 
 		try {
@@ -325,22 +379,44 @@ export class RAGView extends ItemView {
 			console.log(`[RAG View] RAGエンドポイントを呼び出し: "${query}"`);
 
 			// POST /search/rag エンドポイントを呼び出し
-			const ragResponse = await this.mcpService.ragQueryPost(
-				query,
-				llmProvider,
-				model,
-				apiBase,
-				limit,
-				hybridWeight,
-				keywordLimit,
-				vectorLimit,
-				expandSynonyms,
-				temperature,
-				maxTokens
-			);
+			let ragResponse: RAGResponse;
+			try {
+				ragResponse = await this.mcpService.ragQueryPost(
+					query,
+					llmProvider,
+					model,
+					apiBase,
+					limit,
+					hybridWeight,
+					keywordLimit,
+					vectorLimit,
+					expandSynonyms,
+					temperature,
+					maxTokens,
+					filters
+				);
+			} catch (error) {
+				// MCPサーバーに接続できない場合はローカルインデックスとAIサービスで回答する
+				if (!(error instanceof NetworkError || error instanceof TimeoutError) || !this.canAnswerLocally()) {
+					throw error;
+				}
+				console.warn("[RAG View] MCPサーバーに接続できないため、ローカルインデックスで回答します:", error);
+				ragResponse = await this.answerWithLocalIndex(query, limit, filters);
+			}
 
 			console.log(`[RAG View] RAG回答を取得: モデル=${ragResponse.model_used}, プロバイダー=${ragResponse.provider_used}, ソース数=${ragResponse.sources.length}`);
 
+			// サーバーが絞り込みに対応していない場合、回答は絞り込み前の資料から作成されている
+			const ignoredFilters = filters !== undefined
+				&& ragResponse.sources.some((source) => !matchesSearchFilters(
+					this.app,
+					toVaultPath(this.app, source.file_path) ?? source.file_path,
+					filters
+				));
+			if (ignoredFilters) {
+				console.warn("[RAG View] MCPサーバーが絞り込み条件を適用していない可能性があります:", filters);
+			}
+
 			// SearchResultをSearchHitに変換
 			const searchHits: SearchHit[] = ragResponse.sources.map((source: SearchResult) => ({
 				path: source.file_path,
@@ -349,6 +425,8 @@ export class RAGView extends ItemView {
 				file_type: source.file_type,
 				location_info: source.location_info,
 				snippet: source.snippet,
+				heading_path: source.heading_path,
+				start_line: getResultStartLine(source),
 			}));
 
 			// 検索結果を表示（デバッグ用）
@@ -362,11 +440,27 @@ export class RAGView extends ItemView {
 				role: "assistant",
 				content: ragResponse.answer,
 				searchHits: searchHits,
+				notice: ignoredFilters
+					? "⚠️ 参照元に絞り込み条件に一致しないノートが含まれています。MCPサーバーが絞り込みに対応していないため、この回答は絞り込み前の検索結果から作成されています。"
+					: undefined,
 				timestamp: new Date(),
 			});
 		} catch (error) {
+			if (this.isCancelled || error instanceof CancelledError) {
+				showInfo("リクエストを停止しました", this.plugin.settings.notificationSettings);
+				return;
+			}
 			console.error("[RAG View] エラーが発生しました:", error);
-			const errorMessage = error instanceof Error ? error.message : "不明なエラーが発生しました";
+			let errorMessage = formatErrorMessage(error);
+			if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+				errorMessage = `${error.message} ${error.retryAfter}秒後にもう一度送信してください。`;
+			}
+			// 再試行で回復が見込めるエラーは、すぐに送信し直せるよう質問を入力欄に戻す
+			if (isTransientError(error) && this.inputEl && !this.inputEl.value) {
+				this.inputEl.value = input;
+				this.refreshChips();
+				errorMessage += "（質問を入力欄に戻しました）";
+			}
 			this.addMessage({
 				id: this.generateId(),
 				role: "assistant",
@@ -379,6 +473,66 @@ export class RAGView extends ItemView {
 		}
 	}
 
+	/**
+	 * 入力欄の内容を変更した後に絞り込み条件のチップを更新
+	 */
+	private refreshChips(): void {
+		if (this.refreshFilterChips) {
+			this.refreshFilterChips();
+		}
+	}
+
+	/**
+	 * MCPサーバーを使わずに回答できるか（ローカルインデックスとAIサービスが利用可能か）
+	 */
+	private canAnswerLocally(): boolean {
+		const localSearch = this.plugin.getSearchService();
+		return localSearch !== null && localSearch.isEnabled() && this.plugin.getAIService() !== null;
+	}
+
+	/**
+	 * ローカルインデックスで検索し、AIサービスで回答を生成
+	 */
+	private async answerWithLocalIndex(query: string, limit: number, filters?: SearchFilters): Promise<RAGResponse> {
+		const aiService = this.plugin.getAIService();
+		const localSearch = this.plugin.getSearchService();
+		if (!aiService || !localSearch) {
+			throw new Error("ローカルインデックスで回答できません");
+		}
+		const sources = await localSearch.search(query, limit, filters);
+		const searchHits: SearchHit[] = sources.map((source) => ({
+			path: source.file_path,
+			content: source.snippet,
+			score: 1.0,
+			location_info: source.location_info,
+			snippet: source.snippet,
+			heading_path: source.heading_path,
+			start_line: getResultStartLine(source),
+		}));
+		const response = await aiService.chatCompletion({
+			feature: "rag",
+			messages: [
+				{
+					role: "system",
+					content: "あなたはユーザーのノートを参照して質問に答えるアシスタントです。参考情報に基づいて回答し、参考情報に答えがない場合はその旨を伝えてください。",
+				},
+				{
+					role: "user",
+					content: `${this.buildContext(searchHits)}\n\n質問: ${query}`,
+				},
+			],
+			temperature: this.plugin.settings.mcpRagTemperature || 0.7,
+		});
+		showInfo("MCPサーバーに接続できないため、ローカルインデックスで回答しました", this.plugin.settings.notificationSettings);
+		return {
+			query,
+			answer: response.content,
+			sources,
+			model_used: response.model || "",
+			provider_used: aiService.getServiceName(),
+		};
+	}
+
 	/**
 	 * コンテキストを構築
 	 */
@@ -397,7 +551,7 @@ export class RAGView extends ItemView {
 
 			return `[参考情報 ${index + 1}]
 ファイルパス: ${hit.path}
-${hit.location_info ? `位置情報: ${hit.location_info}\n` : ''}内容:
+${hit.heading_path && hit.heading_path.length > 0 ? `見出し: ${formatHeadingPath(hit.path, hit.heading_path)}\n` : ''}${hit.location_info ? `位置情報: ${hit.location_info}\n` : ''}内容:
 ${truncatedContent}`;
 		});
 
@@ -459,6 +613,21 @@ ${truncatedContent}`;
 			pathEl.style.webkitUserSelect = "text";
 			pathEl.style.mozUserSelect = "text";
 			pathEl.style.msUserSelect = "text";
+			pathEl.style.cursor = "pointer";
+			// クリックでノートを開き、結果の位置までスクロールする
+			pathEl.addEventListener("click", () => {
+				void this.openHit(hit);
+			});
+
+			// 見出しの階層（ノート › セクション › サブセクション）
+			if (hit.heading_path && hit.heading_path.length > 0) {
+				const headingEl = hitContainer.createEl("div", {
+					text: formatHeadingPath(hit.path, hit.heading_path),
+					cls: "rag-search-hit-heading",
+				});
+				headingEl.style.fontSize = "0.8em";
+				headingEl.style.color = "var(--text-muted)";
+			}
 
 			// スニペットを表示（あれば）
 			if (hit.snippet) {
@@ -478,6 +647,20 @@ ${truncatedContent}`;
 		});
 	}
 
+	/**
+	 * 検索結果のノートを開く（Vault内のノートの場合のみ）
+	 */
+	private async openHit(hit: SearchHit): Promise<void> {
+		// MCPサーバーのパスは絶対パスの場合があるため、Vault内のパスに変換する
+		const relativePath = toVaultPath(this.app, hit.path) ?? hit.path;
+		const file = this.app.vault.getAbstractFileByPath(relativePath);
+		if (!(file instanceof TFile)) {
+			showError(`ファイルが見つかりません: ${relativePath}`, this.plugin.settings.notificationSettings);
+			return;
+		}
+		await openFileAtLine(this.app, file, hit.start_line);
+	}
+
 	/**
 	 * メッセージを追加
 	 */
@@ -537,6 +720,10 @@ ${truncatedContent}`;
 			saveButton.onclick = () => this.saveRAGResponse(message);
 		}
 
+		if (message.notice) {
+			messageContainer.createDiv({ text: message.notice, cls: "rag-message-notice" });
+		}
+
 		// コンテンツ表示
 		const contentEl = messageContainer.createDiv("rag-message-content");
 		contentEl.style.whiteSpace = "pre-wrap";
@@ -580,11 +767,26 @@ ${truncatedContent}`;
 			this.sendButton.disabled = loading;
 			this.sendButton.textContent = loading ? "送信中..." : "送信";
 		}
+		if (this.stopButton) {
+			this.stopButton.style.display = loading ? "" : "none";
+		}
 		if (this.inputEl) {
 			this.inputEl.disabled = loading;
 		}
 	}
 
+	/**
+	 * 送信中のリクエストを停止
+	 */
+	private stopRequest(): void {
+		if (!this.isLoading) {
+			return;
+		}
+		this.isCancelled = true;
+		this.mcpService.cancelPending();
+		this.searchService.cancelPending();
+	}
+
 	/**
 	 * 最下部にスクロール
 	 */
@@ -637,37 +839,27 @@ ${truncatedContent}`;
 		let generatedTitle = "";
 
 		try {
-			const titleResponse = await aiService.chatCompletion({
-				messages: [
-					{
-						role: "system",
-						content:
-							"あなたはタイトル生成アシスタントです。与えられた回答の内容を分析して、適切なタイトルを1つだけ生成してください。タイトルは30文字以内で、日本語で、ファイル名として使用できる形式（特殊文字なし）で出力してください。タイトル以外の説明や補足は不要です。",
-					},
-					{
-						role: "user",
-						content: `以下の回答から適切なタイトルを生成してください：\n\n${message.content.substring(0, 500)}`,
-					},
-				],
-				maxTokens: 50,
-			});
-
-			generatedTitle = titleResponse.content.trim();
-
-			// 改行で分割して最初の行を取得
-			const firstLine = generatedTitle.split("\n")[0].trim();
-			if (firstLine) {
-				generatedTitle = firstLine;
-			}
+			const result = await requestStructuredOutput<TitleResult>(
+				aiService,
+				{
+					feature: "title",
+					messages: [
+						{
+							role: "system",
+							content:
+								"あなたはタイトル生成アシスタントです。与えられた回答の内容を分析して、適切なタイトルを1つだけ生成してください。タイトルは30文字以内で、日本語で、ファイル名として使用できる形式（特殊文字なし）にしてください。",
+						},
+						{
+							role: "user",
+							content: `以下の回答から適切なタイトルを生成してください：\n\n${message.content.substring(0, 500)}`,
+						},
+					],
+					maxTokens: 50,
+				},
+				TITLE_FORMAT
+			);
 
-			// ファイル名として使用できない文字を削除
-			generatedTitle = generatedTitle
-				.replace(/[<>:"|?*\/\\]/g, "")
-				.replace(/\n/g, " ")
-				.replace(/^タイトル[:：]\s*/i, "")
-				.replace(/^「|」$/g, "")
-				.trim()
-				.slice(0, 50);
+			generatedTitle = sanitizeGeneratedTitle(result.title);
 
 			if (!generatedTitle) {
 				generatedTitle = `RAG回答-${new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19)}`;
@@ -749,40 +941,30 @@ ${truncatedContent}`;
 				.join("\n")
 				.slice(0, 500); // 最初の500文字のみ
 
-			const titleResponse = await aiService.chatCompletion({
-				messages: [
-					{
-						role: "system",
-						content:
-							"あなたはタイトル生成アシスタントです。与えられたチャット履歴の内容を分析して、適切なタイトルを1つだけ生成してください。タイトルは30文字以内で、日本語で、ファイル名として使用できる形式（特殊文字なし）で出力してください。タイトル以外の説明や補足は不要です。",
-					},
-					{
-						role: "user",
-						content: `以下のチャット履歴から適切なタイトルを生成してください：\n\n${previewText}`,
-					},
-				],
-				maxTokens: 50,
-			});
-
-			generatedTitle = titleResponse.content.trim();
-
-			// 改行で分割して最初の行を取得（タイトル以外の説明が含まれる場合があるため）
-			const firstLine = generatedTitle.split("\n")[0].trim();
-			if (firstLine) {
-				generatedTitle = firstLine;
-			}
+			const result = await requestStructuredOutput<TitleResult>(
+				aiService,
+				{
+					feature: "title",
+					messages: [
+						{
+							role: "system",
+							content:
+								"あなたはタイトル生成アシスタントです。与えられたチャット履歴の内容を分析して、適切なタイトルを1つだけ生成してください。タイトルは30文字以内で、日本語で、ファイル名として使用できる形式（特殊文字なし）にしてください。",
+						},
+						{
+							role: "user",
+							content: `以下のチャット履歴から適切なタイトルを生成してください：\n\n${previewText}`,
+						},
+					],
+					maxTokens: 50,
+				},
+				TITLE_FORMAT
+			);
 
-			// ファイル名として使用できない文字を削除
-			generatedTitle = generatedTitle
-				.replace(/[<>:"|?*\/\\]/g, "")
-				.replace(/\n/g, " ")
-				.replace(/^タイトル[:：]\s*/i, "") // 「タイトル:」などのプレフィックスを削除
-				.replace(/^「|」$/g, "") // 引用符を削除
-				.trim()
-				.slice(0, 50); // 最大50文字
+			generatedTitle = sanitizeGeneratedTitle(result.title);
 
 			if (!generatedTitle) {
-				console.warn("タイトルが生成されませんでした。レスポンス:", titleResponse.content);
+				console.warn("タイトルが生成されませんでした。レスポンス:", result);
 				generatedTitle = `RAGチャット履歴-${new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19)}`;
 			}
 		} catch (error) {
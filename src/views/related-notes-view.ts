@@ -0,0 +1,274 @@
+/**
+ * Related Notes View
+ * アクティブなノートに意味的に関連するノートをサイドバーに表示
+ * ノートを開く・リンクを挿入する・「関連ノート」セクションに追記する操作ができる
+ */
+
+import { ItemView, MarkdownView, TFile, WorkspaceLeaf } from "obsidian";
+import KnowledgeConnectPlugin from "../main";
+import {
+	RELATED_SECTION_HEADING,
+	RelatedNotesService,
+	appendToRelatedSection,
+	type RelatedNote,
+} from "../services/related-notes-service";
+import { formatErrorMessage, showError, showInfo, showSuccess } from "../utils/error-handler";
+import { openFileAtLine } from "../utils/file-manager";
+import { formatHeadingPath } from "../utils/text-processor";
+
+export const RELATED_NOTES_VIEW_TYPE = "knowledge-connect-related-notes";
+
+/**
+ * アクティブなノートが切り替わってから検索するまでの待ち時間（ミリ秒）
+ */
+const REFRESH_DELAY_MS = 500;
+
+/**
+ * 表示するスニペットの最大文字数
+ */
+const MAX_SNIPPET_LENGTH = 200;
+
+export class RelatedNotesView extends ItemView {
+	plugin: KnowledgeConnectPlugin;
+	private service: RelatedNotesService;
+	private currentFile: TFile | null = null;
+	private statusEl: HTMLElement | null = null;
+	private listEl: HTMLElement | null = null;
+	private refreshTimer: number | null = null;
+	private requestId = 0; // 古い検索の結果で表示を上書きしないための連番
+
+	constructor(leaf: WorkspaceLeaf, plugin: KnowledgeConnectPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+		this.service = new RelatedNotesService(
+			plugin.app,
+			plugin.settings,
+			plugin.getRequestManager(),
+			plugin.getSearchService()
+		);
+	}
+
+	getViewType(): string {
+		return RELATED_NOTES_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "関連ノート";
+	}
+
+	getIcon(): string {
+		return "git-fork";
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		container.addClass("related-notes-view");
+
+		// ヘッダー
+		const header = container.createDiv("related-notes-header");
+		header.createEl("h2", { text: "関連ノート" });
+		const refreshButton = header.createEl("button", { text: "更新" });
+		refreshButton.onclick = () => {
+			if (this.currentFile) {
+				this.refresh(this.currentFile);
+			}
+		};
+
+		this.statusEl = container.createDiv("related-notes-status");
+		this.listEl = container.createDiv("related-notes-list");
+
+		// アクティブなノートが切り替わったら関連ノートを検索し直す
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", (leaf) => this.onActiveLeafChange(leaf))
+		);
+
+		const file = this.app.workspace.getActiveFile();
+		if (file && file.extension === "md") {
+			this.refresh(file);
+		} else {
+			this.setStatus("ノートを開くと関連ノートを表示します。");
+		}
+	}
+
+	async onClose() {
+		this.clearRefreshTimer();
+		this.service.cancelPending();
+		this.statusEl = null;
+		this.listEl = null;
+	}
+
+	/**
+	 * Markdownのノートに切り替わった場合のみ検索する
+	 * このViewや他の種類のViewに切り替わった場合は、直前のノートの関連ノートを表示したままにする
+	 */
+	private onActiveLeafChange(leaf: WorkspaceLeaf | null): void {
+		if (!leaf || !(leaf.view instanceof MarkdownView) || !leaf.view.file) {
+			return;
+		}
+		const file = leaf.view.file;
+		if (this.currentFile && this.currentFile.path === file.path) {
+			return;
+		}
+		this.clearRefreshTimer();
+		this.refreshTimer = window.setTimeout(() => {
+			this.refreshTimer = null;
+			this.refresh(file);
+		}, REFRESH_DELAY_MS);
+	}
+
+	private clearRefreshTimer(): void {
+		if (this.refreshTimer !== null) {
+			window.clearTimeout(this.refreshTimer);
+			this.refreshTimer = null;
+		}
+	}
+
+	private async refresh(file: TFile): Promise<void> {
+		this.currentFile = file;
+		const requestId = ++this.requestId;
+		this.service.cancelPending();
+		this.setStatus(`「${file.basename}」の関連ノートを検索中...`);
+		if (this.listEl) {
+			this.listEl.empty();
+		}
+
+		try {
+			const notes = await this.service.findRelated(file, this.plugin.settings.relatedNotesLimit || 10);
+			if (requestId !== this.requestId) {
+				return;
+			}
+			const source = this.service.usedLocalIndex() ? "（ローカルインデックス）" : "";
+			this.setStatus(`「${file.basename}」の関連ノート: ${notes.length}件${source}`);
+			this.render(notes);
+		} catch (error) {
+			if (requestId !== this.requestId) {
+				return;
+			}
+			// ノートを切り替えるたびに通知しないよう、エラーはViewの中に表示する
+			console.error("[Related Notes] 関連ノートの検索に失敗しました:", error);
+			this.setStatus(`関連ノートを検索できませんでした: ${formatErrorMessage(error)}`, true);
+		}
+	}
+
+	private setStatus(text: string, isError = false): void {
+		if (!this.statusEl) {
+			return;
+		}
+		this.statusEl.setText(text);
+		this.statusEl.toggleClass("related-notes-status-error", isError);
+	}
+
+	private render(notes: RelatedNote[]): void {
+		if (!this.listEl) {
+			return;
+		}
+		this.listEl.empty();
+		if (notes.length === 0) {
+			this.listEl.createEl("p", { text: "関連ノートは見つかりませんでした。", cls: "related-notes-empty" });
+			return;
+		}
+		for (const note of notes) {
+			this.renderNote(this.listEl, note);
+		}
+	}
+
+	private renderNote(containerEl: HTMLElement, note: RelatedNote): void {
+		const card = containerEl.createDiv("related-notes-card");
+
+		const titleRow = card.createDiv("related-notes-card-title");
+		const title = titleRow.createEl("a", { text: note.file.basename });
+		title.onclick = () => this.openNote(note);
+		if (note.score !== null) {
+			titleRow.createSpan({ text: note.score.toFixed(3), cls: "related-notes-score" });
+		}
+
+		if (note.headings.length > 0) {
+			card.createDiv({ text: formatHeadingPath(note.file.path, note.headings), cls: "related-notes-card-detail" });
+		} else if (note.file.parent && !note.file.parent.isRoot()) {
+			card.createDiv({ text: note.file.parent.path, cls: "related-notes-card-detail" });
+		}
+
+		if (note.snippet) {
+			card.createDiv({
+				text: note.snippet.length > MAX_SNIPPET_LENGTH
+					? `${note.snippet.substring(0, MAX_SNIPPET_LENGTH)}...`
+					: note.snippet,
+				cls: "related-notes-snippet",
+			});
+		}
+
+		// 操作
+		const actions = card.createDiv("related-notes-card-actions");
+		const openButton = actions.createEl("button", { text: "開く" });
+		openButton.onclick = () => this.openNote(note);
+		const insertButton = actions.createEl("button", { text: "リンクを挿入" });
+		insertButton.onclick = () => this.insertLink(note);
+		const appendButton = actions.createEl("button", { text: `「${RELATED_SECTION_HEADING}」に追加` });
+		appendButton.onclick = () => this.appendToSection(note, appendButton);
+	}
+
+	private async openNote(note: RelatedNote): Promise<void> {
+		try {
+			await openFileAtLine(this.app, note.file, note.line);
+		} catch (error) {
+			showError(error, this.plugin.settings.notificationSettings);
+		}
+	}
+
+	/**
+	 * 関連ノートへのリンク（[[リンク]]）を作成
+	 */
+	private createLink(note: RelatedNote, sourcePath: string): string {
+		return `[[${this.app.metadataCache.fileToLinktext(note.file, sourcePath, true)}]]`;
+	}
+
+	/**
+	 * 表示中のノートのカーソル位置にリンクを挿入
+	 */
+	private insertLink(note: RelatedNote): void {
+		const currentFile = this.currentFile;
+		const leaf = currentFile
+			? this.app.workspace.getLeavesOfType("markdown").find(
+				(markdownLeaf) => markdownLeaf.view instanceof MarkdownView
+					&& markdownLeaf.view.file !== null
+					&& markdownLeaf.view.file.path === currentFile.path
+			)
+			: undefined;
+		if (!currentFile || !leaf) {
+			showError("リンクを挿入するノートが開かれていません", this.plugin.settings.notificationSettings);
+			return;
+		}
+		(leaf.view as MarkdownView).editor.replaceSelection(this.createLink(note, currentFile.path));
+		showSuccess(`リンクを挿入しました: ${note.file.basename}`, this.plugin.settings.notificationSettings);
+	}
+
+	/**
+	 * 表示中のノートの「関連ノート」セクションにリンクを追記
+	 */
+	private async appendToSection(note: RelatedNote, button: HTMLButtonElement): Promise<void> {
+		const currentFile = this.currentFile;
+		if (!currentFile) {
+			return;
+		}
+		const link = this.createLink(note, currentFile.path);
+		let added = false;
+		button.disabled = true;
+		try {
+			await this.app.vault.process(currentFile, (content) => {
+				const updated = appendToRelatedSection(content, link);
+				added = updated !== null;
+				return updated ?? content;
+			});
+			if (added) {
+				showSuccess(`「${RELATED_SECTION_HEADING}」に追加しました: ${note.file.basename}`, this.plugin.settings.notificationSettings);
+			} else {
+				showInfo(`既に「${RELATED_SECTION_HEADING}」にあります: ${note.file.basename}`, this.plugin.settings.notificationSettings);
+			}
+		} catch (error) {
+			showError(error, this.plugin.settings.notificationSettings);
+		} finally {
+			button.disabled = false;
+		}
+	}
+}
@@ -6,6 +6,7 @@
 import { ItemView, WorkspaceLeaf } from "obsidian";
 import KnowledgeConnectPlugin from "../main";
 import { showError, showInfo, showSuccess } from "../utils/error-handler";
+import { CancelledError } from "../utils/errors";
 import { saveSummary } from "../utils/file-manager";
 
 export const SUMMARY_VIEW_TYPE = "knowledge-connect-summary";
@@ -15,6 +16,7 @@ export class SummaryView extends ItemView {
 	private summaryContentEl?: HTMLElement;
 	summaryText: string = "";
 	private isLoading: boolean = false;
+	private abortController: AbortController | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: KnowledgeConnectPlugin) {
 		super(leaf);
@@ -49,6 +51,8 @@ export class SummaryView extends ItemView {
 	}
 
 	async onClose() {
+		// 要約中の場合は中断
+		this.stopGeneration();
 		this.summaryContentEl = undefined;
 	}
 
@@ -71,7 +75,20 @@ export class SummaryView extends ItemView {
 
 		this.setLoading(true);
 		this.summaryContentEl.empty();
-		this.summaryContentEl.createEl("p", { text: "要約中..." });
+		this.summaryText = "";
+
+		// 受信したテキストを逐次表示する領域
+		const streamingEl = this.summaryContentEl.createDiv("summary-text summary-streaming");
+		streamingEl.createEl("p", { text: "要約中..." });
+
+		// 停止ボタン
+		const abortController = new AbortController();
+		this.abortController = abortController;
+		const stopButton = this.summaryContentEl.createEl("button", {
+			text: "停止",
+			cls: "summary-stop-button",
+		});
+		stopButton.onclick = () => this.stopGeneration();
 
 		try {
 			// プロンプトを構築
@@ -83,19 +100,27 @@ export class SummaryView extends ItemView {
 
 			const prompt = `${detailPrompt[detailLevel]}\n\n以下のテキストを要約してください：\n\n${text}`;
 
-			const response = await aiService.chatCompletion({
-				messages: [
-					{
-						role: "system",
-						content: "あなたは優秀な要約アシスタントです。与えられたテキストを適切に要約してください。",
-					},
-					{
-						role: "user",
-						content: prompt,
-					},
-				],
-				maxTokens: this.plugin.settings.maxTokens,
-			});
+			const response = await aiService.chatCompletionStream(
+				{
+					feature: "summarize",
+					messages: [
+						{
+							role: "system",
+							content: "あなたは優秀な要約アシスタントです。与えられたテキストを適切に要約してください。",
+						},
+						{
+							role: "user",
+							content: prompt,
+						},
+					],
+					maxTokens: this.plugin.settings.maxTokens,
+					signal: abortController.signal,
+				},
+				(delta) => {
+					this.summaryText += delta;
+					streamingEl.textContent = this.summaryText;
+				}
+			);
 
 			this.summaryText = response.content;
 			this.renderSummary();
@@ -110,13 +135,35 @@ export class SummaryView extends ItemView {
 				await this.autoSave();
 			}
 		} catch (error) {
-			showError(error, this.plugin.settings.notificationSettings);
-			this.showInitialMessage();
+			// 停止ボタンとステータスバーからのキャンセルを同じように扱う
+			const cancelled = abortController.signal.aborted || error instanceof CancelledError;
+			if (cancelled && this.summaryText) {
+				// 停止された場合は途中までの要約を表示
+				this.renderSummary();
+				showInfo("要約の生成を停止しました", this.plugin.settings.notificationSettings);
+			} else {
+				if (!cancelled) {
+					showError(error, this.plugin.settings.notificationSettings);
+				}
+				this.showInitialMessage();
+			}
 		} finally {
+			if (this.abortController === abortController) {
+				this.abortController = null;
+			}
 			this.setLoading(false);
 		}
 	}
 
+	/**
+	 * 要約の生成を停止
+	 */
+	stopGeneration() {
+		if (this.abortController) {
+			this.abortController.abort();
+		}
+	}
+
 	renderSummary() {
 		if (!this.summaryContentEl) {
 			return;
@@ -9,7 +9,8 @@ import { showError, showInfo, showSuccess } from "../utils/error-handler";
 import { saveToFile } from "../utils/file-manager";
 import { SaveDialog } from "../utils/save-dialog";
 import { ModelSelectDialog, type ModelSelectResult } from "../utils/model-select-dialog";
-import { LiteLLMService } from "../services/litellm-service";
+import { AIServiceFactory } from "../services/ai-service-factory";
+import { getFeatureSettings } from "../services/feature-routing-ai-service";
 
 export const URL_SUMMARY_VIEW_TYPE = "knowledge-connect-url-summary";
 
@@ -22,7 +23,9 @@ export class UrlSummaryView extends ItemView {
 	private isLoading: boolean = false;
 	private fetchedContent: string = "";
 	private summaryText: string = "";
+	private summaryCached = false; // 表示中の要約が応答キャッシュから取得したものか
 	private currentModel: string = "";
+	private abortController: AbortController | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: KnowledgeConnectPlugin) {
 		super(leaf);
@@ -91,6 +94,8 @@ export class UrlSummaryView extends ItemView {
 	}
 
 	async onClose() {
+		// 要約中の場合は中断
+		this.stopGeneration();
 		this.urlInputEl = null;
 		this.fetchButton = null;
 		this.contentEl = null;
@@ -477,13 +482,14 @@ export class UrlSummaryView extends ItemView {
 	 * モデル選択ダイアログを表示して要約を実行
 	 */
 	private async showModelSelectAndSummarize(aiService: any) {
-		// 現在のモデルを初期化
-		this.currentModel = this.plugin.settings.aiModel;
+		// 現在のモデルを初期化（URL要約に割り当てられたモデルを優先）
+		const featureSettings = getFeatureSettings(this.plugin.settings, "url-summary");
+		this.currentModel = featureSettings.aiModel;
 
 		// 利用可能なモデルリストを取得
 		let availableModels: Array<{ value: string; label: string }> = [];
 
-		if (this.plugin.settings.aiService === "openrouter") {
+		if (featureSettings.aiService === "openrouter") {
 			availableModels = [
 				{ value: "google/gemini-2.5-flash", label: "Google Gemini 2.5 Flash" },
 				{ value: "qwen/qwen3-235b-a22b-2507", label: "Qwen3 235B" },
@@ -492,11 +498,15 @@ export class UrlSummaryView extends ItemView {
 				{ value: "openai/gpt-5.1", label: "OpenAI GPT-5.1" },
 				{ value: "anthropic/claude-sonnet-4.5", label: "Anthropic Claude Sonnet 4.5" },
 			];
-		} else if (this.plugin.settings.aiService === "litellm") {
+			// 割り当てられたモデルが一覧にない場合は追加
+			if (this.currentModel && !availableModels.some((m) => m.value === this.currentModel)) {
+				availableModels.unshift({ value: this.currentModel, label: this.currentModel });
+			}
+		} else {
 			try {
-				const litellmService = new LiteLLMService(this.plugin.settings);
-				if (litellmService.isApiKeySet()) {
-					const modelIds = await litellmService.getModels();
+				const modelService = AIServiceFactory.createService(featureSettings);
+				if (modelService.isApiKeySet()) {
+					const modelIds = modelService.getModels ? await modelService.getModels() : [];
 					availableModels = modelIds.map((id) => ({ value: id, label: id }));
 				} else {
 					showError(
@@ -508,7 +518,7 @@ export class UrlSummaryView extends ItemView {
 			} catch (error) {
 				console.error("[UrlSummaryView] モデルリストの取得に失敗:", error);
 				showError(
-					error instanceof Error ? error.message : "モデルリストの取得に失敗しました",
+					error instanceof Error ? error : "モデルリストの取得に失敗しました",
 					this.plugin.settings.notificationSettings
 				);
 				return;
@@ -537,46 +547,99 @@ export class UrlSummaryView extends ItemView {
 	/**
 	 * コンテンツを要約
 	 */
-	private async summarizeContent(aiService: any, model: string) {
+	private async summarizeContent(aiService: any, model: string, refreshCache = false) {
 		if (!this.summaryEl) {
 			return;
 		}
 
 		this.summaryEl.empty();
-		this.summaryEl.createEl("p", { text: "要約を生成中..." });
+		this.summaryText = "";
+		this.summaryCached = false;
+
+		// 停止ボタン
+		const abortController = new AbortController();
+		this.abortController = abortController;
+		const stopButton = this.summaryEl.createEl("button", {
+			text: "停止",
+			cls: "url-summary-stop-button",
+		});
+		stopButton.onclick = () => this.stopGeneration();
+
+		// 受信したテキストを逐次表示する領域
+		const streamingEl = this.summaryEl.createDiv("url-summary-streaming");
+		streamingEl.setText("要約を生成中...");
 
 		showInfo("要約を生成中...", this.plugin.settings.notificationSettings);
 
+		let partialText = "";
 		try {
-			const response = await aiService.chatCompletion({
-				messages: [
-					{
-						role: "system",
-						content: "あなたは優秀な要約アシスタントです。与えられたWebページのコンテンツを適切に要約してください。",
-					},
-					{
-						role: "user",
-						content: `以下のWebページのコンテンツを要約してください：\n\n${this.fetchedContent}`,
-					},
-				],
-				maxTokens: this.plugin.settings.maxTokens,
-				model: model,
-			});
+			const response = await aiService.chatCompletionStream(
+				{
+					feature: "url-summary",
+					messages: [
+						{
+							role: "system",
+							content: "あなたは優秀な要約アシスタントです。与えられたWebページのコンテンツを適切に要約してください。",
+						},
+						{
+							role: "user",
+							content: `以下のWebページのコンテンツを要約してください：\n\n${this.fetchedContent}`,
+						},
+					],
+					maxTokens: this.plugin.settings.maxTokens,
+					model: model,
+					signal: abortController.signal,
+					cache: refreshCache ? "refresh" : "use",
+				},
+				(delta: string) => {
+					partialText += delta;
+					streamingEl.setText(partialText);
+				}
+			);
 
 			this.summaryText = response.content.trim();
+			this.summaryCached = response.cached === true;
 			this.renderSummary();
 
 			showSuccess(
-				"要約が完了しました",
+				this.summaryCached ? "キャッシュから要約を表示しました" : "要約が完了しました",
 				this.plugin.settings.notificationSettings
 			);
 		} catch (error) {
-			showError(error, this.plugin.settings.notificationSettings);
+			if (abortController.signal.aborted && partialText.trim()) {
+				// 停止された場合は途中までの要約を表示
+				this.summaryText = partialText.trim();
+				this.renderSummary();
+				showInfo("要約の生成を停止しました", this.plugin.settings.notificationSettings);
+				return;
+			}
+			if (!abortController.signal.aborted) {
+				showError(error, this.plugin.settings.notificationSettings);
+			}
+			// ビューが閉じられている場合は何もしない
+			if (!this.summaryEl) {
+				return;
+			}
 			this.summaryEl.empty();
 			this.summaryEl.createEl("p", {
-				text: "要約の生成に失敗しました。",
+				text: abortController.signal.aborted
+					? "要約の生成を停止しました。"
+					: "要約の生成に失敗しました。",
 				cls: "url-summary-error",
 			});
+		} finally {
+			if (this.abortController === abortController) {
+				this.abortController = null;
+			}
+		}
+	}
+
+	/**
+	 * 要約の生成を停止
+	 */
+	private stopGeneration() {
+		if (this.abortController) {
+			this.abortController.abort();
 		}
 	}
 
@@ -592,6 +655,13 @@ export class UrlSummaryView extends ItemView {
 
 		// 要約結果
 		const summaryHeader = this.summaryEl.createEl("h3", { text: "要約結果" });
+		if (this.summaryCached) {
+			summaryHeader.createSpan({
+				text: "キャッシュ",
+				cls: "response-cache-badge",
+				attr: { title: "以前の要約結果をキャッシュから表示しています" },
+			});
+		}
 		const summaryContent = this.summaryEl.createDiv("url-summary-result-content");
 		summaryContent.style.userSelect = "text";
 		(summaryContent.style as any).webkitUserSelect = "text";
@@ -650,6 +720,21 @@ export class UrlSummaryView extends ItemView {
 		saveButton.onclick = () => {
 			this.saveToFile();
 		};
+
+		// キャッシュから表示した場合はAIで要約し直せるようにする
+		if (this.summaryCached) {
+			const refreshButton = actionsEl.createEl("button", {
+				text: "再生成",
+			});
+			refreshButton.onclick = () => {
+				const aiService = this.plugin.getAIService();
+				if (!aiService) {
+					showError("AIサービスが利用できません。", this.plugin.settings.notificationSettings);
+					return;
+				}
+				this.summarizeContent(aiService, this.currentModel, true);
+			};
+		}
 	}
 
 	/**
@@ -0,0 +1,254 @@
+/**
+ * Usage View
+ * AIのトークン使用量と推定コストのダッシュボード
+ */
+
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import KnowledgeConnectPlugin from "../main";
+import {
+	UsagePeriod,
+	UsageSummaryRow,
+	toPeriodKey,
+} from "../services/usage-ledger-service";
+import { AI_FEATURE_LABELS } from "../settings";
+import { showSuccess } from "../utils/error-handler";
+
+export const USAGE_VIEW_TYPE = "knowledge-connect-usage";
+
+export class UsageView extends ItemView {
+	plugin: KnowledgeConnectPlugin;
+	private period: UsagePeriod = "daily";
+	private budgetEl: HTMLElement | null = null;
+	private totalsEl: HTMLElement | null = null;
+	private tableContainerEl: HTMLElement | null = null;
+	private periodButtons: Record<UsagePeriod, HTMLButtonElement> | null = null;
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: KnowledgeConnectPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return USAGE_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "AI使用量";
+	}
+
+	getIcon(): string {
+		return "bar-chart-2";
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		container.addClass("usage-view");
+
+		// ヘッダー
+		const header = container.createDiv("usage-header");
+		header.createEl("h2", { text: "AI使用量" });
+
+		// 今月の予算状況
+		this.budgetEl = header.createDiv("usage-budget");
+
+		// 集計単位の切り替えとクリアボタン
+		const toolbar = header.createDiv("usage-toolbar");
+		const dailyButton = toolbar.createEl("button", { text: "日別" });
+		dailyButton.onclick = () => this.setPeriod("daily");
+		const monthlyButton = toolbar.createEl("button", { text: "月別" });
+		monthlyButton.onclick = () => this.setPeriod("monthly");
+		this.periodButtons = { daily: dailyButton, monthly: monthlyButton };
+
+		const clearButton = toolbar.createEl("button", { text: "記録をクリア", cls: "mod-warning" });
+		clearButton.onclick = () => this.clearRecords();
+
+		// 期間ごとの合計
+		this.totalsEl = container.createDiv("usage-totals");
+
+		// 機能・モデル別の内訳
+		this.tableContainerEl = container.createDiv("usage-table-container");
+
+		// 記録が追加されたら再描画
+		const ledger = this.plugin.getUsageLedger();
+		if (ledger) {
+			this.unsubscribe = ledger.onChange(() => this.render());
+		}
+
+		this.render();
+	}
+
+	async onClose() {
+		if (this.unsubscribe) {
+			this.unsubscribe();
+			this.unsubscribe = null;
+		}
+		this.budgetEl = null;
+		this.totalsEl = null;
+		this.tableContainerEl = null;
+		this.periodButtons = null;
+	}
+
+	/**
+	 * 集計単位を切り替え
+	 */
+	private setPeriod(period: UsagePeriod) {
+		this.period = period;
+		this.render();
+	}
+
+	/**
+	 * 記録をクリア
+	 */
+	private async clearRecords() {
+		const ledger = this.plugin.getUsageLedger();
+		if (!ledger) {
+			return;
+		}
+		if (!confirm("AI使用量の記録をすべて削除しますか？")) {
+			return;
+		}
+		await ledger.clear();
+		showSuccess("AI使用量の記録を削除しました", this.plugin.settings.notificationSettings);
+	}
+
+	/**
+	 * ダッシュボード全体を描画
+	 */
+	private render() {
+		if (!this.budgetEl || !this.totalsEl || !this.tableContainerEl) {
+			return;
+		}
+
+		if (this.periodButtons) {
+			this.periodButtons.daily.toggleClass("mod-cta", this.period === "daily");
+			this.periodButtons.monthly.toggleClass("mod-cta", this.period === "monthly");
+		}
+
+		const ledger = this.plugin.getUsageLedger();
+		if (!ledger) {
+			this.tableContainerEl.empty();
+			this.tableContainerEl.createEl("p", { text: "使用量の記録を読み込めませんでした。" });
+			return;
+		}
+
+		this.renderBudget(ledger.getBudgetStatus());
+
+		const rows = ledger.summarize(this.period);
+		this.renderTotals(rows);
+		this.renderTable(rows);
+	}
+
+	/**
+	 * 今月の推定コストと予算を表示
+	 */
+	private renderBudget(status: { budget: number; spent: number; exceeded: boolean }) {
+		if (!this.budgetEl) {
+			return;
+		}
+		this.budgetEl.empty();
+		this.budgetEl.toggleClass("usage-budget-exceeded", status.exceeded);
+
+		const currentMonth = toPeriodKey(Date.now(), "monthly");
+		if (status.budget > 0) {
+			const percentage = Math.min(100, (status.spent / status.budget) * 100);
+			this.budgetEl.createEl("div", {
+				text: `今月（${currentMonth}）の推定コスト: ${this.formatCost(status.spent)} / 予算 ${this.formatCost(status.budget)}（${percentage.toFixed(0)}%）`,
+			});
+			const bar = this.budgetEl.createDiv("usage-budget-bar");
+			const fill = bar.createDiv("usage-budget-bar-fill");
+			fill.style.width = `${percentage}%`;
+		} else {
+			this.budgetEl.createEl("div", {
+				text: `今月（${currentMonth}）の推定コスト: ${this.formatCost(status.spent)}（予算: 無制限）`,
+			});
+		}
+	}
+
+	/**
+	 * 期間ごとの合計を表示
+	 */
+	private renderTotals(rows: UsageSummaryRow[]) {
+		if (!this.totalsEl) {
+			return;
+		}
+		this.totalsEl.empty();
+
+		const totals = new Map<string, { calls: number; tokens: number; cost: number }>();
+		for (const row of rows) {
+			const total = totals.get(row.period) || { calls: 0, tokens: 0, cost: 0 };
+			total.calls += row.calls;
+			total.tokens += row.totalTokens;
+			total.cost += row.cost;
+			totals.set(row.period, total);
+		}
+
+		// 直近の期間のみ表示
+		const recentPeriods = Array.from(totals.keys()).slice(0, this.period === "daily" ? 7 : 6);
+		if (recentPeriods.length === 0) {
+			return;
+		}
+
+		this.totalsEl.createEl("h3", { text: this.period === "daily" ? "直近7日間" : "直近6か月" });
+		const list = this.totalsEl.createDiv("usage-totals-list");
+		for (const period of recentPeriods) {
+			const total = totals.get(period);
+			if (!total) {
+				continue;
+			}
+			const card = list.createDiv("usage-total-card");
+			card.createDiv({ text: period, cls: "usage-total-period" });
+			card.createDiv({ text: this.formatCost(total.cost), cls: "usage-total-cost" });
+			card.createDiv({
+				text: `${total.calls}回 / ${total.tokens.toLocaleString()}トークン`,
+				cls: "usage-total-detail",
+			});
+		}
+	}
+
+	/**
+	 * 機能・モデル別の内訳を表示
+	 */
+	private renderTable(rows: UsageSummaryRow[]) {
+		if (!this.tableContainerEl) {
+			return;
+		}
+		this.tableContainerEl.empty();
+
+		if (rows.length === 0) {
+			this.tableContainerEl.createEl("p", {
+				text: "まだ使用量の記録がありません。AI機能を使用すると、ここに集計が表示されます。",
+				cls: "usage-empty",
+			});
+			return;
+		}
+
+		this.tableContainerEl.createEl("h3", { text: "機能・モデル別の内訳" });
+		const table = this.tableContainerEl.createEl("table", { cls: "usage-table" });
+		const headerRow = table.createEl("thead").createEl("tr");
+		["期間", "機能", "モデル", "回数", "入力トークン", "出力トークン", "合計トークン", "推定コスト"].forEach(
+			(label) => headerRow.createEl("th", { text: label })
+		);
+
+		const body = table.createEl("tbody");
+		for (const row of rows) {
+			const tr = body.createEl("tr");
+			tr.createEl("td", { text: row.period });
+			tr.createEl("td", { text: AI_FEATURE_LABELS[row.feature] || row.feature });
+			tr.createEl("td", { text: row.model });
+			tr.createEl("td", { text: row.calls.toString(), cls: "usage-number" });
+			tr.createEl("td", { text: row.promptTokens.toLocaleString(), cls: "usage-number" });
+			tr.createEl("td", { text: row.completionTokens.toLocaleString(), cls: "usage-number" });
+			tr.createEl("td", { text: row.totalTokens.toLocaleString(), cls: "usage-number" });
+			tr.createEl("td", { text: this.formatCost(row.cost), cls: "usage-number" });
+		}
+	}
+
+	/**
+	 * コストを表示用に整形（USD）
+	 */
+	private formatCost(cost: number): string {
+		return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+	}
+}
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { App, TFile } from "obsidian";
+import { App as MockApp } from "./mocks/obsidian";
+import { AutoTagService } from "../src/services/auto-tag-service";
+import { MockAIService } from "../src/services/mock-ai-service";
+import { DEFAULT_SETTINGS } from "../src/settings";
+import type { KnowledgeConnectSettings, MockAIResponse } from "../src/types";
+
+function createSettings(mockAIResponses: MockAIResponse[]): KnowledgeConnectSettings {
+	return { ...DEFAULT_SETTINGS, aiService: "mock", mockAIResponses };
+}
+
+describe("AutoTagService", () => {
+	let app: MockApp;
+
+	beforeEach(() => {
+		app = new MockApp();
+	});
+
+	function createService(mockAIResponses: MockAIResponse[]): AutoTagService {
+		const settings = createSettings(mockAIResponses);
+		return new AutoTagService(app as unknown as App, settings, new MockAIService(settings));
+	}
+
+	async function createNote(path: string, content: string): Promise<TFile> {
+		return (await app.vault.create(path, content)) as unknown as TFile;
+	}
+
+	it("生成したタグをフロントマターのaigen-tagに書き込む", async () => {
+		const service = createService([{ content: JSON.stringify({ tags: ["設計", "TypeScript", "設計", " "] }) }]);
+		const file = await createNote("notes/design.md", "# 設計メモ\n\nTypeScriptで設計する。");
+
+		const result = await service.handleFileModify(file);
+
+		expect(result).toEqual({ tags: ["設計", "TypeScript"], cached: false });
+		expect(await app.vault.read(file)).toBe("---\naigen-tag: [設計, TypeScript]\n---\n# 設計メモ\n\nTypeScriptで設計する。");
+	});
+
+	it("既存のフロントマターの項目を残してタグを追加する", async () => {
+		const service = createService([{ content: JSON.stringify({ tags: ["日記"] }) }]);
+		const file = await createNote("diary.md", "---\ntitle: 今日の記録\n---\n本文");
+
+		await service.handleFileModify(file);
+
+		expect(await app.vault.read(file)).toBe("---\ntitle: 今日の記録\naigen-tag: [日記]\n---\n本文");
+	});
+
+	it("既にタグがある場合は生成せず、forceを指定した場合は置き換える", async () => {
+		const service = createService([{ content: JSON.stringify({ tags: ["新しいタグ"] }) }]);
+		const content = "---\naigen-tag: [古いタグ]\n---\n本文";
+		const file = await createNote("tagged.md", content);
+
+		expect(await service.handleFileModify(file)).toBeNull();
+		expect(await app.vault.read(file)).toBe(content);
+
+		await service.handleFileModify(file, true);
+		expect(service.getExistingTags(await app.vault.read(file))).toEqual(["新しいタグ"]);
+	});
+
+	it("Markdown以外のファイルと本文が空のノートは処理しない", async () => {
+		const service = createService([{ content: JSON.stringify({ tags: ["タグ"] }) }]);
+		const text = await createNote("data.txt", "テキスト");
+		const empty = await createNote("empty.md", "---\ntitle: 空\n---\n");
+
+		expect(await service.handleFileModify(text)).toBeNull();
+		expect(await service.handleFileModify(empty)).toBeNull();
+		expect(await app.vault.read(empty)).toBe("---\ntitle: 空\n---\n");
+	});
+
+	it("AIの呼び出しに失敗した場合はノートを変更しない", async () => {
+		const service = createService([{ error: { status: 500, message: "Internal Server Error" } }]);
+		const file = await createNote("note.md", "本文");
+
+		expect(await service.handleFileModify(file)).toBeNull();
+		expect(await app.vault.read(file)).toBe("本文");
+	});
+
+	it("AIサービスがない場合は処理しない", async () => {
+		const service = new AutoTagService(app as unknown as App, createSettings([]), null);
+		const file = await createNote("note.md", "本文");
+
+		expect(await service.handleFileModify(file)).toBeNull();
+	});
+
+	it("フロントマターのaigen-tagを取得する", () => {
+		const service = createService([]);
+		expect(service.getExistingTags("---\naigen-tag: [a, \"b c\"]\n---\n本文")).toEqual(["a", "b c"]);
+		expect(service.getExistingTags("---\naigen-tag: 単一\n---\n本文")).toEqual(["単一"]);
+		expect(service.getExistingTags("本文のみ")).toBeNull();
+	});
+});
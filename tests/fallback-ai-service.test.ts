@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AIService, ChatCompletionOptions, ChatCompletionResponse } from "../src/services/ai-service-interface";
+import { AIServiceFactory } from "../src/services/ai-service-factory";
+import { FallbackAIService, isRetryableAIError } from "../src/services/fallback-ai-service";
+import { DEFAULT_SETTINGS } from "../src/settings";
+import type { AIFallbackEntry, AIService as AIServiceType, KnowledgeConnectSettings } from "../src/types";
+import { AuthError, CancelledError, RateLimitError, ServerError, ValidationError } from "../src/utils/errors";
+
+type Step = string | Error;
+
+/**
+ * 呼び出しごとに応答またはエラーを順に返すサービス（受け取ったモデルを記録する）
+ */
+class ScriptedService implements AIService {
+	calls: Array<string | undefined> = [];
+
+	constructor(private name: string, private steps: Step[], private chunks: string[] = []) {}
+
+	getServiceName(): string {
+		return this.name;
+	}
+
+	isApiKeySet(): boolean {
+		return true;
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		this.calls.push(options.model);
+		const step = this.steps[Math.min(this.calls.length, this.steps.length) - 1];
+		if (step instanceof Error) {
+			throw step;
+		}
+		return { content: step, model: options.model || "default" };
+	}
+
+	async chatCompletionStream(options: ChatCompletionOptions, onDelta: (delta: string) => void): Promise<ChatCompletionResponse> {
+		this.chunks.forEach(onDelta);
+		return this.chatCompletion(options);
+	}
+}
+
+function createSettings(
+	aiFallbackChain: AIFallbackEntry[],
+	overrides: Partial<KnowledgeConnectSettings> = {}
+): KnowledgeConnectSettings {
+	return { ...DEFAULT_SETTINGS, aiService: "openrouter", aiFallbackChain, aiFallbackMaxRetries: 0, ...overrides };
+}
+
+function createFallback(settings: KnowledgeConnectSettings, services: Partial<Record<AIServiceType, AIService>>): FallbackAIService {
+	return new FallbackAIService(settings, (entry) => services[entry.service] as AIService);
+}
+
+const request: ChatCompletionOptions = { messages: [{ role: "user", content: "質問" }], model: "google/gemini-2.5-flash" };
+
+describe("isRetryableAIError", () => {
+	it("一時的なエラーのみリトライ対象とする", () => {
+		expect(isRetryableAIError(new RateLimitError("429"))).toBe(true);
+		expect(isRetryableAIError(new ServerError("503"))).toBe(true);
+		expect(isRetryableAIError(new AuthError("401"))).toBe(false);
+		expect(isRetryableAIError(new ValidationError("400"))).toBe(false);
+		expect(isRetryableAIError(new CancelledError())).toBe(false);
+	});
+
+	it("種類の分からないエラーはメッセージから判定する", () => {
+		expect(isRetryableAIError(new Error("OpenRouter API エラー: 502 Bad Gateway"))).toBe(true);
+		expect(isRetryableAIError(new Error("リクエストがタイムアウトしました"))).toBe(true);
+		expect(isRetryableAIError(new Error("OpenRouter API エラー: 400 Bad Request"))).toBe(false);
+		expect(isRetryableAIError("文字列")).toBe(false);
+	});
+});
+
+describe("FallbackAIService", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "warn").mockImplementation(() => undefined);
+		vi.spyOn(console, "log").mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+	});
+
+	it("一時的なエラーは同じサービスでリトライする", async () => {
+		vi.useFakeTimers();
+		const primary = new ScriptedService("OpenRouter", [new ServerError("503"), "応答"]);
+		const service = createFallback(createSettings([], { aiFallbackMaxRetries: 1 }), { openrouter: primary });
+
+		const pending = service.chatCompletion(request);
+		await vi.runAllTimersAsync();
+
+		expect((await pending).content).toBe("応答");
+		expect(primary.calls).toHaveLength(2);
+	});
+
+	it("リトライしても失敗した場合は次のサービスに切り替え、応答したサービス名を記録する", async () => {
+		const primary = new ScriptedService("OpenRouter", [new AuthError("401")]);
+		const fallback = new ScriptedService("LiteLLM", ["代替の応答"]);
+		const service = createFallback(createSettings([{ service: "litellm", model: "gpt-4o-mini" }]), {
+			openrouter: primary,
+			litellm: fallback,
+		});
+
+		const response = await service.chatCompletion(request);
+
+		expect(response.content).toBe("代替の応答");
+		expect(response.model).toBe("gpt-4o-mini (LiteLLM)");
+		expect(primary.calls).toHaveLength(1);
+	});
+
+	it("リトライの上限まで一時的なエラーが続いた場合は次のサービスに切り替える", async () => {
+		vi.useFakeTimers();
+		const primary = new ScriptedService("OpenRouter", [new RateLimitError("429")]);
+		const fallback = new ScriptedService("LiteLLM", ["代替の応答"]);
+		const service = createFallback(createSettings([{ service: "litellm" }], { aiFallbackMaxRetries: 2 }), {
+			openrouter: primary,
+			litellm: fallback,
+		});
+
+		const pending = service.chatCompletion(request);
+		await vi.runAllTimersAsync();
+
+		expect((await pending).content).toBe("代替の応答");
+		expect(primary.calls).toHaveLength(3);
+		expect(fallback.calls).toHaveLength(1);
+	});
+
+	it("APIキーが設定されていないサービスはスキップする", async () => {
+		const unconfigured = Object.assign(new ScriptedService("OpenRouter", ["応答"]), { isApiKeySet: () => false });
+		const fallback = new ScriptedService("LiteLLM", ["代替の応答"]);
+		const service = createFallback(createSettings([{ service: "litellm" }]), { openrouter: unconfigured, litellm: fallback });
+
+		expect((await service.chatCompletion(request)).content).toBe("代替の応答");
+		expect(unconfigured.calls).toHaveLength(0);
+	});
+
+	it("すべてのサービスが失敗した場合は最後のエラーを投げる", async () => {
+		const service = createFallback(createSettings([{ service: "litellm" }]), {
+			openrouter: new ScriptedService("OpenRouter", [new ServerError("503")]),
+			litellm: new ScriptedService("LiteLLM", [new ValidationError("400")]),
+		});
+
+		await expect(service.chatCompletion(request)).rejects.toBeInstanceOf(ValidationError);
+	});
+
+	it("別のサービスにはメインのサービスのモデルを渡さない", async () => {
+		const fallback = new ScriptedService("Ollama", ["応答"]);
+		const sameService = new ScriptedService("OpenRouter", [new ServerError("503")]);
+		const service = createFallback(createSettings([{ service: "ollama" }]), { openrouter: sameService, ollama: fallback });
+
+		await service.chatCompletion(request);
+
+		expect(sameService.calls).toEqual(["google/gemini-2.5-flash"]);
+		expect(fallback.calls).toEqual([undefined]);
+	});
+
+	it("ストリーミングで差分を受信した後は次のサービスに切り替えない", async () => {
+		const primary = new ScriptedService("OpenRouter", [new ServerError("503")], ["途中"]);
+		const fallback = new ScriptedService("LiteLLM", ["代替の応答"]);
+		const service = createFallback(createSettings([{ service: "litellm" }]), { openrouter: primary, litellm: fallback });
+
+		await expect(service.chatCompletionStream(request, () => undefined)).rejects.toBeInstanceOf(ServerError);
+		expect(fallback.calls).toHaveLength(0);
+	});
+
+	it("キャンセルされた場合は次のサービスに切り替えない", async () => {
+		const controller = new AbortController();
+		controller.abort();
+		const fallback = new ScriptedService("LiteLLM", ["代替の応答"]);
+		const service = createFallback(createSettings([{ service: "litellm" }]), {
+			openrouter: new ScriptedService("OpenRouter", [new CancelledError()]),
+			litellm: fallback,
+		});
+
+		await expect(service.chatCompletion({ ...request, signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+		expect(fallback.calls).toHaveLength(0);
+	});
+});
+
+describe("AIServiceFactory.getDefaultModel", () => {
+	it("メインのサービスにはaiModel、別のサービスにはそのサービスの既定モデルを返す", () => {
+		const settings = createSettings([], { aiService: "ollama", aiModel: "llama3" });
+		expect(AIServiceFactory.getDefaultModel(settings, "ollama")).toBe("llama3");
+		expect(AIServiceFactory.getDefaultModel(settings, "openrouter")).toBe("google/gemini-2.5-flash");
+		expect(AIServiceFactory.getDefaultModel(settings, "litellm")).toBe("gpt-3.5-turbo");
+		expect(AIServiceFactory.getDefaultModel(settings, "openai-compatible")).toBe("");
+	});
+});
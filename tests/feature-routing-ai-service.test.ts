@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	FeatureRoutingAIService,
+	getFeatureSettings,
+	resolveFeatureRequest,
+} from "../src/services/feature-routing-ai-service";
+import { MockAIService } from "../src/services/mock-ai-service";
+import { DEFAULT_SETTINGS } from "../src/settings";
+import type { AIFeatureRoute, KnowledgeConnectSettings } from "../src/types";
+
+function createSettings(routes: Partial<Record<"chat" | "auto-tag" | "title", AIFeatureRoute>>): KnowledgeConnectSettings {
+	return {
+		...DEFAULT_SETTINGS,
+		aiService: "ollama",
+		aiModel: "llama3",
+		openrouterApiKey: "sk-test",
+		aiFeatureRoutes: routes,
+	};
+}
+
+describe("機能ごとの割り当て", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("サービスだけを変更した割り当てでは、そのサービスの既定モデルを使用する", () => {
+		const settings = createSettings({ "auto-tag": { service: "openrouter" } });
+
+		expect(getFeatureSettings(settings, "auto-tag")).toMatchObject({ aiService: "openrouter", aiModel: "google/gemini-2.5-flash" });
+		expect(getFeatureSettings(settings, "title")).toBe(settings);
+	});
+
+	it("別のサービスに振り分けた場合は呼び出し元のモデルを渡さない", () => {
+		const settings = createSettings({ "auto-tag": { service: "openrouter" }, title: { model: "qwen3" } });
+
+		const routed = resolveFeatureRequest(settings, { feature: "auto-tag", model: "llama3", messages: [] });
+		expect(routed.serviceType).toBe("openrouter");
+		expect(routed.options.model).toBeUndefined();
+
+		const sameService = resolveFeatureRequest(settings, { feature: "title", model: "llama3", messages: [] });
+		expect(sameService.serviceType).toBe("ollama");
+		expect(sameService.options.model).toBe("qwen3");
+	});
+
+	it("画面で選択したモデルは割り当てのモデルより優先する", () => {
+		const settings = createSettings({ chat: { model: "qwen3" } });
+
+		expect(resolveFeatureRequest(settings, { feature: "chat", model: "gemma3", messages: [] }).options.model).toBe("gemma3");
+		expect(resolveFeatureRequest(settings, { feature: "chat", messages: [] }).options.model).toBe("qwen3");
+	});
+
+	it("温度0の割り当てを既定値で置き換えない", () => {
+		const settings = createSettings({ title: { temperature: 0 } });
+
+		expect(resolveFeatureRequest(settings, { feature: "title", temperature: 0.7, messages: [] }).options.temperature).toBe(0);
+	});
+
+	it("振り分け先のサービスには、そのサービスの既定モデルと割り当ての温度で送信する", async () => {
+		const bodies: Array<{ model: string; temperature: number }> = [];
+		vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+			bodies.push(JSON.parse(init.body as string));
+			return new Response(JSON.stringify({ model: "google/gemini-2.5-flash", choices: [{ message: { content: "応答" } }] }), {
+				status: 200,
+			});
+		});
+		const settings = createSettings({ "auto-tag": { service: "openrouter", temperature: 0 } });
+		const service = new FeatureRoutingAIService(settings, new MockAIService(settings));
+
+		await service.chatCompletion({ feature: "auto-tag", messages: [{ role: "user", content: "タグ" }] });
+
+		expect(bodies).toHaveLength(1);
+		expect(bodies[0].model).toBe("google/gemini-2.5-flash");
+		expect(bodies[0].temperature).toBe(0);
+	});
+});
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { App } from "obsidian";
+import { App as MockApp } from "./mocks/obsidian";
+import { LocalMCPServer } from "../src/services/local-mcp-server";
+import type { SearchResult } from "../src/services/mcp-service";
+
+describe("LocalMCPServer", () => {
+	let server: LocalMCPServer;
+
+	beforeEach(() => {
+		server = new LocalMCPServer(new MockApp() as unknown as App, () => null);
+	});
+
+	function post(path: string, body: unknown): Promise<Response> {
+		return server.fetch(path, { method: "POST", body: JSON.stringify(body) });
+	}
+
+	async function sync(content: string): Promise<void> {
+		await post("/search/sync", {
+			operations: [{ op: "upsert", file_path: "/vault/notes/design.md", content }],
+			vectorize: true,
+			chunk_size: 512,
+		});
+	}
+
+	it("JSONとして解析できない本文には400を返す", async () => {
+		const response = await server.fetch("/search/hybrid", { method: "POST", body: "{query:" });
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({ detail: "リクエストの本文をJSONとして解析できませんでした。" });
+	});
+
+	it("全文検索とベクトル検索で同じ箇所が見つかった場合は1件に統合する", async () => {
+		await sync("# 設計\nキャッシュの設計方針\n\n# 運用\n監視の手順");
+
+		const response = await post("/search/hybrid", { query: "キャッシュの設計方針", limit: 10 });
+		const { results } = (await response.json()) as { results: SearchResult[] };
+
+		expect(results).toHaveLength(1);
+		expect(results[0]).toMatchObject({ file_path: "notes/design.md", location_info: "行 2", start_line: 2 });
+	});
+
+	it("全文検索の行番号はフロントマターを含むノートの先頭から数え、フロントマターは検索しない", async () => {
+		await sync("---\ntitle: キャッシュ\n---\n# 設計\nキャッシュの設計方針");
+
+		const response = await post("/search/query", { query: "キャッシュ", limit: 10 });
+		const { results } = (await response.json()) as { results: SearchResult[] };
+
+		expect(results.map((result) => result.location_info)).toEqual(["行 5"]);
+		expect(results[0].snippet).toBe("# 設計\nキャッシュの設計方針");
+	});
+});
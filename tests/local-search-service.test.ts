@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Plugin } from "obsidian";
+import { App as MockApp } from "./mocks/obsidian";
+import { LocalSearchService } from "../src/services/local-search-service";
+import { DEFAULT_SETTINGS } from "../src/settings";
+
+describe("LocalSearchService", () => {
+	let app: MockApp;
+	let plugin: Plugin;
+
+	beforeEach(() => {
+		app = new MockApp();
+		plugin = { app, manifest: { id: "knowledge-connect", dir: ".obsidian/plugins/knowledge-connect" } } as unknown as Plugin;
+	});
+
+	function createService(): LocalSearchService {
+		return new LocalSearchService(plugin, { ...DEFAULT_SETTINGS, enableLocalVectorSearch: false });
+	}
+
+	async function search(service: LocalSearchService, query: string, limit = 10): Promise<string[]> {
+		return (await service.search(query, limit)).map((result) => result.file_path);
+	}
+
+	it("検索語の出現回数が多く、短いノートを上位にする", async () => {
+		await app.vault.create("often.md", "kubernetes kubernetes kubernetes deploy");
+		await app.vault.create("once.md", "kubernetes deploy notes about many other unrelated things here");
+		await app.vault.create("other.md", "cooking recipe");
+
+		expect(await search(createService(), "kubernetes")).toEqual(["often.md", "once.md"]);
+	});
+
+	it("多くのノートに含まれる語より、少ないノートにしか含まれない語を重視する", async () => {
+		await app.vault.create("common.md", "meeting meeting meeting");
+		await app.vault.create("rare.md", "meeting budget");
+		await app.vault.create("third.md", "meeting agenda");
+
+		expect((await search(createService(), "meeting budget"))[0]).toBe("rare.md");
+	});
+
+	it("一致した行の前後をスニペットにし、見出しの階層と行番号を付ける", async () => {
+		await app.vault.create("guide.md", "# Guide\n\n## Setup\nintro\ninstall docker first\noutro");
+
+		const [result] = await createService().search("docker", 10);
+
+		expect(result).toMatchObject({
+			file_path: "guide.md",
+			location_info: "行 5",
+			start_line: 5,
+			heading_path: ["Guide", "Setup"],
+			snippet: "## Setup\nintro\ninstall docker first\noutro",
+		});
+	});
+
+	it("検索のたびに変更・追加・削除されたノートだけをインデックスに反映する", async () => {
+		const service = createService();
+		const note = await app.vault.create("note.md", "alpha");
+		await app.vault.create("keep.md", "gamma");
+		expect(await service.update()).toBe(2);
+		expect(await service.update()).toBe(0);
+
+		await app.vault.modify(note, "beta");
+		await app.vault.create("new.md", "alpha");
+		expect(await search(service, "alpha")).toEqual(["new.md"]);
+		expect(await search(service, "beta")).toEqual(["note.md"]);
+
+		await app.vault.delete(note);
+		expect(await search(service, "beta")).toEqual([]);
+		expect(service.getStatus().documents).toBe(2);
+	});
+
+	it("保存したインデックスを読み込み、変更のないノートは読み込み直さない", async () => {
+		await app.vault.create("note.md", "alpha");
+		await createService().update();
+
+		const restored = createService();
+		await restored.load();
+
+		expect(restored.getStatus().documents).toBe(1);
+		expect(await restored.update()).toBe(0);
+		expect(await search(restored, "alpha")).toEqual(["note.md"]);
+	});
+
+	it("絞り込み条件に一致するノートのみを返す", async () => {
+		await app.vault.create("work/plan.md", "roadmap");
+		await app.vault.create("work2/plan.md", "roadmap");
+
+		const results = await createService().search("roadmap", 10, { path_prefix: ["work/"] });
+
+		expect(results.map((result) => result.file_path)).toEqual(["work/plan.md"]);
+	});
+});
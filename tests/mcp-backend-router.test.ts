@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { App } from "obsidian";
+import { App as MockApp } from "./mocks/obsidian";
+import { canMatchPathFilter, MCPBackendRouter } from "../src/services/mcp-backend-router";
+import { DEFAULT_SETTINGS } from "../src/settings";
+import type { MCPBackendConfig } from "../src/types";
+
+const wiki: MCPBackendConfig = {
+	id: "wiki",
+	name: "チームWiki",
+	enabled: true,
+	url: "http://wiki.test",
+	folders: ["TeamWiki"],
+	serverRoot: "/srv/shared",
+};
+const notes: MCPBackendConfig = { id: "notes", name: "ノート", enabled: true, url: "http://notes.test", folders: ["Notes"] };
+
+/**
+ * バックエンドごとに決まった検索結果を返し、問い合わせたホストを記録するfetch
+ */
+function stubBackends(results: Record<string, string[]>) {
+	const hosts: string[] = [];
+	vi.stubGlobal("fetch", async (url: string) => {
+		const host = new URL(url).host;
+		hosts.push(host);
+		const paths = results[host] || [];
+		return new Response(
+			JSON.stringify({
+				results: paths.map((path) => ({ file_path: path, file_type: "md", location_info: "行 1", snippet: path })),
+				total: paths.length,
+			}),
+			{ status: 200 }
+		);
+	});
+	return hosts;
+}
+
+function createRouter(backends: MCPBackendConfig[]): MCPBackendRouter {
+	return new MCPBackendRouter(new MockApp() as unknown as App, { ...DEFAULT_SETTINGS, mcpBackends: backends });
+}
+
+describe("検索バックエンドの振り分け", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("絞り込み条件のフォルダと検索対象のフォルダが重なるか判定する", () => {
+		expect(canMatchPathFilter(notes)).toBe(true);
+		expect(canMatchPathFilter(notes, { path_prefix: ["notes/daily/"] })).toBe(true);
+		expect(canMatchPathFilter(notes, { path_prefix: [""] })).toBe(true);
+		expect(canMatchPathFilter({ ...notes, folders: ["Notes/Daily"] }, { path_prefix: ["Notes"] })).toBe(true);
+		expect(canMatchPathFilter(notes, { path_prefix: ["TeamWiki", "Archive"] })).toBe(false);
+		expect(canMatchPathFilter(notes, { path_prefix: ["Notes2"] })).toBe(false);
+		expect(canMatchPathFilter({ ...notes, folders: [] }, { path_prefix: ["Archive"] })).toBe(true);
+	});
+
+	it("検索対象のフォルダが絞り込み条件と重ならないバックエンドには問い合わせない", async () => {
+		const hosts = stubBackends({ "wiki.test": ["/srv/shared/TeamWiki/a.md"] });
+		const router = createRouter([wiki, notes]);
+
+		const filters = { path_prefix: ["TeamWiki/"] };
+
+		const results = await router.search(
+			async (service) => (await service.searchDocumentsPost("設計", 10, filters)).results,
+			10,
+			undefined,
+			filters
+		);
+
+		expect(hosts).toEqual(["wiki.test"]);
+		expect(results.map((result) => result.file_path)).toEqual(["/vault/TeamWiki/a.md"]);
+	});
+
+	it("サーバー上のVaultのパスで返された結果も検索対象のフォルダで絞り込む", async () => {
+		stubBackends({
+			"wiki.test": ["/srv/shared/TeamWiki/a.md", "/srv/shared/Private/b.md", "/srv/other/c.md"],
+			"notes.test": ["/vault/Notes/d.md", "/vault/TeamWiki/e.md"],
+		});
+		const router = createRouter([wiki, notes]);
+
+		const results = await router.search(async (service) => (await service.searchDocumentsPost("設計", 10)).results, 10);
+
+		expect(results.map((result) => result.file_path).sort()).toEqual(["/vault/Notes/d.md", "/vault/TeamWiki/a.md"]);
+		expect(results.find((result) => result.file_path === "/vault/TeamWiki/a.md")?.backend).toBe("チームWiki");
+	});
+});
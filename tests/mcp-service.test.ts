@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { App } from "obsidian";
+import { App as MockApp } from "./mocks/obsidian";
+import { createBackendMCPService } from "../src/services/mcp-connection";
+import { MCPService, type Job } from "../src/services/mcp-service";
+import type { MCPBackendConfig } from "../src/types";
+
+const backend: MCPBackendConfig = { id: "main", name: "メイン", enabled: true, url: "http://mcp.test" };
+
+/**
+ * 送信したURLとリクエストボディを記録し、空の検索結果を返すfetch
+ */
+function stubSearchFetch() {
+	const requests: Array<{ url: string; body: unknown }> = [];
+	vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+		requests.push({ url, body: typeof init.body === "string" ? JSON.parse(init.body) : undefined });
+		return new Response(JSON.stringify({ results: [], total: 0 }), { status: 200 });
+	});
+	return requests;
+}
+
+describe("MCPServiceの絞り込み条件", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("path_prefixをVaultの絶対パスに変換して送信する", async () => {
+		const requests = stubSearchFetch();
+		const service = createBackendMCPService(new MockApp() as unknown as App, backend);
+
+		await service.searchDocumentsPost("設計", 10, { path_prefix: ["work/"], tags: ["project"] });
+
+		expect(requests[0].body).toEqual({
+			query: "設計",
+			limit: 10,
+			filters: { path_prefix: ["/vault/work/"], tags: ["project"] },
+		});
+	});
+
+	it("GETリクエストではクエリパラメータのJSONで送信する", async () => {
+		const requests = stubSearchFetch();
+		const service = createBackendMCPService(new MockApp() as unknown as App, backend);
+
+		await service.searchDocuments("設計", 10, { path_prefix: ["work"], file_types: ["md"] });
+
+		const filters = new URL(requests[0].url).searchParams.get("filters");
+		expect(JSON.parse(filters as string)).toEqual({ path_prefix: ["/vault/work"], file_types: ["md"] });
+	});
+});
+
+/**
+ * 指定したバイト列を順に送り、最後に接続を閉じるSSEの応答を返すfetch
+ */
+function stubEventStream(chunks: Array<string | Uint8Array>, init: ResponseInit = {}) {
+	vi.stubGlobal("fetch", async () => {
+		const encoder = new TextEncoder();
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				for (const chunk of chunks) {
+					controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+				}
+				controller.close();
+			},
+		});
+		return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" }, ...init });
+	});
+}
+
+/**
+ * ジョブのイベントを購読し、接続が終了するまでに受け取ったジョブと終了の理由を返す
+ */
+function collectJobEvents(service: MCPService): Promise<{ jobs: Job[]; result: "error" | "unsupported"; error?: Error }> {
+	return new Promise((resolve) => {
+		const jobs: Job[] = [];
+		service.subscribeJobEvents({
+			onJob: (job) => jobs.push(job),
+			onError: (error) => resolve({ jobs, result: "error", error }),
+			onUnsupported: () => resolve({ jobs, result: "unsupported" }),
+		});
+	});
+}
+
+describe("MCPServiceのジョブのイベント（SSE）", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("受信データの境界で分割された\\r\\nを1つの改行として扱う", async () => {
+		stubEventStream([
+			"event: job\r\ndata: {\"id\": 1, \"status\": \"running\"}\r",
+			"\n\r",
+			"\ndata: {\"id\": 2, \"status\": \"completed\"}\r\n\r\n",
+		]);
+
+		const { jobs, error } = await collectJobEvents(new MCPService("http://mcp.test"));
+
+		expect(jobs.map((job) => [job.id, job.status])).toEqual([[1, "running"], [2, "completed"]]);
+		expect(error?.message).toBe("ジョブのイベントの接続が切断されました。");
+	});
+
+	it("複数行のdataを連結し、コメントとジョブ以外のイベントは無視する", async () => {
+		stubEventStream([
+			": keep-alive\n\n",
+			"event: ping\ndata: {\"id\": 9}\n\n",
+			"data: {\"id\": 3,\ndata:  \"status\": \"pending\"}\n\n",
+			"data: 解析できないデータ\n\n",
+		]);
+
+		const { jobs } = await collectJobEvents(new MCPService("http://mcp.test"));
+
+		expect(jobs.map((job) => [job.id, job.status])).toEqual([[3, "pending"]]);
+	});
+
+	it("受信データの境界で分割されたマルチバイト文字を復元する", async () => {
+		const bytes = new TextEncoder().encode("data: {\"id\": 4, \"error_message\": \"失敗\"}\n\n");
+		const split = bytes.length - 6; // 「敗」の途中で分割
+		stubEventStream([bytes.slice(0, split), bytes.slice(split)]);
+
+		const { jobs } = await collectJobEvents(new MCPService("http://mcp.test"));
+
+		expect(jobs[0].error_message).toBe("失敗");
+	});
+
+	it("サーバーがイベントの配信に対応していない場合はonUnsupportedを呼ぶ", async () => {
+		stubEventStream([], { status: 404 });
+		expect((await collectJobEvents(new MCPService("http://mcp.test"))).result).toBe("unsupported");
+
+		stubEventStream(["{}"], { headers: { "Content-Type": "application/json" } });
+		expect((await collectJobEvents(new MCPService("http://mcp.test"))).result).toBe("unsupported");
+	});
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { MockAIService } from "../src/services/mock-ai-service";
+import { AIServiceFactory } from "../src/services/ai-service-factory";
+import { isRetryableAIError } from "../src/services/fallback-ai-service";
+import { AuthError, CancelledError, NetworkError, RateLimitError } from "../src/utils/errors";
+import { DEFAULT_SETTINGS } from "../src/settings";
+import type { KnowledgeConnectSettings, MockAIResponse } from "../src/types";
+
+function createSettings(mockAIResponses: MockAIResponse[] = []): KnowledgeConnectSettings {
+	return { ...DEFAULT_SETTINGS, aiService: "mock", mockAIResponses };
+}
+
+function ask(service: MockAIService, text: string) {
+	return service.chatCompletion({ messages: [{ role: "user", content: text }] });
+}
+
+describe("MockAIService", () => {
+	it("AIServiceFactoryからプロバイダーとして作成できる", () => {
+		const service = AIServiceFactory.createService(createSettings());
+		expect(service).toBeInstanceOf(MockAIService);
+		expect(service.isApiKeySet()).toBe(true);
+	});
+
+	it("応答が設定されていない場合はユーザーメッセージを返す", async () => {
+		const response = await ask(new MockAIService(createSettings()), "こんにちは");
+		expect(response.content).toBe("[Mock] こんにちは");
+		expect(response.model).toBe("mock-model");
+	});
+
+	it("matchなしの応答を順番に再生し、最後まで再生したら先頭に戻る", async () => {
+		const service = new MockAIService(createSettings([{ content: "1回目" }, { content: "2回目" }]));
+		const contents = [];
+		for (let i = 0; i < 3; i++) {
+			contents.push((await ask(service, "質問")).content);
+		}
+		expect(contents).toEqual(["1回目", "2回目", "1回目"]);
+	});
+
+	it("最後のユーザーメッセージにmatchが一致する応答を優先する", async () => {
+		const service = new MockAIService(createSettings([
+			{ content: "通常の応答" },
+			{ match: "^要約", content: "要約の応答" },
+		]));
+		expect((await ask(service, "要約してください")).content).toBe("要約の応答");
+		expect((await ask(service, "質問")).content).toBe("通常の応答");
+	});
+
+	it("設定した使用量とモデル名を返し、未設定の場合は使用量を概算する", async () => {
+		const usage = { promptTokens: 10, completionTokens: 20, totalTokens: 30 };
+		const service = new MockAIService(createSettings([
+			{ content: "応答", model: "scripted-model", usage },
+			{ content: "12345678" },
+		]));
+
+		const scripted = await ask(service, "質問");
+		expect(scripted.model).toBe("scripted-model");
+		expect(scripted.usage).toEqual(usage);
+
+		const estimated = await ask(service, "abcd");
+		expect(estimated.usage).toEqual({ promptTokens: 1, completionTokens: 2, totalTokens: 3 });
+	});
+
+	it("ストリーミングでは設定した差分を順に送り、全文を返す", async () => {
+		const service = new MockAIService(createSettings([{ chunks: ["こん", "にち", "は"] }]));
+		const deltas: string[] = [];
+		const response = await service.chatCompletionStream(
+			{ messages: [{ role: "user", content: "挨拶" }] },
+			(delta) => deltas.push(delta)
+		);
+		expect(deltas).toEqual(["こん", "にち", "は"]);
+		expect(response.content).toBe("こんにちは");
+	});
+
+	it("差分が設定されていない場合はcontentを分割して送る", async () => {
+		const content = "a".repeat(40);
+		const service = new MockAIService(createSettings([{ content }]));
+		const deltas: string[] = [];
+		await service.chatCompletionStream({ messages: [{ role: "user", content: "" }] }, (delta) => deltas.push(delta));
+		expect(deltas.length).toBe(3);
+		expect(deltas.join("")).toBe(content);
+	});
+
+	it("エラーが設定されている場合はHTTPステータスを含むエラーを投げる", async () => {
+		const service = new MockAIService(createSettings([{ error: { status: 429, message: "Rate limit exceeded" } }]));
+		await expect(ask(service, "質問")).rejects.toThrow("Mock API エラー: 429 Rate limit exceeded");
+	});
+
+	it("HTTPステータスに応じた種類のエラーを投げ、実際のサービスと同じくリトライ対象を判定できる", async () => {
+		const service = new MockAIService(createSettings([
+			{ error: { status: 429, message: "Rate limit exceeded", retryAfter: 30 } },
+			{ error: { status: 401, message: "Invalid API key" } },
+			{ error: { message: "Connection refused" } },
+		]));
+
+		const rateLimit = await ask(service, "質問").catch((error) => error);
+		expect(rateLimit).toBeInstanceOf(RateLimitError);
+		expect(rateLimit.status).toBe(429);
+		expect(rateLimit.retryAfter).toBe(30);
+		expect(isRetryableAIError(rateLimit)).toBe(true);
+
+		const auth = await ask(service, "質問").catch((error) => error);
+		expect(auth).toBeInstanceOf(AuthError);
+		expect(isRetryableAIError(auth)).toBe(false);
+
+		const network = await ask(service, "質問").catch((error) => error);
+		expect(network).toBeInstanceOf(NetworkError);
+		expect(isRetryableAIError(network)).toBe(true);
+	});
+
+	it("ツール呼び出しを設定した場合は応答に含める", async () => {
+		const toolCalls = [{ id: "call_1", name: "search_notes", arguments: "{\"query\":\"設計\"}" }];
+		const service = new MockAIService(createSettings([{ content: "", toolCalls }]));
+		expect((await ask(service, "検索して")).toolCalls).toEqual(toolCalls);
+	});
+
+	it("構造化出力の指定がある場合はスキーマに沿ったサンプルを返す", async () => {
+		const service = new MockAIService(createSettings());
+		const response = await service.chatCompletion({
+			messages: [{ role: "user", content: "タグを生成" }],
+			responseFormat: {
+				type: "json_schema",
+				name: "tags",
+				schema: {
+					type: "object",
+					properties: {
+						tags: { type: "array", items: { type: "string" } },
+						count: { type: "integer" },
+					},
+				},
+			},
+		});
+		expect(JSON.parse(response.content)).toEqual({ tags: ["mock"], count: 0 });
+	});
+
+	it("待機中に中断された場合はキャンセルのエラーを投げる", async () => {
+		const service = new MockAIService(createSettings([{ content: "遅い応答", delayMs: 1000 }]));
+		const controller = new AbortController();
+		const pending = service.chatCompletion({ messages: [{ role: "user", content: "質問" }], signal: controller.signal });
+		controller.abort();
+		await expect(pending).rejects.toBeInstanceOf(CancelledError);
+	});
+
+	it("応答に含まれるモデル名をモデル一覧として返す", async () => {
+		const service = new MockAIService(createSettings([{ content: "a", model: "model-a" }, { content: "b", model: "model-a" }]));
+		expect(await service.getModels()).toEqual(["mock-model", "model-a"]);
+	});
+});
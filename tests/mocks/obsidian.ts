@@ -0,0 +1,410 @@
+/**
+ * Obsidian Module Stub
+ * テストではvitest.config.mjsのaliasでobsidianモジュールをこのファイルに置き換え、Obsidianなしでサービスを実行する
+ * Vault・Workspace・Noticeなど、テスト対象が使用する範囲のみをメモリ上で実装する
+ */
+
+type ElementOptions = string | { text?: string; cls?: string | string[]; attr?: Record<string, string> };
+
+/**
+ * createDiv・createElなど、ObsidianがHTMLElementに追加するメソッドを持つ簡易的な要素
+ */
+export class FakeElement {
+	tagName: string;
+	children: FakeElement[] = [];
+	classes: Set<string> = new Set();
+	attributes: Record<string, string> = {};
+	textContent = "";
+	value = "";
+	disabled = false;
+	onclick: (() => unknown) | null = null;
+
+	constructor(tagName = "div", options?: ElementOptions) {
+		this.tagName = tagName;
+		if (typeof options === "string") {
+			this.addClass(options);
+		} else if (options) {
+			if (options.cls) {
+				this.addClass(...(Array.isArray(options.cls) ? options.cls : [options.cls]));
+			}
+			if (options.text !== undefined) {
+				this.textContent = options.text;
+			}
+			Object.assign(this.attributes, options.attr || {});
+		}
+	}
+
+	createEl(tagName: string, options?: ElementOptions): FakeElement {
+		const el = new FakeElement(tagName, options);
+		this.children.push(el);
+		return el;
+	}
+
+	createDiv(options?: ElementOptions): FakeElement {
+		return this.createEl("div", options);
+	}
+
+	createSpan(options?: ElementOptions): FakeElement {
+		return this.createEl("span", options);
+	}
+
+	empty(): void {
+		this.children = [];
+		this.textContent = "";
+	}
+
+	setText(text: string): void {
+		this.textContent = text;
+	}
+
+	addClass(...classes: string[]): void {
+		classes.forEach((cls) => cls.split(/\s+/).filter(Boolean).forEach((name) => this.classes.add(name)));
+	}
+
+	removeClass(...classes: string[]): void {
+		classes.forEach((cls) => this.classes.delete(cls));
+	}
+
+	toggleClass(cls: string, value: boolean): void {
+		if (value) {
+			this.addClass(cls);
+		} else {
+			this.removeClass(cls);
+		}
+	}
+
+	hasClass(cls: string): boolean {
+		return this.classes.has(cls);
+	}
+
+	addEventListener(): void {
+		// イベントは発火しないため登録のみ受け付ける
+	}
+
+	/**
+	 * 子要素を含めたテキスト
+	 */
+	getText(): string {
+		return [this.textContent, ...this.children.map((child) => child.getText())].filter(Boolean).join("\n");
+	}
+
+	/**
+	 * クラスを持つ子孫の要素を検索
+	 */
+	findAll(cls: string): FakeElement[] {
+		const found: FakeElement[] = [];
+		for (const child of this.children) {
+			if (child.hasClass(cls)) {
+				found.push(child);
+			}
+			found.push(...child.findAll(cls));
+		}
+		return found;
+	}
+}
+
+(globalThis as unknown as { createFragment: unknown }).createFragment = (callback?: (el: FakeElement) => void) => {
+	const fragment = new FakeElement("#fragment");
+	if (callback) {
+		callback(fragment);
+	}
+	return fragment;
+};
+
+/**
+ * 表示した通知（テストごとにNotice.messagesを空にして確認する）
+ */
+export class Notice {
+	static messages: string[] = [];
+	message: string;
+
+	constructor(message: string | FakeElement, timeout?: number) {
+		this.message = typeof message === "string" ? message : message.getText();
+		Notice.messages.push(this.message);
+	}
+
+	setMessage(message: string): this {
+		this.message = message;
+		return this;
+	}
+
+	hide(): void {
+		// 何もしない
+	}
+}
+
+export function normalizePath(path: string): string {
+	return path.replace(/\\/g, "/").replace(/\/+/g, "/").replace(/^\/|\/$/g, "");
+}
+
+/**
+ * フロントマターのtags・tagを#付きのタグの配列にする
+ */
+export function parseFrontMatterTags(frontmatter: Record<string, unknown> | null): string[] | null {
+	const value = frontmatter ? frontmatter.tags ?? frontmatter.tag : undefined;
+	if (value === undefined || value === null) {
+		return null;
+	}
+	const tags = Array.isArray(value) ? value.map(String) : String(value).split(/[,\s]+/);
+	return tags.filter((tag) => tag !== "").map((tag) => (tag.startsWith("#") ? tag : `#${tag}`));
+}
+
+export const Platform = {
+	isDesktop: true,
+	isDesktopApp: true,
+	isMobile: false,
+	isMobileApp: false,
+};
+
+export class TAbstractFile {
+	path: string;
+	name: string;
+	parent: TFolder | null = null;
+
+	constructor(path: string) {
+		this.path = path;
+		this.name = path.split("/").pop() || path;
+	}
+}
+
+export class TFile extends TAbstractFile {
+	basename: string;
+	extension: string;
+	stat = { ctime: 0, mtime: 0, size: 0 };
+
+	constructor(path: string) {
+		super(path);
+		const dot = this.name.lastIndexOf(".");
+		this.basename = dot > 0 ? this.name.substring(0, dot) : this.name;
+		this.extension = dot > 0 ? this.name.substring(dot + 1) : "";
+	}
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+
+	isRoot(): boolean {
+		return this.path === "" || this.path === "/";
+	}
+}
+
+/**
+ * Vaultの保存先（basePathはVaultの絶対パス）
+ */
+export class FileSystemAdapter {
+	private vault: Vault;
+	private basePath: string;
+	private data: Map<string, string> = new Map(); // Vaultのファイル以外（プラグインフォルダなど）の内容
+
+	constructor(vault: Vault, basePath: string) {
+		this.vault = vault;
+		this.basePath = basePath;
+	}
+
+	getBasePath(): string {
+		return this.basePath;
+	}
+
+	async exists(path: string): Promise<boolean> {
+		return this.data.has(path) || this.vault.getAbstractFileByPath(path) !== null;
+	}
+
+	async read(path: string): Promise<string> {
+		const content = this.data.get(path);
+		if (content === undefined) {
+			throw new Error(`File not found: ${path}`);
+		}
+		return content;
+	}
+
+	async write(path: string, content: string): Promise<void> {
+		this.data.set(path, content);
+	}
+}
+
+/**
+ * メモリ上のVault（絶対パスは/vault）
+ */
+export class Vault {
+	private files: Map<string, { file: TFile; content: string }> = new Map();
+	private folders: Map<string, TFolder> = new Map();
+	private clock = 1;
+	adapter: FileSystemAdapter = new FileSystemAdapter(this, "/vault");
+	configDir = ".obsidian";
+
+	getAbstractFileByPath(path: string): TAbstractFile | null {
+		const entry = this.files.get(path);
+		return entry ? entry.file : this.folders.get(path) || null;
+	}
+
+	getFiles(): TFile[] {
+		return Array.from(this.files.values()).map((entry) => entry.file);
+	}
+
+	getMarkdownFiles(): TFile[] {
+		return this.getFiles().filter((file) => file.extension === "md");
+	}
+
+	async read(file: TFile): Promise<string> {
+		return this.getEntry(file.path).content;
+	}
+
+	async cachedRead(file: TFile): Promise<string> {
+		return this.read(file);
+	}
+
+	async create(path: string, content: string): Promise<TFile> {
+		if (this.files.has(path)) {
+			throw new Error("File already exists.");
+		}
+		const file = new TFile(path);
+		this.files.set(path, { file, content });
+		this.touch(file, content);
+		return file;
+	}
+
+	async createFolder(path: string): Promise<TFolder> {
+		const folder = new TFolder(path);
+		this.folders.set(path, folder);
+		return folder;
+	}
+
+	async modify(file: TFile, content: string): Promise<void> {
+		this.getEntry(file.path).content = content;
+		this.touch(file, content);
+	}
+
+	async process(file: TFile, fn: (content: string) => string): Promise<string> {
+		const content = fn(await this.read(file));
+		await this.modify(file, content);
+		return content;
+	}
+
+	async delete(file: TAbstractFile): Promise<void> {
+		this.files.delete(file.path);
+		this.folders.delete(file.path);
+	}
+
+	on(): Record<string, never> {
+		return {};
+	}
+
+	private getEntry(path: string): { file: TFile; content: string } {
+		const entry = this.files.get(path);
+		if (!entry) {
+			throw new Error(`File not found: ${path}`);
+		}
+		return entry;
+	}
+
+	private touch(file: TFile, content: string): void {
+		file.stat = { ctime: file.stat.ctime || this.clock, mtime: this.clock++, size: content.length };
+	}
+}
+
+export class Workspace {
+	activeFile: TFile | null = null;
+
+	getActiveFile(): TFile | null {
+		return this.activeFile;
+	}
+
+	getActiveViewOfType(): null {
+		return null;
+	}
+
+	getLeavesOfType(): WorkspaceLeaf[] {
+		return [];
+	}
+
+	on(): Record<string, never> {
+		return {};
+	}
+}
+
+export class MetadataCache {
+	frontmatter: Map<string, Record<string, unknown>> = new Map(); // パス → フロントマター
+
+	getFileCache(file: TFile): { frontmatter?: Record<string, unknown> } | null {
+		const frontmatter = this.frontmatter.get(file.path);
+		return frontmatter ? { frontmatter } : null;
+	}
+
+	fileToLinktext(file: TFile): string {
+		return file.basename;
+	}
+}
+
+export class App {
+	vault = new Vault();
+	workspace = new Workspace();
+	metadataCache = new MetadataCache();
+	private localStorage: Map<string, unknown> = new Map();
+
+	loadLocalStorage(key: string): unknown {
+		return this.localStorage.has(key) ? this.localStorage.get(key) : null;
+	}
+
+	saveLocalStorage(key: string, data: unknown): void {
+		if (data === null || data === undefined) {
+			this.localStorage.delete(key);
+		} else {
+			this.localStorage.set(key, data);
+		}
+	}
+}
+
+export class Component {
+	registerEvent(): void {
+		// イベントは発火しないため登録のみ受け付ける
+	}
+
+	register(): void {
+		// 何もしない
+	}
+}
+
+export class WorkspaceLeaf {
+	app: App;
+	view: unknown = null;
+
+	constructor(app: App = new App()) {
+		this.app = app;
+	}
+}
+
+export class ItemView extends Component {
+	app: App;
+	leaf: WorkspaceLeaf;
+	containerEl: FakeElement = new FakeElement("div");
+
+	constructor(leaf: WorkspaceLeaf) {
+		super();
+		this.leaf = leaf;
+		this.app = leaf.app;
+		// Obsidianと同じく、1つ目の子要素はヘッダー、2つ目の子要素が内容
+		this.containerEl.createDiv("view-header");
+		this.containerEl.createDiv("view-content");
+	}
+}
+
+export class MarkdownView extends ItemView {
+	file: TFile | null = null;
+}
+
+export class Modal {
+	app: App;
+	contentEl: FakeElement = new FakeElement("div");
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	open(): void {
+		// 表示しない
+	}
+
+	close(): void {
+		// 何もしない
+	}
+}
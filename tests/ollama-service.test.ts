@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { OllamaService } from "../src/services/ollama-service";
+import { DEFAULT_SETTINGS } from "../src/settings";
+import { ServerError, TimeoutError } from "../src/utils/errors";
+
+/**
+ * 指定した行を送信するストリームを返すfetch（closeしない場合は、中断されるまで何も送らない）
+ */
+function stubStreamingFetch(lines: string[], close = false) {
+	vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+		const encoder = new TextEncoder();
+		const body = new ReadableStream<Uint8Array>({
+			start(controller) {
+				lines.forEach((line) => controller.enqueue(encoder.encode(`${line}\n`)));
+				if (close) {
+					controller.close();
+					return;
+				}
+				init.signal?.addEventListener("abort", () => {
+					controller.error(new DOMException("The operation was aborted.", "AbortError"));
+				});
+			},
+		});
+		return new Response(body, { status: 200 });
+	});
+}
+
+function createService(): OllamaService {
+	return new OllamaService({ ...DEFAULT_SETTINGS, aiService: "ollama", aiModel: "llama3", timeoutSeconds: 0.05 });
+}
+
+describe("OllamaService", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("ストリーミングの受信が途切れた場合はタイムアウトで中断する", async () => {
+		stubStreamingFetch([JSON.stringify({ model: "llama3", message: { content: "途中" }, done: false })]);
+		const deltas: string[] = [];
+
+		await expect(
+			createService().chatCompletionStream({ messages: [{ role: "user", content: "質問" }] }, (delta) => deltas.push(delta))
+		).rejects.toBeInstanceOf(TimeoutError);
+		expect(deltas).toEqual(["途中"]);
+	});
+
+	it("解析できない行を受信した場合はServerErrorを投げる", async () => {
+		stubStreamingFetch(["{\"message\": "]);
+
+		const error = await createService()
+			.chatCompletionStream({ messages: [{ role: "user", content: "質問" }] }, () => undefined)
+			.catch((e: unknown) => e);
+		expect(error).toBeInstanceOf(ServerError);
+		expect((error as ServerError).details).toBe("{\"message\":");
+	});
+
+	it("done: true の行で完了し、トークン数を返す", async () => {
+		stubStreamingFetch([
+			JSON.stringify({ model: "llama3", message: { content: "こんにちは" }, done: false }),
+			JSON.stringify({ model: "llama3", message: { content: "" }, done: true, prompt_eval_count: 3, eval_count: 2 }),
+		], true);
+
+		const response = await createService().chatCompletionStream({ messages: [{ role: "user", content: "挨拶" }] }, () => undefined);
+		expect(response.content).toBe("こんにちは");
+		expect(response.usage).toEqual({ promptTokens: 3, completionTokens: 2, totalTokens: 5 });
+	});
+});
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Plugin } from "obsidian";
+import { App as MockApp } from "./mocks/obsidian";
+import { ResponseCacheService, type ResponseCacheKeySource } from "../src/services/response-cache-service";
+import { CachingAIService } from "../src/services/caching-ai-service";
+import { MockAIService } from "../src/services/mock-ai-service";
+import { DEFAULT_SETTINGS } from "../src/settings";
+import type { KnowledgeConnectSettings, MockAIResponse } from "../src/types";
+
+const HOUR = 60 * 60 * 1000;
+
+function createSettings(overrides: Partial<KnowledgeConnectSettings> = {}): KnowledgeConnectSettings {
+	return { ...DEFAULT_SETTINGS, aiService: "mock", enableResponseCache: true, responseCacheTTLHours: 24, ...overrides };
+}
+
+function createPlugin(): Plugin {
+	return { app: new MockApp(), manifest: { id: "knowledge-connect", dir: ".obsidian/plugins/knowledge-connect" } } as unknown as Plugin;
+}
+
+const keySource: ResponseCacheKeySource = {
+	provider: "openrouter",
+	model: "google/gemini-2.5-flash",
+	messages: [{ role: "user", content: "要約して" }],
+	temperature: 0.3,
+};
+
+describe("ResponseCacheService", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("プロバイダー・モデル・メッセージ・temperatureが同じ場合のみ同じキーを作成する", async () => {
+		const cache = new ResponseCacheService(createPlugin(), createSettings());
+		const key = await cache.createKey(keySource);
+
+		expect(await cache.createKey({ ...keySource })).toBe(key);
+		expect(key).toMatch(/^[0-9a-f]{64}$/);
+		expect(await cache.createKey({ ...keySource, provider: "litellm" })).not.toBe(key);
+		expect(await cache.createKey({ ...keySource, model: "gpt-4o" })).not.toBe(key);
+		expect(await cache.createKey({ ...keySource, messages: [{ role: "user", content: "翻訳して" }] })).not.toBe(key);
+		expect(await cache.createKey({ ...keySource, temperature: 0 })).not.toBe(key);
+		expect(await cache.createKey({ ...keySource, temperature: undefined })).not.toBe(key);
+	});
+
+	it("有効期間内は保存した応答を返し、期限を過ぎたら削除する", async () => {
+		const cache = new ResponseCacheService(createPlugin(), createSettings());
+		await cache.set("key", { content: "要約", model: "model-a" });
+
+		vi.advanceTimersByTime(23 * HOUR);
+		expect(cache.get("key")).toEqual({ content: "要約", model: "model-a", usage: undefined, cached: true });
+
+		vi.advanceTimersByTime(2 * HOUR);
+		expect(cache.get("key")).toBeNull();
+		expect(cache.getStats().entries).toBe(0);
+	});
+
+	it("保存したキャッシュを読み込み、期限切れのエントリは読み込まない", async () => {
+		const plugin = createPlugin();
+		const settings = createSettings();
+		const cache = new ResponseCacheService(plugin, settings);
+		await cache.set("old", { content: "古い応答", model: "model-a" });
+		vi.advanceTimersByTime(12 * HOUR);
+		await cache.set("new", { content: "新しい応答", model: "model-a" });
+
+		vi.advanceTimersByTime(13 * HOUR);
+		const restored = new ResponseCacheService(plugin, settings);
+		await restored.load();
+
+		expect(restored.get("old")).toBeNull();
+		expect(restored.get("new")?.content).toBe("新しい応答");
+		expect(restored.getStats().entries).toBe(1);
+	});
+
+	it("上限サイズを超えた場合は最近使用していない応答から削除する", async () => {
+		// 1件あたり約70バイトの応答が2件だけ入る上限
+		const cache = new ResponseCacheService(createPlugin(), createSettings({ responseCacheMaxSizeMB: 160 / (1024 * 1024) }));
+		await cache.set("a", { content: "a".repeat(40), model: "m" });
+		await cache.set("b", { content: "b".repeat(40), model: "m" });
+		cache.get("a");
+		await cache.set("c", { content: "c".repeat(40), model: "m" });
+
+		expect(cache.get("a")).not.toBeNull();
+		expect(cache.get("b")).toBeNull();
+		expect(cache.get("c")).not.toBeNull();
+	});
+});
+
+describe("CachingAIService", () => {
+	function createService(responses: MockAIResponse[], settings = createSettings({ mockAIResponses: responses })) {
+		const cache = new ResponseCacheService(createPlugin(), settings);
+		return new CachingAIService(new MockAIService(settings), cache, settings);
+	}
+
+	const request = { messages: [{ role: "user" as const, content: "要約して" }] };
+
+	it("cacheに\"use\"を指定した呼び出しは保存した応答を再利用する", async () => {
+		const service = createService([{ content: "1回目" }, { content: "2回目" }]);
+
+		expect((await service.chatCompletion({ ...request, cache: "use" })).content).toBe("1回目");
+		expect(await service.chatCompletion({ ...request, cache: "use" })).toMatchObject({ content: "1回目", cached: true });
+		expect((await service.chatCompletion({ ...request, cache: "refresh" })).content).toBe("2回目");
+		expect((await service.chatCompletion({ ...request, cache: "use" })).content).toBe("2回目");
+	});
+
+	it("キャッシュを指定しない呼び出しと、キャッシュが無効な場合は毎回AIを呼び出す", async () => {
+		const service = createService([{ content: "1回目" }, { content: "2回目" }]);
+		expect((await service.chatCompletion(request)).content).toBe("1回目");
+		expect((await service.chatCompletion(request)).content).toBe("2回目");
+
+		const responses = [{ content: "1回目" }, { content: "2回目" }];
+		const disabled = createService(responses, createSettings({ mockAIResponses: responses, enableResponseCache: false }));
+		expect((await disabled.chatCompletion({ ...request, cache: "use" })).content).toBe("1回目");
+		expect((await disabled.chatCompletion({ ...request, cache: "use" })).content).toBe("2回目");
+	});
+
+	it("モデルを省略した呼び出しは、既定のモデルを指定した呼び出しと同じキャッシュを使用する", async () => {
+		const responses = [{ content: "1回目" }, { content: "2回目" }];
+		const service = createService(responses, createSettings({ mockAIResponses: responses, aiModel: "mock-model" }));
+
+		await service.chatCompletion({ ...request, cache: "use" });
+		expect((await service.chatCompletion({ ...request, model: "mock-model", cache: "use" })).content).toBe("1回目");
+		expect((await service.chatCompletion({ ...request, model: "other-model", cache: "use" })).content).toBe("2回目");
+	});
+
+	it("空の応答は保存しない", async () => {
+		const service = createService([{ content: " " }, { content: "応答" }]);
+
+		await service.chatCompletion({ ...request, cache: "use" });
+		expect((await service.chatCompletion({ ...request, cache: "use" })).content).toBe("応答");
+	});
+});
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { App } from "obsidian";
+import { App as MockApp } from "./mocks/obsidian";
+import { hasSearchFilters, matchesSearchFilters, parseSearchQuery } from "../src/utils/search-filters";
+
+describe("parseSearchQuery", () => {
+	it("絞り込み条件を取り出し、残りを検索クエリにする", () => {
+		const parsed = parseSearchQuery("設計方針 tag:#project path:/work/ after:2025-01-01 type:.MD レビュー");
+
+		expect(parsed.query).toBe("設計方針 レビュー");
+		expect(parsed.filters).toEqual({
+			tags: ["project"],
+			path_prefix: ["work/"],
+			modified_after: "2025-01-01",
+			file_types: ["md"],
+		});
+		expect(parsed.tokens.map((token) => token.raw)).toEqual(["tag:#project", "path:/work/", "after:2025-01-01", "type:.MD"]);
+	});
+
+	it("引用符で囲んだ値は空白を含めて取り出し、folder:はpath:として扱う", () => {
+		const parsed = parseSearchQuery("folder:\"My Notes/\" tag:a tag:b 会議");
+
+		expect(parsed.query).toBe("会議");
+		expect(parsed.filters).toEqual({ path_prefix: ["My Notes/"], tags: ["a", "b"] });
+	});
+
+	it("解釈できない日付と、単語の途中のコロンは検索語として残す", () => {
+		const parsed = parseSearchQuery("after:昨日 http://example.com/path:1");
+
+		expect(parsed.query).toBe("after:昨日 http://example.com/path:1");
+		expect(hasSearchFilters(parsed.filters)).toBe(false);
+	});
+});
+
+describe("matchesSearchFilters", () => {
+	let app: MockApp;
+
+	beforeEach(() => {
+		app = new MockApp();
+	});
+
+	function matches(path: string, filters: Parameters<typeof matchesSearchFilters>[2]): boolean {
+		return matchesSearchFilters(app as unknown as App, path, filters);
+	}
+
+	it("パスはフォルダの区切りで判定し、大文字・小文字を区別しない", () => {
+		const filters = { path_prefix: ["Work/"] };
+
+		expect(matches("work/plan.md", filters)).toBe(true);
+		expect(matches("work/sub/plan.md", filters)).toBe(true);
+		expect(matches("workshop/plan.md", filters)).toBe(false);
+		expect(matches("notes/work/plan.md", filters)).toBe(false);
+		expect(matches("workshop/plan.md", { path_prefix: ["work", "workshop"] })).toBe(true);
+	});
+
+	it("ファイルの種類は拡張子で判定する", () => {
+		expect(matches("a/report.PDF", { file_types: ["pdf"] })).toBe(true);
+		expect(matches("a/report.md", { file_types: ["pdf"] })).toBe(false);
+	});
+
+	it("タグは上位のタグでも一致し、aigen-tagも対象にする", async () => {
+		await app.vault.create("web.md", "");
+		await app.vault.create("ai.md", "");
+		await app.vault.create("none.md", "");
+		app.metadataCache.frontmatter.set("web.md", { tags: ["Project/Web"] });
+		app.metadataCache.frontmatter.set("ai.md", { "aigen-tag": ["設計"] });
+
+		expect(matches("web.md", { tags: ["#project"] })).toBe(true);
+		expect(matches("web.md", { tags: ["proj"] })).toBe(false);
+		expect(matches("ai.md", { tags: ["設計"] })).toBe(true);
+		expect(matches("none.md", { tags: ["設計"] })).toBe(false);
+		expect(matches("/srv/shared/web.md", { tags: ["project"] })).toBe(false);
+	});
+
+	it("更新日の指定は日付のみの場合その日の終わりまでを含める", async () => {
+		const file = await app.vault.create("daily.md", "");
+		file.stat.mtime = new Date(2025, 5, 30, 23, 0).getTime();
+
+		expect(matches("daily.md", { modified_after: "2025-06-30" })).toBe(true);
+		expect(matches("daily.md", { modified_after: "2025-07-01" })).toBe(false);
+		expect(matches("daily.md", { modified_before: "2025-06-30" })).toBe(true);
+		expect(matches("daily.md", { modified_before: "2025-06-29" })).toBe(false);
+	});
+});
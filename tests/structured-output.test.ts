@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { AIService, ChatCompletionOptions, ChatCompletionResponse } from "../src/services/ai-service-interface";
+import { ValidationError } from "../src/utils/errors";
+import {
+	TAGS_FORMAT,
+	TagsResult,
+	parseJsonResponse,
+	requestStructuredOutput,
+	validateJsonSchema,
+} from "../src/utils/structured-output";
+
+type Step = string | Error | { content: string; cached: true };
+
+/**
+ * 呼び出しごとに応答またはエラーを順に返し、受け取ったリクエストを記録するサービス
+ */
+class ScriptedService implements AIService {
+	requests: ChatCompletionOptions[] = [];
+
+	constructor(private steps: Step[]) {}
+
+	getServiceName(): string {
+		return "Scripted";
+	}
+
+	isApiKeySet(): boolean {
+		return true;
+	}
+
+	async chatCompletion(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		this.requests.push(options);
+		const step = this.steps[this.requests.length - 1];
+		if (step === undefined) {
+			throw new Error("想定より多く呼び出されました");
+		}
+		if (step instanceof Error) {
+			throw step;
+		}
+		if (typeof step === "string") {
+			return { content: step, model: "scripted" };
+		}
+		return { content: step.content, model: "scripted", cached: true };
+	}
+
+	async chatCompletionStream(options: ChatCompletionOptions): Promise<ChatCompletionResponse> {
+		return this.chatCompletion(options);
+	}
+}
+
+const request: ChatCompletionOptions = { messages: [{ role: "user", content: "タグを生成してください" }] };
+
+describe("parseJsonResponse", () => {
+	it("コードブロックや前後の説明文を取り除いて解析する", () => {
+		expect(parseJsonResponse("```json\n{\"tags\": [\"a\"]}\n```")).toEqual({ tags: ["a"] });
+		expect(parseJsonResponse("結果は次のとおりです。\n{\"tags\": []}\n以上です。")).toEqual({ tags: [] });
+	});
+
+	it("JSONが含まれない場合はエラーを投げる", () => {
+		expect(() => parseJsonResponse("タグはありません")).toThrow("応答にJSONが含まれていません。");
+	});
+});
+
+describe("validateJsonSchema", () => {
+	it("スキーマに従った値は問題なしとする", () => {
+		expect(validateJsonSchema({ tags: ["a", "b"] }, TAGS_FORMAT.schema)).toEqual([]);
+	});
+
+	it("必須プロパティの不足と要素の型の誤りを報告する", () => {
+		expect(validateJsonSchema({}, TAGS_FORMAT.schema)).toEqual(["$.tags がありません"]);
+		expect(validateJsonSchema({ tags: ["a", 1] }, TAGS_FORMAT.schema)).toEqual(["$.tags[1] は文字列である必要があります"]);
+	});
+
+	it("列挙値・整数・null以外の値を報告する", () => {
+		expect(validateJsonSchema("c", { type: "string", enum: ["a", "b"] })).toEqual(["$ は a, b のいずれかである必要があります"]);
+		expect(validateJsonSchema(1.5, { type: "integer" })).toEqual(["$ は整数である必要があります"]);
+		expect(validateJsonSchema([], { type: "object" })).toEqual(["$ はオブジェクトである必要があります"]);
+	});
+});
+
+describe("requestStructuredOutput", () => {
+	it("応答形式を指定し、スキーマの指示をシステムプロンプトに追加する", async () => {
+		const service = new ScriptedService(["{\"tags\": [\"設計\"]}"]);
+
+		const result = await requestStructuredOutput<TagsResult>(service, request, TAGS_FORMAT);
+
+		expect(result).toEqual({ tags: ["設計"] });
+		expect(service.requests[0].responseFormat).toEqual({ type: "json_schema", name: "tags", schema: TAGS_FORMAT.schema });
+		expect(service.requests[0].messages[0].role).toBe("system");
+	});
+
+	it("形式が不正な場合は問題点を伝えて修正を依頼する", async () => {
+		const service = new ScriptedService(["{\"tags\": \"設計\"}", "{\"tags\": [\"設計\"]}"]);
+
+		const result = await requestStructuredOutput<TagsResult>(service, request, TAGS_FORMAT);
+
+		expect(result).toEqual({ tags: ["設計"] });
+		const messages = service.requests[1].messages;
+		expect(messages[messages.length - 2]).toEqual({ role: "assistant", content: "{\"tags\": \"設計\"}" });
+		expect(messages[messages.length - 1].content).toContain("$.tags は配列である必要があります");
+	});
+
+	it("修正の依頼を上限まで繰り返しても不正な場合はエラーを投げる", async () => {
+		const service = new ScriptedService(["不正", "不正", "不正"]);
+
+		await expect(requestStructuredOutput(service, request, TAGS_FORMAT)).rejects.toThrow(
+			"AIの応答を指定された形式で解析できませんでした: 応答にJSONが含まれていません。"
+		);
+		expect(service.requests).toHaveLength(3);
+	});
+
+	it("応答形式の指定を拒否された場合は、指定なしで再送する", async () => {
+		const service = new ScriptedService([
+			new ValidationError("response_formatに対応していません", { status: 400 }),
+			"{\"tags\": []}",
+		]);
+
+		expect(await requestStructuredOutput<TagsResult>(service, request, TAGS_FORMAT)).toEqual({ tags: [] });
+		expect(service.requests[1].responseFormat).toBeUndefined();
+	});
+
+	it("キャッシュされた応答が不正な場合は、修正を依頼せずにキャッシュを使わずに再生成する", async () => {
+		const service = new ScriptedService([{ content: "不正", cached: true }, "{\"tags\": [\"新規\"]}"]);
+
+		expect(await requestStructuredOutput<TagsResult>(service, request, TAGS_FORMAT, 0)).toEqual({ tags: ["新規"] });
+		expect(service.requests[1].cache).toBe("refresh");
+		expect(service.requests[1].messages).toEqual(service.requests[0].messages);
+	});
+});
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { App, WorkspaceLeaf } from "obsidian";
+import { App as MockApp, FakeElement, Notice, WorkspaceLeaf as MockWorkspaceLeaf } from "./mocks/obsidian";
+import type KnowledgeConnectPlugin from "../src/main";
+import type { AIService } from "../src/services/ai-service-interface";
+import { MockAIService } from "../src/services/mock-ai-service";
+import { DEFAULT_SETTINGS } from "../src/settings";
+import type { KnowledgeConnectSettings, MockAIResponse } from "../src/types";
+import { CancelledError } from "../src/utils/errors";
+import { saveSummary } from "../src/utils/file-manager";
+import { SummaryView } from "../src/views/summary-view";
+
+function createSettings(mockAIResponses: MockAIResponse[], overrides: Partial<KnowledgeConnectSettings> = {}): KnowledgeConnectSettings {
+	return { ...DEFAULT_SETTINGS, aiService: "mock", mockAIResponses, ...overrides };
+}
+
+describe("要約", () => {
+	let app: MockApp;
+
+	beforeEach(() => {
+		app = new MockApp();
+		Notice.messages = [];
+	});
+
+	async function openSummaryView(settings: KnowledgeConnectSettings, aiService: AIService | null): Promise<SummaryView> {
+		const plugin = { settings, getAIService: () => aiService } as unknown as KnowledgeConnectPlugin;
+		const view = new SummaryView(new MockWorkspaceLeaf(app) as unknown as WorkspaceLeaf, plugin);
+		await view.onOpen();
+		return view;
+	}
+
+	function getContent(view: SummaryView): FakeElement {
+		return view.containerEl.children[1] as unknown as FakeElement;
+	}
+
+	it("要約をストリーミングで受信して表示する", async () => {
+		const settings = createSettings([{ match: "要約してください", chunks: ["要点は", "3つです。"] }]);
+		const view = await openSummaryView(settings, new MockAIService(settings));
+
+		await view.summarizeText("長い文章", "brief");
+
+		expect(view.summaryText).toBe("要点は3つです。");
+		const [result] = getContent(view).findAll("summary-text");
+		expect(result.getText()).toBe("要点は3つです。");
+		expect(Notice.messages).toContain("✅ 要約が完了しました");
+	});
+
+	it("自動保存が有効な場合は要約をノートとして保存する", async () => {
+		const settings = createSettings([{ content: "保存される要約" }], { enableAutoSave: true, defaultSaveFolder: "Summaries" });
+		const view = await openSummaryView(settings, new MockAIService(settings));
+
+		await view.summarizeText("長い文章");
+
+		const [file] = app.vault.getMarkdownFiles();
+		expect(file.path).toMatch(/^Summaries\/summary-.*\.md$/);
+		expect(await app.vault.read(file)).toBe("# 要約結果\n\n保存される要約");
+	});
+
+	it("AIの呼び出しに失敗した場合はエラーを通知し、初期表示に戻す", async () => {
+		const settings = createSettings([{ error: { status: 503, message: "Service Unavailable" } }]);
+		const view = await openSummaryView(settings, new MockAIService(settings));
+
+		await view.summarizeText("長い文章");
+
+		expect(view.summaryText).toBe("");
+		expect(Notice.messages).toEqual([
+			"❌ Mock API エラー: 503 Service Unavailable\n"
+				+ "サーバー側で問題が発生しています。しばらくしてから再試行してください。\n"
+				+ "詳細\nHTTPステータス: 503",
+		]);
+		expect(getContent(view).findAll("summary-empty")).toHaveLength(1);
+	});
+
+	it("ステータスバーからキャンセルされた場合は途中までの要約を残し、エラーを通知しない", async () => {
+		const settings = createSettings([], { notificationSettings: { ...DEFAULT_SETTINGS.notificationSettings, showInfo: true } });
+		const aiService = {
+			chatCompletionStream: async (_options: unknown, onDelta: (delta: string) => void) => {
+				onDelta("途中までの");
+				throw new CancelledError("リクエストがキャンセルされました。");
+			},
+		} as unknown as AIService;
+		const view = await openSummaryView(settings, aiService);
+
+		await view.summarizeText("長い文章");
+
+		expect(view.summaryText).toBe("途中までの");
+		expect(Notice.messages).toEqual(["ℹ️ 要約の生成を停止しました"]);
+		expect(getContent(view).findAll("summary-text")).toHaveLength(1);
+	});
+
+	it("AIサービスが利用できない場合は要約しない", async () => {
+		const view = await openSummaryView(createSettings([]), null);
+
+		await view.summarizeText("長い文章");
+
+		expect(Notice.messages[0]).toContain("APIキーが設定されていません");
+		expect(app.vault.getMarkdownFiles()).toHaveLength(0);
+	});
+
+	it("元のテキストを含めて要約を保存する", async () => {
+		const file = await saveSummary(app as unknown as App, createSettings([]), "要約", "元の文章");
+
+		expect(file).not.toBeNull();
+		expect(await app.vault.read(app.vault.getMarkdownFiles()[0])).toBe("# 要約結果\n\n要約\n\n---\n\n## 元のテキスト\n\n元の文章");
+	});
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { chunkMarkdown, estimateTokenCount, formatHeadingPath, getHeadingPath } from "../src/utils/text-processor";
+
+describe("chunkMarkdown", () => {
+	it("見出しごとにチャンクを作り、見出しの階層とフロントマターを含む行番号を付ける", () => {
+		const content = "---\ntags: [a]\n---\n# 設計\n概要です。\n## API\n詳細です。\n# 運用\n手順です。";
+
+		const chunks = chunkMarkdown(content);
+
+		expect(chunks.map((chunk) => [chunk.headings, chunk.startLine, chunk.endLine, chunk.text])).toEqual([
+			[["設計"], 4, 5, "# 設計\n概要です。"],
+			[["設計", "API"], 6, 7, "## API\n詳細です。"],
+			[["運用"], 8, 9, "# 運用\n手順です。"],
+		]);
+	});
+
+	it("見出しだけのセクションと、コードブロック内の#はチャンクにしない", () => {
+		const content = "# 空のセクション\n# コード\n```\n# コメント\n```";
+
+		const chunks = chunkMarkdown(content);
+
+		expect(chunks).toHaveLength(1);
+		expect(chunks[0].headings).toEqual(["コード"]);
+		expect(chunks[0].text).toBe("# コード\n```\n# コメント\n```");
+	});
+
+	it("サイズを超えるセクションはブロックの境界で区切り、末尾のブロックを重ねる", () => {
+		const paragraphs = ["あ".repeat(8), "い".repeat(8), "う".repeat(8)];
+		const chunks = chunkMarkdown(`# 見出し\n${paragraphs.join("\n\n")}`, { chunkSize: 18, chunkOverlap: 10 });
+
+		expect(chunks.map((chunk) => chunk.text)).toEqual([
+			`# 見出し\n${paragraphs[0]}`,
+			`${paragraphs[0]}\n\n${paragraphs[1]}`,
+			`${paragraphs[1]}\n\n${paragraphs[2]}`,
+		]);
+		expect(chunks.every((chunk) => chunk.headings[0] === "見出し")).toBe(true);
+	});
+
+	it("サイズを超える1行は文の区切りで分割する", () => {
+		const sentences = ["一".repeat(8) + "。", "二".repeat(8) + "。", "三".repeat(8) + "。"];
+		const chunks = chunkMarkdown(sentences.join(""), { chunkSize: 10, chunkOverlap: 0 });
+
+		expect(chunks.map((chunk) => chunk.text)).toEqual(sentences);
+		expect(chunks.every((chunk) => chunk.startLine === 1 && chunk.endLine === 1)).toBe(true);
+	});
+
+	it("句点のない長い行は文字数で分割し、英文は単語の途中で区切らない", () => {
+		const japanese = chunkMarkdown("長".repeat(25), { chunkSize: 10, chunkOverlap: 0 });
+		expect(japanese.map((chunk) => chunk.text)).toEqual(["長".repeat(10), "長".repeat(10), "長".repeat(5)]);
+
+		const words = Array.from({ length: 30 }, (_, i) => `word${i}`);
+		const english = chunkMarkdown(words.join(" "), { chunkSize: 10, chunkOverlap: 0 });
+		expect(english.length).toBeGreaterThan(1);
+		expect(english.every((chunk) => chunk.tokens <= 10)).toBe(true);
+		expect(english.map((chunk) => chunk.text).join(" ").split(/\s+/)).toEqual(words);
+	});
+});
+
+describe("見出しの階層", () => {
+	it("指定した行が属する見出しの階層を取得する", () => {
+		const lines = "# A\n## B\ntext\n## C\n```\n# not heading\n```\ntext".split("\n");
+
+		expect(getHeadingPath(lines, 2)).toEqual(["A", "B"]);
+		expect(getHeadingPath(lines, 7)).toEqual(["A", "C"]);
+	});
+
+	it("ノート名と見出しの階層を連結する", () => {
+		expect(formatHeadingPath("notes/設計.md", ["API", "認証"])).toBe("設計 › API › 認証");
+	});
+
+	it("日本語は1文字、それ以外は4文字を1トークンとして概算する", () => {
+		expect(estimateTokenCount("日本語abcd")).toBe(4);
+	});
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import type { App } from "obsidian";
+import { App as MockApp } from "./mocks/obsidian";
+import { getVaultBasePath, toServerPath, toVaultPath } from "../src/utils/vault-paths";
+
+describe("Vaultのパスの変換", () => {
+	const app = new MockApp() as unknown as App;
+
+	it("Vaultの絶対パスを取得する", () => {
+		expect(getVaultBasePath(app)).toBe("/vault");
+		expect(getVaultBasePath({ vault: { adapter: {} } } as unknown as App)).toBe("");
+	});
+
+	it("Vault内のパスをサーバーに渡す絶対パスに変換する", () => {
+		expect(toServerPath(app, "notes/a.md")).toBe("/vault/notes/a.md");
+		expect(toServerPath(app, "")).toBe("/vault");
+	});
+
+	it("サーバーが返すパスをVault内のパスに変換する", () => {
+		expect(toVaultPath(app, "/vault/notes/a.md")).toBe("notes/a.md");
+		expect(toVaultPath(app, "/vault")).toBe("");
+		expect(toVaultPath(app, "notes/a.md")).toBe("notes/a.md");
+	});
+
+	it("Vault外の絶対パスと、名前がVaultで始まる別のフォルダはnullを返す", () => {
+		expect(toVaultPath(app, "/vault-backup/a.md")).toBeNull();
+		expect(toVaultPath(app, "/srv/shared/a.md")).toBeNull();
+		expect(toVaultPath(app, "C:\\Users\\a.md")).toBeNull();
+	});
+
+	it("サーバー上のVaultのパスを指定した場合は、そのパスを基準に変換する", () => {
+		expect(toServerPath(app, "notes/a.md", "/srv/shared/")).toBe("/srv/shared/notes/a.md");
+		expect(toVaultPath(app, "/srv/shared/notes/a.md", "/srv/shared")).toBe("notes/a.md");
+		expect(toVaultPath(app, "D:\\shared\\notes\\a.md", "D:\\shared")).toBe("notes/a.md");
+		expect(toVaultPath(app, "/vault/notes/a.md", "/srv/shared")).toBeNull();
+	});
+});
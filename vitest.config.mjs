@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import { fileURLToPath } from "url";
+
+// テストではobsidianモジュールをスタブに置き換え、Obsidianなしでサービスを実行する
+export default defineConfig({
+	resolve: {
+		alias: {
+			obsidian: fileURLToPath(new URL("./tests/mocks/obsidian.ts", import.meta.url)),
+		},
+	},
+	test: {
+		include: ["tests/**/*.test.ts"],
+		environment: "node",
+	},
+});